@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { AIConfig, AIProvider, AI_MODELS, DEFAULT_AI_CONFIG } from '@/types/codeReview';
+import { AIConfig, AIProvider, ConsensusConfig, ConsensusReviewer, ContextDepth, DEFAULT_AI_CONFIG } from '@/types/codeReview';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,8 +7,14 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Bot, Eye, EyeOff, Save, CheckCircle, Key } from 'lucide-react';
+import { Bot, Eye, EyeOff, Save, CheckCircle, Key, Server, Users, Plus, Trash2 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { getWorkspaceId } from '@/hooks/useConfigDatabase';
+import { createAIProxyCompleter } from '@/lib/edgeProxy';
+import { AI_PROVIDERS, isAIConfigured } from '@/lib/aiProviders';
+import { CONTEXT_DEPTHS } from '@/lib/reviewContext';
+
+const DEFAULT_CONSENSUS: ConsensusConfig = { enabled: false, reviewers: [], requireAll: false };
 
 interface AIConfigPanelProps {
   config: AIConfig;
@@ -19,20 +25,43 @@ export function AIConfigPanel({ config, onSave }: AIConfigPanelProps) {
   const [localConfig, setLocalConfig] = useState<AIConfig>(config);
   const [showApiKey, setShowApiKey] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
+  const adapter = AI_PROVIDERS[localConfig.provider];
+  const isConfigured = isAIConfigured(localConfig);
 
   useEffect(() => {
     setLocalConfig(config);
   }, [config]);
 
   const handleProviderChange = (provider: AIProvider) => {
-    const models = AI_MODELS[provider];
     setLocalConfig({
       ...localConfig,
       provider,
-      model: models[0],
+      model: AI_PROVIDERS[provider].models[0] ?? '',
+      baseUrl: undefined,
+      contextWindow: undefined,
     });
   };
 
+  const consensus = localConfig.consensus ?? DEFAULT_CONSENSUS;
+
+  const setReviewers = (reviewers: ConsensusReviewer[]) => {
+    setLocalConfig({ ...localConfig, consensus: { ...consensus, reviewers } });
+  };
+
+  // Keys are stored per provider, so a reviewer switching provider takes that provider's hint
+  const keyHintFor = (provider: AIProvider) => provider === localConfig.provider
+    ? localConfig.apiKeyLastFour
+    : consensus.reviewers.find(r => r.provider === provider && r.apiKeyLastFour)?.apiKeyLastFour;
+
+  const handleAddReviewer = () => {
+    const provider = (Object.keys(AI_PROVIDERS) as AIProvider[]).find(p => p !== localConfig.provider) ?? localConfig.provider;
+    setReviewers([...consensus.reviewers, { provider, model: AI_PROVIDERS[provider].models[0] ?? '', apiKeyLastFour: keyHintFor(provider) }]);
+  };
+
+  const handleReviewerChange = (index: number, reviewer: ConsensusReviewer) => {
+    setReviewers(consensus.reviewers.map((r, i) => i === index ? reviewer : r));
+  };
+
   const handleSave = () => {
     onSave(localConfig);
     toast({
@@ -42,10 +71,10 @@ export function AIConfigPanel({ config, onSave }: AIConfigPanelProps) {
   };
 
   const handleTestConnection = async () => {
-    if (!localConfig.apiKey) {
+    if (!isConfigured) {
       toast({
-        title: "API Key Required",
-        description: "Please enter your API key first",
+        title: "Configuration Required",
+        description: adapter.requiresApiKey ? "Please enter the model, base URL and API key first" : "Please enter the model and base URL first",
         variant: "destructive",
       });
       return;
@@ -53,27 +82,13 @@ export function AIConfigPanel({ config, onSave }: AIConfigPanelProps) {
 
     setIsTesting(true);
     try {
-      // Test the API connection based on provider
-      const endpoint = getProviderEndpoint(localConfig.provider);
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localConfig.apiKey}`,
-          ...(localConfig.provider === 'anthropic' && { 'x-api-key': localConfig.apiKey, 'anthropic-version': '2023-06-01' }),
-        },
-        body: JSON.stringify(getTestPayload(localConfig)),
+      // The proxy uses the stored key when none was typed
+      const complete = createAIProxyCompleter(getWorkspaceId, localConfig.apiKey);
+      await complete({ provider: localConfig.provider, model: localConfig.model, baseUrl: localConfig.baseUrl, prompt: 'Hi', maxTokens: 10 });
+      toast({
+        title: "Connection Successful",
+        description: `Successfully connected to ${adapter.label}`,
       });
-
-      if (response.ok) {
-        toast({
-          title: "Connection Successful",
-          description: `Successfully connected to ${localConfig.provider}`,
-        });
-      } else {
-        const error = await response.json().catch(() => ({}));
-        throw new Error(error.error?.message || `API returned ${response.status}`);
-      }
     } catch (error) {
       toast({
         title: "Connection Failed",
@@ -109,44 +124,86 @@ export function AIConfigPanel({ config, onSave }: AIConfigPanelProps) {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="openai">OpenAI</SelectItem>
-                <SelectItem value="anthropic">Anthropic</SelectItem>
-                <SelectItem value="google">Google AI</SelectItem>
-                <SelectItem value="groq">Groq (Free Tier)</SelectItem>
+                {Object.entries(AI_PROVIDERS).map(([id, provider]) => (
+                  <SelectItem key={id} value={id}>{provider.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
 
+          {!adapter.baseUrl && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Server className="h-4 w-4" />
+                Base URL
+              </Label>
+              <Input
+                value={localConfig.baseUrl || ''}
+                onChange={(e) => setLocalConfig({ ...localConfig, baseUrl: e.target.value })}
+                placeholder={adapter.baseUrlPlaceholder}
+              />
+              <p className="text-xs text-muted-foreground">
+                Requests are sent from the Supabase edge functions, so the server must be reachable from them
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
-            <Label>Model</Label>
-            <Select
-              value={localConfig.model}
-              onValueChange={(v) => setLocalConfig({ ...localConfig, model: v })}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {AI_MODELS[localConfig.provider].map((model) => (
-                  <SelectItem key={model} value={model}>
-                    {model}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <Label>{localConfig.provider === 'azure-openai' ? 'Deployment' : 'Model'}</Label>
+            {adapter.models.length > 0 ? (
+              <Select
+                value={localConfig.model}
+                onValueChange={(v) => setLocalConfig({ ...localConfig, model: v })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {adapter.models.map((model) => (
+                    <SelectItem key={model} value={model}>
+                      {model}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                value={localConfig.model}
+                onChange={(e) => setLocalConfig({ ...localConfig, model: e.target.value })}
+                placeholder={adapter.modelPlaceholder}
+              />
+            )}
           </div>
 
+          {adapter.models.length === 0 && (
+            <div className="space-y-2">
+              <Label>Context Window (tokens)</Label>
+              <Input
+                type="number"
+                min={1024}
+                value={localConfig.contextWindow ?? ''}
+                onChange={(e) => setLocalConfig({ ...localConfig, contextWindow: e.target.value ? Number(e.target.value) : undefined })}
+                placeholder={String(adapter.defaultContextWindow)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Sizes review batches; leave blank for {adapter.defaultContextWindow.toLocaleString()}
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label className="flex items-center gap-2">
               <Key className="h-4 w-4" />
-              API Key
+              API Key{!adapter.requiresApiKey && ' (optional)'}
             </Label>
             <div className="relative">
               <Input
                 type={showApiKey ? "text" : "password"}
                 value={localConfig.apiKey}
                 onChange={(e) => setLocalConfig({ ...localConfig, apiKey: e.target.value })}
-                placeholder={`Enter your ${localConfig.provider} API key`}
+                placeholder={localConfig.apiKeyLastFour
+                  ? `Configured · ••••${localConfig.apiKeyLastFour}`
+                  : `Enter your ${adapter.label} API key`}
                 className="pr-10"
               />
               <Button
@@ -159,14 +216,54 @@ export function AIConfigPanel({ config, onSave }: AIConfigPanelProps) {
                 {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
               </Button>
             </div>
+            {localConfig.apiKeyLastFour && (
+              <p className="text-xs text-muted-foreground">
+                Stored encrypted. Leave blank to keep it, or enter a new key to replace it.
+              </p>
+            )}
             <p className="text-xs text-muted-foreground">
-              {localConfig.provider === 'groq' 
+              {localConfig.provider === 'groq'
                 ? "Groq offers free tier - Get key at console.groq.com"
-                : `Get your API key from ${getProviderUrl(localConfig.provider)}`
+                : adapter.keyHelp
+                  ? `Get your API key from ${adapter.keyHelp}`
+                  : "Only needed when the server was started with an API key"
               }
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label>Context Depth</Label>
+            <Select
+              value={localConfig.contextDepth || 'diff'}
+              onValueChange={(v) => setLocalConfig({ ...localConfig, contextDepth: v as ContextDepth })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CONTEXT_DEPTHS).map(([id, depth]) => (
+                  <SelectItem key={id} value={id}>{depth.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {CONTEXT_DEPTHS[localConfig.contextDepth || 'diff'].description}. Context shares the model's window with the diff, so deeper levels mean more, smaller batches.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Incremental Re-Reviews</Label>
+              <p className="text-xs text-muted-foreground">
+                Re-runs only review commits pushed since the last review
+              </p>
+            </div>
+            <Switch
+              checked={localConfig.incrementalReview !== false}
+              onCheckedChange={(v) => setLocalConfig({ ...localConfig, incrementalReview: v })}
+            />
+          </div>
+
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
               <Label>Post Reviews to GitHub</Label>
@@ -179,15 +276,81 @@ export function AIConfigPanel({ config, onSave }: AIConfigPanelProps) {
               onCheckedChange={(v) => setLocalConfig({ ...localConfig, postToGitHub: v })}
             />
           </div>
+
+          {localConfig.postToGitHub && (
+            <div className="space-y-2">
+              <Label>Comment Style</Label>
+              <Select
+                value={localConfig.commentMode || 'summary'}
+                onValueChange={(v) => setLocalConfig({ ...localConfig, commentMode: v as 'summary' | 'inline' })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="summary">Single summary comment</SelectItem>
+                  <SelectItem value="inline">Inline comments on changed lines</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Inline mode anchors each suggestion to its diff line; suggestions outside the diff stay in the summary
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Consensus */}
+        <div className="space-y-3 p-4 rounded-lg bg-muted/20 border border-border">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Consensus Review
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Run full reviews on more models and merge their scores and suggestions
+              </p>
+            </div>
+            <Switch
+              checked={consensus.enabled}
+              onCheckedChange={(v) => setLocalConfig({ ...localConfig, consensus: { ...consensus, enabled: v } })}
+            />
+          </div>
+
+          {consensus.enabled && (
+            <>
+              {consensus.reviewers.map((reviewer, index) => (
+                <ConsensusReviewerFields
+                  key={index}
+                  reviewer={reviewer}
+                  sharesPrimaryKey={reviewer.provider === localConfig.provider}
+                  onChange={(r) => handleReviewerChange(index, r.provider !== reviewer.provider ? { ...r, apiKey: '', apiKeyLastFour: keyHintFor(r.provider) } : r)}
+                  onRemove={() => setReviewers(consensus.reviewers.filter((_, i) => i !== index))}
+                />
+              ))}
+              {consensus.reviewers.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Add at least one model to review alongside {localConfig.model || adapter.label}
+                </p>
+              )}
+              <Button variant="outline" size="sm" onClick={handleAddReviewer}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Model
+              </Button>
+            </>
+          )}
         </div>
 
         {/* Status */}
-        {localConfig.apiKey && (
+        {isConfigured && (
           <div className="flex items-center gap-2 p-3 rounded-lg bg-muted/30 border border-border">
             <CheckCircle className="h-4 w-4 text-success" />
-            <span className="text-sm">API key configured</span>
+            <span className="text-sm">
+              {adapter.requiresApiKey ? 'API key configured' : 'Server configured'}
+              {localConfig.apiKeyLastFour && !localConfig.apiKey && ` · ••••${localConfig.apiKeyLastFour}`}
+            </span>
             <Badge variant="outline" className="ml-auto">
-              {localConfig.provider}
+              {adapter.label}
             </Badge>
           </div>
         )}
@@ -197,7 +360,7 @@ export function AIConfigPanel({ config, onSave }: AIConfigPanelProps) {
           <Button
             variant="outline"
             onClick={handleTestConnection}
-            disabled={!localConfig.apiKey || isTesting}
+            disabled={!isConfigured || isTesting}
           >
             {isTesting ? "Testing..." : "Test Connection"}
           </Button>
@@ -211,47 +374,84 @@ export function AIConfigPanel({ config, onSave }: AIConfigPanelProps) {
   );
 }
 
-function getProviderEndpoint(provider: AIProvider): string {
-  switch (provider) {
-    case 'openai':
-      return 'https://api.openai.com/v1/chat/completions';
-    case 'anthropic':
-      return 'https://api.anthropic.com/v1/messages';
-    case 'google':
-      return 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent';
-    case 'groq':
-      return 'https://api.groq.com/openai/v1/chat/completions';
-    default:
-      return '';
-  }
+interface ConsensusReviewerFieldsProps {
+  reviewer: ConsensusReviewer;
+  /** Reviewers on the primary provider use the primary key. */
+  sharesPrimaryKey: boolean;
+  onChange: (reviewer: ConsensusReviewer) => void;
+  onRemove: () => void;
 }
 
-function getProviderUrl(provider: AIProvider): string {
-  switch (provider) {
-    case 'openai':
-      return 'platform.openai.com';
-    case 'anthropic':
-      return 'console.anthropic.com';
-    case 'google':
-      return 'makersuite.google.com';
-    case 'groq':
-      return 'console.groq.com';
-    default:
-      return '';
-  }
-}
+function ConsensusReviewerFields({ reviewer, sharesPrimaryKey, onChange, onRemove }: ConsensusReviewerFieldsProps) {
+  const adapter = AI_PROVIDERS[reviewer.provider];
 
-function getTestPayload(config: AIConfig) {
-  if (config.provider === 'anthropic') {
-    return {
-      model: config.model,
-      max_tokens: 10,
-      messages: [{ role: 'user', content: 'Hi' }],
-    };
-  }
-  return {
-    model: config.model,
-    messages: [{ role: 'user', content: 'Hi' }],
-    max_tokens: 10,
-  };
-}
\ No newline at end of file
+  return (
+    <div className="space-y-2 p-3 rounded-lg bg-background/50 border border-border">
+      <div className="flex items-center gap-2">
+        <Select
+          value={reviewer.provider}
+          onValueChange={(v) => onChange({
+            provider: v as AIProvider,
+            model: AI_PROVIDERS[v as AIProvider].models[0] ?? '',
+          })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(AI_PROVIDERS).map(([id, provider]) => (
+              <SelectItem key={id} value={id}>{provider.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {adapter.models.length > 0 ? (
+          <Select
+            value={reviewer.model}
+            onValueChange={(v) => onChange({ ...reviewer, model: v })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {adapter.models.map((model) => (
+                <SelectItem key={model} value={model}>
+                  {model}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            value={reviewer.model}
+            onChange={(e) => onChange({ ...reviewer, model: e.target.value })}
+            placeholder={adapter.modelPlaceholder}
+          />
+        )}
+        <Button variant="ghost" size="icon" className="shrink-0" title="Remove model" onClick={onRemove}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+
+      {!adapter.baseUrl && (
+        <Input
+          value={reviewer.baseUrl || ''}
+          onChange={(e) => onChange({ ...reviewer, baseUrl: e.target.value })}
+          placeholder={adapter.baseUrlPlaceholder}
+        />
+      )}
+
+      {sharesPrimaryKey ? (
+        <p className="text-xs text-muted-foreground">Uses the primary {adapter.label} API key</p>
+      ) : (
+        <Input
+          type="password"
+          value={reviewer.apiKey || ''}
+          onChange={(e) => onChange({ ...reviewer, apiKey: e.target.value })}
+          placeholder={reviewer.apiKeyLastFour
+            ? `Configured · ••••${reviewer.apiKeyLastFour}`
+            : `${adapter.label} API key${adapter.requiresApiKey ? '' : ' (optional)'}`}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { AIReviewResult, PullRequest, ReviewCommand, JiraTicket } from '@/types/codeReview';
+import { AICodeSuggestion, AIReviewResult, AppliedRules, ConsensusResult, IncrementalReview, PullRequest, ReviewCommand, JiraTicket, ScoreSpread } from '@/types/codeReview';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -23,7 +23,11 @@ import {
   Wrench,
   TestTube,
   Bot,
-  Ticket
+  Ticket,
+  GitCommit,
+  Users,
+  ScrollText,
+  GitCompare
 } from 'lucide-react';
 
 interface AIReviewPanelProps {
@@ -31,10 +35,25 @@ interface AIReviewPanelProps {
   review: AIReviewResult | null;
   onGenerateReview: (command: ReviewCommand) => Promise<void>;
   isGenerating: boolean;
+  /** Summary streamed so far while a review is generated. */
+  streamingSummary?: string | null;
   jiraTicket?: JiraTicket | null;
+  onSuggestionStatus?: (suggestion: AICodeSuggestion, status: 'accepted' | 'rejected') => Promise<void>;
+  onApplySuggestion?: (suggestion: AICodeSuggestion) => Promise<void>;
+  pendingSuggestionId?: string | null;
 }
 
-export function AIReviewPanel({ pr, review, onGenerateReview, isGenerating, jiraTicket }: AIReviewPanelProps) {
+export function AIReviewPanel({
+  pr,
+  review,
+  onGenerateReview,
+  isGenerating,
+  streamingSummary,
+  jiraTicket,
+  onSuggestionStatus,
+  onApplySuggestion,
+  pendingSuggestionId,
+}: AIReviewPanelProps) {
   const [activeCommand, setActiveCommand] = useState<ReviewCommand['type'] | null>(null);
 
   const handleCommand = async (type: ReviewCommand['type']) => {
@@ -95,6 +114,12 @@ export function AIReviewPanel({ pr, review, onGenerateReview, isGenerating, jira
               Score: {review.overallScore}/100
             </Badge>
           )}
+          {review?.consensus && (
+            <Badge variant="secondary" className="gap-1" title={`Spread of ${review.consensus.overall.spread} points between models`}>
+              <Users className="h-3 w-3" />
+              {review.consensus.models.length} models · {review.consensus.overall.confidence} confidence
+            </Badge>
+          )}
           {jiraTicket && (
             <Badge variant="secondary" className="ml-2 gap-1">
               <Ticket className="h-3 w-3" />
@@ -166,14 +191,27 @@ export function AIReviewPanel({ pr, review, onGenerateReview, isGenerating, jira
           </Button>
         </div>
 
-        {isGenerating && !review && (
+        {isGenerating && streamingSummary && (
+          <div className="p-4 rounded-lg bg-muted/30 border border-border">
+            <h4 className="font-medium mb-2 flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Summary
+            </h4>
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+              {streamingSummary}
+              <span className="ml-0.5 inline-block h-4 w-1.5 animate-pulse bg-primary/60 align-text-bottom" />
+            </p>
+          </div>
+        )}
+
+        {isGenerating && !review && !streamingSummary && (
           <div className="flex flex-col items-center justify-center py-8">
             <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
             <p className="text-muted-foreground">Analyzing code with AI...</p>
           </div>
         )}
 
-        {review && (
+        {review && !(isGenerating && streamingSummary) && (
           <Tabs defaultValue="summary" className="w-full">
             <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="summary">Summary</TabsTrigger>
@@ -203,6 +241,25 @@ export function AIReviewPanel({ pr, review, onGenerateReview, isGenerating, jira
                 </div>
               )}
 
+              {review.skippedFiles && review.skippedFiles.length > 0 && (
+                <div className="p-4 rounded-lg bg-warning/10 border border-warning/30">
+                  <h4 className="font-medium mb-2 flex items-center gap-2">
+                    <AlertCircle className="h-4 w-4 text-warning" />
+                    {review.skippedFiles.length} file{review.skippedFiles.length === 1 ? '' : 's'} not reviewed
+                  </h4>
+                  <ul className="space-y-1 text-xs">
+                    {review.skippedFiles.map((file) => (
+                      <li key={file.filename} className="flex items-center justify-between gap-2">
+                        <span className="font-mono truncate">{file.filename}</span>
+                        <Badge variant="outline" className="shrink-0">
+                          {file.reason === 'binary' ? 'binary' : 'too large'}
+                        </Badge>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="flex items-center justify-between p-3 rounded-lg border border-border">
                 <span className="text-sm text-muted-foreground">
                   Generated by {review.model}
@@ -225,9 +282,13 @@ export function AIReviewPanel({ pr, review, onGenerateReview, isGenerating, jira
                   <div className="text-5xl font-bold text-gradient mb-2">
                     {review.overallScore}
                   </div>
-                  <p className="text-sm text-muted-foreground">Overall Score</p>
+                  <p className="text-sm text-muted-foreground">
+                    {review.consensus ? `Mean of ${review.consensus.models.length} models` : 'Overall Score'}
+                  </p>
                 </div>
 
+                {review.consensus && <ConsensusScores consensus={review.consensus} />}
+
                 <div className="grid grid-cols-1 gap-3">
                   <ScoreBar
                     icon={<Wrench className="h-4 w-4" />}
@@ -261,10 +322,12 @@ export function AIReviewPanel({ pr, review, onGenerateReview, isGenerating, jira
             <TabsContent value="suggestions" className="mt-4">
               <ScrollArea className="h-[300px]">
                 <div className="space-y-3">
+                  {review.incremental && <AddressedSuggestions incremental={review.incremental} />}
+                  {review.rules && review.rules.rules.length > 0 && <AppliedRulesList rules={review.rules} />}
                   {review.suggestions.map((suggestion) => (
                     <div
                       key={suggestion.id}
-                      className="p-4 rounded-lg border border-border bg-card/50"
+                      className={`p-4 rounded-lg border border-border bg-card/50 ${suggestion.status === 'rejected' ? 'opacity-50' : ''}`}
                     >
                       <div className="flex items-start justify-between mb-2">
                         <div className="flex items-center gap-2">
@@ -278,18 +341,85 @@ export function AIReviewPanel({ pr, review, onGenerateReview, isGenerating, jira
                             {suggestion.severity}
                           </Badge>
                           <Badge variant="outline">{suggestion.type}</Badge>
+                          {suggestion.agreement && (
+                            <Badge
+                              variant={suggestion.agreement.count > 1 ? 'secondary' : 'outline'}
+                              className="gap-1"
+                              title={`Raised by ${suggestion.agreement.models.join(', ')}`}
+                            >
+                              <Users className="h-3 w-3" />
+                              {suggestion.agreement.count}/{suggestion.agreement.total}
+                            </Badge>
+                          )}
+                          {suggestion.rule && (
+                            <Badge
+                              variant="outline"
+                              className="gap-1 font-mono"
+                              title={review.rules?.rules.find(r => r.id === suggestion.rule)?.instruction}
+                            >
+                              <ScrollText className="h-3 w-3" />
+                              {suggestion.rule}
+                            </Badge>
+                          )}
+                          {suggestion.status !== 'pending' && (
+                            <Badge variant={suggestion.status === 'rejected' ? 'outline' : 'secondary'} className="capitalize">
+                              {suggestion.status}
+                            </Badge>
+                          )}
                         </div>
                         <div className="flex items-center gap-1">
-                          <Button variant="ghost" size="icon" className="h-7 w-7">
-                            <Check className="h-4 w-4 text-success" />
-                          </Button>
-                          <Button variant="ghost" size="icon" className="h-7 w-7">
-                            <X className="h-4 w-4 text-destructive" />
-                          </Button>
+                          {pendingSuggestionId === suggestion.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                          ) : suggestion.status !== 'applied' && (
+                            <>
+                              {suggestion.code && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7"
+                                  title="Commit this change to the PR branch"
+                                  disabled={!onApplySuggestion}
+                                  onClick={() => onApplySuggestion?.(suggestion)}
+                                >
+                                  <GitCommit className="h-4 w-4 text-primary" />
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                title="Accept"
+                                disabled={!onSuggestionStatus || suggestion.status === 'accepted'}
+                                onClick={() => onSuggestionStatus?.(suggestion, 'accepted')}
+                              >
+                                <Check className="h-4 w-4 text-success" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                title="Reject"
+                                disabled={!onSuggestionStatus || suggestion.status === 'rejected'}
+                                onClick={() => onSuggestionStatus?.(suggestion, 'rejected')}
+                              >
+                                <X className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </div>
                       <p className="text-sm font-medium mb-1">{suggestion.message}</p>
                       <p className="text-sm text-muted-foreground">{suggestion.suggestion}</p>
+                      {suggestion.code && (
+                        <div className="mt-2 rounded border border-border overflow-hidden font-mono text-xs">
+                          <pre className="px-3 py-2 bg-destructive/10 text-destructive whitespace-pre-wrap">
+                            {suggestion.code.before.split('\n').map(l => `- ${l}`).join('\n')}
+                          </pre>
+                          <pre className="px-3 py-2 bg-success/10 text-success whitespace-pre-wrap">
+                            {suggestion.code.after.split('\n').map(l => `+ ${l}`).join('\n')}
+                          </pre>
+                        </div>
+                      )}
                       <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
                         <span>{suggestion.file}</span>
                         {suggestion.line && <span>Line {suggestion.line}</span>}
@@ -323,6 +453,112 @@ export function AIReviewPanel({ pr, review, onGenerateReview, isGenerating, jira
   );
 }
 
+function AddressedSuggestions({ incremental }: { incremental: IncrementalReview }) {
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 border border-border space-y-2">
+      <p className="text-xs text-muted-foreground flex items-center gap-1">
+        <GitCompare className="h-3 w-3" />
+        Reviewed {incremental.files.length} file{incremental.files.length === 1 ? '' : 's'} changed since <span className="font-mono">{incremental.since.slice(0, 7)}</span>; {incremental.carried} earlier suggestion{incremental.carried === 1 ? '' : 's'} carried forward
+      </p>
+      {incremental.addressed.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium">Addressed since last review</p>
+          {incremental.addressed.map((suggestion) => (
+            <p key={suggestion.id} className="text-xs text-muted-foreground">
+              <span className="line-through">{suggestion.message}</span>
+              <span className="ml-1 font-mono">{suggestion.file}{suggestion.line ? `:${suggestion.line}` : ''}</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AppliedRulesList({ rules }: { rules: AppliedRules }) {
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 border border-border space-y-2">
+      <p className="text-xs text-muted-foreground flex items-center gap-1">
+        <ScrollText className="h-3 w-3" />
+        {rules.rules.length} rule{rules.rules.length === 1 ? '' : 's'} applied from <span className="font-mono">{rules.source}</span>
+      </p>
+      <div className="flex flex-wrap gap-1">
+        {rules.rules.map((rule) => (
+          <Badge key={rule.id} variant="outline" className="font-mono" title={rule.instruction}>
+            {rule.id}
+            {rule.severity && <span className="ml-1 text-muted-foreground">· {rule.severity}</span>}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const CONSENSUS_ROWS: { label: string; score: (scores: Pick<AIReviewResult, 'overallScore' | 'categories'>) => number; spread: (c: ConsensusResult) => ScoreSpread }[] = [
+  { label: 'Overall', score: s => s.overallScore, spread: c => c.overall },
+  { label: 'Code Quality', score: s => s.categories.codeQuality, spread: c => c.categories.codeQuality },
+  { label: 'Security', score: s => s.categories.security, spread: c => c.categories.security },
+  { label: 'Performance', score: s => s.categories.performance, spread: c => c.categories.performance },
+  { label: 'Maintainability', score: s => s.categories.maintainability, spread: c => c.categories.maintainability },
+  { label: 'Testability', score: s => s.categories.testability, spread: c => c.categories.testability },
+];
+
+const CONFIDENCE_VARIANT: Record<ScoreSpread['confidence'], 'secondary' | 'outline' | 'destructive'> = {
+  high: 'secondary',
+  medium: 'outline',
+  low: 'destructive',
+};
+
+function ConsensusScores({ consensus }: { consensus: ConsensusResult }) {
+  return (
+    <div className="rounded-lg border border-border overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-xs text-muted-foreground">
+            <th className="px-3 py-2 text-left font-medium">Category</th>
+            {consensus.models.map((m) => (
+              <th key={`${m.provider}/${m.model}`} className="px-3 py-2 text-right font-medium" title={m.provider}>
+                {m.model}
+              </th>
+            ))}
+            <th className="px-3 py-2 text-right font-medium">Spread</th>
+          </tr>
+        </thead>
+        <tbody>
+          {CONSENSUS_ROWS.map((row) => {
+            const spread = row.spread(consensus);
+            return (
+              <tr key={row.label} className="border-b border-border last:border-0">
+                <td className="px-3 py-2 text-muted-foreground">{row.label}</td>
+                {consensus.models.map((m) => (
+                  <td key={`${m.provider}/${m.model}`} className="px-3 py-2 text-right font-medium">
+                    {row.score(m)}
+                  </td>
+                ))}
+                <td className="px-3 py-2 text-right">
+                  <Badge variant={CONFIDENCE_VARIANT[spread.confidence]} title={`${spread.confidence} confidence`}>
+                    {spread.spread} pts
+                  </Badge>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {consensus.failed.length > 0 && (
+        <div className="px-3 py-2 border-t border-border bg-destructive/5 space-y-1">
+          {consensus.failed.map((f) => (
+            <p key={`${f.provider}/${f.model}`} className="text-xs text-destructive flex items-center gap-1">
+              <AlertCircle className="h-3 w-3 shrink-0" />
+              {f.provider}/{f.model} failed: {f.error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface ScoreBarProps {
   icon: React.ReactNode;
   label: string;
@@ -8,7 +8,8 @@ import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { Ticket, Eye, EyeOff, Save, CheckCircle, Link2 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { invokeJiraProxy } from '@/hooks/useJira';
+import { isSecretConfigured } from '@/lib/secrets';
 interface JiraConfigPanelProps {
   config: JiraConfig;
   onSave: (config: JiraConfig) => void;
@@ -18,6 +19,7 @@ export function JiraConfigPanel({ config, onSave }: JiraConfigPanelProps) {
   const [localConfig, setLocalConfig] = useState<JiraConfig>(config);
   const [showApiToken, setShowApiToken] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
+  const tokenConfigured = isSecretConfigured(localConfig.apiToken, localConfig.apiTokenLastFour);
 
   useEffect(() => {
     setLocalConfig(config);
@@ -32,7 +34,7 @@ export function JiraConfigPanel({ config, onSave }: JiraConfigPanelProps) {
   };
 
   const handleTestConnection = async () => {
-    if (!localConfig.apiToken || !localConfig.email || !localConfig.domain) {
+    if (!tokenConfigured || !localConfig.email || !localConfig.domain) {
       toast({
         title: "Configuration Required",
         description: "Please fill in domain, email, and API token",
@@ -43,18 +45,13 @@ export function JiraConfigPanel({ config, onSave }: JiraConfigPanelProps) {
 
     setIsTesting(true);
     try {
-      const { data, error } = await supabase.functions.invoke('jira-proxy', {
-        body: {
-          action: 'test',
-          domain: localConfig.domain,
-          email: localConfig.email,
-          apiToken: localConfig.apiToken,
-        },
-      });
-
-      if (error) {
-        throw new Error(error.message);
-      }
+      // With the token field blank, the proxy tests the saved domain, email and token
+      const data = await invokeJiraProxy({
+        action: 'test',
+        domain: localConfig.domain,
+        email: localConfig.email,
+        apiToken: localConfig.apiToken || undefined,
+      }) as { displayName?: string; error?: string };
 
       if (data?.error) {
         throw new Error(data.error);
@@ -135,7 +132,9 @@ export function JiraConfigPanel({ config, onSave }: JiraConfigPanelProps) {
                   type={showApiToken ? "text" : "password"}
                   value={localConfig.apiToken}
                   onChange={(e) => setLocalConfig({ ...localConfig, apiToken: e.target.value })}
-                  placeholder="Enter your Jira API token"
+                  placeholder={localConfig.apiTokenLastFour
+                    ? `Configured · ••••${localConfig.apiTokenLastFour}`
+                    : "Enter your Jira API token"}
                   className="pr-10"
                 />
                 <Button
@@ -148,6 +147,11 @@ export function JiraConfigPanel({ config, onSave }: JiraConfigPanelProps) {
                   {showApiToken ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                 </Button>
               </div>
+              {localConfig.apiTokenLastFour && (
+                <p className="text-xs text-muted-foreground">
+                  Stored encrypted. Leave blank to keep it, or enter a new token to replace it.
+                </p>
+              )}
               <p className="text-xs text-muted-foreground">
                 Get your API token from id.atlassian.com/manage-profile/security/api-tokens
               </p>
@@ -180,7 +184,7 @@ export function JiraConfigPanel({ config, onSave }: JiraConfigPanelProps) {
           </div>
         )}
 
-        {localConfig.enabled && localConfig.apiToken && (
+        {localConfig.enabled && tokenConfigured && (
           <div className="flex items-center gap-2 p-3 rounded-lg bg-muted/30 border border-border">
             <CheckCircle className="h-4 w-4 text-success" />
             <span className="text-sm">Jira configured</span>
@@ -195,7 +199,7 @@ export function JiraConfigPanel({ config, onSave }: JiraConfigPanelProps) {
             <Button
               variant="outline"
               onClick={handleTestConnection}
-              disabled={!localConfig.apiToken || !localConfig.email || isTesting}
+              disabled={!tokenConfigured || !localConfig.email || isTesting}
             >
               {isTesting ? "Testing..." : "Test Connection"}
             </Button>
@@ -24,6 +24,7 @@ import {
 } from 'lucide-react';
 import { ConflictFile, ConflictResolution, MergeStrategy, MergeabilityStatus } from '@/hooks/useMergeConflict';
 import { AIConfig } from '@/types/codeReview';
+import { isAIConfigured } from '@/lib/aiProviders';
 
 interface MergeConflictDialogProps {
   open: boolean;
@@ -255,11 +256,11 @@ export function MergeConflictDialog({
                 Use AI to analyze and resolve conflicts that don't involve business logic:
               </p>
 
-              {!aiConfig.apiKey && (
+              {!isAIConfigured(aiConfig) && (
                 <Card className="border-yellow-500/50 bg-yellow-500/10">
                   <CardContent className="py-3">
                     <p className="text-sm text-yellow-600 dark:text-yellow-400">
-                      Configure your AI API key in Settings to use AI-assisted conflict resolution.
+                      Configure your AI provider in Settings to use AI-assisted conflict resolution.
                     </p>
                   </CardContent>
                 </Card>
@@ -295,7 +296,7 @@ export function MergeConflictDialog({
                                 size="sm"
                                 variant="outline"
                                 onClick={() => handleAnalyzeWithAI(file)}
-                                disabled={!aiConfig.apiKey || isAnalyzing === file.filename}
+                                disabled={!isAIConfigured(aiConfig) || isAnalyzing === file.filename}
                               >
                                 {isAnalyzing === file.filename ? (
                                   <>
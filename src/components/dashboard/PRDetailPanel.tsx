@@ -1,6 +1,7 @@
 import { PullRequest, SonarQubeResults, AIReviewResult } from '@/types/codeReview';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { getHistory, AutoMergeHistoryEntry } from '@/lib/autoMergeHistory';
+import { ReviewRun, reviewTimeline } from '@/lib/reviewRuns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -18,7 +19,10 @@ import {
   Loader2,
   CheckCircle2,
   XCircle,
-  AlertTriangle
+  AlertTriangle,
+  History,
+  TrendingUp,
+  TrendingDown
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -29,6 +33,8 @@ interface PRDetailPanelProps {
   onRunAnalysis: () => void;
   isAnalyzing: boolean;
   config: { owner: string; repo: string } | null;
+  /** Saved runs of this PR, newest first. */
+  reviewRuns: ReviewRun[];
 }
 
 export function PRDetailPanel({ 
@@ -37,9 +43,11 @@ export function PRDetailPanel({
   aiReview, 
   onRunAnalysis, 
   isAnalyzing,
-  config 
+  config,
+  reviewRuns
 }: PRDetailPanelProps) {
   const [history, setHistory] = useState<AutoMergeHistoryEntry[]>([]);
+  const timeline = useMemo(() => reviewTimeline(reviewRuns), [reviewRuns]);
 
   useEffect(() => {
     const loadHistory = async () => {
@@ -168,6 +176,26 @@ export function PRDetailPanel({
           </div>
         )}
 
+        {/* Linked issues */}
+        {pr.linkedIssues && pr.linkedIssues.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">Closes</p>
+            {pr.linkedIssues.map((issue) => (
+              <a
+                key={issue.number}
+                href={issue.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 text-sm hover:text-primary"
+              >
+                <span className="font-mono text-muted-foreground">#{issue.number}</span>
+                <span className="truncate">{issue.title}</span>
+                <ExternalLink className="h-3 w-3 shrink-0" />
+              </a>
+            ))}
+          </div>
+        )}
+
         {/* Description */}
         {pr.body && (
           <div className="p-3 rounded-lg bg-muted/30 border border-border">
@@ -266,6 +294,48 @@ export function PRDetailPanel({
             </div>
           </>
         )}
+
+        {/* Scores and issues across pushes */}
+        {timeline.length > 0 && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="text-sm font-medium mb-2 flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Review History
+              </h3>
+              <div className="space-y-2">
+                {timeline.map((entry) => (
+                  <div key={entry.id} className="p-3 rounded-lg border border-border bg-muted/20 text-sm">
+                    <div className="flex items-center gap-2">
+                      <code className="px-1.5 py-0.5 rounded bg-muted font-mono text-xs">{entry.headSha.slice(0, 7)}</code>
+                      <span className="text-xs text-muted-foreground">{format(new Date(entry.createdAt), 'MMM d, HH:mm')}</span>
+                      {entry.incremental && <Badge variant="secondary" className="text-xs">Incremental</Badge>}
+                      <div className="ml-auto flex items-center gap-2">
+                        {entry.scoreChange !== null && entry.scoreChange !== 0 && (
+                          <span className={`flex items-center gap-0.5 text-xs ${entry.scoreChange > 0 ? 'text-success' : 'text-destructive'}`}>
+                            {entry.scoreChange > 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                            {entry.scoreChange > 0 ? '+' : ''}{entry.scoreChange}
+                          </span>
+                        )}
+                        <Badge variant="outline">{entry.overallScore}/100</Badge>
+                      </div>
+                    </div>
+                    <div className="mt-1 text-xs">
+                      {entry.issues.critical} critical • {entry.issues.high} high • {entry.issues.medium + entry.issues.low} other
+                      {entry.sonarIssues !== null && <> • Sonar: {entry.sonarIssues} issues</>}
+                    </div>
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {entry.model}
+                      {entry.promptHash && <> • prompt {entry.promptHash}</>}
+                      {entry.usage && <> • ~{(entry.usage.promptTokens + entry.usage.completionTokens).toLocaleString()} tokens</>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,4 +1,4 @@
-import { PullRequest } from '@/types/codeReview';
+import { ALL_REPOSITORIES, PRFilters, PullRequest, WorkspaceRepository } from '@/types/codeReview';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -14,11 +14,22 @@ import {
   Minus,
   RefreshCw,
   Loader2,
-  Search
+  Search,
+  Filter,
+  CheckCircle2,
+  XCircle,
+  CircleDot,
+  AlertTriangle
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { Input } from '@/components/ui/input';
-import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEffect, useRef, useState } from 'react';
+
+// Pages loaded without a new visible PR before scrolling stops loading more on its own
+const MAX_EMPTY_AUTO_PAGES = 3;
 
 interface PRListProps {
   pullRequests: PullRequest[];
@@ -26,17 +37,98 @@ interface PRListProps {
   onSelectPR: (pr: PullRequest) => void;
   onRefresh: () => void;
   isLoading: boolean;
+  filters: PRFilters;
+  onFiltersChange: (filters: PRFilters) => void;
+  hasMore: boolean;
+  pagesLoaded: number;
+  onLoadMore: () => void;
+  isLoadingMore: boolean;
+  repositories: WorkspaceRepository[];
+  activeRepository: string;
+  onRepositoryChange: (repository: string) => void;
 }
 
-export function PRList({ pullRequests, selectedPR, onSelectPR, onRefresh, isLoading }: PRListProps) {
+export function PRList({
+  pullRequests,
+  selectedPR,
+  onSelectPR,
+  onRefresh,
+  isLoading,
+  filters,
+  onFiltersChange,
+  hasMore,
+  pagesLoaded,
+  onLoadMore,
+  isLoadingMore,
+  repositories,
+  activeRepository,
+  onRepositoryChange,
+}: PRListProps) {
   const [search, setSearch] = useState('');
+  const [draftFilters, setDraftFilters] = useState(filters);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    setDraftFilters(filters);
+  }, [filters]);
 
   const filteredPRs = pullRequests.filter(pr => 
     pr.title.toLowerCase().includes(search.toLowerCase()) ||
     pr.author.toLowerCase().includes(search.toLowerCase()) ||
+    (pr.repository || '').toLowerCase().includes(search.toLowerCase()) ||
     String(pr.number).includes(search)
   );
 
+  // Pages in a row that showed no new PR, e.g. because the search matches none of them. After a
+  // few, paging waits for "Load more" rather than fetching every PR of the repository.
+  const [emptyPages, setEmptyPages] = useState(0);
+  const visibleCount = filteredPRs.length;
+  const lastPage = useRef({ pagesLoaded, visibleCount });
+
+  useEffect(() => {
+    const last = lastPage.current;
+    lastPage.current = { pagesLoaded, visibleCount };
+    if (pagesLoaded === last.pagesLoaded) return;
+    // A refresh starts over from the first page
+    setEmptyPages(count => pagesLoaded < last.pagesLoaded || visibleCount > last.visibleCount ? 0 : count + 1);
+  }, [pagesLoaded, visibleCount]);
+
+  useEffect(() => {
+    setEmptyPages(0);
+  }, [search, filters]);
+
+  const autoLoad = emptyPages < MAX_EMPTY_AUTO_PAGES;
+
+  // Load the next page when the end of the list scrolls into view. Observing again after every page
+  // reports the sentinel at once if it's still visible, e.g. when filters hid the whole page; a failed
+  // page doesn't count, so errors aren't retried until the sentinel scrolls back into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !autoLoad) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(e => e.isIntersecting)) onLoadMoreRef.current();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, pagesLoaded, autoLoad]);
+
+  // With several repositories in one queue, each row says where it comes from
+  const showRepository = activeRepository === ALL_REPOSITORIES && repositories.length > 1;
+
+  const activeFilterCount = [filters.author, filters.base, filters.label].filter(Boolean).length;
+
+  const applyFilters = () => {
+    onFiltersChange({
+      ...draftFilters,
+      author: draftFilters.author?.trim() || undefined,
+      base: draftFilters.base?.trim() || undefined,
+      label: draftFilters.label?.trim() || undefined,
+    });
+  };
+
   const getStateIcon = (state: PullRequest['state']) => {
     switch (state) {
       case 'open':
@@ -57,6 +149,33 @@ export function PRList({ pullRequests, selectedPR, onSelectPR, onRefresh, isLoad
     return <Badge variant={variants[state]}>{state}</Badge>;
   };
 
+  // Only set when the list came from GraphQL
+  const getChecksIcon = (checksState: PullRequest['checksState']) => {
+    switch (checksState) {
+      case 'SUCCESS':
+        return <CheckCircle2 className="h-3 w-3 text-success" aria-label="Checks passed" />;
+      case 'FAILURE':
+      case 'ERROR':
+        return <XCircle className="h-3 w-3 text-destructive" aria-label="Checks failed" />;
+      case 'PENDING':
+      case 'EXPECTED':
+        return <CircleDot className="h-3 w-3 text-warning" aria-label="Checks running" />;
+      default:
+        return null;
+    }
+  };
+
+  const getReviewDecisionBadge = (decision: PullRequest['reviewDecision']) => {
+    switch (decision) {
+      case 'APPROVED':
+        return <Badge variant="outline" className="text-success border-success/30">approved</Badge>;
+      case 'CHANGES_REQUESTED':
+        return <Badge variant="outline" className="text-destructive border-destructive/30">changes requested</Badge>;
+      default:
+        return null;
+    }
+  };
+
   return (
     <Card className="glass-card h-full flex flex-col">
       <CardHeader className="pb-3">
@@ -74,6 +193,21 @@ export function PRList({ pullRequests, selectedPR, onSelectPR, onRefresh, isLoad
             )}
           </Button>
         </div>
+        {repositories.length > 1 && (
+          <Select value={activeRepository} onValueChange={onRepositoryChange}>
+            <SelectTrigger className="h-8 mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_REPOSITORIES}>All repositories</SelectItem>
+              {repositories.map((r) => (
+                <SelectItem key={`${r.owner}/${r.repo}`} value={`${r.owner}/${r.repo}`}>
+                  {r.owner}/{r.repo}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         <div className="relative mt-2">
           <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
           <Input
@@ -83,6 +217,81 @@ export function PRList({ pullRequests, selectedPR, onSelectPR, onRefresh, isLoad
             className="pl-9"
           />
         </div>
+        <div className="flex items-center gap-2 mt-2">
+          <Select
+            value={filters.state}
+            onValueChange={(state: PRFilters['state']) => onFiltersChange({ ...filters, state })}
+          >
+            <SelectTrigger className="h-8 flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="closed">Closed</SelectItem>
+              <SelectItem value="merged">Merged</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8">
+                <Filter className="mr-1 h-3 w-3" />
+                Filters
+                {activeFilterCount > 0 && (
+                  <Badge variant="secondary" className="ml-1 px-1.5">{activeFilterCount}</Badge>
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 space-y-3">
+              <form
+                className="space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  applyFilters();
+                }}
+              >
+                <div className="space-y-1">
+                  <Label htmlFor="pr-filter-author">Author</Label>
+                  <Input
+                    id="pr-filter-author"
+                    placeholder="octocat"
+                    value={draftFilters.author || ''}
+                    onChange={(e) => setDraftFilters({ ...draftFilters, author: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="pr-filter-base">Base branch</Label>
+                  <Input
+                    id="pr-filter-base"
+                    placeholder="main"
+                    value={draftFilters.base || ''}
+                    onChange={(e) => setDraftFilters({ ...draftFilters, base: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="pr-filter-label">Label</Label>
+                  <Input
+                    id="pr-filter-label"
+                    placeholder="needs-review"
+                    value={draftFilters.label || ''}
+                    onChange={(e) => setDraftFilters({ ...draftFilters, label: e.target.value })}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onFiltersChange({ state: filters.state })}
+                  >
+                    Clear
+                  </Button>
+                  <Button type="submit" size="sm">Apply</Button>
+                </div>
+              </form>
+            </PopoverContent>
+          </Popover>
+        </div>
       </CardHeader>
       <CardContent className="flex-1 overflow-hidden p-0">
         <ScrollArea className="h-full px-4 pb-4">
@@ -115,6 +324,9 @@ export function PRList({ pullRequests, selectedPR, onSelectPR, onRefresh, isLoad
                         <span className="font-medium text-sm truncate">{pr.title}</span>
                       </div>
                       <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                        {showRepository && pr.repository && (
+                          <span className="truncate">{pr.repository}</span>
+                        )}
                         <span className="font-mono">#{pr.number}</span>
                         <span>{pr.author}</span>
                         <div className="flex items-center gap-1">
@@ -123,19 +335,29 @@ export function PRList({ pullRequests, selectedPR, onSelectPR, onRefresh, isLoad
                         </div>
                       </div>
                       <div className="flex items-center gap-3 mt-2 text-xs">
-                        <div className="flex items-center gap-1">
-                          <FileCode className="h-3 w-3 text-muted-foreground" />
-                          <span>{pr.changedFiles} files</span>
-                        </div>
-                        <div className="flex items-center gap-1 text-success">
-                          <Plus className="h-3 w-3" />
-                          <span>{pr.additions}</span>
-                        </div>
-                        <div className="flex items-center gap-1 text-destructive">
-                          <Minus className="h-3 w-3" />
-                          <span>{pr.deletions}</span>
-                        </div>
+                        {/* Line counts are missing after a REST fallback until the PR is opened */}
+                        {pr.changedFiles > 0 && (
+                          <>
+                            <div className="flex items-center gap-1">
+                              <FileCode className="h-3 w-3 text-muted-foreground" />
+                              <span>{pr.changedFiles} files</span>
+                            </div>
+                            <div className="flex items-center gap-1 text-success">
+                              <Plus className="h-3 w-3" />
+                              <span>{pr.additions}</span>
+                            </div>
+                            <div className="flex items-center gap-1 text-destructive">
+                              <Minus className="h-3 w-3" />
+                              <span>{pr.deletions}</span>
+                            </div>
+                          </>
+                        )}
                         {getStateBadge(pr.state)}
+                        {getReviewDecisionBadge(pr.reviewDecision)}
+                        {getChecksIcon(pr.checksState)}
+                        {pr.mergeable === 'CONFLICTING' && (
+                          <AlertTriangle className="h-3 w-3 text-warning" aria-label="Merge conflicts" />
+                        )}
                       </div>
                       {pr.labels.length > 0 && (
                         <div className="flex flex-wrap gap-1 mt-2">
@@ -157,6 +379,16 @@ export function PRList({ pullRequests, selectedPR, onSelectPR, onRefresh, isLoad
               ))}
             </div>
           )}
+          {/* Outside the list so paging goes on while the search hides every loaded PR */}
+          {hasMore && (
+            <div ref={sentinelRef} className="flex justify-center py-3">
+              {isLoadingMore ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : (
+                <Button variant="ghost" size="sm" onClick={onLoadMore}>Load more</Button>
+              )}
+            </div>
+          )}
         </ScrollArea>
       </CardContent>
     </Card>
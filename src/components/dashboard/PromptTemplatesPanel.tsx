@@ -0,0 +1,289 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { JiraTicket, PRFile, PullRequest, WorkspaceRepository } from '@/types/codeReview';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Eye, FileText, History, RotateCcw, Save, Undo2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { estimateTokens } from '@/lib/diffChunking';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  latestVersion,
+  PROMPT_TEMPLATE_KINDS,
+  PROMPT_VARIABLES,
+  promptVariables,
+  PromptTemplateKind,
+  PromptTemplateVersion,
+  renderTemplate,
+  validateTemplate,
+} from '@/lib/promptTemplates';
+import { parseRepositoryKey, repositoryKey } from '@/lib/workspace';
+
+interface PromptTemplatesPanelProps {
+  versions: PromptTemplateVersion[];
+  repositories: WorkspaceRepository[];
+  /** `repository` is `owner/repo`, or null for the workspace default. */
+  onSave: (kind: PromptTemplateKind, repository: string | null, body: string) => Promise<boolean>;
+  onRestore: (version: PromptTemplateVersion) => Promise<boolean>;
+  /** PR the preview renders against; its files are fetched when the preview is asked for. */
+  previewPR: PullRequest | null;
+  fetchPreviewFiles: (pr: PullRequest) => Promise<PRFile[]>;
+  jiraTicket?: JiraTicket | null;
+}
+
+// Select value for the workspace default scope
+const WORKSPACE = 'workspace';
+
+export function PromptTemplatesPanel({ versions, repositories, onSave, onRestore, previewPR, fetchPreviewFiles, jiraTicket }: PromptTemplatesPanelProps) {
+  const [kind, setKind] = useState<PromptTemplateKind>('review');
+  const [scope, setScope] = useState<string>(WORKSPACE);
+  const [body, setBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [preview, setPreview] = useState<{ pr: PullRequest; files: PRFile[] } | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const editor = useRef<HTMLTextAreaElement>(null);
+
+  const repository = scope === WORKSPACE ? null : parseRepositoryKey(scope);
+  const history = useMemo(() => versions
+    .filter(v => v.kind === kind && v.owner === (repository?.owner ?? '') && v.repo === (repository?.repo ?? ''))
+    .sort((a, b) => b.version - a.version), [versions, kind, repository?.owner, repository?.repo]);
+  const current = history[0];
+
+  // What this scope uses without its own version: the workspace default, then the built-in template
+  const workspaceVersion = repository ? latestVersion(versions, kind, null) : undefined;
+  const inherited = workspaceVersion?.body.trim()
+    ? { label: 'workspace default', body: workspaceVersion.body }
+    : { label: 'built-in template', body: DEFAULT_PROMPT_TEMPLATES[kind] };
+  const savedBody = current?.body.trim() ? current.body : inherited.body;
+
+  useEffect(() => {
+    setBody(savedBody);
+  }, [savedBody]);
+
+  // The preview belongs to the PR it was loaded for
+  useEffect(() => {
+    setPreview(prev => prev && previewPR && prev.pr.number === previewPR.number && prev.pr.repository === previewPR.repository ? prev : null);
+  }, [previewPR]);
+
+  const problems = useMemo(() => validateTemplate(body), [body]);
+  const rendered = useMemo(
+    () => preview ? renderTemplate(body, promptVariables(preview.pr, preview.files, jiraTicket)) : null,
+    [body, preview, jiraTicket]
+  );
+
+  const scopeLabel = repository ? scope : 'the workspace default';
+  const usesOwnVersion = !!current?.body.trim();
+
+  const save = async (text: string, description: string) => {
+    setIsSaving(true);
+    const saved = await onSave(kind, repository ? scope : null, text);
+    setIsSaving(false);
+    if (saved) {
+      toast({ title: "Template Saved", description });
+    }
+  };
+
+  const handleRestore = async (version: PromptTemplateVersion) => {
+    setIsSaving(true);
+    const restored = await onRestore(version);
+    setIsSaving(false);
+    if (restored) {
+      toast({
+        title: "Template Restored",
+        description: `Version ${version.version} of the ${PROMPT_TEMPLATE_KINDS[kind]} template is in use for ${scopeLabel}.`,
+      });
+    }
+  };
+
+  const handleLoadPreview = async () => {
+    if (!previewPR) return;
+    setIsLoadingPreview(true);
+    const files = await fetchPreviewFiles(previewPR);
+    setPreview({ pr: previewPR, files });
+    setIsLoadingPreview(false);
+  };
+
+  // Insert a variable at the cursor
+  const insertVariable = (name: string) => {
+    const textarea = editor.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    const tag = `{{${name}}}`;
+    setBody(body.slice(0, start) + tag + body.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + tag.length, start + tag.length);
+    });
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5 text-primary" />
+          Prompt Templates
+        </CardTitle>
+        <CardDescription>
+          Tune the prompts sent for each review command, for the workspace or a single repository
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>Command</Label>
+            <Select value={kind} onValueChange={(v) => setKind(v as PromptTemplateKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PROMPT_TEMPLATE_KINDS).map(([id, label]) => (
+                  <SelectItem key={id} value={id}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Applies To</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WORKSPACE}>Workspace default</SelectItem>
+                {repositories.map(r => (
+                  <SelectItem key={repositoryKey(r)} value={repositoryKey(r)}>{repositoryKey(r)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Label>Template</Label>
+              <Badge variant="outline" className="ml-auto">
+                {usesOwnVersion ? `Version ${current.version}` : `Using the ${inherited.label}`}
+              </Badge>
+            </div>
+            <Textarea
+              ref={editor}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              className="min-h-[360px] font-mono text-xs"
+              spellCheck={false}
+            />
+            {problems.length > 0 && (
+              <div className="space-y-1">
+                {problems.map(problem => (
+                  <p key={problem} className="flex items-center gap-1 text-xs text-destructive">
+                    <AlertTriangle className="h-3 w-3" />
+                    {problem}
+                  </p>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-1">
+              {PROMPT_VARIABLES.map(variable => (
+                <Badge
+                  key={variable.name}
+                  variant="secondary"
+                  className="cursor-pointer font-mono"
+                  title={variable.description}
+                  onClick={() => insertVariable(variable.name)}
+                >
+                  {`{{${variable.name}}}`}
+                </Badge>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={() => save(body, `The ${PROMPT_TEMPLATE_KINDS[kind]} template for ${scopeLabel} has been updated.`)}
+                disabled={isSaving || problems.length > 0 || body === savedBody}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Version
+              </Button>
+              <Button variant="outline" onClick={() => setBody(savedBody)} disabled={body === savedBody}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Discard
+              </Button>
+              {usesOwnVersion && (
+                <Button
+                  variant="outline"
+                  onClick={() => save('', `${scopeLabel} now uses the ${repository ? 'workspace default' : 'built-in template'}.`)}
+                  disabled={isSaving}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Use {repository ? 'Workspace Default' : 'Built-in'}
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Label>Preview</Label>
+              {rendered !== null && (
+                <Badge variant="outline" className="ml-auto">~{estimateTokens(rendered).toLocaleString()} tokens</Badge>
+              )}
+            </div>
+            {previewPR ? (
+              <Button variant="outline" size="sm" onClick={handleLoadPreview} disabled={isLoadingPreview}>
+                <Eye className="h-4 w-4 mr-2" />
+                {isLoadingPreview ? 'Loading...' : `${preview ? 'Reload' : 'Preview with'} PR #${previewPR.number}`}
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground">Select a pull request to preview the template against it.</p>
+            )}
+            {rendered !== null && (
+              <>
+                <ScrollArea className="h-[360px] rounded-md border bg-muted/30">
+                  <pre className="p-3 text-xs whitespace-pre-wrap font-mono">{rendered}</pre>
+                </ScrollArea>
+                <p className="text-xs text-muted-foreground">
+                  Repository rules and context are left out here; they are filled in when the review runs.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              History
+            </Label>
+            <div className="space-y-1">
+              {history.map((version, i) => (
+                <div key={version.id} className="flex items-center gap-3 rounded-md border px-3 py-2 text-sm">
+                  <span className="font-medium">v{version.version}</span>
+                  <span className="text-xs text-muted-foreground">{new Date(version.createdAt).toLocaleString()}</span>
+                  {!version.body.trim() && <Badge variant="secondary">Inherits</Badge>}
+                  {i === 0 ? (
+                    <Badge variant="outline" className="ml-auto">Current</Badge>
+                  ) : (
+                    <div className="ml-auto flex gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => setBody(version.body.trim() ? version.body : inherited.body)}>
+                        Open
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleRestore(version)} disabled={isSaving}>
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Restore
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
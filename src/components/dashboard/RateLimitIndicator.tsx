@@ -0,0 +1,43 @@
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useGitHubRateLimit } from '@/hooks/useGitHubRateLimit';
+import { Gauge } from 'lucide-react';
+import { format } from 'date-fns';
+
+// Below this share of the quota the indicator turns amber, and red when it runs out
+const LOW_QUOTA_RATIO = 0.1;
+
+export function RateLimitIndicator() {
+  const limits = useGitHubRateLimit();
+
+  if (limits.length === 0) return null;
+
+  // Show the bucket closest to running out
+  const tightest = limits.reduce((a, b) => (b.remaining / b.limit < a.remaining / a.limit ? b : a));
+  const tone = tightest.remaining === 0
+    ? 'text-destructive border-destructive/30'
+    : tightest.remaining / tightest.limit < LOW_QUOTA_RATIO
+      ? 'text-warning border-warning/30'
+      : 'text-muted-foreground';
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={`gap-1 font-mono ${tone}`}>
+          <Gauge className="h-3 w-3" />
+          {tightest.remaining}/{tightest.limit}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        <div className="space-y-1 text-xs">
+          <p className="font-medium">GitHub API quota</p>
+          {limits.map((limit) => (
+            <p key={limit.resource}>
+              {limit.resource}: {limit.remaining}/{limit.limit}, resets at {format(new Date(limit.resetAt), 'HH:mm')}
+            </p>
+          ))}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,230 @@
+import { AIConfig, ThresholdConfig, WorkspaceRepository } from '@/types/codeReview';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FolderGit2, Plus, Save, Trash2 } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { toast } from '@/hooks/use-toast';
+
+interface RepositoriesPanelProps {
+  repositories: WorkspaceRepository[];
+  onSave: (repository: WorkspaceRepository) => Promise<boolean>;
+  onRemove: (repository: WorkspaceRepository) => Promise<boolean>;
+}
+
+type ThresholdOverrideKey = 'bugs' | 'vulnerabilities' | 'codeSmells' | 'coverageMin';
+
+const THRESHOLD_FIELDS: { key: ThresholdOverrideKey; label: string }[] = [
+  { key: 'bugs', label: 'Max Bugs' },
+  { key: 'vulnerabilities', label: 'Max Vulnerabilities' },
+  { key: 'codeSmells', label: 'Max Code Smells' },
+  { key: 'coverageMin', label: 'Min Coverage (%)' },
+];
+
+// Select value for "use the workspace default"
+const INHERIT = 'inherit';
+
+// Blank inputs inherit the workspace default
+function numberOrUndefined(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+function RepositoryOverrides({ repository, onSave, onRemove }: {
+  repository: WorkspaceRepository;
+  onSave: RepositoriesPanelProps['onSave'];
+  onRemove: RepositoriesPanelProps['onRemove'];
+}) {
+  const [thresholds, setThresholds] = useState<Partial<ThresholdConfig>>(repository.thresholds || {});
+  const [aiOverrides, setAIOverrides] = useState<Partial<Omit<AIConfig, 'apiKey' | 'apiKeyLastFour'>>>(repository.aiOverrides || {});
+  const [jiraProjectKey, setJiraProjectKey] = useState(repository.jiraProjectKey || '');
+
+  useEffect(() => {
+    setThresholds(repository.thresholds || {});
+    setAIOverrides(repository.aiOverrides || {});
+    setJiraProjectKey(repository.jiraProjectKey || '');
+  }, [repository]);
+
+  const handleSave = async () => {
+    // Drop cleared fields so they fall back to the workspace defaults
+    const saved = await onSave({
+      ...repository,
+      thresholds: Object.fromEntries(Object.entries(thresholds).filter(([, v]) => v !== undefined)),
+      aiOverrides: Object.fromEntries(Object.entries(aiOverrides).filter(([, v]) => v !== undefined && v !== '')),
+      jiraProjectKey: jiraProjectKey.trim() || undefined,
+    });
+    if (saved) {
+      toast({
+        title: "Repository Saved",
+        description: `Overrides for ${repository.owner}/${repository.repo} have been updated.`,
+      });
+    }
+  };
+
+  const autoMergeValue = aiOverrides.autoMergeEnabled === undefined ? INHERIT : aiOverrides.autoMergeEnabled ? 'on' : 'off';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>AI Model</Label>
+          <Input
+            placeholder="Workspace default"
+            value={aiOverrides.model || ''}
+            onChange={(e) => setAIOverrides({ ...aiOverrides, model: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Comment Mode</Label>
+          <Select
+            value={aiOverrides.commentMode || INHERIT}
+            onValueChange={(v) => setAIOverrides({ ...aiOverrides, commentMode: v === INHERIT ? undefined : v as AIConfig['commentMode'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={INHERIT}>Workspace default</SelectItem>
+              <SelectItem value="summary">Summary comment</SelectItem>
+              <SelectItem value="inline">Inline review</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Auto-Merge</Label>
+          <Select
+            value={autoMergeValue}
+            onValueChange={(v) => setAIOverrides({ ...aiOverrides, autoMergeEnabled: v === INHERIT ? undefined : v === 'on' })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={INHERIT}>Workspace default</SelectItem>
+              <SelectItem value="on">Enabled</SelectItem>
+              <SelectItem value="off">Disabled</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>AI Threshold (0-100)</Label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            placeholder="Workspace default"
+            value={aiOverrides.autoMergeThresholdAI ?? ''}
+            onChange={(e) => setAIOverrides({ ...aiOverrides, autoMergeThresholdAI: numberOrUndefined(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {THRESHOLD_FIELDS.map(({ key, label }) => (
+          <div key={key} className="space-y-2">
+            <Label>{label}</Label>
+            <Input
+              type="number"
+              min={0}
+              placeholder="Default"
+              value={thresholds[key] ?? ''}
+              onChange={(e) => setThresholds({ ...thresholds, [key]: numberOrUndefined(e.target.value) })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Jira Project Key</Label>
+        <Input
+          placeholder="Workspace default, e.g. PROJ"
+          value={jiraProjectKey}
+          onChange={(e) => setJiraProjectKey(e.target.value.toUpperCase())}
+        />
+      </div>
+
+      <div className="flex justify-between">
+        <Button variant="ghost" size="sm" className="text-destructive" onClick={() => onRemove(repository)}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Remove
+        </Button>
+        <Button size="sm" onClick={handleSave}>
+          <Save className="mr-2 h-4 w-4" />
+          Save Overrides
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function RepositoriesPanel({ repositories, onSave, onRemove }: RepositoriesPanelProps) {
+  const [newRepository, setNewRepository] = useState('');
+
+  const handleAdd = async () => {
+    const [owner, repo, ...rest] = newRepository.trim().split('/');
+    if (!owner || !repo || rest.length > 0) {
+      toast({
+        title: "Invalid Repository",
+        description: "Enter the repository as owner/repo",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (await onSave({ owner, repo })) {
+      setNewRepository('');
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2">
+          <FolderGit2 className="h-5 w-5" />
+          Repositories
+        </CardTitle>
+        <CardDescription>
+          Repositories watched by this workspace. Blank overrides use the workspace defaults.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd();
+          }}
+        >
+          <Input
+            placeholder="owner/repo"
+            value={newRepository}
+            onChange={(e) => setNewRepository(e.target.value)}
+          />
+          <Button type="submit" variant="outline">
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </form>
+
+        {repositories.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No repositories yet. Add one above or save the GitHub settings.</p>
+        ) : (
+          <Accordion type="multiple">
+            {repositories.map((repository) => (
+              <AccordionItem key={`${repository.owner}/${repository.repo}`} value={`${repository.owner}/${repository.repo}`}>
+                <AccordionTrigger className="font-mono text-sm">
+                  {repository.owner}/{repository.repo}
+                </AccordionTrigger>
+                <AccordionContent>
+                  <RepositoryOverrides repository={repository} onSave={onSave} onRemove={onRemove} />
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
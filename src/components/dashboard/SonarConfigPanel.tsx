@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import { SonarConfig } from '@/types/codeReview';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Shield, Eye, EyeOff, Save, CheckCircle, Key } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { testSonarConnection } from '@/lib/sonarClient';
+import { isSecretConfigured } from '@/lib/secrets';
+import { sonarProxyFetch } from '@/hooks/useCodeReview';
+
+interface SonarConfigPanelProps {
+  config: SonarConfig;
+  onSave: (config: SonarConfig) => void;
+}
+
+export function SonarConfigPanel({ config, onSave }: SonarConfigPanelProps) {
+  const [localConfig, setLocalConfig] = useState<SonarConfig>(config);
+  const [showToken, setShowToken] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const tokenConfigured = isSecretConfigured(localConfig.token, localConfig.tokenLastFour);
+
+  useEffect(() => {
+    setLocalConfig(config);
+  }, [config]);
+
+  const handleSave = () => {
+    onSave(localConfig);
+    toast({
+      title: "SonarQube Configuration Saved",
+      description: localConfig.enabled ? `Using project ${localConfig.projectKey}` : 'SonarQube integration disabled',
+    });
+  };
+
+  const handleTestConnection = async () => {
+    if (!localConfig.hostUrl || !tokenConfigured) {
+      toast({
+        title: "Configuration Required",
+        description: "Please fill in server URL and token",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsTesting(true);
+    try {
+      const valid = await testSonarConnection(localConfig, sonarProxyFetch);
+      if (!valid) {
+        throw new Error('Token was rejected by the server');
+      }
+
+      toast({
+        title: "Connection Successful",
+        description: `Connected to ${localConfig.hostUrl}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Connection Failed",
+        description: error instanceof Error ? error.message : "Failed to connect",
+        variant: "destructive",
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5 text-primary" />
+          SonarQube Server
+        </CardTitle>
+        <CardDescription>
+          Read pull request analyses from SonarQube or SonarCloud
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Enable SonarQube Integration</Label>
+            <p className="text-xs text-muted-foreground">
+              Show real quality gate, metrics and issues for each PR
+            </p>
+          </div>
+          <Switch
+            checked={localConfig.enabled}
+            onCheckedChange={(v) => setLocalConfig({ ...localConfig, enabled: v })}
+          />
+        </div>
+
+        {localConfig.enabled && (
+          <div className="space-y-3 pt-2">
+            <div className="space-y-2">
+              <Label>Server URL</Label>
+              <Input
+                value={localConfig.hostUrl}
+                onChange={(e) => setLocalConfig({ ...localConfig, hostUrl: e.target.value })}
+                placeholder="https://sonarcloud.io"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Project Key</Label>
+              <Input
+                value={localConfig.projectKey}
+                onChange={(e) => setLocalConfig({ ...localConfig, projectKey: e.target.value })}
+                placeholder="my-org_my-project"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Key className="h-4 w-4" />
+                Token
+              </Label>
+              <div className="relative">
+                <Input
+                  type={showToken ? "text" : "password"}
+                  value={localConfig.token}
+                  onChange={(e) => setLocalConfig({ ...localConfig, token: e.target.value })}
+                  placeholder={localConfig.tokenLastFour ? `Configured · ••••${localConfig.tokenLastFour}` : 'Enter your SonarQube user token'}
+                  className="pr-10"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="absolute right-0 top-0 h-full px-3"
+                  onClick={() => setShowToken(!showToken)}
+                >
+                  {showToken ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Generate a token under My Account → Security. Requires Browse permission on the project.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {localConfig.enabled && tokenConfigured && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-muted/30 border border-border">
+            <CheckCircle className="h-4 w-4 text-success" />
+            <span className="text-sm">SonarQube configured</span>
+            <Badge variant="outline" className="ml-auto">
+              {localConfig.projectKey}
+            </Badge>
+          </div>
+        )}
+
+        {localConfig.enabled && (
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              onClick={handleTestConnection}
+              disabled={!localConfig.hostUrl || !tokenConfigured || isTesting}
+            >
+              {isTesting ? "Testing..." : "Test Connection"}
+            </Button>
+            <Button onClick={handleSave} className="flex-1">
+              <Save className="mr-2 h-4 w-4" />
+              Save Configuration
+            </Button>
+          </div>
+        )}
+
+        {!localConfig.enabled && (
+          <Button onClick={handleSave} className="w-full">
+            <Save className="mr-2 h-4 w-4" />
+            Save Configuration
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
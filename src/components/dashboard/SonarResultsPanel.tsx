@@ -1,3 +1,4 @@
+import { useState, DragEvent } from 'react';
 import { SonarQubeResults } from '@/types/codeReview';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -16,7 +17,9 @@ import {
   FileCode,
   Clock,
   TrendingUp,
-  TrendingDown
+  TrendingDown,
+  Download,
+  Upload
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from '@/hooks/use-toast';
@@ -25,9 +28,29 @@ interface SonarResultsPanelProps {
   results: SonarQubeResults | null;
   isAnalyzing: boolean;
   progress: number;
+  onImportArtifact?: () => void;
+  onDropFile?: (file: File) => void;
 }
 
-export function SonarResultsPanel({ results, isAnalyzing, progress }: SonarResultsPanelProps) {
+export function SonarResultsPanel({ results, isAnalyzing, progress, onImportArtifact, onDropFile }: SonarResultsPanelProps) {
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Accept a sonar-results.json (or the zipped artifact) dropped onto the panel
+  const dropHandlers = onDropFile ? {
+    onDragOver: (e: DragEvent) => {
+      e.preventDefault();
+      setIsDragging(true);
+    },
+    onDragLeave: () => setIsDragging(false),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      const file = e.dataTransfer.files?.[0];
+      if (file) onDropFile(file);
+    },
+  } : {};
+  const dropClass = isDragging ? 'ring-2 ring-primary' : '';
+
   if (isAnalyzing) {
     return (
       <Card className="glass-card">
@@ -68,10 +91,22 @@ export function SonarResultsPanel({ results, isAnalyzing, progress }: SonarResul
 
   if (!results) {
     return (
-      <Card className="glass-card">
+      <Card className={`glass-card ${dropClass}`} {...dropHandlers}>
         <CardContent className="flex flex-col items-center justify-center py-12 text-center">
           <Shield className="h-12 w-12 text-muted-foreground mb-4" />
           <p className="text-muted-foreground">Select a PR and run analysis to see SonarQube results</p>
+          {onDropFile && (
+            <p className="text-sm text-muted-foreground mt-1 flex items-center gap-1">
+              <Upload className="h-3 w-3" />
+              or drop a sonar-results.json file here
+            </p>
+          )}
+          {onImportArtifact && (
+            <Button variant="outline" size="sm" className="mt-4" onClick={onImportArtifact}>
+              <Download className="h-4 w-4 mr-2" />
+              Load CI Results
+            </Button>
+          )}
         </CardContent>
       </Card>
     );
@@ -97,7 +132,7 @@ export function SonarResultsPanel({ results, isAnalyzing, progress }: SonarResul
   };
 
   return (
-    <Card className="glass-card">
+    <Card className={`glass-card ${dropClass}`} {...dropHandlers}>
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
           <div>
@@ -117,13 +152,28 @@ export function SonarResultsPanel({ results, isAnalyzing, progress }: SonarResul
             </CardTitle>
             <CardDescription className="flex items-center gap-2 mt-1">
               <Clock className="h-3 w-3" />
-              Scan completed in {results.scanMetadata.scanDuration}s
+              {results.scanMetadata.scanDuration > 0
+                ? `Scan completed in ${results.scanMetadata.scanDuration}s`
+                : results.scanMetadata.source === 'server'
+                  ? `Fetched ${new Date(results.scanMetadata.timestamp).toLocaleString()}`
+                  : `Scanned in CI ${new Date(results.scanMetadata.timestamp).toLocaleString()}`}
+              {results.scanMetadata.commitSha && (
+                <span className="font-mono">@ {results.scanMetadata.commitSha.slice(0, 7)}</span>
+              )}
             </CardDescription>
           </div>
-          <Button variant="outline" size="sm" onClick={copyAsJson}>
-            <Copy className="h-4 w-4 mr-2" />
-            Export JSON
-          </Button>
+          <div className="flex items-center gap-2">
+            {onImportArtifact && (
+              <Button variant="outline" size="sm" onClick={onImportArtifact}>
+                <Download className="h-4 w-4 mr-2" />
+                CI Results
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={copyAsJson}>
+              <Copy className="h-4 w-4 mr-2" />
+              Export JSON
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
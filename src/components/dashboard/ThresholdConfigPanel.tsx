@@ -107,6 +107,21 @@ export function ThresholdConfigPanel({ thresholds, onSave, aiConfig, onAIConfigS
                   <p className="text-xs text-muted-foreground">Heuristic: 90 if tests found, 0 if Java but no tests</p>
                 </div>
               )}
+
+              {localAIConfig.consensus?.enabled && (
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Require Every Consensus Model</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Each model's own score must clear the AI threshold, not just their mean
+                    </p>
+                  </div>
+                  <Switch
+                    checked={localAIConfig.consensus.requireAll}
+                    onCheckedChange={(v) => setLocalAIConfig({ ...localAIConfig, consensus: { ...localAIConfig.consensus, requireAll: v } })}
+                  />
+                </div>
+              )}
             </div>
             
             {/* Threshold Settings */}
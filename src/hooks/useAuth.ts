@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { clearWorkspaceId } from '@/hooks/useConfigDatabase';
+import { clearGitHubCache } from '@/hooks/useGitHubRateLimit';
+
+interface UseAuthReturn {
+  session: Session | null;
+  user: User | null;
+  /** True until the stored session has been restored. */
+  isLoading: boolean;
+  signIn: (email: string, password: string) => Promise<boolean>;
+  signUp: (email: string, password: string) => Promise<boolean>;
+  signOut: () => Promise<void>;
+}
+
+export function useAuth(): UseAuthReturn {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Subscribe before restoring the session so no change in between is missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        // Workspaces are per user; look the workspace up again for whoever is signed in now
+        clearWorkspaceId();
+      }
+      if (event === 'SIGNED_OUT') {
+        // Cached GitHub responses hold private repository data; don't leave them for the next user
+        clearGitHubCache().catch(error => console.warn('Failed to clear the GitHub cache', error));
+      }
+      setSession(nextSession);
+      setIsLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const signIn = useCallback(async (email: string, password: string): Promise<boolean> => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) {
+      toast({
+        title: "Sign In Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  }, []);
+
+  const signUp = useCallback(async (email: string, password: string): Promise<boolean> => {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: window.location.origin },
+    });
+
+    if (error) {
+      toast({
+        title: "Sign Up Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (!data.session) {
+      toast({
+        title: "Confirm Your Email",
+        description: `We sent a confirmation link to ${email}`,
+      });
+    }
+    return true;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      toast({
+        title: "Sign Out Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  }, []);
+
+  return {
+    session,
+    user: session?.user ?? null,
+    isLoading,
+    signIn,
+    signUp,
+    signOut,
+  };
+}
@@ -1,16 +1,59 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { CommentIdStore } from '@/lib/githubApi';
+import type { SuggestionStatusRecord, SuggestionStatusStore } from '@/lib/suggestions';
+import { repositoryFromRow } from '@/lib/workspace';
+import { promptTemplateFromRow, PromptTemplateKind, PromptTemplateVersion } from '@/lib/promptTemplates';
+import { reviewRunFromRow, reviewRunRows, ReviewRun, ReviewRunRecord, ReviewRunRow } from '@/lib/reviewRuns';
+import { isSecretConfigType, SecretName, splitReviewerKeys, splitSecret, withReviewerKeyHints, withSecretHint } from '@/lib/secrets';
 import { 
   GitHubConfig, 
   JiraConfig, 
   AIConfig, 
   ThresholdConfig,
+  SonarConfig,
+  WorkspaceRepository,
   DEFAULT_JIRA_CONFIG,
+  DEFAULT_SONAR_CONFIG,
   DEFAULT_AI_CONFIG,
   DEFAULT_THRESHOLDS
 } from '@/types/codeReview';
 
-export type ConfigType = 'github' | 'jira' | 'ai' | 'thresholds';
+export type ConfigType = 'github' | 'jira' | 'ai' | 'thresholds' | 'sonar';
+
+let workspaceIdRequest: Promise<string | null> | null = null;
+
+/**
+ * Id of the workspace the dashboard works in: the oldest one the signed-in user is a member of
+ * (row-level security hides the rest), until workspaces can be chosen.
+ */
+export function getWorkspaceId(): Promise<string | null> {
+  if (!workspaceIdRequest) {
+    workspaceIdRequest = (async () => {
+      const { data, error } = await supabase
+        .from('workspaces')
+        .select('id')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Failed to fetch workspace:', error);
+        // Let the next caller retry
+        workspaceIdRequest = null;
+        return null;
+      }
+      return data?.id ?? null;
+    })();
+  }
+  return workspaceIdRequest;
+}
+
+/** Forget the cached workspace when the signed-in user changes. */
+export function clearWorkspaceId(): void {
+  workspaceIdRequest = null;
+}
 
 interface UseConfigDatabaseReturn {
   isLoading: boolean;
@@ -22,6 +65,7 @@ interface UseConfigDatabaseReturn {
   getJiraConfig: () => Promise<JiraConfig>;
   getAIConfig: () => Promise<AIConfig>;
   getThresholds: () => Promise<ThresholdConfig>;
+  getSonarConfig: () => Promise<SonarConfig>;
 }
 
 export function useConfigDatabase(): UseConfigDatabaseReturn {
@@ -33,9 +77,13 @@ export function useConfigDatabase(): UseConfigDatabaseReturn {
       setIsLoading(true);
       setError(null);
 
+      const workspaceId = await getWorkspaceId();
+      if (!workspaceId) return null;
+
       const { data, error: fetchError } = await supabase
         .from('app_configurations')
         .select('config_data')
+        .eq('workspace_id', workspaceId)
         .eq('config_type', type)
         .maybeSingle();
 
@@ -60,11 +108,40 @@ export function useConfigDatabase(): UseConfigDatabaseReturn {
       setIsLoading(true);
       setError(null);
 
+      const workspaceId = await getWorkspaceId();
+      if (!workspaceId) {
+        setError('No workspace available');
+        return false;
+      }
+
+      // Secrets go to the vault; the config row only keeps the rest
+      let configData: T = data;
+      if (isSecretConfigType(type)) {
+        const { stored, secrets } = splitSecret(type, data as object);
+        configData = stored as T;
+        for (const [name, secret] of secrets) {
+          if (!(await saveSecret(workspaceId, name, secret))) {
+            setError(`Failed to store the ${name} secret`);
+            return false;
+          }
+        }
+      }
+      if (type === 'ai') {
+        const { stored, secrets } = splitReviewerKeys(configData as AIConfig);
+        configData = stored as T;
+        for (const [name, secret] of secrets) {
+          if (!(await saveSecret(workspaceId, name, secret))) {
+            setError(`Failed to store the ${name} secret`);
+            return false;
+          }
+        }
+      }
+
       const { error: upsertError } = await supabase
         .from('app_configurations')
         .upsert(
-          { config_type: type, config_data: data as any },
-          { onConflict: 'config_type' }
+          { workspace_id: workspaceId, config_type: type, config_data: configData as any },
+          { onConflict: 'workspace_id,config_type' }
         );
 
       if (upsertError) {
@@ -84,17 +161,18 @@ export function useConfigDatabase(): UseConfigDatabaseReturn {
   }, []);
 
   const getGitHubConfig = useCallback(async (): Promise<GitHubConfig | null> => {
-    return getConfig<GitHubConfig>('github');
+    const [config, hints] = await Promise.all([getConfig<GitHubConfig>('github'), getSecretHints()]);
+    return config && withSecretHint('github', config, hints);
   }, [getConfig]);
 
   const getJiraConfig = useCallback(async (): Promise<JiraConfig> => {
-    const config = await getConfig<JiraConfig>('jira');
-    return config || DEFAULT_JIRA_CONFIG;
+    const [config, hints] = await Promise.all([getConfig<JiraConfig>('jira'), getSecretHints()]);
+    return withSecretHint('jira', config || DEFAULT_JIRA_CONFIG, hints);
   }, [getConfig]);
 
   const getAIConfig = useCallback(async (): Promise<AIConfig> => {
-    const config = await getConfig<AIConfig>('ai');
-    return config || DEFAULT_AI_CONFIG;
+    const [config, hints] = await Promise.all([getConfig<AIConfig>('ai'), getSecretHints()]);
+    return withReviewerKeyHints(withSecretHint('ai', config || DEFAULT_AI_CONFIG, hints), hints);
   }, [getConfig]);
 
   const getThresholds = useCallback(async (): Promise<ThresholdConfig> => {
@@ -102,6 +180,11 @@ export function useConfigDatabase(): UseConfigDatabaseReturn {
     return config || DEFAULT_THRESHOLDS;
   }, [getConfig]);
 
+  const getSonarConfig = useCallback(async (): Promise<SonarConfig> => {
+    const [config, hints] = await Promise.all([getConfig<SonarConfig>('sonar'), getSecretHints()]);
+    return withSecretHint('sonar', config || DEFAULT_SONAR_CONFIG, hints);
+  }, [getConfig]);
+
   return {
     isLoading,
     error,
@@ -111,9 +194,202 @@ export function useConfigDatabase(): UseConfigDatabaseReturn {
     getJiraConfig,
     getAIConfig,
     getThresholds,
+    getSonarConfig,
   };
 }
 
+// Workspace secret functions: values are write-only from the browser
+async function saveSecret(workspaceId: string, name: SecretName, value: string): Promise<boolean> {
+  const { error } = await supabase.rpc('set_workspace_secret', {
+    _workspace_id: workspaceId,
+    _name: name,
+    _value: value,
+  });
+
+  if (error) {
+    console.error(`Failed to store ${name}:`, error);
+    return false;
+  }
+  return true;
+}
+
+/** Last four characters of each secret the workspace has stored. */
+export async function getSecretHints(): Promise<Partial<Record<SecretName, string>>> {
+  try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return {};
+
+    const { data, error } = await supabase
+      .from('workspace_secrets')
+      .select('name, last_four')
+      .eq('workspace_id', workspaceId);
+
+    if (error) {
+      console.error('Failed to fetch secret status:', error);
+      return {};
+    }
+
+    return Object.fromEntries((data || []).map(row => [row.name, row.last_four]));
+  } catch (err) {
+    console.error('Failed to read secret status', err);
+    return {};
+  }
+}
+
+// Workspace repository database functions
+export async function getWorkspaceRepositories(): Promise<WorkspaceRepository[]> {
+  try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return [];
+
+    const { data, error } = await supabase
+      .from('workspace_repositories')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to fetch workspace repositories:', error);
+      return [];
+    }
+
+    return (data || []).map(repositoryFromRow);
+  } catch (err) {
+    console.error('Failed to read workspace repositories', err);
+    return [];
+  }
+}
+
+export async function saveWorkspaceRepository(repository: WorkspaceRepository): Promise<boolean> {
+  try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return false;
+
+    const { error } = await supabase
+      .from('workspace_repositories')
+      .upsert(
+        {
+          workspace_id: workspaceId,
+          owner: repository.owner,
+          repo: repository.repo,
+          thresholds: (repository.thresholds ?? null) as Json,
+          ai_overrides: (repository.aiOverrides ?? null) as Json,
+          jira_project_key: repository.jiraProjectKey || null,
+        },
+        { onConflict: 'workspace_id,owner,repo' }
+      );
+
+    if (error) {
+      console.error('Failed to save workspace repository:', error);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('Failed to write workspace repository', err);
+    return false;
+  }
+}
+
+export async function deleteWorkspaceRepository(owner: string, repo: string): Promise<boolean> {
+  try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return false;
+
+    const { error } = await supabase
+      .from('workspace_repositories')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('owner', owner)
+      .eq('repo', repo);
+
+    if (error) {
+      console.error('Failed to delete workspace repository:', error);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('Failed to delete workspace repository', err);
+    return false;
+  }
+}
+
+// Prompt template database functions: versions are only ever added
+export async function getPromptTemplateVersions(): Promise<PromptTemplateVersion[]> {
+  try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return [];
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Failed to fetch prompt templates:', error);
+      return [];
+    }
+
+    return (data || []).map(promptTemplateFromRow);
+  } catch (err) {
+    console.error('Failed to read prompt templates', err);
+    return [];
+  }
+}
+
+/** Save `body` as the next version of `kind` for a repository, or for the workspace default with `null`. */
+export async function savePromptTemplateVersion(
+  kind: PromptTemplateKind,
+  repository: { owner: string; repo: string } | null,
+  body: string
+): Promise<PromptTemplateVersion | null> {
+  try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return null;
+
+    const owner = repository?.owner ?? '';
+    const repo = repository?.repo ?? '';
+    const { data: latest, error: latestError } = await supabase
+      .from('prompt_templates')
+      .select('version')
+      .eq('workspace_id', workspaceId)
+      .eq('kind', kind)
+      .eq('owner', owner)
+      .eq('repo', repo)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      console.error('Failed to fetch prompt template version:', latestError);
+      return null;
+    }
+
+    // Two editors saving at once collide on the unique version; the second save fails
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .insert({
+        workspace_id: workspaceId,
+        kind,
+        owner,
+        repo,
+        version: (latest?.version ?? 0) + 1,
+        body,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to save prompt template:', error);
+      return null;
+    }
+    return promptTemplateFromRow(data);
+  } catch (err) {
+    console.error('Failed to write prompt template', err);
+    return null;
+  }
+}
+
 // Auto-merge history database functions
 export interface AutoMergeHistoryEntry {
   timestamp: string;
@@ -128,9 +404,13 @@ export interface AutoMergeHistoryEntry {
 
 export async function getAutoMergeHistory(prNumber: number): Promise<AutoMergeHistoryEntry[]> {
   try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return [];
+
     const { data, error } = await supabase
       .from('auto_merge_history')
       .select('*')
+      .eq('workspace_id', workspaceId)
       .eq('pr_number', prNumber)
       .order('created_at', { ascending: false })
       .limit(20);
@@ -158,9 +438,13 @@ export async function getAutoMergeHistory(prNumber: number): Promise<AutoMergeHi
 
 export async function saveAutoMergeHistory(prNumber: number, entry: AutoMergeHistoryEntry): Promise<boolean> {
   try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return false;
+
     const { error } = await supabase
       .from('auto_merge_history')
       .insert({
+        workspace_id: workspaceId,
         pr_number: prNumber,
         ai_score: entry.aiScore,
         sonar_issues: entry.sonarIssues,
@@ -185,9 +469,13 @@ export async function saveAutoMergeHistory(prNumber: number, entry: AutoMergeHis
 // PR Comment ID database functions
 export async function getPRCommentId(owner: string, repo: string, prNumber: number): Promise<string | null> {
   try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return null;
+
     const { data, error } = await supabase
       .from('pr_comment_ids')
       .select('comment_id')
+      .eq('workspace_id', workspaceId)
       .eq('owner', owner)
       .eq('repo', repo)
       .eq('pr_number', prNumber)
@@ -207,11 +495,14 @@ export async function getPRCommentId(owner: string, repo: string, prNumber: numb
 
 export async function savePRCommentId(owner: string, repo: string, prNumber: number, commentId: string): Promise<boolean> {
   try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return false;
+
     const { error } = await supabase
       .from('pr_comment_ids')
       .upsert(
-        { owner, repo, pr_number: prNumber, comment_id: commentId },
-        { onConflict: 'owner,repo,pr_number' }
+        { workspace_id: workspaceId, owner, repo, pr_number: prNumber, comment_id: commentId },
+        { onConflict: 'workspace_id,owner,repo,pr_number' }
       );
 
     if (error) {
@@ -224,3 +515,227 @@ export async function savePRCommentId(owner: string, repo: string, prNumber: num
     return false;
   }
 }
+
+/** Database-backed store for the review comment id used by upsertReviewComment. */
+export const prCommentIdStore: CommentIdStore = {
+  get: getPRCommentId,
+  save: savePRCommentId,
+};
+
+// Suggestion status database functions
+export async function getSuggestionStatuses(owner: string, repo: string, prNumber: number, headSha: string): Promise<SuggestionStatusRecord[]> {
+  try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return [];
+
+    const { data, error } = await supabase
+      .from('suggestion_statuses')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('owner', owner)
+      .eq('repo', repo)
+      .eq('pr_number', prNumber)
+      .eq('head_sha', headSha);
+
+    if (error) {
+      console.error('Failed to fetch suggestion statuses:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      headSha: row.head_sha,
+      fingerprint: row.fingerprint,
+      suggestionId: row.suggestion_id,
+      file: row.file,
+      message: row.message,
+      status: row.status as SuggestionStatusRecord['status'],
+      commitSha: row.commit_sha,
+    }));
+  } catch (err) {
+    console.error('Failed to read suggestion statuses', err);
+    return [];
+  }
+}
+
+export async function saveSuggestionStatus(owner: string, repo: string, prNumber: number, record: SuggestionStatusRecord): Promise<boolean> {
+  try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return false;
+
+    const { error } = await supabase
+      .from('suggestion_statuses')
+      .upsert(
+        {
+          workspace_id: workspaceId,
+          owner,
+          repo,
+          pr_number: prNumber,
+          head_sha: record.headSha,
+          fingerprint: record.fingerprint,
+          suggestion_id: record.suggestionId,
+          file: record.file,
+          message: record.message,
+          status: record.status,
+          commit_sha: record.commitSha ?? null,
+        },
+        { onConflict: 'workspace_id,owner,repo,pr_number,head_sha,fingerprint' }
+      );
+
+    if (error) {
+      console.error('Failed to save suggestion status:', error);
+      return false;
+    }
+
+    // Reloads and incremental re-reviews read the status from the latest review's suggestions
+    const { data: latest, error: runError } = await supabase
+      .from('review_runs')
+      .select('id')
+      .eq('workspace_id', workspaceId)
+      .eq('owner', owner)
+      .eq('repo', repo)
+      .eq('pr_number', prNumber)
+      .eq('command', 'review')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (runError) {
+      console.error('Failed to fetch the latest review run:', runError);
+      return false;
+    }
+    if (!latest) return true;
+
+    const { error: suggestionError } = await supabase
+      .from('ai_suggestions')
+      .update({ status: record.status })
+      .eq('run_id', latest.id)
+      .eq('fingerprint', record.fingerprint);
+
+    if (suggestionError) {
+      console.error('Failed to update the suggestion status:', suggestionError);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('Failed to write suggestion status', err);
+    return false;
+  }
+}
+
+/** Database-backed store for reviewer decisions on AI suggestions. */
+export const suggestionStatusStore: SuggestionStatusStore = {
+  list: getSuggestionStatuses,
+  save: saveSuggestionStatus,
+};
+
+// Review run database functions: every run is kept, with its suggestions and Sonar snapshot
+export async function getReviewRuns(owner: string, repo: string, prNumber: number): Promise<ReviewRun[]> {
+  try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return [];
+
+    const { data, error } = await supabase
+      .from('review_runs')
+      .select('*, ai_suggestions(*), sonar_snapshots(*)')
+      .eq('workspace_id', workspaceId)
+      .eq('owner', owner)
+      .eq('repo', repo)
+      .eq('pr_number', prNumber)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Failed to fetch review runs:', error);
+      return [];
+    }
+
+    return (data || []).map(row => reviewRunFromRow(row as unknown as ReviewRunRow));
+  } catch (err) {
+    console.error('Failed to read review runs', err);
+    return [];
+  }
+}
+
+/** The latest full review of the PR, which an incremental re-review builds on. */
+export async function getLatestReviewRun(owner: string, repo: string, prNumber: number): Promise<ReviewRun | null> {
+  try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return null;
+
+    const { data, error } = await supabase
+      .from('review_runs')
+      .select('*, ai_suggestions(*), sonar_snapshots(*)')
+      .eq('workspace_id', workspaceId)
+      .eq('owner', owner)
+      .eq('repo', repo)
+      .eq('pr_number', prNumber)
+      .eq('command', 'review')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to fetch the latest review run:', error);
+      return null;
+    }
+
+    return data ? reviewRunFromRow(data as unknown as ReviewRunRow) : null;
+  } catch (err) {
+    console.error('Failed to read the latest review run', err);
+    return null;
+  }
+}
+
+export async function saveReviewRun(owner: string, repo: string, prNumber: number, record: ReviewRunRecord): Promise<boolean> {
+  try {
+    const workspaceId = await getWorkspaceId();
+    if (!workspaceId) return false;
+
+    const rows = reviewRunRows(record);
+    const { data: run, error } = await supabase
+      .from('review_runs')
+      .insert({
+        ...rows.run,
+        workspace_id: workspaceId,
+        owner,
+        repo,
+        pr_number: prNumber,
+        review: rows.run.review as Json,
+        business_logic: rows.run.business_logic as Json,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Failed to save review run:', error);
+      return false;
+    }
+
+    const [suggestions, sonar] = await Promise.all([
+      rows.suggestions.length > 0
+        ? supabase.from('ai_suggestions').insert(rows.suggestions.map(row => ({
+          ...row,
+          workspace_id: workspaceId,
+          run_id: run.id,
+          code: row.code as Json,
+          agreement: row.agreement as Json,
+        })))
+        : { error: null },
+      rows.sonar
+        ? supabase.from('sonar_snapshots').insert({ ...rows.sonar, workspace_id: workspaceId, run_id: run.id, results: rows.sonar.results as Json })
+        : { error: null },
+    ]);
+
+    const childError = suggestions.error || sonar.error;
+    if (childError) {
+      // Don't keep a run that is missing its suggestions or snapshot
+      console.error('Failed to save review run details:', childError);
+      await supabase.from('review_runs').delete().eq('id', run.id);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('Failed to write review run', err);
+    return false;
+  }
+}
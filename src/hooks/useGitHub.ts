@@ -1,80 +1,190 @@
-import { useState, useCallback, useEffect } from 'react';
-import { GitHubConfig, PullRequest } from '@/types/codeReview';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { ALL_REPOSITORIES, DEFAULT_PR_FILTERS, GitHubConfig, PRFile, PRFilters, PullRequest, WorkspaceRepository } from '@/types/codeReview';
 import { toast } from '@/hooks/use-toast';
-import { useConfigDatabase, getPRCommentId, savePRCommentId } from '@/hooks/useConfigDatabase';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  useConfigDatabase,
+  prCommentIdStore,
+  getWorkspaceId,
+  getWorkspaceRepositories,
+  saveWorkspaceRepository,
+  deleteWorkspaceRepository,
+} from '@/hooks/useConfigDatabase';
+import { githubClient } from '@/hooks/useGitHubRateLimit';
+import { fetchPRFiles as fetchFiles, githubRequest, mergePullRequest, upsertReviewComment } from '@/lib/githubApi';
+import { fetchPullRequestDetails, fetchPullRequestPage } from '@/lib/pullRequests';
+import { maskSecret } from '@/lib/secrets';
+import { findRepository, githubConfigFor, mergePullRequestQueues, parseRepositoryKey, repositoryKey } from '@/lib/workspace';
+
+// Upper bound of pages read for one load when client-side filters leave pages empty
+const MAX_PAGES_PER_LOAD = 5;
+
+/**
+ * Registers a GitHub App with the github-app-token edge function, which keeps the private key;
+ * installation tokens are minted server-side by the proxies and never reach the browser.
+ * The function checks that the signed-in user belongs to the workspace.
+ */
+export async function invokeGitHubAppToken(body: Record<string, string>): Promise<{ registered: boolean; expiresAt: string }> {
+  const workspaceId = await getWorkspaceId();
+  const { data, error } = await supabase.functions.invoke('github-app-token', { body: { ...body, workspaceId } });
+  if (error || data?.error) {
+    throw new Error(data?.error || error.message);
+  }
+  return data;
+}
 
 interface UseGitHubReturn {
+  /**
+   * Config to call GitHub with for the active repository (the first one when all are shown).
+   * It carries no token; `githubClient` sends requests through the proxy, which adds it.
+   */
   config: GitHubConfig | null;
+  /** Config for a PR's `repository`; falls back to the active repository. */
+  configFor: (repository?: string) => GitHubConfig | null;
+  /** Config as saved, for the settings panel; the token is replaced by `tokenLastFour`. */
+  savedConfig: GitHubConfig | null;
   setConfig: (config: GitHubConfig) => void;
+  registerGitHubApp: (appId: string, installationId: string, privateKey: string) => Promise<boolean>;
+  repositories: WorkspaceRepository[];
+  /** `owner/repo` of the repository shown in the PR list, or ALL_REPOSITORIES. */
+  activeRepository: string;
+  setActiveRepository: (repository: string) => void;
+  saveRepository: (repository: WorkspaceRepository) => Promise<boolean>;
+  removeRepository: (repository: WorkspaceRepository) => Promise<boolean>;
   pullRequests: PullRequest[];
+  filters: PRFilters;
+  setFilters: (filters: PRFilters) => void;
+  hasMore: boolean;
+  /** Pages loaded so far, counting only the ones that arrived; grows even when filters hide a whole page. */
+  pagesLoaded: number;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
   fetchPullRequests: () => Promise<void>;
-  fetchPullRequest: (prNumber: number) => Promise<PullRequest | null>;
-  fetchPRFiles: (prNumber: number) => Promise<PRFile[]>;
+  loadMorePullRequests: () => Promise<void>;
+  fetchPullRequest: (prNumber: number, repository?: string) => Promise<PullRequest | null>;
+  fetchPRFiles: (prNumber: number, repository?: string) => Promise<PRFile[]>;
   testConnection: () => Promise<boolean>;
-  postPRComment: (prNumber: number, body: string) => Promise<boolean>;
-  mergePR: (prNumber: number, commitTitle?: string) => Promise<boolean>;
-}
-
-interface PRFile {
-  filename: string;
-  status: string;
-  additions: number;
-  deletions: number;
-  patch?: string;
+  postPRComment: (prNumber: number, body: string, repository?: string) => Promise<boolean>;
+  mergePR: (prNumber: number, commitTitle?: string, repository?: string) => Promise<boolean>;
 }
 
 export function useGitHub(): UseGitHubReturn {
   const { getGitHubConfig, saveConfig } = useConfigDatabase();
-  const [config, setConfigState] = useState<GitHubConfig | null>(null);
+  const [savedConfig, setConfigState] = useState<GitHubConfig | null>(null);
+  const [repositories, setRepositories] = useState<WorkspaceRepository[]>([]);
+  const [activeRepository, setActiveRepository] = useState<string>(ALL_REPOSITORIES);
   const [pullRequests, setPullRequests] = useState<PullRequest[]>([]);
+  const [filters, setFilters] = useState<PRFilters>(DEFAULT_PR_FILTERS);
+  // Next page per listed repository, keyed by `owner/repo`
+  const [cursors, setCursors] = useState<Record<string, string | null>>({});
+  const [pagesLoaded, setPagesLoaded] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
 
   // Load config from database on mount
   useEffect(() => {
     const loadConfig = async () => {
-      const dbConfig = await getGitHubConfig();
+      const [dbConfig, dbRepositories] = await Promise.all([getGitHubConfig(), getWorkspaceRepositories()]);
       if (dbConfig) {
         setConfigState(dbConfig);
       }
+      setRepositories(dbRepositories);
       setIsInitialized(true);
     };
     loadConfig();
   }, [getGitHubConfig]);
 
+  const saveRepository = useCallback(async (repository: WorkspaceRepository): Promise<boolean> => {
+    const saved = await saveWorkspaceRepository(repository);
+    if (!saved) {
+      toast({
+        title: "Failed to Save Repository",
+        description: `Could not save ${repositoryKey(repository)}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const key = repositoryKey(repository);
+    setRepositories(prev => prev.some(r => repositoryKey(r) === key)
+      ? prev.map(r => repositoryKey(r) === key ? { ...r, ...repository } : r)
+      : [...prev, repository]);
+    return true;
+  }, []);
+
+  const removeRepository = useCallback(async (repository: WorkspaceRepository): Promise<boolean> => {
+    const removed = await deleteWorkspaceRepository(repository.owner, repository.repo);
+    if (!removed) {
+      toast({
+        title: "Failed to Remove Repository",
+        description: `Could not remove ${repositoryKey(repository)}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const key = repositoryKey(repository);
+    setRepositories(prev => prev.filter(r => repositoryKey(r) !== key));
+    setActiveRepository(prev => prev === key ? ALL_REPOSITORIES : prev);
+    return true;
+  }, []);
+
   const setConfig = useCallback(async (newConfig: GitHubConfig) => {
-    setConfigState(newConfig);
+    setConfigState(maskSecret('github', newConfig));
     await saveConfig('github', newConfig);
-  }, [saveConfig]);
-
-  const githubFetch = useCallback(async (endpoint: string) => {
-    if (!config) throw new Error('GitHub not configured');
-    
-    const response = await fetch(`https://api.github.com${endpoint}`, {
-      headers: {
-        'Authorization': `Bearer ${config.token}`,
-        'Accept': 'application/vnd.github.v3+json',
-        'X-GitHub-Api-Version': '2022-11-28',
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.message || `GitHub API error: ${response.status}`);
+    // The repository entered with the credentials joins the workspace
+    if (newConfig.owner && newConfig.repo && !findRepository(repositories, repositoryKey(newConfig))) {
+      await saveRepository({ owner: newConfig.owner, repo: newConfig.repo });
     }
+  }, [saveConfig, saveRepository, repositories]);
 
-    return response.json();
-  }, [config]);
+  // The workspace's repositories, or the saved owner/repo before any were added
+  const watchedRepositories = useMemo<WorkspaceRepository[]>(() => {
+    if (repositories.length > 0) return repositories;
+    return savedConfig?.owner && savedConfig.repo ? [{ owner: savedConfig.owner, repo: savedConfig.repo }] : [];
+  }, [repositories, savedConfig]);
+
+  const listedRepositories = useMemo(() => activeRepository === ALL_REPOSITORIES
+    ? watchedRepositories
+    : watchedRepositories.filter(r => repositoryKey(r) === activeRepository), [watchedRepositories, activeRepository]);
+
+  const configFor = useCallback((repository?: string): GitHubConfig | null => {
+    if (!savedConfig) return null;
+    const key = repository ?? activeRepository;
+    const target = findRepository(watchedRepositories, key) || parseRepositoryKey(key) || watchedRepositories[0];
+    return target ? githubConfigFor(savedConfig, target) : savedConfig;
+  }, [savedConfig, watchedRepositories, activeRepository]);
+
+  const config = useMemo(() => configFor(), [configFor]);
+
+  const registerGitHubApp = useCallback(async (appId: string, appInstallationId: string, privateKey: string): Promise<boolean> => {
+    try {
+      await invokeGitHubAppToken({ action: 'register', appId, installationId: appInstallationId, privateKey });
+      toast({
+        title: "GitHub App Registered",
+        description: `Installation ${appInstallationId} can now mint tokens`,
+      });
+      return true;
+    } catch (err) {
+      console.error('Failed to register GitHub App:', err);
+      toast({
+        title: "GitHub App Registration Failed",
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, []);
 
   const testConnection = useCallback(async (): Promise<boolean> => {
     if (!config) return false;
     
     try {
       setIsLoading(true);
-      await githubFetch(`/repos/${config.owner}/${config.repo}`);
+      await githubRequest(config, `/repos/${config.owner}/${config.repo}`, githubClient.fetch);
       toast({
         title: "Connection Successful",
         description: `Connected to ${config.owner}/${config.repo}`,
@@ -92,80 +202,47 @@ export function useGitHub(): UseGitHubReturn {
     } finally {
       setIsLoading(false);
     }
-  }, [config, githubFetch]);
+  }, [config]);
+
+  // Client-side filters (author, label) can empty a page; read ahead a few pages so the list doesn't look exhausted
+  const loadPage = useCallback(async (repoConfig: GitHubConfig, cursor: string | null) => {
+    const found: PullRequest[] = [];
+    let next = cursor;
+    for (let i = 0; i < MAX_PAGES_PER_LOAD; i++) {
+      const page = await fetchPullRequestPage(repoConfig, filters, next, githubClient.fetch);
+      found.push(...page.pullRequests);
+      next = page.next;
+      if (found.length > 0 || !next) break;
+    }
+    return { found, next };
+  }, [filters]);
+
+  // Loads the listed repositories in parallel: first pages without `from`, else each repository's next page
+  const loadRepositories = useCallback(async (from: Record<string, string | null> | null) => {
+    const targets = listedRepositories.filter(r => !from || from[repositoryKey(r)]);
+    const pages = await Promise.all(targets.map(r => loadPage(githubConfigFor(savedConfig!, r), from ? from[repositoryKey(r)] : null)));
+    return {
+      queues: pages.map(p => p.found),
+      next: Object.fromEntries(targets.map((r, i) => [repositoryKey(r), pages[i].next])),
+    };
+  }, [savedConfig, listedRepositories, loadPage]);
 
   const fetchPullRequests = useCallback(async () => {
-    if (!config) return;
+    if (!savedConfig) return;
 
     try {
       setIsLoading(true);
       setError(null);
 
-      // First, get list of PRs
-      const data = await githubFetch(`/repos/${config.owner}/${config.repo}/pulls?state=all&per_page=20`);
-      
-      // Fetch detailed info for each PR to get accurate file counts
-      const detailedPRs = await Promise.all(
-        data.slice(0, 20).map(async (pr: any) => {
-          try {
-            // Fetch individual PR details which includes additions/deletions/changed_files
-            const detail = await githubFetch(`/repos/${config.owner}/${config.repo}/pulls/${pr.number}`);
-            return {
-              id: detail.id,
-              number: detail.number,
-              title: detail.title,
-              body: detail.body,
-              state: detail.merged_at ? 'merged' : detail.state,
-              author: detail.user.login,
-              authorAvatar: detail.user.avatar_url,
-              createdAt: detail.created_at,
-              updatedAt: detail.updated_at,
-              head: {
-                ref: detail.head.ref,
-                sha: detail.head.sha,
-              },
-              base: {
-                ref: detail.base.ref,
-              },
-              additions: detail.additions || 0,
-              deletions: detail.deletions || 0,
-              changedFiles: detail.changed_files || 0,
-              labels: detail.labels?.map((l: any) => l.name) || [],
-              reviewState: 'pending' as const,
-            };
-          } catch {
-            // Fallback to basic info if detail fetch fails
-            return {
-              id: pr.id,
-              number: pr.number,
-              title: pr.title,
-              body: pr.body,
-              state: pr.merged_at ? 'merged' : pr.state,
-              author: pr.user.login,
-              authorAvatar: pr.user.avatar_url,
-              createdAt: pr.created_at,
-              updatedAt: pr.updated_at,
-              head: {
-                ref: pr.head.ref,
-                sha: pr.head.sha,
-              },
-              base: {
-                ref: pr.base.ref,
-              },
-              additions: 0,
-              deletions: 0,
-              changedFiles: 0,
-              labels: pr.labels?.map((l: any) => l.name) || [],
-              reviewState: 'pending' as const,
-            };
-          }
-        })
-      );
-
-      setPullRequests(detailedPRs);
+      const { queues, next } = await loadRepositories(null);
+      const found = mergePullRequestQueues(queues);
+      setPullRequests(found);
+      setCursors(next);
+      setPagesLoaded(1);
+      const more = Object.values(next).some(Boolean);
       toast({
         title: "PRs Loaded",
-        description: `Fetched ${detailedPRs.length} pull requests with details`,
+        description: `Fetched ${found.length}${more ? '+' : ''} pull requests${queues.length > 1 ? ` from ${queues.length} repositories` : ''}`,
       });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to fetch pull requests';
@@ -178,38 +255,43 @@ export function useGitHub(): UseGitHubReturn {
     } finally {
       setIsLoading(false);
     }
-  }, [config, githubFetch]);
+  }, [savedConfig, loadRepositories]);
+
+  const hasMore = Object.values(cursors).some(Boolean);
+
+  const loadMorePullRequests = useCallback(async () => {
+    if (!savedConfig || !hasMore || isLoadingMore) return;
+
+    try {
+      setIsLoadingMore(true);
+      const { queues, next } = await loadRepositories(cursors);
+      // A PR can move between pages while paging by update time; keep the first copy
+      setPullRequests(prev => mergePullRequestQueues([prev, ...queues.map(q => q.filter(pr => !prev.some(p => p.id === pr.id)))]));
+      setCursors(prev => ({ ...prev, ...next }));
+      setPagesLoaded(prev => prev + 1);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch pull requests';
+      setError(message);
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [savedConfig, hasMore, isLoadingMore, cursors, loadRepositories]);
 
-  const fetchPullRequest = useCallback(async (prNumber: number): Promise<PullRequest | null> => {
-    if (!config) return null;
+  const fetchPullRequest = useCallback(async (prNumber: number, repository?: string): Promise<PullRequest | null> => {
+    const repoConfig = configFor(repository);
+    if (!repoConfig) return null;
 
     try {
       setIsLoading(true);
-      const pr = await githubFetch(`/repos/${config.owner}/${config.repo}/pulls/${prNumber}`);
-      
-      return {
-        id: pr.id,
-        number: pr.number,
-        title: pr.title,
-        body: pr.body,
-        state: pr.merged_at ? 'merged' : pr.state,
-        author: pr.user.login,
-        authorAvatar: pr.user.avatar_url,
-        createdAt: pr.created_at,
-        updatedAt: pr.updated_at,
-        head: {
-          ref: pr.head.ref,
-          sha: pr.head.sha,
-        },
-        base: {
-          ref: pr.base.ref,
-        },
-        additions: pr.additions || 0,
-        deletions: pr.deletions || 0,
-        changedFiles: pr.changed_files || 0,
-        labels: pr.labels?.map((l: any) => l.name) || [],
-        reviewState: 'pending',
-      };
+      const pr = await fetchPullRequestDetails(repoConfig, prNumber, githubClient.fetch);
+      // Refresh the listed copy; after a REST fallback the list has no line counts
+      setPullRequests(prev => prev.map(p => p.id === pr.id ? pr : p));
+      return pr;
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to fetch pull request';
       setError(message);
@@ -217,171 +299,41 @@ export function useGitHub(): UseGitHubReturn {
     } finally {
       setIsLoading(false);
     }
-  }, [config, githubFetch]);
+  }, [configFor]);
 
-  const fetchPRFiles = useCallback(async (prNumber: number): Promise<PRFile[]> => {
-    if (!config) return [];
+  const fetchPRFiles = useCallback(async (prNumber: number, repository?: string): Promise<PRFile[]> => {
+    const repoConfig = configFor(repository);
+    if (!repoConfig) return [];
 
     try {
-      const files = await githubFetch(`/repos/${config.owner}/${config.repo}/pulls/${prNumber}/files`);
-      return files.map((f: any) => ({
-        filename: f.filename,
-        status: f.status,
-        additions: f.additions,
-        deletions: f.deletions,
-        patch: f.patch,
-      }));
+      return await fetchFiles(repoConfig, prNumber, githubClient.fetch);
     } catch (err) {
       console.error('Failed to fetch PR files:', err);
       return [];
     }
-  }, [config, githubFetch]);
+  }, [configFor]);
 
-  const postPRComment = useCallback(async (prNumber: number, body: string): Promise<boolean> => {
-    if (!config) return false;
-    // Upsert pattern: find existing comment by this app (marker) and replace it, otherwise create a new comment.
-    const MARKER = '<!-- codegate-auto-review -->';
-    const bodyWithMarker = `${MARKER}\n${body}`;
-
-    // header builder
-    const buildHeaders = (authValue: string) => ({
-      'Authorization': authValue,
-      'Accept': 'application/vnd.github.v3+json',
-      'X-GitHub-Api-Version': '2022-11-28',
-      'Content-Type': 'application/json',
-    });
+  const postPRComment = useCallback(async (prNumber: number, body: string, repository?: string): Promise<boolean> => {
+    const repoConfig = configFor(repository);
+    if (!repoConfig) return false;
 
     try {
-      // Get stored comment ID from database
-      const storedId = await getPRCommentId(config.owner, config.repo, prNumber);
-
-      const doFetch = async (method: string, url: string, headers: Record<string, string>, bodyObj?: any) => {
-        const res = await fetch(url, {
-          method,
-          headers,
-          body: bodyObj ? JSON.stringify(bodyObj) : undefined,
-        });
-        return res;
-      };
-
-      // Try to PATCH the stored comment id first (fast path). If it fails, fall back to searching/upserting.
-      if (storedId) {
-        try {
-          const url = `https://api.github.com/repos/${config.owner}/${config.repo}/issues/comments/${storedId}`;
-          let response = await doFetch('PATCH', url, buildHeaders(`Bearer ${config.token}`), { body: bodyWithMarker });
-          if (response.status === 403) {
-            response = await doFetch('PATCH', url, buildHeaders(`token ${config.token}`), { body: bodyWithMarker });
-          }
-
-          if (response.ok) {
-            toast({ title: 'Comment Updated', description: `Review updated on PR #${prNumber}` });
-            return true;
-          }
-          // if 404 or other error, we'll continue to the general upsert flow
-        } catch (e) {
-          // ignore and continue to search-based upsert
-          console.warn('Failed to PATCH stored comment id, falling back to search', e);
-        }
-      }
-
-      // Get authenticated user login (to ensure we only update our own comments)
-      const authUser = await githubFetch('/user').catch(() => null);
-      const login = authUser?.login;
-      // List existing comments
-      const comments = await githubFetch(`/repos/${config.owner}/${config.repo}/issues/${prNumber}/comments`).catch(() => []);
-
-      const existing = comments.find((c: any) => {
-        if (typeof c.body !== 'string') return false;
-        // exact marker present
-        if (c.body.includes(MARKER) && (login ? c.user?.login === login : true)) return true;
-        // fallback: authored by the same user and looks like our AI review header
-        if (login && c.user?.login === login && (c.body.includes(`## 🤖 AI Code Review for PR #`) || c.body.includes('Generated by'))) return true;
-        return false;
-      });
-
-      const postUrl = `https://api.github.com/repos/${config.owner}/${config.repo}/issues/${prNumber}/comments`;
-
-      // prefer PATCH to update existing
-      let response: Response;
-      if (existing) {
-        const url = `https://api.github.com/repos/${config.owner}/${config.repo}/issues/comments/${existing.id}`;
-        response = await doFetch('PATCH', url, buildHeaders(`Bearer ${config.token}`), { body: bodyWithMarker });
-        if (response.status === 403) {
-          response = await doFetch('PATCH', url, buildHeaders(`token ${config.token}`), { body: bodyWithMarker });
-        }
-
-        if (response.ok) {
-          await savePRCommentId(config.owner, config.repo, prNumber, String(existing.id));
-        }
-      } else {
-        response = await doFetch('POST', postUrl, buildHeaders(`Bearer ${config.token}`), { body: bodyWithMarker });
-        if (response.status === 403) {
-          response = await doFetch('POST', postUrl, buildHeaders(`token ${config.token}`), { body: bodyWithMarker });
-        }
-
-        if (response.ok) {
-          const rspJson = await response.json().catch(() => null);
-          if (rspJson?.id) {
-            await savePRCommentId(config.owner, config.repo, prNumber, String(rspJson.id));
-          }
-        }
-      }
-
-      if (!response.ok) {
-        const errData = await response.json().catch(() => ({}));
-        const message = errData.message || `Failed to post/update comment: ${response.status}`;
-        if (response.status === 403) {
-          toast({ title: 'Failed to Post Comment (403)', description: `${message}. Token may lack required scopes.`, variant: 'destructive' });
-        } else {
-          toast({ title: 'Failed to Post Comment', description: message, variant: 'destructive' });
-        }
-        console.error('Comment API error', errData);
-        return false;
-      }
-
-      toast({ title: existing ? 'Comment Updated' : 'Comment Posted', description: `Review posted to PR #${prNumber}` });
+      const { updated } = await upsertReviewComment(repoConfig, prNumber, body, prCommentIdStore, githubClient.fetch);
+      toast({ title: updated ? 'Comment Updated' : 'Comment Posted', description: `Review posted to PR #${prNumber}` });
       return true;
     } catch (err) {
       console.error('Failed to upsert PR comment:', err);
       toast({ title: 'Failed to Post Comment', description: err instanceof Error ? err.message : 'Unknown error', variant: 'destructive' });
       return false;
     }
-  }, [config]);
+  }, [configFor]);
 
-  const mergePR = useCallback(async (prNumber: number, commitTitle?: string): Promise<boolean> => {
-    if (!config) return false;
+  const mergePR = useCallback(async (prNumber: number, commitTitle?: string, repository?: string): Promise<boolean> => {
+    const repoConfig = configFor(repository);
+    if (!repoConfig) return false;
 
     try {
-      const response = await fetch(`https://api.github.com/repos/${config.owner}/${config.repo}/pulls/${prNumber}/merge`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${config.token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          commit_title: commitTitle,
-          merge_method: 'squash',
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({}));
-        const message = error.message || `Failed to merge: ${response.status}`;
-        
-        // Provide better error guidance for common issues
-        let detailedMessage = message;
-        if (response.status === 403) {
-          if (message.includes('resource') || message.includes('accessible') || message.includes('token')) {
-            detailedMessage = `${message}. Your GitHub token may lack required permissions. Please ensure your token has 'repo' scope (or 'contents:write' for fine-grained tokens) to merge PRs.`;
-          } else if (message.includes('merge')) {
-            detailedMessage = `${message}. This may be due to: (1) Branch protection rules requiring approvals, (2) Pending status checks, (3) Merge conflicts, or (4) PR is in draft state.`;
-          }
-        }
-        
-        throw new Error(detailedMessage);
-      }
-
+      await mergePullRequest(repoConfig, prNumber, commitTitle, githubClient.fetch);
       toast({
         title: "PR Merged",
         description: `PR #${prNumber} has been merged successfully`,
@@ -389,25 +341,36 @@ export function useGitHub(): UseGitHubReturn {
       return true;
     } catch (err) {
       console.error('Failed to merge PR:', err);
-      const errorMessage = err instanceof Error ? err.message : "Unknown error";
-      console.error('Full error details:', err);
-      
       toast({
         title: "Failed to Merge PR",
-        description: errorMessage,
+        description: err instanceof Error ? err.message : "Unknown error",
         variant: "destructive",
       });
       return false;
     }
-  }, [config]);
+  }, [configFor]);
 
   return {
     config,
+    configFor,
+    savedConfig,
     setConfig,
+    registerGitHubApp,
+    repositories: watchedRepositories,
+    activeRepository,
+    setActiveRepository,
+    saveRepository,
+    removeRepository,
     pullRequests,
+    filters,
+    setFilters,
+    hasMore,
+    pagesLoaded,
     isLoading,
+    isLoadingMore,
     error,
     fetchPullRequests,
+    loadMorePullRequests,
     fetchPullRequest,
     fetchPRFiles,
     testConnection,
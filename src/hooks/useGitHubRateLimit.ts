@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { createGitHubClient, RateLimitState, scopeCache } from '@/lib/githubClient';
+import { createIndexedDBCache } from '@/lib/githubCache';
+import { createEdgeProxyFetch } from '@/lib/edgeProxy';
+import { getWorkspaceId } from '@/hooks/useConfigDatabase';
+
+/** Sends GitHub calls through the github-proxy edge function, which adds the workspace's token. */
+export const githubProxyFetch = createEdgeProxyFetch('github-proxy', getWorkspaceId);
+
+// Responses are fetched with the workspace's token, so they are cached per workspace
+const githubCache = scopeCache(createIndexedDBCache(), getWorkspaceId);
+
+/** Shared GitHub transport for the browser; pass `githubClient.fetch` as `fetchImpl` to the GitHub helpers. */
+export const githubClient = createGitHubClient({ cache: githubCache, fetchImpl: githubProxyFetch });
+
+/** Drop every cached GitHub response, e.g. when the user signs out. */
+export function clearGitHubCache(): Promise<void> {
+  return githubCache.clear();
+}
+
+/** Latest rate limit reported by GitHub for each resource (core, graphql, ...). */
+export function useGitHubRateLimit(): RateLimitState[] {
+  const [limits, setLimits] = useState<RateLimitState[]>(() => githubClient.getRateLimits());
+
+  useEffect(() => githubClient.subscribe(setLimits), []);
+
+  return limits;
+}
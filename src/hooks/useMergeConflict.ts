@@ -2,6 +2,11 @@ import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { GitHubConfig, AIConfig } from '@/types/codeReview';
+import { githubClient } from '@/hooks/useGitHubRateLimit';
+import { getWorkspaceId } from '@/hooks/useConfigDatabase';
+import { aiProxyComplete } from '@/hooks/useAIReview';
+import { fetchPRFiles, githubRequest } from '@/lib/githubApi';
+import { isAIConfigured } from '@/lib/aiProviders';
 
 export interface ConflictFile {
   filename: string;
@@ -46,6 +51,13 @@ export interface MergeabilityStatus {
   aheadBy: number;
 }
 
+interface PullRequestMergeability {
+  mergeable: boolean | null;
+  mergeable_state?: MergeabilityStatus['mergeableState'];
+  behind_by?: number;
+  ahead_by?: number;
+}
+
 export function useMergeConflict(): UseMergeConflictReturn {
   const [isCheckingConflicts, setIsCheckingConflicts] = useState(false);
   const [hasConflicts, setHasConflicts] = useState(false);
@@ -56,23 +68,12 @@ export function useMergeConflict(): UseMergeConflictReturn {
     config: GitHubConfig
   ): Promise<MergeabilityStatus | null> => {
     try {
-      const response = await fetch(
-        `https://api.github.com/repos/${config.owner}/${config.repo}/pulls/${prNumber}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${config.token}`,
-            'Accept': 'application/vnd.github.v3+json',
-          },
-        }
+      const pr = await githubRequest<PullRequestMergeability>(
+        config,
+        `/repos/${config.owner}/${config.repo}/pulls/${prNumber}`,
+        githubClient.fetch
       );
 
-      if (!response.ok) {
-        console.error('Failed to fetch PR mergeability:', response.status);
-        return null;
-      }
-
-      const pr = await response.json();
-
       // GitHub needs a moment to compute mergeability
       // mergeable can be null if not yet computed
       const mergeable = pr.mergeable ?? null;
@@ -124,31 +125,22 @@ export function useMergeConflict(): UseMergeConflictReturn {
         setHasConflicts(true);
 
         // Fetch the files to analyze conflicts
-        const filesResponse = await fetch(
-          `https://api.github.com/repos/${config.owner}/${config.repo}/pulls/${prNumber}/files`,
-          {
-            headers: {
-              'Authorization': `Bearer ${config.token}`,
-              'Accept': 'application/vnd.github.v3+json',
-            },
-          }
-        );
-
-        if (filesResponse.ok) {
-          const files = await filesResponse.json();
-          
-          // Mark files with potential conflicts (status 'modified' in both branches)
-          const potentialConflicts: ConflictFile[] = files
-            .filter((f: any) => f.status === 'modified')
-            .map((f: any) => ({
-              filename: f.filename,
-              conflictMarkers: [], // Would need to parse actual content for real markers
-              hasBusinessLogic: detectBusinessLogic(f.filename, f.patch || ''),
-              rawContent: f.patch,
-            }));
-
-          setConflictFiles(potentialConflicts);
-        }
+        const files = await fetchPRFiles(config, prNumber, githubClient.fetch).catch(err => {
+          console.error('Failed to fetch PR files:', err);
+          return [];
+        });
+
+        // Mark files with potential conflicts (status 'modified' in both branches)
+        const potentialConflicts: ConflictFile[] = files
+          .filter(f => f.status === 'modified')
+          .map(f => ({
+            filename: f.filename,
+            conflictMarkers: [], // Would need to parse actual content for real markers
+            hasBusinessLogic: detectBusinessLogic(f.filename, f.patch || ''),
+            rawContent: f.patch,
+          }));
+
+        setConflictFiles(potentialConflicts);
 
         toast({
           title: "Merge Conflicts Detected",
@@ -177,10 +169,10 @@ export function useMergeConflict(): UseMergeConflictReturn {
     file: ConflictFile,
     aiConfig: AIConfig
   ): Promise<string | null> => {
-    if (!aiConfig.apiKey) {
+    if (!isAIConfigured(aiConfig)) {
       toast({
         title: "AI Not Configured",
-        description: "Please configure your AI API key to use AI-assisted conflict resolution",
+        description: "Please configure your AI provider to use AI-assisted conflict resolution",
         variant: "destructive",
       });
       return null;
@@ -206,10 +198,14 @@ export function useMergeConflict(): UseMergeConflictReturn {
     resolution: ConflictResolution
   ): Promise<boolean> => {
     try {
+      const workspaceId = await getWorkspaceId();
+      if (!workspaceId) return false;
+
       // Save resolution to database for tracking
       const { error } = await supabase
         .from('merge_conflict_resolutions')
         .insert({
+          workspace_id: workspaceId,
           pr_number: prNumber,
           file_path: resolution.filename,
           resolution_strategy: resolution.strategy,
@@ -299,90 +295,12 @@ Respond in JSON format:
 }
 
 async function callAIForConflict(config: AIConfig, prompt: string): Promise<string> {
-  const { provider, apiKey, model } = config;
-
-  let endpoint: string;
-  let headers: Record<string, string>;
-  let body: any;
-
-  switch (provider) {
-    case 'openai':
-      endpoint = 'https://api.openai.com/v1/chat/completions';
-      headers = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      };
-      body = {
-        model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2,
-        max_tokens: 4000,
-      };
-      break;
-
-    case 'anthropic':
-      endpoint = 'https://api.anthropic.com/v1/messages';
-      headers = {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-      };
-      body = {
-        model,
-        max_tokens: 4000,
-        messages: [{ role: 'user', content: prompt }],
-      };
-      break;
-
-    case 'google':
-      endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
-      headers = { 'Content-Type': 'application/json' };
-      body = {
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: { temperature: 0.2, maxOutputTokens: 4000 },
-      };
-      break;
-
-    case 'groq':
-      endpoint = 'https://api.groq.com/openai/v1/chat/completions';
-      headers = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      };
-      body = {
-        model,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2,
-        max_tokens: 4000,
-      };
-      break;
-
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
-  }
-
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(body),
+  return aiProxyComplete({
+    provider: config.provider,
+    model: config.model,
+    baseUrl: config.baseUrl,
+    prompt,
+    temperature: 0.2,
+    maxTokens: 4000,
   });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({}));
-    throw new Error(error.error?.message || `API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-
-  switch (provider) {
-    case 'openai':
-    case 'groq':
-      return data.choices?.[0]?.message?.content || '';
-    case 'anthropic':
-      return data.content?.[0]?.text || '';
-    case 'google':
-      return data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    default:
-      return '';
-  }
 }
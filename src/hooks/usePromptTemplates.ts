@@ -0,0 +1,75 @@
+import { useState, useCallback, useEffect } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { getPromptTemplateVersions, savePromptTemplateVersion } from '@/hooks/useConfigDatabase';
+import {
+  PROMPT_TEMPLATE_KINDS,
+  PromptTemplateKind,
+  PromptTemplates,
+  PromptTemplateVersion,
+  resolvePromptTemplates,
+} from '@/lib/promptTemplates';
+import { parseRepositoryKey } from '@/lib/workspace';
+
+interface UsePromptTemplatesReturn {
+  /** Every saved version in the workspace, newest first. */
+  versions: PromptTemplateVersion[];
+  /** Templates to review a PR of `repository` (`owner/repo`) with; the workspace defaults when omitted. */
+  templatesFor: (repository?: string) => PromptTemplates;
+  /** Save `body` as a new version for `repository`, or for the workspace default with `null`. */
+  saveTemplate: (kind: PromptTemplateKind, repository: string | null, body: string) => Promise<boolean>;
+  /** Roll back by saving an old version's body as the newest version of its scope. */
+  restoreVersion: (version: PromptTemplateVersion) => Promise<boolean>;
+}
+
+export function usePromptTemplates(): UsePromptTemplatesReturn {
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+
+  // Load versions from database on mount
+  useEffect(() => {
+    getPromptTemplateVersions().then(setVersions);
+  }, []);
+
+  const templatesFor = useCallback((repository?: string): PromptTemplates => {
+    return resolvePromptTemplates(versions, repository ? parseRepositoryKey(repository) : null);
+  }, [versions]);
+
+  const save = useCallback(async (kind: PromptTemplateKind, repository: { owner: string; repo: string } | null, body: string) => {
+    const saved = await savePromptTemplateVersion(kind, repository, body);
+    if (saved) setVersions(prev => [saved, ...prev]);
+    return saved;
+  }, []);
+
+  const saveTemplate = useCallback(async (kind: PromptTemplateKind, repository: string | null, body: string): Promise<boolean> => {
+    const saved = await save(kind, repository ? parseRepositoryKey(repository) : null, body);
+    if (!saved) {
+      toast({
+        title: "Failed to Save Template",
+        description: `Could not save the ${PROMPT_TEMPLATE_KINDS[kind]} template for ${repository ?? 'the workspace default'}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  }, [save]);
+
+  const restoreVersion = useCallback(async (version: PromptTemplateVersion): Promise<boolean> => {
+    const repository = version.owner ? { owner: version.owner, repo: version.repo } : null;
+    const saved = await save(version.kind, repository, version.body);
+    if (!saved) {
+      toast({
+        title: "Failed to Restore Template",
+        description: `Could not restore version ${version.version}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  }, [save]);
+
+  return {
+    versions,
+    templatesFor,
+    saveTemplate,
+    restoreVersion,
+  };
+}
@@ -0,0 +1,179 @@
+import { useState, useCallback } from 'react';
+import {
+  AIConfig,
+  GitHubConfig,
+  JiraConfig,
+  JiraTicket,
+  PullRequest,
+  SonarConfig,
+  ThresholdConfig,
+} from '@/types/codeReview';
+import { toast } from '@/hooks/use-toast';
+import { getLatestReviewRun, getSuggestionStatuses, prCommentIdStore, saveAutoMergeHistory, saveReviewRun } from '@/hooks/useConfigDatabase';
+import { invokeJiraProxy } from '@/hooks/useJira';
+import { aiProxyComplete } from '@/hooks/useAIReview';
+import { sonarProxyFetch } from '@/hooks/useCodeReview';
+import { githubClient, githubProxyFetch } from '@/hooks/useGitHubRateLimit';
+import { fetchChangedFilesSince, fetchPRFiles, mergePullRequest, upsertReviewComment } from '@/lib/githubApi';
+import { submitInlineReview } from '@/lib/inlineReview';
+import { validateBusinessLogicWithAI } from '@/lib/aiReview';
+import { generateConfiguredReview } from '@/lib/consensus';
+import { githubRepositoryReader } from '@/lib/reviewContext';
+import type { PromptTemplates } from '@/lib/promptTemplates';
+import { extractTicketId, fetchJiraTicket } from '@/lib/jira';
+import { fetchSonarResults } from '@/lib/sonarClient';
+import { fetchSonarArtifact } from '@/lib/sonarArtifact';
+import { isAIConfigured } from '@/lib/aiProviders';
+import {
+  runReviewPipeline,
+  PipelineProgressEvent,
+  PipelineStage,
+  ReviewPipelineAdapters,
+  ReviewPipelineResult,
+} from '@/lib/reviewPipeline';
+
+interface UseReviewPipelineOptions {
+  githubConfig: GitHubConfig | null;
+  aiConfig: AIConfig;
+  sonarConfig: SonarConfig;
+  thresholds: ThresholdConfig;
+  jiraConfig: JiraConfig;
+  /** Prompt templates for the PR's repository; built-in prompts when omitted. */
+  templates?: PromptTemplates;
+}
+
+interface UseReviewPipelineReturn {
+  runPipeline: (pr: PullRequest, jiraTicket?: JiraTicket | null) => Promise<ReviewPipelineResult | null>;
+  isRunning: boolean;
+  progress: number;
+  currentStage: PipelineProgressEvent | null;
+}
+
+const STAGE_TITLES: Record<PipelineStage, string> = {
+  files: 'Failed to fetch PR files',
+  sonar: 'Failed to fetch SonarQube results',
+  jira: 'Failed to fetch Jira ticket',
+  review: 'AI Review Failed',
+  'business-logic': 'Validation Failed',
+  'auto-merge': 'Failed to Merge PR',
+  comment: 'Failed to Post Comment',
+};
+
+const COMPLETED_TITLES: Partial<Record<PipelineStage, string>> = {
+  review: 'AI Review Generated',
+  'business-logic': 'Business Logic Validation Complete',
+  'auto-merge': 'PR Merged',
+  comment: 'Comment Posted',
+};
+
+export function useReviewPipeline({
+  githubConfig,
+  aiConfig,
+  sonarConfig,
+  thresholds,
+  jiraConfig,
+  templates,
+}: UseReviewPipelineOptions): UseReviewPipelineReturn {
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [currentStage, setCurrentStage] = useState<PipelineProgressEvent | null>(null);
+
+  const handleProgress = useCallback((event: PipelineProgressEvent) => {
+    setProgress(event.progress);
+    setCurrentStage(event);
+
+    if (event.status === 'failed') {
+      toast({ title: STAGE_TITLES[event.stage], description: event.message, variant: 'destructive' });
+      return;
+    }
+
+    if (event.status === 'completed' && COMPLETED_TITLES[event.stage]) {
+      toast({ title: COMPLETED_TITLES[event.stage], description: event.message });
+    } else if (event.stage === 'auto-merge' && event.status === 'started') {
+      toast({ title: 'Auto-Merge Triggered', description: event.message });
+    } else if (event.stage === 'auto-merge' && event.status === 'skipped' && aiConfig.autoMergeEnabled) {
+      toast({ title: 'Auto-Merge Not Triggered', description: `${event.message} — posting review comment instead.` });
+    }
+  }, [aiConfig.autoMergeEnabled]);
+
+  const runPipeline = useCallback(async (pr: PullRequest, jiraTicket?: JiraTicket | null): Promise<ReviewPipelineResult | null> => {
+    if (!githubConfig) {
+      toast({
+        title: "GitHub Not Configured",
+        description: "Please configure your GitHub connection in Settings",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    if (!isAIConfigured(aiConfig)) {
+      toast({
+        title: "AI Not Configured",
+        description: "Please configure your AI provider in Settings",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    const useSonarServer = sonarConfig.enabled && !!sonarConfig.hostUrl && !!sonarConfig.projectKey;
+
+    const adapters: ReviewPipelineAdapters = {
+      github: {
+        fetchPRFiles: (prNumber) => fetchPRFiles(githubConfig, prNumber, githubClient.fetch),
+        postReviewComment: async (prNumber, body) => {
+          await upsertReviewComment(githubConfig, prNumber, body, prCommentIdStore, githubClient.fetch);
+        },
+        mergePR: (prNumber, title) => mergePullRequest(githubConfig, prNumber, title, githubClient.fetch),
+        postInlineReview: (target, review, files) => submitInlineReview(githubConfig, target, review, files, githubClient.fetch),
+        fetchChangedFilesSince: (target, sha) => fetchChangedFilesSince(githubConfig, sha, target.head.sha, githubClient.fetch),
+      },
+      ai: {
+        generateReview: (target, files, command, ticket) => generateConfiguredReview(
+          aiConfig, target, files, command, ticket, () => aiProxyComplete, {
+            repository: githubRepositoryReader(githubConfig, githubClient.fetch),
+            templates,
+          }
+        ),
+        validateBusinessLogic: (target, files, ticket) => validateBusinessLogicWithAI(aiConfig, target, files, ticket, aiProxyComplete, templates),
+      },
+      // Read from the configured server, or from the CI artifact otherwise. The artifact is a zip,
+      // so it skips the JSON cache of githubClient.
+      sonar: {
+        fetchResults: (target) => useSonarServer
+          ? fetchSonarResults(sonarConfig, target.number, thresholds, sonarProxyFetch)
+          : fetchSonarArtifact(githubConfig, target.head.sha, githubProxyFetch),
+      },
+      jira: jiraConfig.enabled && jiraConfig.autoDetect ? {
+        extractTicketId: (text) => extractTicketId(jiraConfig, text),
+        fetchTicket: (ticketId) => fetchJiraTicket(jiraConfig, ticketId, invokeJiraProxy),
+      } : undefined,
+      history: { save: saveAutoMergeHistory },
+      suggestions: {
+        list: (target) => getSuggestionStatuses(githubConfig.owner, githubConfig.repo, target.number, target.head.sha),
+      },
+      lastReview: {
+        get: (target) => getLatestReviewRun(githubConfig.owner, githubConfig.repo, target.number),
+      },
+      runs: {
+        save: (target, run) => saveReviewRun(githubConfig.owner, githubConfig.repo, target.number, run),
+      },
+    };
+
+    setIsRunning(true);
+    setProgress(0);
+    try {
+      return await runReviewPipeline(pr, { aiConfig, jiraTicket, onProgress: handleProgress }, adapters);
+    } finally {
+      setIsRunning(false);
+      setProgress(0);
+      setCurrentStage(null);
+    }
+  }, [githubConfig, aiConfig, sonarConfig, thresholds, jiraConfig, templates, handleProgress]);
+
+  return {
+    runPipeline,
+    isRunning,
+    progress,
+    currentStage,
+  };
+}
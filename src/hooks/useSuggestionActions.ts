@@ -0,0 +1,85 @@
+import { useState, useCallback } from 'react';
+import { AICodeSuggestion, AIReviewResult, GitHubConfig, PullRequest } from '@/types/codeReview';
+import { toast } from '@/hooks/use-toast';
+import { getSuggestionStatuses, saveSuggestionStatus } from '@/hooks/useConfigDatabase';
+import { githubClient } from '@/hooks/useGitHubRateLimit';
+import { applySavedStatuses, applySuggestionToBranch, SuggestionDecision, toStatusRecord } from '@/lib/suggestions';
+
+interface UseSuggestionActionsReturn {
+  /** Persist accept/reject; returns the updated suggestion, or null when saving failed. */
+  setSuggestionStatus: (pr: PullRequest, suggestion: AICodeSuggestion, status: SuggestionDecision) => Promise<AICodeSuggestion | null>;
+  /** Commit the suggested code to the PR branch; returns the updated suggestion, or null on failure. */
+  applySuggestion: (pr: PullRequest, suggestion: AICodeSuggestion) => Promise<AICodeSuggestion | null>;
+  /** Merge decisions saved for the PR head into a freshly generated review. */
+  withSavedStatuses: (pr: PullRequest, review: AIReviewResult) => Promise<AIReviewResult>;
+  pendingSuggestionId: string | null;
+}
+
+export function useSuggestionActions(githubConfig: GitHubConfig | null): UseSuggestionActionsReturn {
+  const [pendingSuggestionId, setPendingSuggestionId] = useState<string | null>(null);
+
+  const setSuggestionStatus = useCallback(async (
+    pr: PullRequest,
+    suggestion: AICodeSuggestion,
+    status: SuggestionDecision
+  ): Promise<AICodeSuggestion | null> => {
+    if (!githubConfig) return null;
+
+    setPendingSuggestionId(suggestion.id);
+    try {
+      const saved = await saveSuggestionStatus(githubConfig.owner, githubConfig.repo, pr.number, toStatusRecord(pr, suggestion, status));
+      if (!saved) {
+        toast({
+          title: "Failed to Save",
+          description: `Could not save the decision on suggestion #${suggestion.id}`,
+          variant: "destructive",
+        });
+        return null;
+      }
+
+      return { ...suggestion, status };
+    } finally {
+      setPendingSuggestionId(null);
+    }
+  }, [githubConfig]);
+
+  const applySuggestion = useCallback(async (pr: PullRequest, suggestion: AICodeSuggestion): Promise<AICodeSuggestion | null> => {
+    if (!githubConfig) return null;
+
+    setPendingSuggestionId(suggestion.id);
+    try {
+      const commitSha = await applySuggestionToBranch(githubConfig, pr, suggestion, githubClient.fetch);
+      await saveSuggestionStatus(githubConfig.owner, githubConfig.repo, pr.number, toStatusRecord(pr, suggestion, 'applied', commitSha));
+
+      toast({
+        title: "Suggestion Applied",
+        description: `Committed ${commitSha.slice(0, 7)} to ${pr.head.ref}`,
+      });
+      return { ...suggestion, status: 'applied' };
+    } catch (error) {
+      console.error('Failed to apply suggestion:', error);
+      toast({
+        title: "Apply Failed",
+        description: error instanceof Error ? error.message : "Failed to commit the suggested change",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setPendingSuggestionId(null);
+    }
+  }, [githubConfig]);
+
+  const withSavedStatuses = useCallback(async (pr: PullRequest, review: AIReviewResult): Promise<AIReviewResult> => {
+    if (!githubConfig) return review;
+
+    const records = await getSuggestionStatuses(githubConfig.owner, githubConfig.repo, pr.number, pr.head.sha);
+    return applySavedStatuses(review, records);
+  }, [githubConfig]);
+
+  return {
+    setSuggestionStatus,
+    applySuggestion,
+    withSavedStatuses,
+    pendingSuggestionId,
+  };
+}
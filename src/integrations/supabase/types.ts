@@ -14,6 +14,81 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_suggestions: {
+        Row: {
+          agreement: Json | null
+          code: Json | null
+          created_at: string
+          file: string
+          fingerprint: string
+          id: string
+          line: number | null
+          message: string
+          position: number
+          rule: string | null
+          run_id: string
+          severity: string
+          status: string
+          suggestion: string
+          suggestion_id: string
+          type: string
+          workspace_id: string
+        }
+        Insert: {
+          agreement?: Json | null
+          code?: Json | null
+          created_at?: string
+          file: string
+          fingerprint: string
+          id?: string
+          line?: number | null
+          message: string
+          position: number
+          rule?: string | null
+          run_id: string
+          severity: string
+          status: string
+          suggestion: string
+          suggestion_id: string
+          type: string
+          workspace_id: string
+        }
+        Update: {
+          agreement?: Json | null
+          code?: Json | null
+          created_at?: string
+          file?: string
+          fingerprint?: string
+          id?: string
+          line?: number | null
+          message?: string
+          position?: number
+          rule?: string | null
+          run_id?: string
+          severity?: string
+          status?: string
+          suggestion?: string
+          suggestion_id?: string
+          type?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_suggestions_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "review_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_suggestions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       app_configurations: {
         Row: {
           config_data: Json
@@ -21,6 +96,7 @@ export type Database = {
           created_at: string
           id: string
           updated_at: string
+          workspace_id: string
         }
         Insert: {
           config_data?: Json
@@ -28,6 +104,7 @@ export type Database = {
           created_at?: string
           id?: string
           updated_at?: string
+          workspace_id: string
         }
         Update: {
           config_data?: Json
@@ -35,8 +112,17 @@ export type Database = {
           created_at?: string
           id?: string
           updated_at?: string
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "app_configurations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       auto_merge_history: {
         Row: {
@@ -50,6 +136,7 @@ export type Database = {
           pr_number: number
           sonar_issues: number | null
           sonar_threshold: number | null
+          workspace_id: string
         }
         Insert: {
           ai_score?: number | null
@@ -62,6 +149,7 @@ export type Database = {
           pr_number: number
           sonar_issues?: number | null
           sonar_threshold?: number | null
+          workspace_id: string
         }
         Update: {
           ai_score?: number | null
@@ -74,8 +162,52 @@ export type Database = {
           pr_number?: number
           sonar_issues?: number | null
           sonar_threshold?: number | null
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "auto_merge_history_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      github_app_installations: {
+        Row: {
+          app_id: string
+          created_at: string
+          id: string
+          installation_id: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          app_id: string
+          created_at?: string
+          id?: string
+          installation_id: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          app_id?: string
+          created_at?: string
+          id?: string
+          installation_id?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "github_app_installations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       merge_conflict_resolutions: {
         Row: {
@@ -90,6 +222,7 @@ export type Database = {
           resolved_content: string | null
           status: string | null
           updated_at: string
+          workspace_id: string
         }
         Insert: {
           ai_analysis?: string | null
@@ -103,6 +236,7 @@ export type Database = {
           resolved_content?: string | null
           status?: string | null
           updated_at?: string
+          workspace_id: string
         }
         Update: {
           ai_analysis?: string | null
@@ -116,8 +250,17 @@ export type Database = {
           resolved_content?: string | null
           status?: string | null
           updated_at?: string
+          workspace_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "merge_conflict_resolutions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       pr_comment_ids: {
         Row: {
@@ -128,6 +271,7 @@ export type Database = {
           pr_number: number
           repo: string
           updated_at: string
+          workspace_id: string
         }
         Insert: {
           comment_id: string
@@ -137,6 +281,7 @@ export type Database = {
           pr_number: number
           repo: string
           updated_at?: string
+          workspace_id: string
         }
         Update: {
           comment_id?: string
@@ -146,6 +291,437 @@ export type Database = {
           pr_number?: number
           repo?: string
           updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pr_comment_ids_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prompt_templates: {
+        Row: {
+          body: string
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          owner: string
+          repo: string
+          version: number
+          workspace_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind: string
+          owner?: string
+          repo?: string
+          version: number
+          workspace_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          owner?: string
+          repo?: string
+          version?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prompt_templates_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_queue: {
+        Row: {
+          action: string
+          command: string | null
+          comment_id: number | null
+          context: string | null
+          created_at: string
+          delivery_id: string | null
+          error: string | null
+          event_type: string
+          head_sha: string | null
+          id: string
+          owner: string
+          pr_number: number
+          repo: string
+          requested_by: string | null
+          result: Json | null
+          status: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          action: string
+          command?: string | null
+          comment_id?: number | null
+          context?: string | null
+          created_at?: string
+          delivery_id?: string | null
+          error?: string | null
+          event_type: string
+          head_sha?: string | null
+          id?: string
+          owner: string
+          pr_number: number
+          repo: string
+          requested_by?: string | null
+          result?: Json | null
+          status?: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          action?: string
+          command?: string | null
+          comment_id?: number | null
+          context?: string | null
+          created_at?: string
+          delivery_id?: string | null
+          error?: string | null
+          event_type?: string
+          head_sha?: string | null
+          id?: string
+          owner?: string
+          pr_number?: number
+          repo?: string
+          requested_by?: string | null
+          result?: Json | null
+          status?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_queue_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_runs: {
+        Row: {
+          business_logic: Json | null
+          command: string
+          completion_tokens: number | null
+          created_at: string
+          head_sha: string
+          id: string
+          model: string
+          overall_score: number
+          owner: string
+          pr_number: number
+          prompt_hash: string | null
+          prompt_tokens: number | null
+          repo: string
+          review: Json
+          workspace_id: string
+        }
+        Insert: {
+          business_logic?: Json | null
+          command: string
+          completion_tokens?: number | null
+          created_at?: string
+          head_sha: string
+          id?: string
+          model: string
+          overall_score: number
+          owner: string
+          pr_number: number
+          prompt_hash?: string | null
+          prompt_tokens?: number | null
+          repo: string
+          review: Json
+          workspace_id: string
+        }
+        Update: {
+          business_logic?: Json | null
+          command?: string
+          completion_tokens?: number | null
+          created_at?: string
+          head_sha?: string
+          id?: string
+          model?: string
+          overall_score?: number
+          owner?: string
+          pr_number?: number
+          prompt_hash?: string | null
+          prompt_tokens?: number | null
+          repo?: string
+          review?: Json
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_runs_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sonar_snapshots: {
+        Row: {
+          created_at: string
+          head_sha: string
+          id: string
+          issues_total: number
+          quality_gate: string
+          results: Json
+          run_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          head_sha: string
+          id?: string
+          issues_total: number
+          quality_gate: string
+          results: Json
+          run_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          head_sha?: string
+          id?: string
+          issues_total?: number
+          quality_gate?: string
+          results?: Json
+          run_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sonar_snapshots_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "review_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sonar_snapshots_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suggestion_statuses: {
+        Row: {
+          commit_sha: string | null
+          created_at: string
+          file: string
+          fingerprint: string
+          head_sha: string
+          id: string
+          message: string
+          owner: string
+          pr_number: number
+          repo: string
+          status: string
+          suggestion_id: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          commit_sha?: string | null
+          created_at?: string
+          file: string
+          fingerprint: string
+          head_sha: string
+          id?: string
+          message: string
+          owner: string
+          pr_number: number
+          repo: string
+          status: string
+          suggestion_id: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          commit_sha?: string | null
+          created_at?: string
+          file?: string
+          fingerprint?: string
+          head_sha?: string
+          id?: string
+          message?: string
+          owner?: string
+          pr_number?: number
+          repo?: string
+          status?: string
+          suggestion_id?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suggestion_statuses_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          id: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_repositories: {
+        Row: {
+          ai_overrides: Json | null
+          created_at: string
+          id: string
+          jira_project_key: string | null
+          owner: string
+          repo: string
+          thresholds: Json | null
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          ai_overrides?: Json | null
+          created_at?: string
+          id?: string
+          jira_project_key?: string | null
+          owner: string
+          repo: string
+          thresholds?: Json | null
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          ai_overrides?: Json | null
+          created_at?: string
+          id?: string
+          jira_project_key?: string | null
+          owner?: string
+          repo?: string
+          thresholds?: Json | null
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_repositories_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_secrets: {
+        Row: {
+          created_at: string
+          id: string
+          last_four: string
+          name: string
+          updated_at: string
+          vault_secret_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_four: string
+          name: string
+          updated_at?: string
+          vault_secret_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_four?: string
+          name?: string
+          updated_at?: string
+          vault_secret_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_secrets_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string | null
+          updated_at?: string
         }
         Relationships: []
       }
@@ -154,7 +730,22 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_workspace_secret: {
+        Args: { _name: string; _workspace_id: string }
+        Returns: string
+      }
+      is_workspace_member: {
+        Args: { _workspace_id: string }
+        Returns: boolean
+      }
+      is_workspace_owner: {
+        Args: { _workspace_id: string }
+        Returns: boolean
+      }
+      set_workspace_secret: {
+        Args: { _name: string; _value: string; _workspace_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,435 @@
+// Registry of AI provider adapters behind one completion contract. Each adapter declares its
+// endpoint, auth, request shape, response extraction and token limits; adding a provider means
+// adding an entry here and its id to `AIProvider`. Used server-side by the ai-proxy edge function
+// and the review worker; the browser reaches them through ai-proxy (see edgeProxy.ts).
+import type { AIConfig, AIProvider } from '../types/codeReview.ts';
+import { isSecretConfigured } from './secrets.ts';
+
+export interface AICompletionRequest {
+  provider: AIProvider;
+  model: string;
+  prompt: string;
+  /** API root for self-hosted and Azure providers; the adapter's default otherwise. */
+  baseUrl?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for JSON matching this schema through the provider's structured output or tool calling. */
+  responseSchema?: ResponseSchema;
+}
+
+/** The subset of JSON Schema every adapter can pass on to its provider. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ResponseSchema {
+  /** Identifier for the schema; Anthropic uses it as the tool name. */
+  name: string;
+  description: string;
+  schema: JsonSchema;
+}
+
+/** Runs one completion and resolves with the full text; `onDelta` receives the text as it streams in. */
+export type AICompleter = (request: AICompletionRequest, onDelta?: (delta: string) => void) => Promise<string>;
+
+/**
+ * Body POSTed to the ai-proxy edge function. Without `apiKey` the function uses the workspace's
+ * stored key. With `stream` it answers with server-sent events: `data: {"delta"}` per chunk, then
+ * `event: done` with `{"text"}`, or `event: error` with `{"message"}`. Otherwise it answers `{ text }`.
+ */
+export interface AIProxyRequest extends AICompletionRequest {
+  workspaceId: string | null;
+  apiKey?: string;
+  stream?: boolean;
+}
+
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 4096;
+
+// The fields of provider responses and stream events read below
+interface ProviderPayload {
+  type?: string;
+  choices?: { message?: { content?: string }; delta?: { content?: string } }[];
+  content?: { type?: string; text?: string; input?: unknown }[];
+  delta?: { text?: string; partial_json?: string };
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  error?: { message?: string };
+}
+
+export interface AIProviderAdapter {
+  label: string;
+  /** Models offered in settings; empty when any model name the server knows can be typed in. */
+  models: string[];
+  /** Placeholder for the model field when `models` is empty. */
+  modelPlaceholder?: string;
+  /** Context window (tokens) per model, used to size review batches. */
+  contextWindows: Record<string, number>;
+  defaultContextWindow: number;
+  /** API root; self-hosted and Azure adapters have none and need the workspace to set one. */
+  baseUrl?: string;
+  /** Example API root shown in settings when the workspace sets its own. */
+  baseUrlPlaceholder?: string;
+  /**
+   * Hosts requests may go to, over https; `*.` also matches subdomains. Without it (self-hosted
+   * servers) any base URL is used as configured.
+   */
+  allowedHosts?: string[];
+  requiresApiKey: boolean;
+  /** Where to get a key, shown in settings. */
+  keyHelp?: string;
+  endpoint: (baseUrl: string, model: string, stream: boolean) => string;
+  /** Headers sent with every request, e.g. an API version. */
+  headers?: Record<string, string>;
+  /** Headers and query parameters carrying the key; only called with a non-empty key. */
+  auth: (apiKey: string) => { headers?: Record<string, string>; query?: Record<string, string> };
+  buildBody: (request: AICompletionRequest, stream: boolean) => unknown;
+  /** Text of a complete (non-streamed) response. */
+  parseText: (data: ProviderPayload) => string;
+  /** Text added by one streamed event; empty for events that carry none. */
+  parseDelta: (data: ProviderPayload) => string;
+}
+
+/**
+ * `json_schema` constrains the answer to the schema; `json_object` only guarantees valid JSON and
+ * is for servers without schema support. Not strict: strict mode rejects optional properties.
+ */
+function responseFormat(schema: ResponseSchema, mode: 'json_schema' | 'json_object') {
+  return mode === 'json_object'
+    ? { type: 'json_object' }
+    : { type: 'json_schema', json_schema: { name: schema.name, description: schema.description, schema: schema.schema, strict: false } };
+}
+
+type AdapterDescription = Omit<AIProviderAdapter, 'endpoint' | 'auth' | 'buildBody' | 'parseText' | 'parseDelta'>;
+
+/** Adapter for the OpenAI chat completions API, which Groq and the self-hosted servers also speak. */
+function openAICompatible(description: AdapterDescription, jsonMode: 'json_schema' | 'json_object' = 'json_schema'): AIProviderAdapter {
+  return {
+    ...description,
+    endpoint: (baseUrl) => `${baseUrl}/chat/completions`,
+    auth: (apiKey) => ({ headers: { 'Authorization': `Bearer ${apiKey}` } }),
+    buildBody: (request, stream) => ({
+      model: request.model,
+      messages: [{ role: 'user', content: request.prompt }],
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.responseSchema && { response_format: responseFormat(request.responseSchema, jsonMode) }),
+      ...(stream && { stream: true }),
+    }),
+    parseText: (data) => data.choices?.[0]?.message?.content || '',
+    parseDelta: (data) => data.choices?.[0]?.delta?.content || '',
+  };
+}
+
+/** Gemini takes an OpenAPI-style schema: upper-case type names and fewer keywords. */
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  return {
+    type: schema.type.toUpperCase(),
+    ...(schema.description && { description: schema.description }),
+    ...(schema.enum && { enum: schema.enum }),
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+    ...(schema.properties && {
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+    }),
+    ...(schema.required && { required: schema.required }),
+  };
+}
+
+// Self-hosted servers don't report the loaded model's context size; assume a small one
+const SELF_HOSTED_CONTEXT_WINDOW = 8192;
+
+export const AI_PROVIDERS: Record<AIProvider, AIProviderAdapter> = {
+  openai: openAICompatible({
+    label: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    allowedHosts: ['api.openai.com'],
+    models: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'],
+    contextWindows: { 'gpt-4o': 128000, 'gpt-4o-mini': 128000, 'gpt-4-turbo': 128000, 'gpt-3.5-turbo': 16385 },
+    defaultContextWindow: 8192,
+    requiresApiKey: true,
+    keyHelp: 'platform.openai.com',
+  }),
+  anthropic: {
+    label: 'Anthropic',
+    baseUrl: 'https://api.anthropic.com/v1',
+    allowedHosts: ['api.anthropic.com'],
+    models: ['claude-sonnet-4-20250514', 'claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307'],
+    contextWindows: { 'claude-sonnet-4-20250514': 200000, 'claude-3-5-sonnet-20241022': 200000, 'claude-3-haiku-20240307': 200000 },
+    defaultContextWindow: 200000,
+    requiresApiKey: true,
+    keyHelp: 'console.anthropic.com',
+    endpoint: (baseUrl) => `${baseUrl}/messages`,
+    headers: { 'anthropic-version': '2023-06-01' },
+    auth: (apiKey) => ({ headers: { 'x-api-key': apiKey } }),
+    buildBody: (request, stream) => ({
+      model: request.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      messages: [{ role: 'user', content: request.prompt }],
+      // Structured answers come back as the input of a tool the model is made to call
+      ...(request.responseSchema && {
+        tools: [{ name: request.responseSchema.name, description: request.responseSchema.description, input_schema: request.responseSchema.schema }],
+        tool_choice: { type: 'tool', name: request.responseSchema.name },
+      }),
+      ...(stream && { stream: true }),
+    }),
+    parseText: (data) => {
+      const toolUse = data.content?.find(block => block.type === 'tool_use');
+      return toolUse ? JSON.stringify(toolUse.input) : data.content?.find(block => block.text)?.text || '';
+    },
+    parseDelta: (data) => data.type === 'content_block_delta' ? data.delta?.text || data.delta?.partial_json || '' : '',
+  },
+  google: {
+    label: 'Google AI',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    allowedHosts: ['generativelanguage.googleapis.com'],
+    models: ['gemini-1.5-pro', 'gemini-1.5-flash', 'gemini-pro'],
+    contextWindows: { 'gemini-1.5-pro': 2000000, 'gemini-1.5-flash': 1000000, 'gemini-pro': 32760 },
+    defaultContextWindow: 32760,
+    requiresApiKey: true,
+    keyHelp: 'makersuite.google.com',
+    endpoint: (baseUrl, model, stream) => stream
+      ? `${baseUrl}/models/${model}:streamGenerateContent?alt=sse`
+      : `${baseUrl}/models/${model}:generateContent`,
+    auth: (apiKey) => ({ query: { key: apiKey } }),
+    buildBody: (request) => ({
+      contents: [{ parts: [{ text: request.prompt }] }],
+      generationConfig: {
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.responseSchema && { responseMimeType: 'application/json', responseSchema: toGeminiSchema(request.responseSchema.schema) }),
+      },
+    }),
+    // Every streamed event is a partial response of the same shape
+    parseText: (data) => data.candidates?.[0]?.content?.parts?.[0]?.text || '',
+    parseDelta: (data) => data.candidates?.[0]?.content?.parts?.[0]?.text || '',
+  },
+  groq: openAICompatible({
+    label: 'Groq (Free Tier)',
+    baseUrl: 'https://api.groq.com/openai/v1',
+    allowedHosts: ['api.groq.com'],
+    models: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant', 'mixtral-8x7b-32768'],
+    contextWindows: { 'llama-3.3-70b-versatile': 128000, 'llama-3.1-8b-instant': 128000, 'mixtral-8x7b-32768': 32768 },
+    defaultContextWindow: 8192,
+    requiresApiKey: true,
+    keyHelp: 'console.groq.com',
+    // Groq only supports schemas on a few models; JSON mode works on all of them
+  }, 'json_object'),
+  'azure-openai': {
+    ...openAICompatible({
+      label: 'Azure OpenAI',
+      baseUrlPlaceholder: 'https://<resource>.openai.azure.com',
+      allowedHosts: ['*.openai.azure.com', '*.cognitiveservices.azure.com'],
+      models: [],
+      modelPlaceholder: 'Deployment name',
+      contextWindows: {},
+      defaultContextWindow: 128000,
+      requiresApiKey: true,
+      keyHelp: 'the Keys and Endpoint page of the Azure OpenAI resource',
+    }),
+    // The deployment stands in for the model
+    endpoint: (baseUrl, model) => `${baseUrl}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=2024-10-21`,
+    auth: (apiKey) => ({ headers: { 'api-key': apiKey } }),
+  },
+  ollama: openAICompatible({
+    label: 'Ollama (self-hosted)',
+    baseUrlPlaceholder: 'http://localhost:11434/v1',
+    models: [],
+    modelPlaceholder: 'qwen2.5-coder:14b',
+    contextWindows: {},
+    defaultContextWindow: SELF_HOSTED_CONTEXT_WINDOW,
+    requiresApiKey: false,
+  }),
+  llamacpp: openAICompatible({
+    label: 'llama.cpp server (self-hosted)',
+    baseUrlPlaceholder: 'http://localhost:8080/v1',
+    models: [],
+    // The server answers with whichever model it was started with
+    modelPlaceholder: 'default',
+    contextWindows: {},
+    defaultContextWindow: SELF_HOSTED_CONTEXT_WINDOW,
+    requiresApiKey: false,
+  }),
+  vllm: openAICompatible({
+    label: 'vLLM (self-hosted)',
+    baseUrlPlaceholder: 'http://localhost:8000/v1',
+    models: [],
+    modelPlaceholder: 'Qwen/Qwen2.5-Coder-32B-Instruct',
+    contextWindows: {},
+    defaultContextWindow: SELF_HOSTED_CONTEXT_WINDOW,
+    requiresApiKey: false,
+  }),
+};
+
+export function isAIProvider(value: unknown): value is AIProvider {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(AI_PROVIDERS, value);
+}
+
+/** The API root requests go to: the configured base URL, or the adapter's own. */
+export function resolveBaseUrl(provider: AIProvider, baseUrl?: string): string | null {
+  const root = baseUrl?.trim() || AI_PROVIDERS[provider]?.baseUrl;
+  return root ? root.replace(/\/+$/, '') : null;
+}
+
+/** Whether requests for `provider` may go to `baseUrl`: one of the adapter's hosts over https, if it lists any. */
+export function isAllowedBaseUrl(provider: AIProvider, baseUrl: string): boolean {
+  const hosts = AI_PROVIDERS[provider]?.allowedHosts;
+  if (!hosts) return true;
+
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return false;
+  }
+  return url.protocol === 'https:' && hosts.some(host => host.startsWith('*.') ? url.hostname.endsWith(host.slice(1)) : url.hostname === host);
+}
+
+/**
+ * Whether `baseUrl` is https on a public host. Guards base URLs a caller chooses for self-hosted
+ * servers, so a server-side proxy can't be pointed at loopback, private or link-local addresses;
+ * host names are checked as written, not resolved.
+ */
+export function isPublicHttpsUrl(baseUrl: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return false;
+  }
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (url.protocol !== 'https:' || !host.includes('.') && !host.includes(':')) return false;
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) return false;
+
+  if (host.includes(':')) {
+    // Unspecified, loopback and IPv4-mapped (::…), unique local (fc00::/7), link-local (fe80::/10)
+    return !/^(::|f[cd][0-9a-f]{0,2}:|fe[89ab][0-9a-f]?:)/.test(host);
+  }
+  const octets = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)?.slice(1).map(Number);
+  if (!octets) return true;
+  const [a, b] = octets;
+  return !(a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168));
+}
+
+/** Whether reviews can run: a model, a base URL where one is needed, and a key (entered or stored) where one is needed. */
+export function isAIConfigured(config: AIConfig): boolean {
+  const adapter = AI_PROVIDERS[config.provider];
+  if (!adapter || !config.model || !resolveBaseUrl(config.provider, config.baseUrl)) return false;
+  return !adapter.requiresApiKey || isSecretConfigured(config.apiKey, config.apiKeyLastFour);
+}
+
+/**
+ * Context window (tokens) of the configured model: the workspace's own value, then the model's
+ * as listed by any adapter (the same model can be served elsewhere), then the adapter default.
+ */
+export function contextWindowFor(config: Pick<AIConfig, 'provider' | 'model' | 'contextWindow'>): number {
+  const adapter = AI_PROVIDERS[config.provider];
+  const listed = Object.values(AI_PROVIDERS).find(a => a.contextWindows[config.model])?.contextWindows[config.model];
+  return config.contextWindow || adapter?.contextWindows[config.model] || listed || adapter?.defaultContextWindow || SELF_HOSTED_CONTEXT_WINDOW;
+}
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/** Read a `text/event-stream` body, calling `onEvent` for each complete event. */
+export async function readServerSentEvents(body: ReadableStream<Uint8Array>, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (block: string) => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    if (data.length > 0) onEvent({ event, data: data.join('\n') });
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? '';
+    blocks.forEach(flush);
+
+    if (done) break;
+  }
+  if (buffer.trim()) flush(buffer);
+}
+
+export function formatServerSentEvent(data: unknown, event?: string): string {
+  return `${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`;
+}
+
+/** Error message from a provider's error body: `error.message` for most, a plain `error` string for some servers. */
+async function providerError(response: Response): Promise<Error> {
+  const data = await response.json().catch(() => ({}));
+  const error = Array.isArray(data) ? data[0]?.error : data.error;
+  const message = typeof error === 'string' ? error : error?.message;
+  return new Error(message || `API error: ${response.status}`);
+}
+
+/** Completer that calls the providers directly with `apiKey`. Streams only when `onDelta` is given. */
+export function createProviderCompleter(apiKey: string, fetchImpl: typeof fetch = fetch): AICompleter {
+  return async (request, onDelta) => {
+    const adapter = AI_PROVIDERS[request.provider];
+    if (!adapter) throw new Error(`Unsupported provider: ${request.provider}`);
+
+    const baseUrl = resolveBaseUrl(request.provider, request.baseUrl);
+    if (!baseUrl) throw new Error(`${adapter.label} needs a base URL`);
+    if (!isAllowedBaseUrl(request.provider, baseUrl)) {
+      throw new Error(`${adapter.label} requests may only go to ${adapter.allowedHosts!.join(', ')} over https`);
+    }
+
+    const stream = !!onDelta;
+    const url = new URL(adapter.endpoint(baseUrl, request.model, stream));
+    const auth = apiKey ? adapter.auth(apiKey) : {};
+    for (const [name, value] of Object.entries(auth.query || {})) url.searchParams.set(name, value);
+
+    const response = await fetchImpl(url.toString(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...adapter.headers, ...auth.headers },
+      body: JSON.stringify(adapter.buildBody(request, stream)),
+    });
+
+    if (!response.ok) throw await providerError(response);
+
+    if (!stream || !response.body) {
+      return adapter.parseText(await response.json());
+    }
+
+    let text = '';
+    await readServerSentEvents(response.body, ({ data }) => {
+      if (data === '[DONE]') return;
+      let parsed: ProviderPayload;
+      try {
+        parsed = JSON.parse(data);
+      } catch {
+        return;
+      }
+      // Anthropic reports failures after the stream has started as an error event
+      if (parsed?.error) throw new Error(parsed.error.message || 'AI provider stream failed');
+      const delta = adapter.parseDelta(parsed);
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    });
+    return text;
+  };
+}
@@ -0,0 +1,271 @@
+import { AIConfig, AIReviewResult, BusinessLogicValidation, JiraTicket, PRFile, PullRequest, ReviewCommand, ReviewRule, TokenUsage } from '../types/codeReview.ts';
+import {
+  diffTokenBudget,
+  estimateTokens,
+  mapWithConcurrency,
+  mergeReviewResults,
+  planReviewBatches,
+  RESPONSE_TOKENS,
+} from './diffChunking.ts';
+import { AICompleter, createProviderCompleter, isAIConfigured, ResponseSchema } from './aiProviders.ts';
+import { buildReviewContext, RepositoryReader, ReviewContext } from './reviewContext.ts';
+import { applyRuleSeverities, loadReviewRules, matchingRules } from './reviewRules.ts';
+import { DEFAULT_PROMPT_TEMPLATES, PromptTemplateKind, PromptTemplates, promptVariables, renderTemplate, templateHash } from './promptTemplates.ts';
+import { BUSINESS_LOGIC_ANSWER, parseAnswer, REVIEW_ANSWER, ReviewAnswer, StructuredAnswer, TEXT_ANSWERS, TextAnswer } from './reviewSchema.ts';
+
+/** Batches reviewed at the same time; keeps large PRs from tripping provider rate limits. */
+const BATCH_CONCURRENCY = 3;
+
+/** Share of each batch's token budget given to repository context when a context depth is set. */
+const CONTEXT_SHARE = 0.4;
+
+export interface ReviewOptions {
+  /** Stream the answers and report the summary written so far as it grows. */
+  onSummary?: (summary: string) => void;
+  /**
+   * Lets full reviews read the context `config.contextDepth` asks for and the repository's
+   * review rules for the files in each batch.
+   */
+  repository?: RepositoryReader;
+  /** Templates used instead of the built-in prompts. */
+  templates?: PromptTemplates;
+}
+
+/**
+ * Generate a review for a PR. Throws when the provider is not configured, the call fails or the
+ * answer doesn't match the schema even after a repair attempt. Large PRs are split into batches that fit the model's context window and reviewed in parallel.
+ */
+export async function generateAIReview(
+  config: AIConfig,
+  pr: PullRequest,
+  files: PRFile[],
+  command: ReviewCommand,
+  jiraTicket?: JiraTicket | null,
+  complete: AICompleter = createProviderCompleter(config.apiKey),
+  options: ReviewOptions = {}
+): Promise<AIReviewResult> {
+  if (!isAIConfigured(config)) throw new Error('AI provider is not configured');
+
+  const { onSummary, repository, templates } = options;
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  const counted: AICompleter = async (request, onDelta) => {
+    const text = await complete(request, onDelta);
+    usage.promptTokens += estimateTokens(request.prompt);
+    usage.completionTokens += estimateTokens(text);
+    return text;
+  };
+  const depth = repository && command.type === 'review' ? config.contextDepth ?? 'diff' : 'diff';
+  const emptyContext: ReviewContext | null = depth === 'diff' ? null : { snippets: [], omitted: [] };
+  const rules = repository && command.type === 'review' ? await loadReviewRules(repository, pr.base.ref) : null;
+  const budget = diffTokenBudget(config, estimateTokens(buildReviewPrompt(pr, [], command, jiraTicket, emptyContext, rules?.rules, templates)));
+  const contextBudget = emptyContext ? Math.floor(budget * CONTEXT_SHARE) : 0;
+  const plan = planReviewBatches(files, budget - contextBudget);
+  // A score from the description alone would let auto-merge approve code nobody reviewed
+  if (plan.batches.length === 0 && !(command.type in TEXT_ANSWERS)) {
+    throw new Error(files.length > 0
+      ? `None of the ${files.length} changed files could be reviewed: they have no diff or don't fit the ${config.model} context window`
+      : 'No reviewable files in this pull request');
+  }
+  // Summaries, guides and titles still work from the description when nothing has a usable diff
+  const batches = plan.batches.length > 0 ? plan.batches : [[]];
+
+  // Streamed text per batch; the summaries found so far are reported together
+  const streamed = batches.map(() => '');
+  const onDelta = onSummary && ((index: number, delta: string) => {
+    streamed[index] += delta;
+    onSummary(streamed.map(partialSummary).filter(Boolean).join('\n\n'));
+  });
+
+  const parts = await mapWithConcurrency(batches, BATCH_CONCURRENCY, async (batch, index) => {
+    const context = emptyContext && await buildReviewContext(pr, batch, depth, repository, contextBudget);
+    const prompt = buildReviewPrompt(pr, batch, command, jiraTicket, context, rules && matchingRules(rules.rules, batch), templates);
+    const onBatchDelta = onDelta && ((delta: string) => onDelta(index, delta));
+    const review = command.type in TEXT_ANSWERS
+      ? textReview(await requestAnswer(config, prompt, TEXT_ANSWERS[command.type as keyof TextAnswer], counted, onBatchDelta), config)
+      : reviewFromAnswer(await requestAnswer(config, prompt, REVIEW_ANSWER, counted, onBatchDelta), config);
+    return { review, files: batch };
+  });
+
+  const kind = promptTemplateKind(command);
+  const review = {
+    ...mergeReviewResults(parts, plan.skipped),
+    promptHash: templateHash(templates?.[kind] || DEFAULT_PROMPT_TEMPLATES[kind]),
+    usage,
+  };
+  if (!rules) return review;
+  const applied = matchingRules(rules.rules, plan.batches.flat());
+  return {
+    ...review,
+    suggestions: applyRuleSeverities(review.suggestions, rules, applied),
+    rules: { source: rules.source, rules: applied },
+  };
+}
+
+/** Validate the PR changes against the requirements of a Jira ticket. */
+export async function validateBusinessLogicWithAI(
+  config: AIConfig,
+  pr: PullRequest,
+  files: PRFile[],
+  jiraTicket: JiraTicket,
+  complete: AICompleter = createProviderCompleter(config.apiKey),
+  templates?: PromptTemplates
+): Promise<BusinessLogicValidation> {
+  if (!isAIConfigured(config)) throw new Error('AI provider is not configured');
+
+  const prompt = buildBusinessLogicPrompt(pr, files, jiraTicket, templates?.['business-logic']);
+  const answer = await requestAnswer(config, prompt, BUSINESS_LOGIC_ANSWER, complete);
+  return { ticketKey: jiraTicket.key, ...answer };
+}
+
+/**
+ * Ask for an answer matching `answer`'s schema. An invalid answer is sent back once with the
+ * problems found; when the corrected one is still invalid the call throws rather than guessing.
+ */
+export async function requestAnswer<T>(
+  config: AIConfig,
+  prompt: string,
+  answer: StructuredAnswer<T>,
+  complete: AICompleter = createProviderCompleter(config.apiKey),
+  onDelta?: (delta: string) => void
+): Promise<T> {
+  const first = await callAIProvider(config, prompt, complete, onDelta, answer.format);
+  let problems: string;
+  try {
+    return parseAnswer(first, answer);
+  } catch (error) {
+    problems = error instanceof Error ? error.message : String(error);
+  }
+
+  const repaired = await callAIProvider(config, buildRepairPrompt(answer.format, first, problems), complete, undefined, answer.format);
+  try {
+    return parseAnswer(repaired, answer);
+  } catch (error) {
+    throw new Error(`The AI answer did not match the expected format (${error instanceof Error ? error.message : error})`);
+  }
+}
+
+export function buildRepairPrompt(format: ResponseSchema, response: string, error: string): string {
+  return `Your previous answer did not match the required JSON schema.
+
+Problems found: ${error}
+
+Required JSON schema:
+${JSON.stringify(format.schema, null, 2)}
+
+Previous answer:
+${response}
+
+Respond with only the corrected JSON object. Keep the content of the previous answer; fix only what the problems list.`;
+}
+
+/** The template a command's prompt uses; commands without their own get the full review. */
+export function promptTemplateKind(command: ReviewCommand): PromptTemplateKind {
+  return command.type in TEXT_ANSWERS ? command.type as PromptTemplateKind : 'review';
+}
+
+export function buildReviewPrompt(
+  pr: PullRequest,
+  files: PRFile[],
+  command: ReviewCommand,
+  jiraTicket?: JiraTicket | null,
+  context?: ReviewContext | null,
+  rules?: ReviewRule[] | null,
+  templates?: PromptTemplates
+): string {
+  const kind = promptTemplateKind(command);
+  return renderTemplate(templates?.[kind] || DEFAULT_PROMPT_TEMPLATES[kind], promptVariables(pr, files, jiraTicket, context, rules));
+}
+
+export function buildBusinessLogicPrompt(pr: PullRequest, files: PRFile[], jiraTicket: JiraTicket, template?: string): string {
+  return renderTemplate(template || DEFAULT_PROMPT_TEMPLATES['business-logic'], promptVariables(pr, files, jiraTicket));
+}
+
+export async function callAIProvider(
+  config: AIConfig,
+  prompt: string,
+  complete: AICompleter = createProviderCompleter(config.apiKey),
+  onDelta?: (delta: string) => void,
+  responseSchema?: ResponseSchema
+): Promise<string> {
+  return complete({
+    provider: config.provider,
+    model: config.model,
+    baseUrl: config.baseUrl,
+    prompt,
+    temperature: 0.3,
+    maxTokens: RESPONSE_TOKENS,
+    responseSchema,
+  }, onDelta);
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * The summary written so far in a streamed JSON review, or null until its value starts.
+ * Reads up to the closing quote, or to the end of the text while the value is still arriving.
+ */
+export function partialSummary(text: string): string | null {
+  const start = text.match(/"summary"\s*:\s*"/);
+  if (!start || start.index === undefined) return null;
+
+  let summary = '';
+  for (let i = start.index + start[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      summary += char;
+      continue;
+    }
+
+    // Stop at an escape sequence that has not fully arrived yet
+    const next = text[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      summary += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      summary += JSON_ESCAPES[next] ?? next;
+      i++;
+    }
+  }
+  return summary;
+}
+
+function reviewFromAnswer(answer: ReviewAnswer, config: AIConfig): AIReviewResult {
+  return {
+    summary: answer.summary,
+    suggestions: answer.suggestions.map((s, i) => ({
+      id: String(i + 1),
+      type: s.type,
+      severity: s.severity,
+      file: s.file,
+      line: s.line ?? undefined,
+      message: s.message,
+      suggestion: s.suggestion,
+      code: s.code ?? undefined,
+      rule: s.rule ?? undefined,
+      status: 'pending',
+    })),
+    overallScore: answer.overallScore,
+    categories: answer.categories,
+    timestamp: new Date().toISOString(),
+    model: config.model,
+  };
+}
+
+/** Result of the summary, guide and title commands. They aren't scored, so every score is 0. */
+function textReview(answer: TextAnswer, config: AIConfig): AIReviewResult {
+  return {
+    summary: answer.summary ?? '',
+    title: answer.title,
+    guide: answer.guide,
+    suggestions: [],
+    overallScore: 0,
+    categories: { codeQuality: 0, security: 0, performance: 0, maintainability: 0, testability: 0 },
+    timestamp: new Date().toISOString(),
+    model: config.model,
+    unscored: true,
+  };
+}
@@ -0,0 +1,222 @@
+// Consensus reviews: the same review from several models, merged into one result that keeps each
+// model's scores, how far they agree, and which suggestions more than one model raised.
+import {
+  AICodeSuggestion,
+  AIConfig,
+  AIReviewResult,
+  ConsensusFailure,
+  JiraTicket,
+  PRFile,
+  PullRequest,
+  ReviewCommand,
+  ScoreSpread,
+} from '../types/codeReview.ts';
+import { AICompleter, createProviderCompleter } from './aiProviders.ts';
+import { generateAIReview, ReviewOptions } from './aiReview.ts';
+
+const CATEGORIES: (keyof AIReviewResult['categories'])[] = ['codeQuality', 'security', 'performance', 'maintainability', 'testability'];
+
+const SEVERITY_RANK: Record<AICodeSuggestion['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+// Largest score spread (max - min) still rated high and medium confidence
+const HIGH_CONFIDENCE_SPREAD = 10;
+const MEDIUM_CONFIDENCE_SPREAD = 25;
+
+// Suggestions on the same file, at most this many lines apart and with wording at least this
+// similar, are taken to be the same finding
+const LINE_TOLERANCE = 3;
+const SIMILARITY_THRESHOLD = 0.35;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'this', 'that', 'with', 'are', 'should', 'could', 'would', 'can', 'from', 'into', 'when', 'which', 'not', 'use', 'using']);
+
+export interface ModelReview {
+  config: Pick<AIConfig, 'provider' | 'model'>;
+  review: AIReviewResult;
+}
+
+export function isConsensusEnabled(config: AIConfig): boolean {
+  return !!config.consensus?.enabled && config.consensus.reviewers.length > 0;
+}
+
+export function modelLabel(config: Pick<AIConfig, 'provider' | 'model'>): string {
+  return `${config.provider}/${config.model}`;
+}
+
+/** Every model taking part: the primary config first, then one config per consensus reviewer. */
+export function consensusModels(config: AIConfig): AIConfig[] {
+  const reviewers = isConsensusEnabled(config) ? config.consensus.reviewers : [];
+  return [config, ...reviewers.map(reviewer => ({
+    ...config,
+    provider: reviewer.provider,
+    model: reviewer.model,
+    baseUrl: reviewer.baseUrl,
+    contextWindow: reviewer.contextWindow,
+    apiKey: reviewer.apiKey || '',
+    apiKeyLastFour: reviewer.apiKeyLastFour,
+  }))];
+}
+
+/**
+ * Review with the primary model and every consensus reviewer, then merge the answers. A model that
+ * fails is listed in `consensus.failed`; the call only throws when all of them fail.
+ * `completerFor` picks each model's completer; only the primary model streams its summary.
+ */
+export async function generateConsensusReview(
+  config: AIConfig,
+  pr: PullRequest,
+  files: PRFile[],
+  command: ReviewCommand,
+  jiraTicket?: JiraTicket | null,
+  completerFor: (model: AIConfig) => AICompleter = (model) => createProviderCompleter(model.apiKey),
+  options: ReviewOptions = {}
+): Promise<AIReviewResult> {
+  const models = consensusModels(config);
+  const outcomes = await Promise.allSettled(models.map((model, i) =>
+    generateAIReview(model, pr, files, command, jiraTicket, completerFor(model), i === 0 ? options : { ...options, onSummary: undefined })
+  ));
+
+  const reviews: ModelReview[] = [];
+  const failed: ConsensusFailure[] = [];
+  outcomes.forEach((outcome, i) => {
+    const { provider, model } = models[i];
+    if (outcome.status === 'fulfilled') {
+      reviews.push({ config: { provider, model }, review: outcome.value });
+    } else {
+      failed.push({ provider, model, error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason) });
+    }
+  });
+
+  if (reviews.length === 0) {
+    throw new Error(`Every model failed: ${failed.map(f => `${modelLabel(f)}: ${f.error}`).join('; ')}`);
+  }
+  return mergeConsensus(reviews, failed);
+}
+
+/**
+ * A single-model review, or a consensus review when consensus is on and a full review was asked
+ * for. Summaries, guides and titles aren't scored, so one model writes them.
+ */
+export function generateConfiguredReview(
+  config: AIConfig,
+  pr: PullRequest,
+  files: PRFile[],
+  command: ReviewCommand,
+  jiraTicket?: JiraTicket | null,
+  completerFor: (model: AIConfig) => AICompleter = (model) => createProviderCompleter(model.apiKey),
+  options: ReviewOptions = {}
+): Promise<AIReviewResult> {
+  return isConsensusEnabled(config) && command.type === 'review'
+    ? generateConsensusReview(config, pr, files, command, jiraTicket, completerFor, options)
+    : generateAIReview(config, pr, files, command, jiraTicket, completerFor(config), options);
+}
+
+export function scoreSpread(scores: number[]): ScoreSpread {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const spread = max - min;
+  return {
+    mean: Math.round(scores.reduce((a, b) => a + b, 0) / scores.length),
+    min,
+    max,
+    spread,
+    // One model agreeing with itself says nothing
+    confidence: scores.length < 2 || spread > MEDIUM_CONFIDENCE_SPREAD ? 'low' : spread > HIGH_CONFIDENCE_SPREAD ? 'medium' : 'high',
+  };
+}
+
+/** Merge the reviews of several models: mean scores with their spread, and clustered suggestions. */
+export function mergeConsensus(reviews: ModelReview[], failed: ConsensusFailure[] = []): AIReviewResult {
+  const first = reviews[0].review;
+  const overall = scoreSpread(reviews.map(r => r.review.overallScore));
+  const categories = Object.fromEntries(
+    CATEGORIES.map(category => [category, scoreSpread(reviews.map(r => r.review.categories[category]))])
+  ) as Record<keyof AIReviewResult['categories'], ScoreSpread>;
+
+  const skipped = new Map(reviews.flatMap(r => r.review.skippedFiles || []).map(f => [f.filename, f]));
+
+  return {
+    summary: first.summary,
+    title: first.title,
+    guide: first.guide,
+    suggestions: clusterSuggestions(reviews),
+    overallScore: overall.mean,
+    categories: Object.fromEntries(CATEGORIES.map(category => [category, categories[category].mean])) as AIReviewResult['categories'],
+    timestamp: first.timestamp,
+    model: reviews.map(r => modelLabel(r.config)).join(', '),
+    skippedFiles: skipped.size > 0 ? [...skipped.values()] : undefined,
+    rules: first.rules,
+    promptHash: first.promptHash,
+    usage: {
+      promptTokens: reviews.reduce((sum, r) => sum + (r.review.usage?.promptTokens ?? 0), 0),
+      completionTokens: reviews.reduce((sum, r) => sum + (r.review.usage?.completionTokens ?? 0), 0),
+    },
+    consensus: {
+      models: reviews.map(r => ({
+        provider: r.config.provider,
+        model: r.config.model,
+        overallScore: r.review.overallScore,
+        categories: r.review.categories,
+      })),
+      failed,
+      overall,
+      categories,
+    },
+  };
+}
+
+function words(suggestion: AICodeSuggestion): Set<string> {
+  const text = `${suggestion.message} ${suggestion.suggestion}`.toLowerCase();
+  return new Set(
+    (text.match(/[a-z0-9_]+/g) || [])
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+      // Rough stemming so "null checks" and "null checking" match
+      .map(word => word.replace(/(ing|ed|es|s)$/, ''))
+  );
+}
+
+/** Jaccard similarity of the suggestions' wording, 0-1. */
+export function wordingSimilarity(a: AICodeSuggestion, b: AICodeSuggestion): number {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function sameFinding(a: AICodeSuggestion, b: AICodeSuggestion): boolean {
+  if (a.file !== b.file) return false;
+  // File-level suggestions only match each other
+  if ((a.line === undefined) !== (b.line === undefined)) return false;
+  if (a.line !== undefined && Math.abs(a.line - b.line) > LINE_TOLERANCE) return false;
+  return wordingSimilarity(a, b) >= SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Group the models' suggestions into findings. Each finding keeps its most severe wording and how
+ * many models raised it; findings more models agree on come first.
+ */
+export function clusterSuggestions(reviews: ModelReview[]): AICodeSuggestion[] {
+  const clusters: { members: AICodeSuggestion[]; models: string[] }[] = [];
+
+  for (const { config, review } of reviews) {
+    const label = modelLabel(config);
+    for (const suggestion of review.suggestions) {
+      // A model repeating itself doesn't count as agreement
+      const cluster = clusters.find(c => !c.models.includes(label) && c.members.some(member => sameFinding(member, suggestion)));
+      if (cluster) {
+        cluster.members.push(suggestion);
+        cluster.models.push(label);
+      } else {
+        clusters.push({ members: [suggestion], models: [label] });
+      }
+    }
+  }
+
+  return clusters
+    .map(({ members, models }) => {
+      const representative = members.reduce((best, s) => SEVERITY_RANK[s.severity] > SEVERITY_RANK[best.severity] ? s : best);
+      return { ...representative, agreement: { count: models.length, total: reviews.length, models } };
+    })
+    .sort((a, b) => b.agreement.count - a.agreement.count || SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])
+    .map((s, i) => ({ ...s, id: String(i + 1) }));
+}
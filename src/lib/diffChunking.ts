@@ -0,0 +1,145 @@
+// Splits large pull requests into review batches that fit the model's context window,
+// and merges the per-batch reviews back into one result.
+import { AICodeSuggestion, AIConfig, AIReviewResult, PRFile, SkippedFile } from '../types/codeReview.ts';
+import { contextWindowFor } from './aiProviders.ts';
+
+/** Tokens reserved for the model's answer; matches max_tokens in callAIProvider. */
+export const RESPONSE_TOKENS = 4000;
+
+/** Upper bound per batch even for huge context windows: smaller batches get more focused reviews. */
+export const MAX_BATCH_TOKENS = 30000;
+
+export interface ReviewBatchPlan {
+  batches: PRFile[][];
+  skipped: SkippedFile[];
+}
+
+/** Rough token estimate (~4 characters per token); good enough for budgeting. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function formatFileDiff(file: PRFile): string {
+  return `### ${file.filename} (${file.status})\n\`\`\`diff\n${file.patch}\n\`\`\``;
+}
+
+/**
+ * Tokens available for file diffs in one request, given the tokens the rest of the prompt takes.
+ * Throws when the prompt alone leaves no room for any diff in the model's context window.
+ */
+export function diffTokenBudget(config: AIConfig, promptOverheadTokens: number): number {
+  const contextWindow = contextWindowFor(config);
+  const budget = Math.min(contextWindow - RESPONSE_TOKENS, MAX_BATCH_TOKENS) - promptOverheadTokens;
+  if (budget <= 0) {
+    throw new Error(`The prompt takes ~${promptOverheadTokens} tokens, leaving no room for the diff in the ${contextWindow}-token context window of ${config.model}`);
+  }
+  return budget;
+}
+
+/**
+ * Group files into batches under `budget` tokens (first-fit, largest first).
+ * Files without a patch (binary, or too large for GitHub to diff) and files that alone exceed
+ * the budget are skipped and reported.
+ */
+export function planReviewBatches(files: PRFile[], budget: number): ReviewBatchPlan {
+  const skipped: SkippedFile[] = [];
+  const sized: { file: PRFile; tokens: number }[] = [];
+
+  for (const file of files) {
+    if (!file.patch) {
+      // GitHub omits the patch for binary files and for diffs it considers too large
+      skipped.push({ filename: file.filename, reason: file.additions + file.deletions > 0 ? 'too-large' : 'binary' });
+      continue;
+    }
+
+    const tokens = estimateTokens(formatFileDiff(file));
+    if (tokens > budget) {
+      skipped.push({ filename: file.filename, reason: 'too-large' });
+      continue;
+    }
+    sized.push({ file, tokens });
+  }
+
+  const bins: { files: PRFile[]; tokens: number }[] = [];
+  for (const item of [...sized].sort((a, b) => b.tokens - a.tokens)) {
+    const bin = bins.find(b => b.tokens + item.tokens <= budget);
+    if (bin) {
+      bin.files.push(item.file);
+      bin.tokens += item.tokens;
+    } else {
+      bins.push({ files: [item.file], tokens: item.tokens });
+    }
+  }
+
+  // Keep the PR's file order inside each batch so the prompt reads naturally
+  const order = new Map(files.map((f, i) => [f.filename, i]));
+  const batches = bins.map(b => b.files.sort((x, y) => order.get(x.filename)! - order.get(y.filename)!));
+
+  return { batches, skipped };
+}
+
+/** Run `task` over `items` with at most `limit` in flight, preserving result order. */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+const SEVERITY_RANK: Record<AICodeSuggestion['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+function suggestionKey(s: AICodeSuggestion): string {
+  return `${s.file}|${s.line ?? ''}|${s.message.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+}
+
+/**
+ * Merge per-batch reviews: scores are averaged weighted by the lines changed in each batch,
+ * suggestions are deduplicated (keeping the highest severity) and renumbered.
+ */
+export function mergeReviewResults(parts: { review: AIReviewResult; files: PRFile[] }[], skipped: SkippedFile[] = []): AIReviewResult {
+  if (parts.length === 0) {
+    throw new Error('No reviewable files in this pull request');
+  }
+
+  const weights = parts.map(p => Math.max(1, p.files.reduce((sum, f) => sum + f.additions + f.deletions, 0)));
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const weighted = (pick: (r: AIReviewResult) => number) =>
+    Math.round(parts.reduce((sum, p, i) => sum + pick(p.review) * weights[i], 0) / totalWeight);
+
+  const unique = new Map<string, AICodeSuggestion>();
+  for (const suggestion of parts.flatMap(p => p.review.suggestions)) {
+    const key = suggestionKey(suggestion);
+    const existing = unique.get(key);
+    if (!existing || SEVERITY_RANK[suggestion.severity] > SEVERITY_RANK[existing.severity]) {
+      unique.set(key, suggestion);
+    }
+  }
+
+  const first = parts[0].review;
+  return {
+    summary: parts.length === 1 ? first.summary : parts.map(p => p.review.summary).filter(Boolean).join('\n\n'),
+    title: parts.find(p => p.review.title)?.review.title,
+    guide: parts.some(p => p.review.guide) ? parts.map(p => p.review.guide).filter(Boolean).join('\n\n') : undefined,
+    suggestions: [...unique.values()].map((s, i) => ({ ...s, id: String(i + 1) })),
+    overallScore: weighted(r => r.overallScore),
+    categories: {
+      codeQuality: weighted(r => r.categories.codeQuality),
+      security: weighted(r => r.categories.security),
+      performance: weighted(r => r.categories.performance),
+      maintainability: weighted(r => r.categories.maintainability),
+      testability: weighted(r => r.categories.testability),
+    },
+    timestamp: first.timestamp,
+    model: first.model,
+    skippedFiles: skipped.length > 0 ? skipped : undefined,
+    unscored: parts.every(p => p.review.unscored) || undefined,
+  };
+}
@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ProxiedRequest } from '@/lib/secrets';
+import { readServerSentEvents, type AICompleter, type AIProxyRequest } from '@/lib/aiProviders';
+
+function functionUrl(functionName: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${functionName}`;
+}
+
+// Edge functions verify the session's JWT; signed-out calls fall back to the publishable key
+async function functionHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const publishableKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  return {
+    'Content-Type': 'application/json',
+    'apikey': publishableKey,
+    'Authorization': `Bearer ${data.session?.access_token ?? publishableKey}`,
+  };
+}
+
+/**
+ * A `fetch` that sends each request through an edge function, which adds the workspace's stored
+ * credentials and relays the upstream response unchanged (status, body, rate-limit headers).
+ * Pass it as `fetchImpl` to the GitHub helpers so secrets never reach the browser.
+ */
+export function createEdgeProxyFetch(functionName: string, getWorkspaceId: () => Promise<string | null>): typeof fetch {
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const [headers, workspaceId] = await Promise.all([functionHeaders(), getWorkspaceId()]);
+
+    const proxied: ProxiedRequest = {
+      workspaceId,
+      url: request.url,
+      method: request.method,
+      headers: Object.fromEntries(request.headers),
+      body: request.method === 'GET' || request.method === 'HEAD' ? undefined : await request.text(),
+    };
+
+    return fetch(functionUrl(functionName), {
+      method: 'POST',
+      signal: request.signal,
+      headers,
+      body: JSON.stringify(proxied),
+    });
+  };
+}
+
+/**
+ * Completer backed by the ai-proxy edge function, which holds the workspace's API key. Streams
+ * over server-sent events when `onDelta` is given. `apiKey` is only passed to test a key before saving it.
+ */
+export function createAIProxyCompleter(getWorkspaceId: () => Promise<string | null>, apiKey?: string): AICompleter {
+  return async (completion, onDelta) => {
+    const [headers, workspaceId] = await Promise.all([functionHeaders(), getWorkspaceId()]);
+    const body: AIProxyRequest = { ...completion, workspaceId, apiKey: apiKey || undefined, stream: !!onDelta };
+
+    const response = await fetch(functionUrl('ai-proxy'), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `AI proxy error: ${response.status}`);
+    }
+
+    if (!onDelta || !response.body) {
+      const { text } = await response.json();
+      return text || '';
+    }
+
+    let text = '';
+    let failure: string | null = null;
+    await readServerSentEvents(response.body, ({ event, data }) => {
+      const payload = JSON.parse(data);
+      if (event === 'error') {
+        failure = payload.message;
+      } else if (event === 'done') {
+        text = payload.text;
+      } else if (payload.delta) {
+        text += payload.delta;
+        onDelta(payload.delta);
+      }
+    });
+
+    if (failure) throw new Error(failure);
+    return text;
+  };
+}
@@ -0,0 +1,393 @@
+import { GitHubConfig, PRFile } from '../types/codeReview.ts';
+
+/** Hidden marker that identifies the review comment this app owns on a PR. */
+export const REVIEW_COMMENT_MARKER = '<!-- codegate-auto-review -->';
+
+/** Remembers which issue comment holds the review for a PR, so re-runs update it in place. */
+export interface CommentIdStore {
+  get: (owner: string, repo: string, prNumber: number) => Promise<string | null>;
+  save: (owner: string, repo: string, prNumber: number, commentId: string) => Promise<unknown>;
+}
+
+export interface ReviewCommentResult {
+  id: number | null;
+  updated: boolean;
+}
+
+function buildHeaders(authValue: string): Record<string, string> {
+  return {
+    'Authorization': authValue,
+    'Accept': 'application/vnd.github.v3+json',
+    'X-GitHub-Api-Version': '2022-11-28',
+    'Content-Type': 'application/json',
+  };
+}
+
+export async function githubRequest<T = unknown>(
+  config: GitHubConfig,
+  endpoint: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<T> {
+  const response = await fetchImpl(`https://api.github.com${endpoint}`, {
+    headers: {
+      'Authorization': `Bearer ${config.token}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `GitHub API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/** URL of the next page from a `Link` response header, or null on the last page. */
+export function parseNextLink(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+  const match = linkHeader.split(',').map(part => part.match(/<([^>]+)>;\s*rel="next"/)).find(Boolean);
+  return match ? match[1] : null;
+}
+
+/**
+ * Fetch one page of a list endpoint. `endpoint` is either an API path or
+ * the absolute `next` URL returned by a previous page.
+ */
+export async function githubRequestPage<T = unknown>(
+  config: GitHubConfig,
+  endpoint: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<{ data: T[]; next: string | null }> {
+  const url = endpoint.startsWith('https://') ? endpoint : `https://api.github.com${endpoint}`;
+  const response = await fetchImpl(url, {
+    headers: {
+      'Authorization': `Bearer ${config.token}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `GitHub API error: ${response.status}`);
+  }
+
+  return { data: await response.json(), next: parseNextLink(response.headers.get('Link')) };
+}
+
+/** Follow `Link` headers and return every item of a list endpoint, up to `maxPages` pages. */
+export async function githubPaginate<T = unknown>(
+  config: GitHubConfig,
+  endpoint: string,
+  fetchImpl: typeof fetch = fetch,
+  maxPages = 50
+): Promise<T[]> {
+  const items: T[] = [];
+  let next: string | null = endpoint;
+
+  for (let page = 0; next && page < maxPages; page++) {
+    const result = await githubRequestPage<T>(config, next, fetchImpl);
+    items.push(...result.data);
+    next = result.next;
+  }
+
+  return items;
+}
+
+interface GitHubFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+}
+
+export async function fetchPRFiles(config: GitHubConfig, prNumber: number, fetchImpl: typeof fetch = fetch): Promise<PRFile[]> {
+  // GitHub lists at most 3000 files per pull request (30 pages of 100)
+  const files = await githubPaginate<GitHubFile>(config, `/repos/${config.owner}/${config.repo}/pulls/${prNumber}/files?per_page=100`, fetchImpl, 30);
+  return files.map(f => ({
+    filename: f.filename,
+    status: f.status,
+    additions: f.additions,
+    deletions: f.deletions,
+    patch: f.patch,
+  }));
+}
+
+// The compare API lists at most this many files
+const MAX_COMPARE_FILES = 300;
+
+/**
+ * Files changed from `base` to `head`, or null when `head` doesn't build on `base` (the branch was
+ * rebased or force-pushed) or the comparison has too many files to list them all.
+ */
+export async function fetchChangedFilesSince(config: GitHubConfig, base: string, head: string, fetchImpl: typeof fetch = fetch): Promise<PRFile[] | null> {
+  const comparison = await githubRequest<{ status: string; files?: GitHubFile[] }>(
+    config,
+    `/repos/${config.owner}/${config.repo}/compare/${base}...${head}`,
+    fetchImpl
+  );
+  const files = comparison.files ?? [];
+  if (!['ahead', 'identical'].includes(comparison.status) || files.length >= MAX_COMPARE_FILES) return null;
+
+  return files.map(f => ({
+    filename: f.filename,
+    status: f.status,
+    additions: f.additions,
+    deletions: f.deletions,
+    patch: f.patch,
+  }));
+}
+
+interface GitHubComment {
+  id: number;
+  body?: string;
+  user?: { login: string };
+}
+
+/**
+ * Create or update the review comment on a PR.
+ * The comment is found through the stored id first, then by searching for the marker.
+ */
+export async function upsertReviewComment(
+  config: GitHubConfig,
+  prNumber: number,
+  body: string,
+  store?: CommentIdStore,
+  fetchImpl: typeof fetch = fetch
+): Promise<ReviewCommentResult> {
+  const bodyWithMarker = `${REVIEW_COMMENT_MARKER}\n${body}`;
+  const repoPath = `https://api.github.com/repos/${config.owner}/${config.repo}`;
+
+  // Some classic tokens are rejected with the Bearer scheme on comment writes; retry with "token"
+  const send = async (method: string, url: string) => {
+    const request = (auth: string) => fetchImpl(url, {
+      method,
+      headers: buildHeaders(auth),
+      body: JSON.stringify({ body: bodyWithMarker }),
+    });
+    const response = await request(`Bearer ${config.token}`);
+    return response.status === 403 ? request(`token ${config.token}`) : response;
+  };
+
+  // Try to PATCH the stored comment id first (fast path). If it fails, fall back to searching/upserting.
+  const storedId = await store?.get(config.owner, config.repo, prNumber).catch(() => null);
+  if (storedId) {
+    try {
+      const response = await send('PATCH', `${repoPath}/issues/comments/${storedId}`);
+      if (response.ok) {
+        return { id: Number(storedId), updated: true };
+      }
+      // if 404 or other error, we'll continue to the general upsert flow
+    } catch (e) {
+      console.warn('Failed to PATCH stored comment id, falling back to search', e);
+    }
+  }
+
+  // Get authenticated user login (to ensure we only update our own comments)
+  const authUser = await githubRequest<{ login: string }>(config, '/user', fetchImpl).catch(() => null);
+  const login = authUser?.login;
+  const comments = await githubRequest<GitHubComment[]>(config, `/repos/${config.owner}/${config.repo}/issues/${prNumber}/comments`, fetchImpl)
+    .catch((): GitHubComment[] => []);
+
+  const existing = comments.find(c => {
+    if (typeof c.body !== 'string') return false;
+    // exact marker present
+    if (c.body.includes(REVIEW_COMMENT_MARKER) && (login ? c.user?.login === login : true)) return true;
+    // fallback: authored by the same user and looks like our AI review header
+    if (login && c.user?.login === login && (c.body.includes(`## 🤖 AI Code Review for PR #`) || c.body.includes('Generated by'))) return true;
+    return false;
+  });
+
+  const response = existing
+    ? await send('PATCH', `${repoPath}/issues/comments/${existing.id}`)
+    : await send('POST', `${repoPath}/issues/${prNumber}/comments`);
+
+  if (!response.ok) {
+    const errData = await response.json().catch(() => ({}));
+    const message = errData.message || `Failed to post/update comment: ${response.status}`;
+    throw new Error(response.status === 403 ? `${message}. Token may lack required scopes.` : message);
+  }
+
+  const id = existing ? existing.id : (await response.json().catch(() => null))?.id ?? null;
+  if (id) {
+    await store?.save(config.owner, config.repo, prNumber, String(id));
+  }
+
+  return { id, updated: !!existing };
+}
+
+/** Squash-merge a PR. Throws with guidance for the common permission and protection failures. */
+export async function mergePullRequest(
+  config: GitHubConfig,
+  prNumber: number,
+  commitTitle?: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<void> {
+  const response = await fetchImpl(`https://api.github.com/repos/${config.owner}/${config.repo}/pulls/${prNumber}/merge`, {
+    method: 'PUT',
+    headers: {
+      'Authorization': `Bearer ${config.token}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      commit_title: commitTitle,
+      merge_method: 'squash',
+    }),
+  });
+
+  if (response.ok) return;
+
+  const error = await response.json().catch(() => ({}));
+  const message = error.message || `Failed to merge: ${response.status}`;
+
+  // Provide better error guidance for common issues
+  let detailedMessage = message;
+  if (response.status === 403) {
+    if (message.includes('resource') || message.includes('accessible') || message.includes('token')) {
+      detailedMessage = `${message}. Your GitHub token may lack required permissions. Please ensure your token has 'repo' scope (or 'contents:write' for fine-grained tokens) to merge PRs.`;
+    } else if (message.includes('merge')) {
+      detailedMessage = `${message}. This may be due to: (1) Branch protection rules requiring approvals, (2) Pending status checks, (3) Merge conflicts, or (4) PR is in draft state.`;
+    }
+  }
+
+  throw new Error(detailedMessage);
+}
+
+export async function githubWrite<T = unknown>(
+  config: GitHubConfig,
+  method: string,
+  endpoint: string,
+  body: unknown,
+  fetchImpl: typeof fetch = fetch
+): Promise<T> {
+  const response = await fetchImpl(`https://api.github.com${endpoint}`, {
+    method,
+    headers: buildHeaders(`Bearer ${config.token}`),
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `GitHub API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/** Read a file from the repository at `ref`, decoded as UTF-8, with the blob sha needed to update it. */
+export async function fetchFileContent(
+  config: GitHubConfig,
+  path: string,
+  ref: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<{ content: string; sha: string }> {
+  const file = await githubRequest<{ content: string; encoding: string; sha: string }>(
+    config,
+    `/repos/${config.owner}/${config.repo}/contents/${encodeURI(path)}?ref=${encodeURIComponent(ref)}`,
+    fetchImpl
+  );
+  if (file.encoding !== 'base64') {
+    throw new Error(`${path} is too large to edit through the contents API`);
+  }
+  return { content: decodeBase64(file.content), sha: file.sha };
+}
+
+/** Commit new content for a file to `branch`; returns the commit sha. */
+export async function commitFileContent(
+  config: GitHubConfig,
+  path: string,
+  change: { content: string; sha: string; branch: string; message: string },
+  fetchImpl: typeof fetch = fetch
+): Promise<string> {
+  const result = await githubWrite<{ commit: { sha: string } }>(config, 'PUT', `/repos/${config.owner}/${config.repo}/contents/${encodeURI(path)}`, {
+    message: change.message,
+    content: encodeBase64(change.content),
+    sha: change.sha,
+    branch: change.branch,
+  }, fetchImpl);
+  return result.commit.sha;
+}
+
+function decodeBase64(value: string): string {
+  const binary = atob(value.replace(/\n/g, ''));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+function encodeBase64(value: string): string {
+  let binary = '';
+  new TextEncoder().encode(value).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+/** Post a comment to the PR conversation. */
+export async function postIssueComment(
+  config: GitHubConfig,
+  prNumber: number,
+  body: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<{ id: number; html_url: string }> {
+  return githubWrite(config, 'POST', `/repos/${config.owner}/${config.repo}/issues/${prNumber}/comments`, { body }, fetchImpl);
+}
+
+/** Reply in the thread of an inline review comment. */
+export async function replyToReviewComment(
+  config: GitHubConfig,
+  prNumber: number,
+  commentId: number,
+  body: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<{ id: number; html_url: string }> {
+  return githubWrite(config, 'POST', `/repos/${config.owner}/${config.repo}/pulls/${prNumber}/comments/${commentId}/replies`, { body }, fetchImpl);
+}
+
+export async function createIssue(
+  config: GitHubConfig,
+  title: string,
+  body: string,
+  labels: string[] = [],
+  fetchImpl: typeof fetch = fetch
+): Promise<{ number: number; html_url: string }> {
+  return githubWrite(config, 'POST', `/repos/${config.owner}/${config.repo}/issues`, { title, body, labels }, fetchImpl);
+}
+
+/**
+ * Whether a user may change the repository: collaborators with write, maintain or admin permission.
+ * Unknown users (404) are treated as outside collaborators.
+ */
+export async function hasWriteAccess(config: GitHubConfig, login: string, fetchImpl: typeof fetch = fetch): Promise<boolean> {
+  try {
+    const { permission } = await githubRequest<{ permission: string }>(
+      config,
+      `/repos/${config.owner}/${config.repo}/collaborators/${encodeURIComponent(login)}/permission`,
+      fetchImpl
+    );
+    return ['admin', 'maintain', 'write'].includes(permission);
+  } catch (error) {
+    if (error instanceof Error && /not a user|not found|404/i.test(error.message)) return false;
+    throw error;
+  }
+}
+
+export async function githubGraphQL<T = unknown>(
+  config: GitHubConfig,
+  query: string,
+  variables: Record<string, unknown> = {},
+  fetchImpl: typeof fetch = fetch
+): Promise<T> {
+  const response = await fetchImpl('https://api.github.com/graphql', {
+    method: 'POST',
+    headers: buildHeaders(`Bearer ${config.token}`),
+    body: JSON.stringify({ query, variables }),
+  });
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok || payload.errors?.length) {
+    throw new Error(payload.errors?.[0]?.message || payload.message || `GitHub GraphQL error: ${response.status}`);
+  }
+
+  return payload.data;
+}
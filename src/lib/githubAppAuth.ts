@@ -0,0 +1,102 @@
+// GitHub App authentication: app JWTs signed with the app's private key, exchanged for
+// short-lived installation tokens. Runs in the edge functions (Web Crypto) and in tests.
+
+export interface InstallationToken {
+  token: string;
+  /** ISO timestamp from GitHub; installation tokens live for one hour. */
+  expiresAt: string;
+}
+
+/** Refresh installation tokens this long before they expire, so in-flight requests don't race the expiry. */
+export const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// GitHub rejects app JWTs valid for more than 10 minutes; backdate iat for clock drift
+const JWT_LIFETIME_SECONDS = 9 * 60;
+const JWT_CLOCK_SKEW_SECONDS = 60;
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function derSequence(tag: number, content: number[]): number[] {
+  return [tag, ...derLength(content.length), ...content];
+}
+
+// AlgorithmIdentifier for rsaEncryption (1.2.840.113549.1.1.1) with NULL parameters
+const RSA_ALGORITHM_IDENTIFIER = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+
+/**
+ * DER-encoded PKCS#8 key from a PEM private key. GitHub hands out PKCS#1 ("BEGIN RSA PRIVATE KEY")
+ * keys, which Web Crypto can't import, so those are wrapped in a PKCS#8 envelope.
+ */
+export function privateKeyToPkcs8(pem: string): Uint8Array {
+  const isPkcs1 = pem.includes('BEGIN RSA PRIVATE KEY');
+  const body = pem.replace(/-----(BEGIN|END)[A-Z ]+-----/g, '').replace(/\s+/g, '');
+  if (!body) {
+    throw new Error('GitHub App private key is empty');
+  }
+
+  const der = Array.from(atob(body), c => c.charCodeAt(0));
+  if (!isPkcs1) return Uint8Array.from(der);
+
+  const version = [0x02, 0x01, 0x00];
+  const privateKey = derSequence(0x04, der);
+  return Uint8Array.from(derSequence(0x30, [...version, ...RSA_ALGORITHM_IDENTIFIER, ...privateKey]));
+}
+
+/** Sign the short-lived JWT that authenticates as the app itself (RS256). */
+export async function createAppJWT(appId: string, privateKeyPem: string, now = Date.now()): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    privateKeyToPkcs8(privateKeyPem),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const issuedAt = Math.floor(now / 1000) - JWT_CLOCK_SKEW_SECONDS;
+  const encode = (value: unknown) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({ iat: issuedAt, exp: issuedAt + JWT_LIFETIME_SECONDS, iss: appId })}`;
+
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/** Exchange an app JWT for an installation token scoped to the repositories the app is installed on. */
+export async function createInstallationToken(
+  appId: string,
+  installationId: string,
+  privateKeyPem: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<InstallationToken> {
+  const jwt = await createAppJWT(appId, privateKeyPem);
+  const response = await fetchImpl(`https://api.github.com/app/installations/${installationId}/access_tokens`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${jwt}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `Failed to create installation token: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return { token: data.token, expiresAt: data.expires_at };
+}
+
+export function needsRefresh(token: InstallationToken | null, now = Date.now()): boolean {
+  return !token || new Date(token.expiresAt).getTime() - now < TOKEN_REFRESH_MARGIN_MS;
+}
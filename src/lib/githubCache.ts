@@ -0,0 +1,67 @@
+import { CachedGitHubResponse, GitHubResponseCache, createMemoryCache } from '@/lib/githubClient';
+
+const DB_NAME = 'codegate-github-cache';
+const STORE_NAME = 'responses';
+// Entries older than this are dropped when the cache opens, so it doesn't grow forever
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME);
+  };
+  return promisify(request);
+}
+
+async function pruneExpired(db: IDBDatabase): Promise<void> {
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const cursorRequest = store.openCursor();
+  await new Promise<void>((resolve, reject) => {
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return resolve();
+      if (Date.now() - (cursor.value as CachedGitHubResponse).storedAt > MAX_AGE_MS) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+}
+
+/**
+ * GitHub response cache kept in IndexedDB, so ETags survive page reloads.
+ * Falls back to an in-memory cache where IndexedDB is unavailable (private mode, tests).
+ */
+export function createIndexedDBCache(): GitHubResponseCache {
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryCache();
+  }
+
+  const database = openDatabase().then(async db => {
+    await pruneExpired(db).catch(error => console.warn('Failed to prune GitHub cache', error));
+    return db;
+  });
+
+  return {
+    get: async (key) => {
+      const db = await database;
+      return promisify(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key)) as Promise<CachedGitHubResponse | undefined>;
+    },
+    set: async (key, value) => {
+      const db = await database;
+      await promisify(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(value, key));
+    },
+    clear: async () => {
+      const db = await database;
+      await promisify(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+    },
+  };
+}
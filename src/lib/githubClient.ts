@@ -0,0 +1,181 @@
+// Rate-limit aware GitHub transport: conditional GETs with ETags, exponential backoff on
+// secondary rate limits, and quota tracking. It is a drop-in `fetch`, so every helper in
+// githubApi.ts and pullRequests.ts can use it through its `fetchImpl` parameter.
+
+export interface CachedGitHubResponse {
+  etag: string;
+  body: string;
+  /** `Link` header of the cached page, needed to keep paginating from a 304. */
+  link: string | null;
+  storedAt: number;
+}
+
+export interface GitHubResponseCache {
+  get: (key: string) => Promise<CachedGitHubResponse | undefined>;
+  set: (key: string, value: CachedGitHubResponse) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface RateLimitState {
+  /** GitHub's bucket for the request: `core`, `graphql`, `search`, ... */
+  resource: string;
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds when the bucket refills. */
+  resetAt: number;
+}
+
+export interface GitHubClientOptions {
+  cache?: GitHubResponseCache;
+  fetchImpl?: typeof fetch;
+  /** Retries after a secondary rate limit before the response is returned as-is. */
+  maxRetries?: number;
+  /** First backoff delay; doubled on every retry unless GitHub sends `Retry-After`. */
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface GitHubClient {
+  fetch: typeof fetch;
+  getRateLimits: () => RateLimitState[];
+  subscribe: (listener: (limits: RateLimitState[]) => void) => () => void;
+}
+
+const MAX_BACKOFF_MS = 60_000;
+
+export function createMemoryCache(): GitHubResponseCache {
+  const entries = new Map<string, CachedGitHubResponse>();
+  return {
+    get: async (key) => entries.get(key),
+    set: async (key, value) => { entries.set(key, value); },
+    clear: async () => { entries.clear(); },
+  };
+}
+
+/**
+ * Keys `cache` by the current scope (e.g. the workspace), so a response fetched with one
+ * workspace's credentials is never replayed to another. Nothing is cached without a scope.
+ */
+export function scopeCache(cache: GitHubResponseCache, getScope: () => Promise<string | null>): GitHubResponseCache {
+  return {
+    get: async (key) => {
+      const scope = await getScope();
+      return scope ? cache.get(`${scope}:${key}`) : undefined;
+    },
+    set: async (key, value) => {
+      const scope = await getScope();
+      if (scope) await cache.set(`${scope}:${key}`, value);
+    },
+    clear: () => cache.clear(),
+  };
+}
+
+/** Rate limit headers of a response, or null when GitHub didn't send them (e.g. raw content). */
+export function parseRateLimit(headers: Headers): RateLimitState | null {
+  const limit = headers.get('x-ratelimit-limit');
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) return null;
+
+  return {
+    resource: headers.get('x-ratelimit-resource') || 'core',
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: Number(reset) * 1000,
+  };
+}
+
+/**
+ * Whether a 403/429 is a secondary ("abuse") rate limit worth retrying. An exhausted primary
+ * quota isn't: it only refills at `x-ratelimit-reset`, up to an hour away.
+ */
+async function isSecondaryRateLimit(response: Response): Promise<boolean> {
+  if (response.status !== 403 && response.status !== 429) return false;
+  if (response.headers.get('retry-after')) return true;
+  if (response.headers.get('x-ratelimit-remaining') === '0') return false;
+  if (response.status === 429) return true;
+
+  const body = await response.clone().json().catch(() => ({}));
+  return /secondary rate limit|abuse/i.test(body.message || '');
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input;
+  return input instanceof URL ? input.href : input.url;
+}
+
+export function createGitHubClient(options: GitHubClientOptions = {}): GitHubClient {
+  const {
+    cache,
+    fetchImpl = (...args: Parameters<typeof fetch>) => fetch(...args),
+    maxRetries = 3,
+    baseDelayMs = 1000,
+    sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)),
+  } = options;
+
+  const limits = new Map<string, RateLimitState>();
+  const listeners = new Set<(limits: RateLimitState[]) => void>();
+
+  const recordRateLimit = (headers: Headers) => {
+    const state = parseRateLimit(headers);
+    if (!state) return;
+    limits.set(state.resource, state);
+    const snapshot = [...limits.values()];
+    listeners.forEach(listener => listener(snapshot));
+  };
+
+  const send = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetchImpl(input, init);
+      recordRateLimit(response.headers);
+
+      if (attempt >= maxRetries || !(await isSecondaryRateLimit(response))) {
+        return response;
+      }
+
+      const retryAfter = Number(response.headers.get('retry-after'));
+      const delay = retryAfter > 0 ? retryAfter * 1000 : baseDelayMs * 2 ** attempt;
+      await sleep(Math.min(delay, MAX_BACKOFF_MS));
+    }
+  };
+
+  const clientFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const method = (init.method || 'GET').toUpperCase();
+    const url = requestUrl(input);
+    if (!cache || method !== 'GET' || !url.startsWith('https://api.github.com/')) {
+      return send(input, init);
+    }
+
+    const cached = await cache.get(url).catch(() => undefined);
+    const headers = new Headers(init.headers);
+    if (cached) headers.set('If-None-Match', cached.etag);
+
+    const response = await send(input, { ...init, headers });
+
+    // 304s don't count against the quota; serve the stored body as a normal 200
+    if (response.status === 304 && cached) {
+      const replayed = new Headers({ 'Content-Type': 'application/json', ETag: cached.etag });
+      if (cached.link) replayed.set('Link', cached.link);
+      return new Response(cached.body, { status: 200, headers: replayed });
+    }
+
+    const etag = response.headers.get('etag');
+    if (response.ok && etag) {
+      const body = await response.clone().text();
+      await cache.set(url, { etag, body, link: response.headers.get('link'), storedAt: Date.now() }).catch(error => {
+        console.warn('Failed to cache GitHub response', error);
+      });
+    }
+
+    return response;
+  };
+
+  return {
+    fetch: clientFetch as typeof fetch,
+    getRateLimits: () => [...limits.values()],
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
@@ -0,0 +1,139 @@
+// Incremental re-reviews: when a PR was reviewed before, only the commits pushed since go to the
+// model. Earlier suggestions on lines those commits left alone are carried forward to their new
+// lines; suggestions whose lines changed count as addressed.
+import { AICodeSuggestion, AIReviewResult, PRFile } from '../types/codeReview.ts';
+import { mergeReviewResults } from './diffChunking.ts';
+import { suggestionFingerprint } from './inlineReview.ts';
+
+/** The review a PR was last given and the head it was run against. */
+export interface LastReview {
+  headSha: string;
+  review: AIReviewResult;
+}
+
+/**
+ * Files of the PR among those changed since an earlier head. Files the PR doesn't touch are left
+ * out: they changed because the base branch was merged in.
+ */
+export function changedSince(prFiles: PRFile[], compared: PRFile[]): PRFile[] {
+  const inPR = new Set(prFiles.map(f => f.filename));
+  return compared.filter(f => inPR.has(f.filename));
+}
+
+/** Where each line of the old side of `patch` is on the new side, or null when it was removed. */
+export function lineMapper(patch: string): (line: number) => number | null {
+  const removed = new Set<number>();
+  // From old line `from` on, lines move by `offset`, until the next entry
+  const shifts: { from: number; offset: number }[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const row of patch.split('\n')) {
+    const hunk = row.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)/);
+    if (hunk) {
+      oldLine = Number(hunk[1]);
+      newLine = Number(hunk[2]);
+    } else if (row.startsWith('-')) {
+      removed.add(oldLine++);
+    } else if (row.startsWith('+')) {
+      newLine++;
+    } else if (!row.startsWith('\\')) {
+      oldLine++;
+      newLine++;
+    }
+    shifts.push({ from: oldLine, offset: newLine - oldLine });
+  }
+
+  return (line) => {
+    if (removed.has(line)) return null;
+    const shift = shifts.filter(s => s.from <= line).pop();
+    return line + (shift?.offset ?? 0);
+  };
+}
+
+/** Lines a suggestion is about: the lines its code replaces, or its line. */
+function suggestionLines(suggestion: AICodeSuggestion): number[] {
+  if (!suggestion.line) return [];
+  const count = suggestion.code ? suggestion.code.before.replace(/\r?\n$/, '').split(/\r?\n/).length : 1;
+  return Array.from({ length: count }, (_, i) => suggestion.line + i);
+}
+
+/**
+ * Split earlier suggestions into those still standing at the new head, moved to their new lines,
+ * and those addressed since: their lines changed or their file left the PR. Suggestions whose
+ * lines can't be placed (no line, or no diff for the file) are kept as they were.
+ */
+export function carryForwardSuggestions(
+  suggestions: AICodeSuggestion[],
+  prFiles: PRFile[],
+  changed: PRFile[]
+): { carried: AICodeSuggestion[]; addressed: AICodeSuggestion[] } {
+  const carried: AICodeSuggestion[] = [];
+  const addressed: AICodeSuggestion[] = [];
+
+  for (const suggestion of suggestions.filter(s => s.status !== 'rejected')) {
+    const change = changed.find(f => f.filename === suggestion.file);
+    if (!prFiles.some(f => f.filename === suggestion.file)) {
+      addressed.push(suggestion);
+    } else if (!change?.patch || !suggestion.line) {
+      carried.push(suggestion);
+    } else {
+      const map = lineMapper(change.patch);
+      const lines = suggestionLines(suggestion).map(map);
+      if (lines.includes(null)) {
+        addressed.push(suggestion);
+      } else {
+        carried.push({ ...suggestion, line: lines[0] });
+      }
+    }
+  }
+
+  return { carried, addressed };
+}
+
+/**
+ * Combine the last review with the review of the files changed since (`delta`, null when no
+ * file needed one). Scores are weighted by lines like review batches: the last review's for the
+ * files that didn't change, the delta's for those that did. Earlier suggestions the delta raises
+ * again aren't reported as addressed.
+ */
+export function mergeIncrementalReview(
+  last: LastReview,
+  delta: AIReviewResult | null,
+  prFiles: PRFile[],
+  changed: PRFile[]
+): AIReviewResult {
+  const { carried, addressed } = carryForwardSuggestions(last.review.suggestions, prFiles, changed);
+  const raised = new Set(delta?.suggestions.map(suggestionFingerprint));
+  const incremental = {
+    since: last.headSha,
+    files: changed.map(f => f.filename),
+    carried: carried.length,
+    addressed: addressed.filter(s => !raised.has(suggestionFingerprint(s))),
+  };
+
+  // Carried suggestions keep their ids: statuses and posted comments refer to them
+  if (!delta) {
+    return {
+      ...last.review,
+      suggestions: carried,
+      timestamp: new Date().toISOString(),
+      usage: { promptTokens: 0, completionTokens: 0 },
+      incremental,
+    };
+  }
+
+  const changedNames = new Set(incremental.files);
+  const merged = mergeReviewResults([
+    { review: { ...last.review, suggestions: carried }, files: prFiles.filter(f => !changedNames.has(f.filename)) },
+    { review: delta, files: changed },
+  ]);
+
+  return {
+    ...delta,
+    suggestions: merged.suggestions,
+    overallScore: merged.overallScore,
+    categories: merged.categories,
+    incremental,
+  };
+}
@@ -0,0 +1,322 @@
+// Inline PR review comments: anchors AI suggestions to diff lines and keeps them in sync across re-runs.
+import { AICodeSuggestion, AIReviewResult, GitHubConfig, PRFile, PullRequest } from '../types/codeReview.ts';
+import { githubGraphQL, githubPaginate, githubWrite } from './githubApi.ts';
+
+export interface DiffAnchor {
+  path: string;
+  line: number;
+  /** RIGHT for added and context lines of the new file, LEFT for deleted lines. */
+  side: 'LEFT' | 'RIGHT';
+}
+
+export interface InlineComment extends DiffAnchor {
+  /** First line of a multi-line comment, set when a suggested change spans several lines. */
+  startLine?: number;
+  body: string;
+  fingerprint: string;
+  suggestion: AICodeSuggestion;
+}
+
+export interface InlineReviewResult {
+  posted: number;
+  updated: number;
+  resolved: number;
+  /** Comments resolved by an earlier run whose suggestion is reported again. */
+  reopened: number;
+  /** Suggestions that don't land on a changed line and belong in the summary comment. */
+  unanchored: AICodeSuggestion[];
+  /** Ids of suggestions whose `code.before` doesn't match the PR head; these are also unanchored. */
+  mismatchedCode: string[];
+}
+
+const INLINE_MARKER_PREFIX = '<!-- codegate-inline:';
+const RESOLVED_PREFIX = '✅ **Resolved** — no longer reported by the latest review.';
+
+interface DiffLines {
+  /** New-file line number → content, for added and context lines. */
+  right: Map<number, string>;
+  /** Old-file line number → content, for deleted lines. */
+  left: Map<number, string>;
+}
+
+/** Collect the new-file and old-file lines a review comment can be attached to. */
+export function parsePatchLines(patch: string): DiffLines {
+  const lines: DiffLines = { right: new Map(), left: new Map() };
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const raw of patch.split('\n')) {
+    const hunk = raw.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      oldLine = Number(hunk[1]);
+      newLine = Number(hunk[2]);
+      continue;
+    }
+
+    if (raw.startsWith('+')) {
+      lines.right.set(newLine++, raw.slice(1));
+    } else if (raw.startsWith('-')) {
+      lines.left.set(oldLine++, raw.slice(1));
+    } else if (raw.startsWith('\\')) {
+      // "\ No newline at end of file"
+      continue;
+    } else {
+      lines.right.set(newLine++, raw.slice(1));
+      oldLine++;
+    }
+  }
+
+  return lines;
+}
+
+/** Find where a suggestion for `line` of `file` can be shown in the diff, or null when it's outside the patch. */
+export function findDiffAnchor(file: PRFile | undefined, line: number | undefined): DiffAnchor | null {
+  if (!file?.patch || !line) return null;
+
+  const lines = parsePatchLines(file.patch);
+  if (lines.right.has(line)) return { path: file.filename, line, side: 'RIGHT' };
+  if (lines.left.has(line)) return { path: file.filename, line, side: 'LEFT' };
+  return null;
+}
+
+/**
+ * Check that a suggestion's `code.before` is what the PR head has at the claimed lines.
+ * Returns the new-file line range it replaces, or null when the text doesn't match.
+ */
+export function matchSuggestedCode(file: PRFile | undefined, suggestion: AICodeSuggestion): { startLine: number; line: number } | null {
+  if (!file?.patch || !suggestion.line || !suggestion.code) return null;
+
+  const head = parsePatchLines(file.patch).right;
+  const before = suggestion.code.before.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+
+  for (let i = 0; i < before.length; i++) {
+    const actual = head.get(suggestion.line + i);
+    if (actual === undefined || actual.trimEnd() !== before[i].trimEnd()) return null;
+  }
+
+  return { startLine: suggestion.line, line: suggestion.line + before.length - 1 };
+}
+
+/** Stable id for a suggestion across runs: suggestion ids are positional, so file and message are used instead. */
+export function suggestionFingerprint(suggestion: AICodeSuggestion): string {
+  const text = `${suggestion.file}|${suggestion.message.trim().toLowerCase()}`;
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/** The body references the fingerprint, not the positional id, so a re-run that reorders findings leaves it unchanged. */
+export function formatInlineComment(suggestion: AICodeSuggestion, fingerprint: string): string {
+  return `**[${suggestion.severity.toUpperCase()}] ${suggestion.type}** · suggestion \`${fingerprint}\`
+
+${suggestion.message}
+
+**Suggestion:** ${suggestion.suggestion}
+${suggestion.code ? `\n${formatSuggestionBlock(suggestion.code.after)}\n` : ''}
+${INLINE_MARKER_PREFIX}${fingerprint} -->`;
+}
+
+/** GitHub "suggested change" block; the fence grows when the code itself contains backtick fences. */
+export function formatSuggestionBlock(after: string): string {
+  const longestRun = Math.max(2, ...(after.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}suggestion\n${after.replace(/\n$/, '')}\n${fence}`;
+}
+
+/**
+ * Split review suggestions into inline comments and the ones left for the summary.
+ * Suggestions carrying code are only posted when `code.before` matches the PR head,
+ * otherwise the one-click change would rewrite the wrong lines.
+ */
+export function buildInlineComments(
+  review: AIReviewResult,
+  files: PRFile[]
+): { comments: InlineComment[]; unanchored: AICodeSuggestion[]; mismatchedCode: string[] } {
+  const byName = new Map(files.map(f => [f.filename, f]));
+  const comments: InlineComment[] = [];
+  const unanchored: AICodeSuggestion[] = [];
+  const mismatchedCode: string[] = [];
+
+  for (const suggestion of review.suggestions) {
+    if (suggestion.status === 'rejected') continue;
+
+    const file = byName.get(suggestion.file);
+    const anchor = findDiffAnchor(file, suggestion.line);
+    if (!anchor) {
+      unanchored.push(suggestion);
+      continue;
+    }
+
+    const fingerprint = suggestionFingerprint(suggestion);
+    const body = formatInlineComment(suggestion, fingerprint);
+
+    if (!suggestion.code) {
+      comments.push({ ...anchor, fingerprint, suggestion, body });
+      continue;
+    }
+
+    const range = matchSuggestedCode(file, suggestion);
+    if (!range) {
+      unanchored.push(suggestion);
+      mismatchedCode.push(suggestion.id);
+      continue;
+    }
+
+    comments.push({
+      path: anchor.path,
+      side: 'RIGHT',
+      line: range.line,
+      startLine: range.startLine < range.line ? range.startLine : undefined,
+      fingerprint,
+      suggestion,
+      body,
+    });
+  }
+
+  return { comments, unanchored, mismatchedCode };
+}
+
+interface GitHubReviewComment {
+  id: number;
+  node_id: string;
+  body: string;
+  in_reply_to_id?: number;
+}
+
+function markerOf(body: string): string | null {
+  const start = body.indexOf(INLINE_MARKER_PREFIX);
+  if (start === -1) return null;
+  return body.slice(start + INLINE_MARKER_PREFIX.length).split(' -->')[0];
+}
+
+const REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100) {
+          nodes { id isResolved comments(first: 1) { nodes { databaseId } } }
+        }
+      }
+    }
+  }`;
+
+interface ReviewThreadsResponse {
+  repository: {
+    pullRequest: {
+      reviewThreads: { nodes: { id: string; isResolved: boolean; comments: { nodes: { databaseId: number }[] } }[] };
+    };
+  };
+}
+
+/**
+ * Submit the anchored suggestions as a pull request review.
+ * Comments from earlier runs are updated in place when the suggestion is still reported
+ * and their threads resolved when it's gone, so re-runs don't pile up duplicates.
+ * Comments resolved by an earlier run are reopened when their suggestion comes back; threads
+ * people resolved themselves are left alone.
+ */
+export async function submitInlineReview(
+  config: GitHubConfig,
+  pr: PullRequest,
+  review: AIReviewResult,
+  files: PRFile[],
+  fetchImpl: typeof fetch = fetch
+): Promise<InlineReviewResult> {
+  const { comments, unanchored, mismatchedCode } = buildInlineComments(review, files);
+  const repoPath = `/repos/${config.owner}/${config.repo}`;
+
+  const existing = (await githubPaginate<GitHubReviewComment>(config, `${repoPath}/pulls/${pr.number}/comments?per_page=100`, fetchImpl))
+    .filter(c => !c.in_reply_to_id && markerOf(c.body));
+  const existingByMarker = new Map(existing.map(c => [markerOf(c.body), c]));
+
+  const result: InlineReviewResult = { posted: 0, updated: 0, resolved: 0, reopened: 0, unanchored, mismatchedCode };
+  const fresh: InlineComment[] = [];
+  const reappeared: GitHubReviewComment[] = [];
+
+  for (const comment of comments) {
+    const previous = existingByMarker.get(comment.fingerprint);
+    if (!previous) {
+      fresh.push(comment);
+    } else if (previous.body !== comment.body) {
+      // Rewriting the body also drops the resolved marker of a suggestion that came back
+      await githubWrite(config, 'PATCH', `${repoPath}/pulls/comments/${previous.id}`, { body: comment.body }, fetchImpl);
+      if (previous.body.startsWith(RESOLVED_PREFIX)) {
+        reappeared.push(previous);
+      } else {
+        result.updated++;
+      }
+    }
+  }
+  result.reopened = reappeared.length;
+
+  // The marker records that this bot resolved the comment, so only those are ever reopened
+  const current = new Set(comments.map(c => c.fingerprint));
+  const stale = existing.filter(c => !current.has(markerOf(c.body)!) && !c.body.startsWith(RESOLVED_PREFIX));
+  for (const comment of stale) {
+    await githubWrite(config, 'PATCH', `${repoPath}/pulls/comments/${comment.id}`, { body: `${RESOLVED_PREFIX}\n\n${comment.body}` }, fetchImpl);
+  }
+  result.resolved = stale.length;
+
+  if (stale.length > 0 || reappeared.length > 0) {
+    await syncReviewThreads(config, pr.number, stale, reappeared, fetchImpl);
+  }
+
+  if (fresh.length > 0) {
+    try {
+      await githubWrite(config, 'POST', `${repoPath}/pulls/${pr.number}/reviews`, {
+        commit_id: pr.head.sha,
+        event: 'COMMENT',
+        body: `🤖 AI review: ${fresh.length} inline comment${fresh.length === 1 ? '' : 's'} on ${pr.head.sha.slice(0, 7)}.`,
+        comments: fresh.map(c => ({
+          path: c.path,
+          line: c.line,
+          side: c.side,
+          ...(c.startLine ? { start_line: c.startLine, start_side: c.side } : {}),
+          body: c.body,
+        })),
+      }, fetchImpl);
+      result.posted = fresh.length;
+    } catch (error) {
+      // GitHub rejects the whole review (422) when a line is no longer part of the diff,
+      // e.g. after a push during the run; keep the suggestions visible in the summary instead
+      console.warn('Inline review rejected, falling back to the summary comment', error);
+      result.unanchored = [...unanchored, ...fresh.map(c => c.suggestion)];
+    }
+  }
+
+  return result;
+}
+
+/** Resolve the threads of stale comments and reopen those of comments whose suggestion came back. */
+async function syncReviewThreads(
+  config: GitHubConfig,
+  prNumber: number,
+  stale: GitHubReviewComment[],
+  reappeared: GitHubReviewComment[],
+  fetchImpl: typeof fetch
+): Promise<void> {
+  const staleIds = new Set(stale.map(c => c.id));
+  const reappearedIds = new Set(reappeared.map(c => c.id));
+
+  try {
+    const data = await githubGraphQL<ReviewThreadsResponse>(config, REVIEW_THREADS_QUERY, {
+      owner: config.owner,
+      repo: config.repo,
+      number: prNumber,
+    }, fetchImpl);
+
+    for (const thread of data.repository.pullRequest.reviewThreads.nodes) {
+      const firstId = thread.comments.nodes[0]?.databaseId;
+      if (!thread.isResolved && staleIds.has(firstId)) {
+        await githubGraphQL(config, 'mutation($id: ID!) { resolveReviewThread(input: { threadId: $id }) { thread { id } } }', { id: thread.id }, fetchImpl);
+      } else if (thread.isResolved && reappearedIds.has(firstId)) {
+        await githubGraphQL(config, 'mutation($id: ID!) { unresolveReviewThread(input: { threadId: $id }) { thread { id } } }', { id: thread.id }, fetchImpl);
+      }
+    }
+  } catch (error) {
+    // Tokens without GraphQL access still leave the marker in the comment body
+    console.warn('Failed to sync review threads, the comments are marked instead', error);
+  }
+}
@@ -0,0 +1,172 @@
+import { JiraConfig, JiraTicket } from '../types/codeReview.ts';
+import { isSecretConfigured } from './secrets.ts';
+
+/** Sends a request body to the jira-proxy edge function (or Jira directly) and returns the parsed JSON. */
+export type JiraProxyInvoker = (body: Record<string, unknown>) => Promise<unknown>;
+
+// Subset of the Jira REST issue payload we read
+interface JiraIssue {
+  key: string;
+  error?: string;
+  fields?: {
+    summary?: string;
+    description?: unknown;
+    status?: { name: string };
+    issuetype?: { name: string };
+    priority?: { name: string };
+    assignee?: { displayName: string };
+    reporter?: { displayName: string };
+    labels?: string[];
+    attachment?: { id: string; filename: string; mimeType?: string; content: string; thumbnail?: string }[];
+    [customField: string]: unknown;
+  };
+  renderedFields?: { description?: string };
+}
+
+/** Find a Jira ticket key such as PROJ-123 in a PR title, branch or body. */
+export function extractTicketId(config: JiraConfig, text: string): string | null {
+  if (!config.enabled) return null;
+
+  // Use custom pattern or default Jira pattern
+  const pattern = config.projectKeyPattern 
+    ? new RegExp(`((?:${config.projectKeyPattern})-\\d+)`, 'i')
+    : /([A-Z]+-\d+)/i;
+
+  const match = text.match(pattern);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Fetch a ticket through the proxy. Returns null when Jira is not configured; throws on API errors.
+ */
+export async function fetchJiraTicket(config: JiraConfig, ticketId: string, invokeProxy: JiraProxyInvoker): Promise<JiraTicket | null> {
+  if (!config.enabled || !isSecretConfigured(config.apiToken, config.apiTokenLastFour) || !config.email) {
+    return null;
+  }
+
+  const issue = await invokeProxy({
+    action: 'fetchTicket',
+    domain: config.domain,
+    email: config.email,
+    // Left out when only the stored token is available; the proxy fills it in
+    apiToken: config.apiToken || undefined,
+    ticketId,
+  }) as JiraIssue;
+
+  if (issue?.error) {
+    throw new Error(issue.error);
+  }
+
+  return mapJiraIssue(issue, config.domain, ticketId);
+}
+
+export function mapJiraIssue(issue: JiraIssue, domain: string, ticketId: string): JiraTicket {
+  // Extract attachments (screenshots/images)
+  const attachments = issue.fields?.attachment || [];
+  const imageAttachments = attachments
+    .filter(att => att.mimeType?.startsWith('image/'))
+    .map(att => ({
+      id: att.id,
+      filename: att.filename,
+      mimeType: att.mimeType,
+      url: att.content,
+      thumbnail: att.thumbnail,
+    }));
+
+  // Parse description - handle Atlassian Document Format (ADF)
+  const description = parseADFToText(issue.fields?.description);
+  const renderedDescription = issue.renderedFields?.description || description;
+
+  // Extract acceptance criteria if present (common custom field patterns)
+  const acceptanceCriteria = extractAcceptanceCriteria(issue.fields || {}, description);
+
+  return {
+    key: issue.key,
+    summary: issue.fields?.summary,
+    description,
+    renderedDescription,
+    status: issue.fields?.status?.name || 'Unknown',
+    type: issue.fields?.issuetype?.name || 'Task',
+    priority: issue.fields?.priority?.name || 'Medium',
+    assignee: issue.fields?.assignee?.displayName,
+    reporter: issue.fields?.reporter?.displayName,
+    labels: issue.fields?.labels || [],
+    attachments: imageAttachments,
+    acceptanceCriteria,
+    url: `https://${domain}/browse/${ticketId}`,
+  };
+}
+
+// Parse Atlassian Document Format to plain text
+function parseADFToText(adf: any): string {
+  if (!adf) return '';
+  if (typeof adf === 'string') return adf;
+
+  const extractText = (node: any): string => {
+    if (!node) return '';
+    
+    if (node.type === 'text') {
+      return node.text || '';
+    }
+
+    if (node.content && Array.isArray(node.content)) {
+      return node.content.map(extractText).join('');
+    }
+
+    if (node.type === 'paragraph') {
+      return extractText(node) + '\n';
+    }
+
+    if (node.type === 'bulletList' || node.type === 'orderedList') {
+      return node.content?.map((item: any, i: number) => {
+        const prefix = node.type === 'orderedList' ? `${i + 1}. ` : '• ';
+        return prefix + extractText(item);
+      }).join('\n') + '\n';
+    }
+
+    if (node.type === 'heading') {
+      const level = node.attrs?.level || 1;
+      return '#'.repeat(level) + ' ' + extractText(node) + '\n';
+    }
+
+    if (node.type === 'codeBlock') {
+      return '```\n' + extractText(node) + '\n```\n';
+    }
+
+    return extractText(node);
+  };
+
+  return extractText(adf).trim();
+}
+
+// Extract acceptance criteria from common field patterns
+function extractAcceptanceCriteria(fields: any, description: string): string | undefined {
+  // Check common custom field names for acceptance criteria
+  const customFieldPatterns = [
+    'customfield_10020', // Common AC field
+    'customfield_10021',
+    'customfield_10022',
+  ];
+
+  for (const field of customFieldPatterns) {
+    if (fields[field]) {
+      const value = fields[field];
+      if (typeof value === 'string') return value;
+      if (typeof value === 'object') return parseADFToText(value);
+    }
+  }
+
+  // Try to extract from description using common patterns
+  const acPatterns = [
+    /acceptance criteria[:\s]*([\s\S]*?)(?=\n\n|\n#|$)/i,
+    /ac[:\s]*([\s\S]*?)(?=\n\n|\n#|$)/i,
+    /given[\s\S]*?when[\s\S]*?then/i,
+  ];
+
+  for (const pattern of acPatterns) {
+    const match = description.match(pattern);
+    if (match) return match[0];
+  }
+
+  return undefined;
+}
@@ -0,0 +1,303 @@
+// Prompt templates: the text sent to the model for each review command, editable per workspace
+// and per repository. Templates are Mustache-like: `{{name}}` inserts a variable, and
+// `{{#name}}...{{/name}}` / `{{^name}}...{{/name}}` keep their content only when it is set / unset.
+import { JiraTicket, PRFile, PullRequest, ReviewRule } from '../types/codeReview.ts';
+import { formatFileDiff } from './diffChunking.ts';
+import { formatReviewContext, ReviewContext } from './reviewContext.ts';
+import { formatReviewRules } from './reviewRules.ts';
+
+export type PromptTemplateKind = 'review' | 'summary' | 'guide' | 'title' | 'business-logic';
+
+/** The template body to use for each kind; missing kinds use the built-in template. */
+export type PromptTemplates = Partial<Record<PromptTemplateKind, string>>;
+
+/** One saved version. Versions are never edited; a rollback saves an old body as a new version. */
+export interface PromptTemplateVersion {
+  id: string;
+  kind: PromptTemplateKind;
+  /** Empty for the workspace default; set for a repository override. */
+  owner: string;
+  repo: string;
+  version: number;
+  /** Empty to fall back to the workspace default, or to the built-in template. */
+  body: string;
+  createdAt: string;
+}
+
+/** Columns of a `prompt_templates` row. */
+export interface PromptTemplateRow {
+  id: string;
+  kind: string;
+  owner: string;
+  repo: string;
+  version: number;
+  body: string;
+  created_at: string;
+}
+
+export function promptTemplateFromRow(row: PromptTemplateRow): PromptTemplateVersion {
+  return {
+    id: row.id,
+    kind: row.kind as PromptTemplateKind,
+    owner: row.owner,
+    repo: row.repo,
+    version: row.version,
+    body: row.body,
+    createdAt: row.created_at,
+  };
+}
+
+export type PromptVariables = Record<string, string | number | undefined>;
+
+export const PROMPT_TEMPLATE_KINDS: Record<PromptTemplateKind, string> = {
+  review: 'Full review',
+  summary: 'Summary',
+  guide: 'Review guide',
+  title: 'Title',
+  'business-logic': 'Jira validation',
+};
+
+export const PROMPT_VARIABLES: { name: string; description: string }[] = [
+  { name: 'pr.number', description: 'Pull request number' },
+  { name: 'pr.title', description: 'Pull request title' },
+  { name: 'pr.author', description: 'Author login' },
+  { name: 'pr.head', description: 'Head branch' },
+  { name: 'pr.base', description: 'Base branch' },
+  { name: 'pr.description', description: 'Description, or "No description provided"' },
+  { name: 'pr.additions', description: 'Lines added' },
+  { name: 'pr.deletions', description: 'Lines deleted' },
+  { name: 'pr.changedFiles', description: 'Files changed' },
+  { name: 'diff', description: 'Diffs of the files in this request' },
+  { name: 'jira', description: 'Set when a Jira ticket is linked; for {{#jira}} sections' },
+  { name: 'jira.key', description: 'Ticket key' },
+  { name: 'jira.summary', description: 'Ticket summary' },
+  { name: 'jira.type', description: 'Ticket type' },
+  { name: 'jira.priority', description: 'Ticket priority' },
+  { name: 'jira.status', description: 'Ticket status' },
+  { name: 'jira.description', description: 'Ticket description, or "No description provided"' },
+  { name: 'jira.acceptanceCriteria', description: 'Acceptance criteria' },
+  { name: 'jira.attachments', description: 'Number of attached images' },
+  { name: 'rules', description: "Repository review rules for these files" },
+  { name: 'context', description: 'Repository context chosen by the context depth' },
+];
+
+const PR_SECTION = `
+## Pull Request #{{pr.number}}: {{pr.title}}
+
+**Author:** {{pr.author}}
+**Branch:** {{pr.head}} → {{pr.base}}
+**Changes:** {{pr.additions}} additions, {{pr.deletions}} deletions across {{pr.changedFiles}} files
+
+### Description
+{{pr.description}}
+{{#jira}}
+### Linked Jira Ticket: {{jira.key}}
+**Summary:** {{jira.summary}}
+**Type:** {{jira.type}} | **Priority:** {{jira.priority}} | **Status:** {{jira.status}}
+
+**Description:**
+{{jira.description}}
+{{#jira.acceptanceCriteria}}
+**Acceptance Criteria:**
+{{jira.acceptanceCriteria}}
+{{/jira.acceptanceCriteria}}{{#jira.attachments}}
+**Attachments:** {{jira.attachments}} image(s) attached (UI mockups/screenshots may be present)
+{{/jira.attachments}}{{/jira}}
+### Code Changes
+{{diff}}
+{{#rules}}
+### Repository Rules
+Rules the maintainers of this repository set for these files. Report every change that breaks one, and set "rule" on that suggestion to the rule's id.
+
+{{rules}}
+{{/rules}}{{#context}}
+### Repository Context
+Code around the changes, with line numbers. Review only the changes, but use this to check them.
+
+{{context}}
+{{/context}}`;
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateKind, string> = {
+  review: `You are an expert code reviewer. Analyze this pull request and provide:
+1. A concise summary of the changes
+2. Code quality score (0-100) for: overall, codeQuality, security, performance, maintainability, testability
+3. Specific suggestions for improvement with severity (low/medium/high/critical), type (improvement/bug/security/performance/style), file location, and line numbers
+   When a suggestion is a concrete fix, include "code": "before" must be copied verbatim from the new version of the file starting at "line" (whole lines, only lines shown in the diff), and "after" is the exact replacement for those lines. Omit "code" otherwise.
+4. A recommended action: APPROVE, REQUEST_CHANGES, or COMMENT
+{{#context}}5. Check the changes against the Repository Context: calls that no longer match a changed signature, removed or renamed exports still in use, and types used incorrectly. Report each broken call site as a bug on the changed line that breaks it.
+{{/context}}{{#jira}}
+IMPORTANT: This PR is linked to Jira ticket {{jira.key}}. You MUST:
+1. Validate that the code changes align with the requirements in the Jira ticket
+2. Check if acceptance criteria (if any) are addressed by the code
+3. Identify any gaps between requirements and implementation
+4. Note any code that goes beyond the scope of the ticket
+5. Include a "businessLogicValidation" section in your response with score 0-100
+{{/jira}}
+Respond in this JSON format:
+{
+  "summary": "...",
+  "overallScore": 85,
+  "categories": { "codeQuality": 80, "security": 90, "performance": 75, "maintainability": 85, "testability": 70 },
+  "suggestions": [
+    { "type": "security", "severity": "high", "file": "...", "line": 42, "message": "...", "suggestion": "...", "code": { "before": "...", "after": "..." } }
+  ],
+  {{#jira}}"businessLogicValidation": {
+    "ticketKey": "{{jira.key}}",
+    "score": 85,
+    "summary": "...",
+    "implementedRequirements": ["requirement 1", "requirement 2"],
+    "missingRequirements": [],
+    "additionalChanges": []
+  },{{/jira}}
+  "recommendation": "APPROVE"
+}
+
+${PR_SECTION}`,
+  summary: `Provide a brief summary of this PR's changes in 2-3 sentences. Respond with JSON: { "summary": "..." }\n\n${PR_SECTION}`,
+  guide: `Create a review guide for this PR with key areas to focus on. Respond with JSON: { "guide": "..." }\n\n${PR_SECTION}`,
+  title: `Suggest a better PR title following conventional commits format. Respond with JSON: { "title": "..." }\n\n${PR_SECTION}`,
+  'business-logic': `You are an expert at validating code changes against business requirements.
+
+## Jira Ticket: {{jira.key}}
+**Summary:** {{jira.summary}}
+**Type:** {{jira.type}}
+**Priority:** {{jira.priority}}
+
+### Requirements
+{{jira.description}}
+{{#jira.acceptanceCriteria}}
+### Acceptance Criteria
+{{jira.acceptanceCriteria}}
+{{/jira.acceptanceCriteria}}{{#jira.attachments}}
+### Visual Requirements
+{{jira.attachments}} image attachment(s) present - UI mockups or screenshots may define visual requirements.
+{{/jira.attachments}}
+## Pull Request #{{pr.number}}: {{pr.title}}
+**Changes:** {{pr.additions}} additions, {{pr.deletions}} deletions across {{pr.changedFiles}} files
+
+### PR Description
+{{pr.description}}
+
+### Code Changes
+{{diff}}
+
+## Your Task
+Analyze the code changes and validate them against the Jira ticket requirements. Provide:
+1. Extract all requirements from the Jira ticket (title, description, acceptance criteria)
+2. Map each requirement to code changes that implement it
+3. Identify any requirements that are NOT implemented in this PR
+4. Identify any requirements that are PARTIALLY implemented
+5. Note any code changes that go BEYOND the scope of the ticket
+
+Respond in this JSON format:
+{
+  "requirements": ["list of all requirements extracted from Jira"],
+  "implementedRequirements": ["requirements fully addressed by code"],
+  "missingRequirements": ["requirements NOT addressed"],
+  "partiallyImplemented": ["requirements partially addressed with explanation"],
+  "additionalChanges": ["changes not in requirements"],
+  "score": 85,
+  "summary": "Brief validation summary"
+}`,
+};
+
+const SECTION = /\{\{([#^])\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/;
+const VARIABLE = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function isSet(value: string | number | undefined): boolean {
+  return value !== undefined && value !== '' && value !== 0;
+}
+
+/** Render a template. Unknown variables render empty; `validateTemplate` reports them. */
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  let rendered = template;
+  for (let match = rendered.match(SECTION); match; match = rendered.match(SECTION)) {
+    const [whole, kind, name, content] = match;
+    const keep = isSet(variables[name]) === (kind === '#');
+    rendered = rendered.slice(0, match.index) + (keep ? renderTemplate(content, variables) : '') + rendered.slice(match.index + whole.length);
+  }
+  return rendered.replace(VARIABLE, (_, name: string) => String(variables[name] ?? ''));
+}
+
+/** Problems that would make a template render wrongly: unknown variables and unclosed sections. */
+export function validateTemplate(template: string): string[] {
+  const known = new Set(PROMPT_VARIABLES.map(v => v.name));
+  const problems: string[] = [];
+
+  const open: string[] = [];
+  for (const [, kind, name] of template.matchAll(/\{\{\s*([#^/]?)\s*([\w.]+)\s*\}\}/g)) {
+    if (!known.has(name)) problems.push(`Unknown variable {{${name}}}`);
+    if (kind === '#' || kind === '^') {
+      open.push(name);
+    } else if (kind === '/' && open.pop() !== name) {
+      problems.push(`{{/${name}}} closes a section that isn't open`);
+    }
+  }
+  problems.push(...open.map(name => `Section {{#${name}}} is never closed`));
+  if (/\{\{(?![#^/]?\s*[\w.]+\s*\}\})/.test(template)) problems.push('Unclosed {{');
+  return [...new Set(problems)];
+}
+
+/** Short stable hash of a template body, recorded with each review run. */
+export function templateHash(template: string): string {
+  let hash = 5381;
+  for (let i = 0; i < template.length; i++) {
+    hash = ((hash << 5) + hash + template.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/** The variables for a prompt about `files` of `pr`. */
+export function promptVariables(
+  pr: PullRequest,
+  files: PRFile[],
+  jiraTicket?: JiraTicket | null,
+  context?: ReviewContext | null,
+  rules?: ReviewRule[] | null
+): PromptVariables {
+  const diff = files.filter(f => f.patch).map(formatFileDiff).join('\n\n');
+  return {
+    'pr.number': pr.number,
+    'pr.title': pr.title,
+    'pr.author': pr.author,
+    'pr.head': pr.head.ref,
+    'pr.base': pr.base.ref,
+    'pr.description': pr.body || 'No description provided',
+    'pr.additions': pr.additions,
+    'pr.deletions': pr.deletions,
+    'pr.changedFiles': pr.changedFiles,
+    diff: diff || 'No code diff available',
+    jira: jiraTicket?.key,
+    'jira.key': jiraTicket?.key,
+    'jira.summary': jiraTicket?.summary,
+    'jira.type': jiraTicket?.type,
+    'jira.priority': jiraTicket?.priority,
+    'jira.status': jiraTicket?.status,
+    'jira.description': jiraTicket && (jiraTicket.description || 'No description provided'),
+    'jira.acceptanceCriteria': jiraTicket?.acceptanceCriteria,
+    'jira.attachments': jiraTicket?.attachments.length,
+    rules: rules?.length ? formatReviewRules(rules) : undefined,
+    context: context ? formatReviewContext(context) : undefined,
+  };
+}
+
+/**
+ * The template body for each kind: the repository's latest version, else the workspace default's
+ * latest version. An empty latest version hands over to the next level.
+ */
+export function resolvePromptTemplates(versions: PromptTemplateVersion[], repository?: { owner: string; repo: string } | null): PromptTemplates {
+  const templates: PromptTemplates = {};
+  for (const kind of Object.keys(PROMPT_TEMPLATE_KINDS) as PromptTemplateKind[]) {
+    const scopes = [repository && latestVersion(versions, kind, repository), latestVersion(versions, kind, null)];
+    const body = scopes.find(version => version?.body.trim())?.body;
+    if (body) templates[kind] = body;
+  }
+  return templates;
+}
+
+/** The newest version of `kind` for a repository, or for the workspace default with `null`. */
+export function latestVersion(versions: PromptTemplateVersion[], kind: PromptTemplateKind, repository: { owner: string; repo: string } | null): PromptTemplateVersion | undefined {
+  return versions
+    .filter(v => v.kind === kind && v.owner === (repository?.owner ?? '') && v.repo === (repository?.repo ?? ''))
+    .reduce<PromptTemplateVersion | undefined>((latest, v) => !latest || v.version > latest.version ? v : latest, undefined);
+}
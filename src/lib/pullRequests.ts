@@ -0,0 +1,291 @@
+// Pull request loading: one GraphQL query per page (stats, review decision, checks, linked issues),
+// with the REST pulls endpoint as fallback for hosts whose GraphQL schema lacks these fields.
+import { GitHubConfig, PRFilters, PullRequest } from '../types/codeReview.ts';
+import { githubGraphQL, githubRequest, githubRequestPage } from './githubApi.ts';
+import { repositoryKey } from './workspace.ts';
+
+export interface GitHubUser {
+  login: string;
+  avatar_url?: string;
+  type?: 'User' | 'Bot' | 'Organization';
+}
+
+export interface GitHubPullRequestPayload {
+  id: number;
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'open' | 'closed';
+  draft?: boolean;
+  merged_at?: string | null;
+  user: GitHubUser;
+  created_at: string;
+  updated_at: string;
+  head: { ref: string; sha: string; repo?: { full_name: string } | null };
+  base: { ref: string };
+  additions?: number;
+  deletions?: number;
+  changed_files?: number;
+  labels?: { name: string }[];
+}
+
+export interface PullRequestPage {
+  pullRequests: PullRequest[];
+  /**
+   * Cursor for the next page, or null when there are no more PRs:
+   * a GraphQL end cursor, or the REST `Link` header URL after a fallback.
+   */
+  next: string | null;
+}
+
+export const PR_PAGE_SIZE = 50;
+
+export function mapPullRequest(pr: GitHubPullRequestPayload): PullRequest {
+  return {
+    id: pr.id,
+    number: pr.number,
+    title: pr.title,
+    body: pr.body,
+    state: pr.merged_at ? 'merged' : pr.state,
+    isDraft: pr.draft ?? false,
+    author: pr.user.login,
+    authorAvatar: pr.user.avatar_url || '',
+    createdAt: pr.created_at,
+    updatedAt: pr.updated_at,
+    head: {
+      ref: pr.head.ref,
+      sha: pr.head.sha,
+      repository: pr.head.repo?.full_name ?? null,
+    },
+    base: {
+      ref: pr.base.ref,
+    },
+    additions: pr.additions || 0,
+    deletions: pr.deletions || 0,
+    changedFiles: pr.changed_files || 0,
+    labels: pr.labels?.map(l => l.name) || [],
+    reviewState: 'pending',
+  };
+}
+
+/** Pulls endpoint for the filters; state and base branch are filtered by GitHub itself. */
+export function pullRequestsEndpoint(config: GitHubConfig, filters: PRFilters): string {
+  const params = new URLSearchParams({
+    state: filters.state === 'merged' ? 'closed' : filters.state,
+    sort: 'updated',
+    direction: 'desc',
+    per_page: String(PR_PAGE_SIZE),
+  });
+  if (filters.base) params.set('base', filters.base);
+  return `/repos/${config.owner}/${config.repo}/pulls?${params}`;
+}
+
+/** Filters the pulls endpoint can't apply: author, label and merged-vs-closed. */
+export function matchesPRFilters(pr: PullRequest, filters: PRFilters): boolean {
+  if (filters.state === 'merged' && pr.state !== 'merged') return false;
+  if (filters.state === 'closed' && pr.state !== 'closed') return false;
+  if (filters.author && pr.author.toLowerCase() !== filters.author.toLowerCase()) return false;
+  if (filters.label && !pr.labels.some(l => l.toLowerCase() === filters.label!.toLowerCase())) return false;
+  return true;
+}
+
+/**
+ * Fetch one page of pull requests through the REST pulls endpoint.
+ * The list endpoint doesn't include line counts, so additions/deletions/changedFiles are 0
+ * until the PR is loaded individually.
+ */
+export async function fetchPullRequestPageRest(
+  config: GitHubConfig,
+  filters: PRFilters,
+  cursor: string | null = null,
+  fetchImpl: typeof fetch = fetch
+): Promise<PullRequestPage> {
+  const page = await githubRequestPage<GitHubPullRequestPayload>(config, cursor || pullRequestsEndpoint(config, filters), fetchImpl);
+  return {
+    pullRequests: page.data.map(pr => ({ ...mapPullRequest(pr), repository: repositoryKey(config) })).filter(pr => matchesPRFilters(pr, filters)),
+    next: page.next,
+  };
+}
+
+const PULL_REQUEST_FIELDS = `
+  fragment PullRequestFields on PullRequest {
+    databaseId
+    number
+    title
+    body
+    state
+    isDraft
+    createdAt
+    updatedAt
+    author { login avatarUrl }
+    headRefName
+    headRefOid
+    headRepository { nameWithOwner }
+    baseRefName
+    additions
+    deletions
+    changedFiles
+    labels(first: 20) { nodes { name } }
+    reviewDecision
+    mergeable
+    commits(last: 1) { nodes { commit { statusCheckRollup { state } } } }
+    closingIssuesReferences(first: 10) { nodes { number title url } }
+  }`;
+
+const PULL_REQUESTS_QUERY = `
+  query($owner: String!, $repo: String!, $first: Int!, $after: String, $states: [PullRequestState!], $base: String, $labels: [String!]) {
+    repository(owner: $owner, name: $repo) {
+      pullRequests(first: $first, after: $after, states: $states, baseRefName: $base, labels: $labels, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ...PullRequestFields }
+      }
+    }
+  }
+  ${PULL_REQUEST_FIELDS}`;
+
+const PULL_REQUEST_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) { ...PullRequestFields }
+    }
+  }
+  ${PULL_REQUEST_FIELDS}`;
+
+export interface GraphQLPullRequest {
+  databaseId: number;
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  isDraft: boolean;
+  createdAt: string;
+  updatedAt: string;
+  author: { login: string; avatarUrl: string } | null;
+  headRefName: string;
+  headRefOid: string;
+  headRepository: { nameWithOwner: string } | null;
+  baseRefName: string;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  labels: { nodes: { name: string }[] } | null;
+  reviewDecision: PullRequest['reviewDecision'];
+  mergeable: NonNullable<PullRequest['mergeable']>;
+  commits: { nodes: { commit: { statusCheckRollup: { state: NonNullable<PullRequest['checksState']> } | null } }[] };
+  closingIssuesReferences: { nodes: { number: number; title: string; url: string }[] } | null;
+}
+
+export function mapGraphQLPullRequest(pr: GraphQLPullRequest): PullRequest {
+  return {
+    id: pr.databaseId,
+    number: pr.number,
+    title: pr.title,
+    body: pr.body || null,
+    state: pr.state === 'MERGED' ? 'merged' : pr.state === 'CLOSED' ? 'closed' : 'open',
+    isDraft: pr.isDraft,
+    // Deleted accounts come back as a null author
+    author: pr.author?.login || 'ghost',
+    authorAvatar: pr.author?.avatarUrl || '',
+    createdAt: pr.createdAt,
+    updatedAt: pr.updatedAt,
+    head: {
+      ref: pr.headRefName,
+      sha: pr.headRefOid,
+      repository: pr.headRepository?.nameWithOwner ?? null,
+    },
+    base: {
+      ref: pr.baseRefName,
+    },
+    additions: pr.additions,
+    deletions: pr.deletions,
+    changedFiles: pr.changedFiles,
+    labels: pr.labels?.nodes.map(l => l.name) || [],
+    reviewState: 'pending',
+    reviewDecision: pr.reviewDecision,
+    mergeable: pr.mergeable,
+    checksState: pr.commits.nodes[0]?.commit.statusCheckRollup?.state ?? null,
+    linkedIssues: pr.closingIssuesReferences?.nodes || [],
+  };
+}
+
+const GRAPHQL_STATES: Record<PRFilters['state'], string[] | null> = {
+  open: ['OPEN'],
+  closed: ['CLOSED'],
+  merged: ['MERGED'],
+  all: null,
+};
+
+/** Fetch one page of pull requests, with stats, through a single GraphQL query. */
+export async function fetchPullRequestPageGraphQL(
+  config: GitHubConfig,
+  filters: PRFilters,
+  cursor: string | null = null,
+  fetchImpl: typeof fetch = fetch
+): Promise<PullRequestPage> {
+  const data = await githubGraphQL<{
+    repository: { pullRequests: { pageInfo: { hasNextPage: boolean; endCursor: string | null }; nodes: GraphQLPullRequest[] } };
+  }>(config, PULL_REQUESTS_QUERY, {
+    owner: config.owner,
+    repo: config.repo,
+    first: PR_PAGE_SIZE,
+    after: cursor,
+    states: GRAPHQL_STATES[filters.state],
+    base: filters.base || null,
+    labels: filters.label ? [filters.label] : null,
+  }, fetchImpl);
+
+  const { pageInfo, nodes } = data.repository.pullRequests;
+  return {
+    pullRequests: nodes.map(pr => ({ ...mapGraphQLPullRequest(pr), repository: repositoryKey(config) })).filter(pr => matchesPRFilters(pr, filters)),
+    next: pageInfo.hasNextPage ? pageInfo.endCursor : null,
+  };
+}
+
+function isRestCursor(cursor: string | null): boolean {
+  return !!cursor && cursor.startsWith('https://');
+}
+
+/**
+ * Fetch one page of pull requests. Pass the previous page's `next` as `cursor` to continue.
+ * Uses GraphQL and falls back to REST when the query fails, e.g. on GitHub Enterprise versions
+ * without `closingIssuesReferences` or `statusCheckRollup`; later pages stay on the API that
+ * served the first one.
+ */
+export async function fetchPullRequestPage(
+  config: GitHubConfig,
+  filters: PRFilters,
+  cursor: string | null = null,
+  fetchImpl: typeof fetch = fetch
+): Promise<PullRequestPage> {
+  if (isRestCursor(cursor)) {
+    return fetchPullRequestPageRest(config, filters, cursor, fetchImpl);
+  }
+
+  try {
+    return await fetchPullRequestPageGraphQL(config, filters, cursor, fetchImpl);
+  } catch (error) {
+    if (cursor) throw error;
+    console.warn('GraphQL pull request query failed, falling back to REST', error);
+    return fetchPullRequestPageRest(config, filters, null, fetchImpl);
+  }
+}
+
+/** Fetch a single pull request with stats; GraphQL first, REST as fallback. */
+export async function fetchPullRequestDetails(
+  config: GitHubConfig,
+  prNumber: number,
+  fetchImpl: typeof fetch = fetch
+): Promise<PullRequest> {
+  try {
+    const data = await githubGraphQL<{ repository: { pullRequest: GraphQLPullRequest } }>(config, PULL_REQUEST_QUERY, {
+      owner: config.owner,
+      repo: config.repo,
+      number: prNumber,
+    }, fetchImpl);
+    return { ...mapGraphQLPullRequest(data.repository.pullRequest), repository: repositoryKey(config) };
+  } catch (error) {
+    console.warn('GraphQL pull request query failed, falling back to REST', error);
+    const pr = await githubRequest<GitHubPullRequestPayload>(config, `/repos/${config.owner}/${config.repo}/pulls/${prNumber}`, fetchImpl);
+    return { ...mapPullRequest(pr), repository: repositoryKey(config) };
+  }
+}
@@ -0,0 +1,197 @@
+// Parser and dispatcher for "@ai <command>" comments on pull requests.
+// Framework-free like reviewPipeline so the review worker edge function can run it.
+import { AICodeSuggestion, AIReviewResult, PullRequest, ReviewCommand } from '../types/codeReview.ts';
+import type { ReviewPipelineResult } from './reviewPipeline.ts';
+
+type CommandType = ReviewCommand['type'];
+
+const COMMAND_TYPES: CommandType[] = ['review', 'summary', 'guide', 'title', 'dismiss', 'resolve', 'issue'];
+
+// Commands that act on a single suggestion from the last review
+const TARGETED_COMMANDS: CommandType[] = ['dismiss', 'resolve', 'issue'];
+
+const MENTION_PATTERN = /(?:^|\s)@ai\s+([a-z]+)(?:[ \t]+#?([\w-]+))?([^\n]*)/i;
+
+export const COMMAND_HELP = `Available commands:
+- \`@ai review\` — run a full review (collaborators may trigger auto-merge)
+- \`@ai summary\` — summarize the changes
+- \`@ai guide\` — review guide with areas to focus on
+- \`@ai title\` — suggest a conventional-commit PR title
+- \`@ai dismiss <id>\` — dismiss a suggestion (collaborators only)
+- \`@ai resolve <id>\` — mark a suggestion as resolved
+- \`@ai issue <id>\` — open a GitHub issue for a suggestion`;
+
+export type CommandParseResult =
+  | { ok: true; command: ReviewCommand }
+  | { ok: false; error: string };
+
+/**
+ * Find the first "@ai <command>" mention in a comment body.
+ * Returns null when the comment doesn't address the bot at all.
+ */
+export function parseReviewCommand(body: string, prNumber: number): CommandParseResult | null {
+  // Quoted lines are usually replies quoting an earlier command
+  const text = body.split('\n').filter(line => !line.trimStart().startsWith('>')).join('\n');
+  const match = text.match(MENTION_PATTERN);
+  if (!match) {
+    return /(?:^|\s)@ai\b/i.test(text) ? { ok: false, error: 'No command given.' } : null;
+  }
+
+  const type = match[1].toLowerCase() as CommandType;
+  if (!COMMAND_TYPES.includes(type)) {
+    return { ok: false, error: `Unknown command \`${match[1]}\`.` };
+  }
+
+  const command: ReviewCommand = { type, prNumber };
+  if (TARGETED_COMMANDS.includes(type)) {
+    if (!match[2]) return { ok: false, error: `\`@ai ${type}\` needs a suggestion id, e.g. \`@ai ${type} 3\`.` };
+    command.targetId = match[2];
+    const rest = match[3].trim();
+    if (rest) command.context = rest;
+  } else {
+    const rest = `${match[2] ?? ''}${match[3]}`.trim();
+    if (rest) command.context = rest;
+  }
+  return { ok: true, command };
+}
+
+/** Suggestions of the latest review of a PR, addressed by their id or their fingerprint. */
+export interface SuggestionStore {
+  get: (prNumber: number, id: string) => Promise<AICodeSuggestion | null>;
+  setStatus: (prNumber: number, id: string, status: AICodeSuggestion['status']) => Promise<void>;
+}
+
+export interface ReviewCommandDeps {
+  fetchPullRequest: (prNumber: number) => Promise<PullRequest>;
+  /** Collaborators with write access may merge and dismiss. */
+  hasWriteAccess: (login: string) => Promise<boolean>;
+  /** Reply in the thread the command was posted in. */
+  reply: (body: string) => Promise<void>;
+  runReview: (pr: PullRequest, command: ReviewCommand, options: { allowAutoMerge: boolean }) => Promise<ReviewPipelineResult>;
+  generate: (pr: PullRequest, command: ReviewCommand) => Promise<AIReviewResult>;
+  createIssue: (title: string, body: string) => Promise<{ number: number; html_url: string }>;
+  suggestions: SuggestionStore;
+}
+
+export interface CommandOutcome {
+  status: 'completed' | 'denied' | 'failed';
+  reply: string;
+}
+
+/**
+ * Execute a command posted by `author` and reply in-thread.
+ * Errors are turned into a reply and a failed outcome rather than thrown.
+ */
+export async function dispatchReviewCommand(
+  command: ReviewCommand,
+  author: string,
+  deps: ReviewCommandDeps
+): Promise<CommandOutcome> {
+  let outcome: CommandOutcome;
+  try {
+    outcome = await executeCommand(command, author, deps);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    outcome = { status: 'failed', reply: `❌ \`@ai ${command.type}\` failed: ${message}` };
+  }
+
+  await deps.reply(outcome.reply);
+  return outcome;
+}
+
+/** Reply to a comment that mentioned the bot without a valid command. */
+export async function replyWithHelp(error: string, deps: Pick<ReviewCommandDeps, 'reply'>): Promise<CommandOutcome> {
+  const outcome: CommandOutcome = { status: 'failed', reply: `${error}\n\n${COMMAND_HELP}` };
+  await deps.reply(outcome.reply);
+  return outcome;
+}
+
+async function executeCommand(command: ReviewCommand, author: string, deps: ReviewCommandDeps): Promise<CommandOutcome> {
+  const { prNumber } = command;
+
+  switch (command.type) {
+    case 'review': {
+      const pr = await deps.fetchPullRequest(prNumber);
+      const allowAutoMerge = await deps.hasWriteAccess(author);
+      const result = await deps.runReview(pr, command, { allowAutoMerge });
+      return { status: result.status, reply: formatReviewReply(result, allowAutoMerge) };
+    }
+
+    case 'summary':
+    case 'guide':
+    case 'title': {
+      const pr = await deps.fetchPullRequest(prNumber);
+      const review = await deps.generate(pr, command);
+      const text = command.type === 'title' ? review.title : command.type === 'guide' ? review.guide : review.summary;
+      if (!text) throw new Error(`the model did not return a ${command.type}`);
+      return { status: 'completed', reply: command.type === 'title' ? `Suggested title: **${text}**` : text };
+    }
+
+    case 'dismiss': {
+      if (!(await deps.hasWriteAccess(author))) return denied(author, 'dismiss suggestions');
+      const suggestion = await requireSuggestion(command, deps);
+      await deps.suggestions.setStatus(prNumber, suggestion.id, 'rejected');
+      return { status: 'completed', reply: `Dismissed suggestion #${suggestion.id}: ${suggestion.message}` };
+    }
+
+    case 'resolve': {
+      if (!(await deps.hasWriteAccess(author))) return denied(author, 'resolve suggestions');
+      const suggestion = await requireSuggestion(command, deps);
+      await deps.suggestions.setStatus(prNumber, suggestion.id, 'accepted');
+      return { status: 'completed', reply: `Marked suggestion #${suggestion.id} as resolved.` };
+    }
+
+    case 'issue': {
+      if (!(await deps.hasWriteAccess(author))) return denied(author, 'open issues from suggestions');
+      const suggestion = await requireSuggestion(command, deps);
+      const issue = await deps.createIssue(
+        `[AI Review] ${suggestion.message}`.slice(0, 250),
+        formatSuggestionIssue(suggestion, prNumber, author)
+      );
+      return { status: 'completed', reply: `Opened #${issue.number} for suggestion #${suggestion.id}: ${issue.html_url}` };
+    }
+  }
+}
+
+function denied(author: string, action: string): CommandOutcome {
+  return { status: 'denied', reply: `@${author} only repository collaborators with write access can ${action}.` };
+}
+
+async function requireSuggestion(command: ReviewCommand, deps: ReviewCommandDeps): Promise<AICodeSuggestion> {
+  const suggestion = await deps.suggestions.get(command.prNumber, command.targetId ?? '');
+  if (!suggestion) {
+    throw new Error(`suggestion #${command.targetId} was not found in the latest review`);
+  }
+  return suggestion;
+}
+
+function formatReviewReply(result: ReviewPipelineResult, allowAutoMerge: boolean): string {
+  if (!result.review) {
+    const reason = result.errors.map(e => `${e.stage}: ${e.message}`).join('; ');
+    return `❌ Review failed${reason ? ` — ${reason}` : ''}`;
+  }
+
+  const lines = [`Review complete — overall score **${result.review.overallScore}/100** with ${result.review.suggestions.length} suggestion(s).`];
+  if (result.autoMerge?.merged) {
+    lines.push('Auto-merge thresholds were met and the PR has been merged.');
+  } else if (result.autoMerge?.willMerge && !allowAutoMerge) {
+    lines.push('Auto-merge thresholds were met, but only collaborators can trigger a merge.');
+  } else if (result.commentPosted) {
+    lines.push('See the review comment above for details.');
+  }
+  for (const error of result.errors) {
+    lines.push(`⚠️ ${error.stage}: ${error.message}`);
+  }
+  return lines.join('\n');
+}
+
+function formatSuggestionIssue(suggestion: AICodeSuggestion, prNumber: number, author: string): string {
+  return `Raised from the AI review of #${prNumber} by @${author}.
+
+**Severity:** ${suggestion.severity} | **Type:** ${suggestion.type}
+**File:** \`${suggestion.file}\`${suggestion.line ? ` (line ${suggestion.line})` : ''}
+
+${suggestion.message}
+
+**Suggestion:** ${suggestion.suggestion}`;
+}
@@ -0,0 +1,328 @@
+// Context for full reviews beyond the diff: the head version of the changed files, the imported
+// code their changed lines use and, at the repository depth, the code calling their exports.
+import { ContextDepth, GitHubConfig, PRFile, PullRequest } from '../types/codeReview.ts';
+import { estimateTokens } from './diffChunking.ts';
+import { fetchFileContent, githubRequest } from './githubApi.ts';
+
+/** Reads repository files for the context builder. */
+export interface RepositoryReader {
+  /** File content at `ref`, or null when it can't be read. */
+  readFile(path: string, ref: string): Promise<string | null>;
+  /** Paths of files mentioning `symbol`; only used at the repository depth. */
+  searchCode?(symbol: string): Promise<string[]>;
+}
+
+export type ContextReason = 'changed-file' | 'import' | 'caller';
+
+export interface ContextSnippet {
+  path: string;
+  reason: ContextReason;
+  /** For callers, the changed export they use. */
+  symbol?: string;
+  /** Numbered lines: the whole file, or windows of it separated by `...`. */
+  content: string;
+}
+
+export interface ReviewContext {
+  snippets: ContextSnippet[];
+  /** Files that were relevant but didn't fit the budget. */
+  omitted: string[];
+}
+
+export const CONTEXT_DEPTHS: Record<ContextDepth, { label: string; description: string }> = {
+  diff: { label: 'Diff only', description: 'Only the changed hunks' },
+  files: { label: 'Changed files', description: 'The full head version of each changed file' },
+  imports: { label: 'Files and imports', description: 'Also the imported code the changed lines use' },
+  repository: { label: 'Repository', description: 'Also the callers of changed exports, found with GitHub code search' },
+};
+
+const DEPTH_ORDER: ContextDepth[] = ['diff', 'files', 'imports', 'repository'];
+
+// Share of the budget the changed files may take when imports and callers are wanted too
+const CHANGED_FILES_SHARE = 0.6;
+
+// Imported modules up to this size are included whole; larger ones only with the definitions used
+const SMALL_MODULE_TOKENS = 1500;
+
+// Lines kept around each hunk and call site when the whole file doesn't fit
+const HUNK_WINDOW_LINES = 20;
+const CALLER_WINDOW_LINES = 5;
+const MAX_DEFINITION_LINES = 60;
+
+// Code search allows 10 requests a minute, so only the first few changed exports are looked up
+const MAX_SEARCHED_SYMBOLS = 5;
+const MAX_CALLERS_PER_SYMBOL = 3;
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '/index.ts', '/index.tsx', '/index.js'];
+
+const DECLARATION_PREFIX = String.raw`^\s*(?:(?:export|default|declare|abstract|async|public|protected|private|static|final|sealed)\s+)*`;
+const DECLARATION_KEYWORDS = String.raw`(?:function\*?|class|interface|type|enum|record|const|let|var)`;
+const EXPORTED_DECLARATION = new RegExp(String.raw`^\s*export\s+(?:(?:default|declare|abstract|async)\s+)*${DECLARATION_KEYWORDS}\s+([A-Za-z_$][\w$]*)`);
+const JAVA_PUBLIC_DECLARATION = /^\s*public\s+(?:(?:static|final|abstract|synchronized|sealed)\s+)*(?:(?:class|interface|enum|record)\s+(\w+)|[\w<>[\],.?]+\s+(\w+)\s*\()/;
+
+/** Whether `depth` includes everything `level` does. */
+export function includesDepth(depth: ContextDepth | undefined, level: ContextDepth): boolean {
+  return DEPTH_ORDER.indexOf(depth ?? 'diff') >= DEPTH_ORDER.indexOf(level);
+}
+
+/**
+ * Reads through the GitHub API. Reads are cached, so the models of a consensus review and the
+ * batches of a large PR share them. Code search only covers the default branch.
+ */
+export function githubRepositoryReader(config: GitHubConfig, fetchImpl: typeof fetch = fetch): RepositoryReader {
+  const files = new Map<string, Promise<string | null>>();
+  const searches = new Map<string, Promise<string[]>>();
+  return {
+    readFile(path, ref) {
+      const key = `${ref}:${path}`;
+      if (!files.has(key)) {
+        files.set(key, fetchFileContent(config, path, ref, fetchImpl).then(file => file.content, () => null));
+      }
+      return files.get(key)!;
+    },
+    searchCode(symbol) {
+      if (!searches.has(symbol)) {
+        const query = encodeURIComponent(`${symbol} repo:${config.owner}/${config.repo}`);
+        searches.set(symbol, githubRequest<{ items: { path: string }[] }>(config, `/search/code?q=${query}&per_page=10`, fetchImpl)
+          .then(result => result.items.map(item => item.path), () => []));
+      }
+      return searches.get(symbol)!;
+    },
+  };
+}
+
+/**
+ * Collect the context `depth` asks for, within `budgetTokens`. The changed files come first, then
+ * the imported definitions, then the callers; whatever doesn't fit is listed in `omitted`.
+ */
+export async function buildReviewContext(
+  pr: PullRequest,
+  files: PRFile[],
+  depth: ContextDepth,
+  reader: RepositoryReader,
+  budgetTokens: number
+): Promise<ReviewContext> {
+  const context: ReviewContext = { snippets: [], omitted: [] };
+  if (!includesDepth(depth, 'files')) return context;
+
+  let remaining = budgetTokens;
+  const included = new Set<string>();
+  const add = (snippet: ContextSnippet, limit = remaining): boolean => {
+    const tokens = estimateTokens(`${snippet.path}\n${snippet.content}`);
+    if (tokens > limit) return false;
+    context.snippets.push(snippet);
+    included.add(snippet.path);
+    remaining -= tokens;
+    return true;
+  };
+
+  const changed = files.filter(f => f.patch && f.status !== 'removed');
+  const contents = await Promise.all(changed.map(f => reader.readFile(f.filename, pr.head.sha)));
+  const heads = changed.map((file, i) => ({ file, content: contents[i] })).filter(h => h.content !== null);
+
+  // Each changed file gets a fair share, so one large file can't crowd out the others
+  let changedBudget = includesDepth(depth, 'imports') ? Math.floor(budgetTokens * CHANGED_FILES_SHARE) : budgetTokens;
+  heads.forEach(({ file, content }, i) => {
+    const share = Math.floor(changedBudget / (heads.length - i));
+    const lines = content.split('\n');
+    const before = remaining;
+    const fitted = add({ path: file.filename, reason: 'changed-file', content: numberLines(lines, 1, lines.length) }, share)
+      || add({ path: file.filename, reason: 'changed-file', content: lineWindows(lines, hunkRanges(file.patch!), HUNK_WINDOW_LINES) }, share);
+    if (!fitted) context.omitted.push(file.filename);
+    changedBudget -= before - remaining;
+  });
+
+  if (includesDepth(depth, 'imports')) {
+    const modules = new Map<string, { candidates: string[]; names: string[] }>();
+    for (const { file, content } of heads) {
+      const used = identifiers(changedLines(file.patch!, '+'));
+      for (const imported of parseImports(file.filename, content)) {
+        const names = imported.names.filter(name => used.has(name));
+        const key = imported.candidates[0];
+        if (names.length === 0 || files.some(f => imported.candidates.includes(f.filename))) continue;
+        const existing = modules.get(key);
+        modules.set(key, { candidates: imported.candidates, names: [...new Set([...(existing?.names ?? []), ...names])] });
+      }
+    }
+
+    const resolved = await Promise.all([...modules.values()].map(async module => {
+      for (const path of module.candidates) {
+        const content = await reader.readFile(path, pr.head.sha);
+        if (content !== null) return { path, content, names: module.names };
+      }
+      return null;
+    }));
+
+    // Modules whose names the changed lines use most come first
+    for (const module of resolved.filter(Boolean).sort((a, b) => b.names.length - a.names.length)) {
+      if (included.has(module.path)) continue;
+      const lines = module.content.split('\n');
+      const ranges = module.names.map(name => definitionRange(lines, name)).filter(Boolean);
+      const whole = estimateTokens(module.content) <= SMALL_MODULE_TOKENS || ranges.length === 0;
+      const fitted = whole
+        ? add({ path: module.path, reason: 'import', content: numberLines(lines, 1, lines.length) })
+        : add({ path: module.path, reason: 'import', content: lineWindows(lines, ranges, 0) });
+      if (!fitted) context.omitted.push(module.path);
+    }
+  }
+
+  if (includesDepth(depth, 'repository') && reader.searchCode) {
+    const exported = heads.flatMap(({ file }) => [...changedLines(file.patch!, '+'), ...changedLines(file.patch!, '-')])
+      .map(exportedName)
+      .filter(Boolean);
+    for (const symbol of [...new Set(exported)].slice(0, MAX_SEARCHED_SYMBOLS)) {
+      const paths = (await reader.searchCode(symbol))
+        .filter(path => !included.has(path) && !files.some(f => f.filename === path))
+        .slice(0, MAX_CALLERS_PER_SYMBOL);
+      const pattern = new RegExp(String.raw`\b${symbol.replace(/\$/g, '\\$')}\b`);
+      for (const path of paths) {
+        const content = await reader.readFile(path, pr.head.sha);
+        if (content === null) continue;
+        const lines = content.split('\n');
+        const uses = lines.flatMap((line, i) => pattern.test(line) ? [[i + 1, i + 1] as [number, number]] : []);
+        if (uses.length === 0) continue;
+        if (!add({ path, reason: 'caller', symbol, content: lineWindows(lines, uses, CALLER_WINDOW_LINES) })) {
+          context.omitted.push(path);
+        }
+      }
+    }
+  }
+
+  return context;
+}
+
+const REASON_LABELS: Record<ContextReason, string> = {
+  'changed-file': 'changed file, head version',
+  import: 'imported by a changed file',
+  caller: 'uses',
+};
+
+export function formatReviewContext(context: ReviewContext): string {
+  const sections = context.snippets.map(snippet => {
+    const reason = snippet.reason === 'caller' ? `${REASON_LABELS.caller} ${snippet.symbol}` : REASON_LABELS[snippet.reason];
+    return `#### ${snippet.path} (${reason})\n\`\`\`\n${snippet.content}\n\`\`\``;
+  });
+  if (context.omitted.length > 0) {
+    sections.push(`Left out to stay within the context budget: ${context.omitted.join(', ')}`);
+  }
+  return sections.join('\n\n');
+}
+
+/** Line ranges of the new file that each hunk of a patch covers. */
+export function hunkRanges(patch: string): [number, number][] {
+  return [...patch.matchAll(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/gm)].map(match => {
+    const start = Number(match[1]);
+    return [start, start + Math.max(Number(match[2] ?? 1), 1) - 1];
+  });
+}
+
+/**
+ * Modules a file imports, with candidate paths and the names it binds. Only relative, `@/` and
+ * Java imports resolve to repository files; packages are left out.
+ */
+export function parseImports(filename: string, content: string): { candidates: string[]; names: string[] }[] {
+  if (filename.endsWith('.java')) {
+    const root = javaSourceRoot(filename, content);
+    if (root === null) return [];
+    return [...content.matchAll(/^\s*import\s+(static\s+)?([\w.]+)\s*;/gm)].map(match => {
+      const parts = match[2].split('.');
+      // A static import names a member of the class before it
+      const classParts = match[1] ? parts.slice(0, -1) : parts;
+      return { candidates: [`${root}${classParts.join('/')}.java`], names: [parts[parts.length - 1]] };
+    });
+  }
+
+  const imports: { candidates: string[]; names: string[] }[] = [];
+  for (const match of content.matchAll(/^\s*(?:import|export)\s+(?:type\s+)?([\w$\s{},*]+?)\s+from\s+['"]([^'"]+)['"]/gm)) {
+    const base = resolveSpecifier(filename, match[2]);
+    if (!base) continue;
+    const candidates = /\.[cm]?[jt]sx?$/.test(base) ? [base] : SCRIPT_EXTENSIONS.map(ext => `${base}${ext}`);
+    imports.push({ candidates, names: boundNames(match[1]) });
+  }
+  return imports;
+}
+
+/** Names an import clause binds: `A, { b as c, type D }, * as e` binds A, c, D and e. */
+function boundNames(clause: string): string[] {
+  return clause.replace(/[{}]/g, ',').split(',')
+    .map(part => part.trim().replace(/^type\s+/, '').split(/\s+as\s+/).pop()!.trim())
+    .filter(name => /^[A-Za-z_$][\w$]*$/.test(name));
+}
+
+function resolveSpecifier(filename: string, specifier: string): string | null {
+  if (specifier.startsWith('@/')) return `src/${specifier.slice(2)}`;
+  if (!specifier.startsWith('.')) return null;
+
+  const parts = filename.split('/').slice(0, -1);
+  for (const segment of specifier.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+/** Directory the file's package path starts from, or null when the path doesn't match the package. */
+function javaSourceRoot(filename: string, content: string): string | null {
+  const pkg = content.match(/^\s*package\s+([\w.]+)\s*;/m)?.[1];
+  const dir = filename.slice(0, filename.lastIndexOf('/') + 1);
+  const pkgDir = pkg ? `${pkg.replace(/\./g, '/')}/` : '';
+  return dir.endsWith(pkgDir) ? dir.slice(0, dir.length - pkgDir.length) : null;
+}
+
+/** Lines added or removed by a patch, without the marker. GitHub patches have no file headers. */
+function changedLines(patch: string, marker: '+' | '-'): string[] {
+  return patch.split('\n').filter(line => line.startsWith(marker)).map(line => line.slice(1));
+}
+
+function identifiers(lines: string[]): Set<string> {
+  return new Set(lines.join('\n').match(/[A-Za-z_$][\w$]*/g) || []);
+}
+
+function exportedName(line: string): string | null {
+  const exported = line.match(EXPORTED_DECLARATION);
+  if (exported) return exported[1];
+  const java = line.match(JAVA_PUBLIC_DECLARATION);
+  return java ? java[1] ?? java[2] : null;
+}
+
+/** Lines of the declaration of `name`: up to its closing brace or semicolon, at most MAX_DEFINITION_LINES. */
+function definitionRange(lines: string[], name: string): [number, number] | null {
+  const declaration = new RegExp(String.raw`${DECLARATION_PREFIX}${DECLARATION_KEYWORDS}\s+${name.replace(/\$/g, '\\$')}\b`);
+  const start = lines.findIndex(line => declaration.test(line)) + 1;
+  if (start === 0) return null;
+
+  const last = Math.min(lines.length, start + MAX_DEFINITION_LINES - 1);
+  let depth = 0;
+  let opened = false;
+  for (let n = start; n <= last; n++) {
+    for (const char of lines[n - 1]) {
+      if (char === '{') {
+        depth++;
+        opened = true;
+      } else if (char === '}') {
+        depth--;
+      }
+    }
+    if (opened ? depth <= 0 : /;\s*$/.test(lines[n - 1])) return [start, n];
+  }
+  return [start, last];
+}
+
+/** Lines `from` to `to` (1-based, inclusive), each prefixed with its number. */
+function numberLines(lines: string[], from: number, to: number): string {
+  return lines.slice(from - 1, to).map((line, i) => `${from + i}: ${line}`).join('\n');
+}
+
+/** Numbered windows around `ranges`, widened by `padding` lines and merged where they meet. */
+function lineWindows(lines: string[], ranges: [number, number][], padding: number): string {
+  const merged: [number, number][] = [];
+  const widened = ranges
+    .map(([start, end]): [number, number] => [Math.max(1, start - padding), Math.min(lines.length, end + padding)])
+    .sort((a, b) => a[0] - b[0]);
+  for (const [start, end] of widened) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged.map(([start, end]) => numberLines(lines, start, end)).join('\n...\n');
+}
@@ -0,0 +1,556 @@
+// Review orchestration shared by the dashboard, edge functions and scripts.
+// Kept free of React, toasts and Supabase: every side effect goes through the adapters below,
+// and imports carry the .ts extension so Deno can load the module as-is.
+import {
+  AIConfig,
+  AIReviewResult,
+  BusinessLogicValidation,
+  ConsensusResult,
+  JiraTicket,
+  PRFile,
+  PullRequest,
+  ReviewCommand,
+  SonarQubeResults,
+} from '../types/codeReview.ts';
+import { AutoMergeConfig, decisionReason, shouldAutoMerge } from './autoMerge.ts';
+import type { InlineReviewResult } from './inlineReview.ts';
+import { applySavedStatuses, SuggestionStatusRecord } from './suggestions.ts';
+import { changedSince, LastReview, mergeIncrementalReview } from './incrementalReview.ts';
+import type { ReviewRunRecord } from './reviewRuns.ts';
+
+export interface GitHubAdapter {
+  fetchPRFiles: (prNumber: number) => Promise<PRFile[]>;
+  postReviewComment: (prNumber: number, body: string) => Promise<void>;
+  mergePR: (prNumber: number, commitTitle: string) => Promise<void>;
+  /** Posts suggestions as review comments on the diff; required for `commentMode: 'inline'`. */
+  postInlineReview?: (pr: PullRequest, review: AIReviewResult, files: PRFile[]) => Promise<InlineReviewResult>;
+  /**
+   * Files changed from `sha` to the PR head, or null when the head doesn't build on it;
+   * required for incremental re-reviews.
+   */
+  fetchChangedFilesSince?: (pr: PullRequest, sha: string) => Promise<PRFile[] | null>;
+}
+
+export interface AIAdapter {
+  generateReview: (pr: PullRequest, files: PRFile[], command: ReviewCommand, jiraTicket: JiraTicket | null) => Promise<AIReviewResult>;
+  validateBusinessLogic: (pr: PullRequest, files: PRFile[], jiraTicket: JiraTicket) => Promise<BusinessLogicValidation>;
+}
+
+export interface SonarAdapter {
+  /** Results for the PR head, or null when no analysis is available yet. */
+  fetchResults: (pr: PullRequest) => Promise<SonarQubeResults | null>;
+}
+
+export interface JiraAdapter {
+  extractTicketId: (text: string) => string | null;
+  fetchTicket: (ticketId: string) => Promise<JiraTicket | null>;
+}
+
+export interface SuggestionStatusAdapter {
+  /** Decisions already made on suggestions for the PR head. */
+  list: (pr: PullRequest) => Promise<SuggestionStatusRecord[]>;
+}
+
+export interface LastReviewAdapter {
+  /** The latest full review of the PR, from its review history. */
+  get: (pr: PullRequest) => Promise<LastReview | null>;
+}
+
+export interface ReviewRunAdapter {
+  save: (pr: PullRequest, run: ReviewRunRecord) => Promise<unknown>;
+}
+
+export interface AutoMergeHistoryAdapter {
+  save: (prNumber: number, entry: AutoMergeHistoryRecord) => Promise<unknown>;
+}
+
+export interface AutoMergeHistoryRecord {
+  timestamp: string;
+  aiScore: number;
+  sonarIssues: number;
+  mode: AutoMergeConfig['mode'];
+  aiThreshold: number;
+  sonarThreshold: number;
+  decision: 'will_merge' | 'will_not_merge' | 'disabled' | 'merged' | 'merge_failed';
+  details?: string;
+}
+
+export interface ReviewPipelineAdapters {
+  github: GitHubAdapter;
+  ai: AIAdapter;
+  sonar?: SonarAdapter;
+  jira?: JiraAdapter;
+  history?: AutoMergeHistoryAdapter;
+  suggestions?: SuggestionStatusAdapter;
+  lastReview?: LastReviewAdapter;
+  runs?: ReviewRunAdapter;
+}
+
+export type PipelineStage = 'files' | 'sonar' | 'jira' | 'review' | 'business-logic' | 'auto-merge' | 'comment';
+
+export type PipelineStageStatus = 'started' | 'completed' | 'skipped' | 'failed';
+
+export interface PipelineProgressEvent {
+  stage: PipelineStage;
+  status: PipelineStageStatus;
+  message: string;
+  /** Overall completion, 0-100. */
+  progress: number;
+}
+
+export interface PipelineError {
+  stage: PipelineStage;
+  message: string;
+}
+
+export interface AutoMergeOutcome {
+  enabled: boolean;
+  willMerge: boolean;
+  /** null when no merge was attempted. */
+  merged: boolean | null;
+  reason: string;
+}
+
+export interface ReviewPipelineOptions {
+  aiConfig: AIConfig;
+  command?: ReviewCommand;
+  /** Ticket already resolved by the caller; when omitted it is detected through the Jira adapter. */
+  jiraTicket?: JiraTicket | null;
+  /** Post the review as a PR comment when not merging. Defaults to aiConfig.postToGitHub. */
+  postComment?: boolean;
+  /** Set to false when the run was requested by someone who may not merge; thresholds are still evaluated. */
+  allowAutoMerge?: boolean;
+  /** Review the whole PR even when it was reviewed before. */
+  fullReview?: boolean;
+  onProgress?: (event: PipelineProgressEvent) => void;
+}
+
+export interface ReviewPipelineResult {
+  status: 'completed' | 'failed';
+  files: PRFile[];
+  sonarResults: SonarQubeResults | null;
+  jiraTicket: JiraTicket | null;
+  review: AIReviewResult | null;
+  businessLogicValidation: BusinessLogicValidation | null;
+  junitScore: number | null;
+  autoMerge: AutoMergeOutcome | null;
+  commentPosted: boolean;
+  errors: PipelineError[];
+}
+
+const STAGE_ORDER: PipelineStage[] = ['files', 'sonar', 'jira', 'review', 'business-logic', 'auto-merge', 'comment'];
+
+// Java test locations used by the JUnit heuristic
+const JUNIT_TEST_PATTERNS = ['/src/test/java/', '/test/java/', '/src/main/java/'];
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Run a full review of a PR: files, Sonar, Jira, AI review, business logic validation,
+ * auto-merge decision and the review comment.
+ * Stage failures are collected in `errors`; only failing to load files or the AI review stops the run.
+ */
+export async function runReviewPipeline(
+  pr: PullRequest,
+  options: ReviewPipelineOptions,
+  adapters: ReviewPipelineAdapters
+): Promise<ReviewPipelineResult> {
+  const { aiConfig, onProgress } = options;
+  const command = options.command ?? { type: 'review', prNumber: pr.number };
+
+  const result: ReviewPipelineResult = {
+    status: 'completed',
+    files: [],
+    sonarResults: null,
+    jiraTicket: options.jiraTicket ?? null,
+    review: null,
+    businessLogicValidation: null,
+    junitScore: null,
+    autoMerge: null,
+    commentPosted: false,
+    errors: [],
+  };
+
+  const report = (stage: PipelineStage, status: PipelineStageStatus, message: string) => {
+    const done = STAGE_ORDER.indexOf(stage) + (status === 'started' ? 0 : 1);
+    onProgress?.({ stage, status, message, progress: Math.round((done / STAGE_ORDER.length) * 100) });
+  };
+
+  const fail = (stage: PipelineStage, error: unknown) => {
+    const message = errorMessage(error);
+    result.errors.push({ stage, message });
+    report(stage, 'failed', message);
+  };
+
+  // Files
+  report('files', 'started', `Fetching changed files for PR #${pr.number}`);
+  try {
+    result.files = await adapters.github.fetchPRFiles(pr.number);
+    report('files', 'completed', `Fetched ${result.files.length} changed files`);
+  } catch (error) {
+    fail('files', error);
+    return { ...result, status: 'failed' };
+  }
+
+  // Sonar
+  if (adapters.sonar) {
+    report('sonar', 'started', 'Fetching SonarQube results');
+    try {
+      result.sonarResults = await adapters.sonar.fetchResults(pr);
+      if (result.sonarResults) {
+        report('sonar', 'completed', result.sonarResults.thresholdCheck.exceeded
+          ? `${result.sonarResults.thresholdCheck.violations.length} threshold violations detected`
+          : 'All quality thresholds met');
+      } else {
+        report('sonar', 'skipped', `No SonarQube results for ${pr.head.sha.slice(0, 7)} yet`);
+      }
+    } catch (error) {
+      fail('sonar', error);
+    }
+  } else {
+    report('sonar', 'skipped', 'SonarQube is not configured');
+  }
+
+  // Jira
+  if (options.jiraTicket !== undefined) {
+    report('jira', options.jiraTicket ? 'completed' : 'skipped', options.jiraTicket ? `Using ${options.jiraTicket.key}` : 'No linked Jira ticket');
+  } else if (adapters.jira) {
+    const ticketId = adapters.jira.extractTicketId(pr.title)
+      || adapters.jira.extractTicketId(pr.head.ref)
+      || (pr.body ? adapters.jira.extractTicketId(pr.body) : null);
+
+    if (ticketId) {
+      report('jira', 'started', `Fetching Jira ticket ${ticketId}`);
+      try {
+        result.jiraTicket = await adapters.jira.fetchTicket(ticketId);
+        report('jira', result.jiraTicket ? 'completed' : 'skipped', result.jiraTicket ? `Linked ${ticketId}` : `${ticketId} not found`);
+      } catch (error) {
+        fail('jira', error);
+      }
+    } else {
+      report('jira', 'skipped', 'No Jira ticket referenced by the PR');
+    }
+  } else {
+    report('jira', 'skipped', 'Jira is not configured');
+  }
+
+  // AI review, of only the commits pushed since the last review when there is one to build on
+  const since = command.type === 'review' && aiConfig.incrementalReview !== false && !options.fullReview
+    ? await changesSinceLastReview(pr, result.files, adapters)
+    : null;
+  const sinceSha = since?.last.headSha.slice(0, 7);
+  report('review', 'started', since
+    ? `Reviewing ${since.changed.length} files changed since ${sinceSha} with ${aiConfig.provider}`
+    : `Generating AI review with ${aiConfig.provider}`);
+  try {
+    if (since) {
+      const delta = since.changed.length > 0 ? await adapters.ai.generateReview(pr, since.changed, command, result.jiraTicket) : null;
+      result.review = mergeIncrementalReview(since.last, delta, result.files, since.changed);
+      report('review', 'completed', `Reviewed changes since ${sinceSha}: ${result.review.incremental.addressed.length} suggestions addressed, ${result.review.incremental.carried} carried forward`);
+    } else {
+      result.review = await adapters.ai.generateReview(pr, result.files, command, result.jiraTicket);
+      report('review', 'completed', `Review completed using ${aiConfig.provider}`);
+    }
+  } catch (error) {
+    fail('review', error);
+    return { ...result, status: 'failed' };
+  }
+
+  // Rejected suggestions stay rejected when the same head is reviewed again
+  if (adapters.suggestions) {
+    try {
+      result.review = applySavedStatuses(result.review, await adapters.suggestions.list(pr));
+    } catch (error) {
+      console.error('Failed to load suggestion statuses', error);
+    }
+  }
+
+  // Business logic validation
+  if (result.jiraTicket) {
+    report('business-logic', 'started', `Validating against ${result.jiraTicket.key}`);
+    try {
+      result.businessLogicValidation = await adapters.ai.validateBusinessLogic(pr, result.files, result.jiraTicket);
+      report('business-logic', 'completed', `Validated against ${result.jiraTicket.key}`);
+    } catch (error) {
+      fail('business-logic', error);
+    }
+  } else {
+    report('business-logic', 'skipped', 'No Jira ticket to validate against');
+  }
+
+  // Review history, so the results outlive this run and the next review can build on them
+  if (adapters.runs) {
+    try {
+      await adapters.runs.save(pr, {
+        headSha: pr.head.sha,
+        command: command.type,
+        review: result.review,
+        sonarResults: result.sonarResults,
+        businessLogicValidation: result.businessLogicValidation,
+      });
+    } catch (error) {
+      console.error('Failed to save the review run', error);
+    }
+  }
+
+  // Auto-merge
+  const decision = decideAutoMerge(result.review, result.sonarResults, result.files, aiConfig);
+  result.junitScore = decision.junitScore;
+  result.autoMerge = { enabled: decision.enabled, willMerge: decision.willMerge, merged: null, reason: decision.reason };
+
+  const mergeAllowed = options.allowAutoMerge !== false;
+  const willMerge = decision.willMerge && mergeAllowed;
+  await saveHistory(
+    adapters,
+    pr.number,
+    decision,
+    willMerge ? 'will_merge' : (decision.enabled ? 'will_not_merge' : 'disabled'),
+    decision.willMerge && !mergeAllowed ? `${decision.reason}; requester may not merge` : decision.reason
+  );
+
+  if (willMerge) {
+    report('auto-merge', 'started', 'Configured thresholds met. Attempting to merge...');
+    try {
+      await adapters.github.mergePR(pr.number, pr.title);
+      result.autoMerge.merged = true;
+      await saveHistory(adapters, pr.number, decision, 'merged', 'Merged successfully');
+      report('auto-merge', 'completed', `PR #${pr.number} has been merged`);
+    } catch (error) {
+      result.autoMerge.merged = false;
+      await saveHistory(adapters, pr.number, decision, 'merge_failed', `Merge attempt failed: ${errorMessage(error)}`);
+      fail('auto-merge', error);
+    }
+    report('comment', 'skipped', 'Review comment is not posted when auto-merging');
+    return result;
+  }
+
+  report('auto-merge', 'skipped', !decision.enabled
+    ? 'Auto-merge disabled'
+    : decision.willMerge ? 'Thresholds met, but the requester is not allowed to merge' : 'Configured thresholds not met');
+
+  // Review comment
+  if (options.postComment ?? aiConfig.postToGitHub) {
+    report('comment', 'started', `Posting review to PR #${pr.number}`);
+    try {
+      if (aiConfig.commentMode === 'inline' && adapters.github.postInlineReview) {
+        // Anchored suggestions go on the diff; the summary keeps the scores and whatever couldn't be anchored
+        const inline = await adapters.github.postInlineReview(pr, result.review, result.files);
+        const inlineCount = result.review.suggestions.filter(s => s.status !== 'rejected').length - inline.unanchored.length;
+        await adapters.github.postReviewComment(pr.number, formatReviewAsMarkdown(result.review, pr, {
+          suggestions: inline.unanchored,
+          inlineCount,
+          mismatchedCode: inline.mismatchedCode,
+        }));
+        report('comment', 'completed', `Review posted to PR #${pr.number} (${inline.posted} new, ${inline.updated} updated, ${inline.resolved} resolved, ${inline.reopened} reopened inline comments)`);
+      } else {
+        await adapters.github.postReviewComment(pr.number, formatReviewAsMarkdown(result.review, pr));
+        report('comment', 'completed', `Review posted to PR #${pr.number}`);
+      }
+      result.commentPosted = true;
+    } catch (error) {
+      fail('comment', error);
+    }
+  } else {
+    report('comment', 'skipped', 'Posting to GitHub is disabled');
+  }
+
+  return result;
+}
+
+/**
+ * The last review of the PR and the PR's files changed since, or null when the whole PR has to be
+ * reviewed: there is no earlier review, it was of the same head, or the branch was rewritten since.
+ */
+async function changesSinceLastReview(
+  pr: PullRequest,
+  files: PRFile[],
+  adapters: ReviewPipelineAdapters
+): Promise<{ last: LastReview; changed: PRFile[] } | null> {
+  if (!adapters.lastReview || !adapters.github.fetchChangedFilesSince) return null;
+  try {
+    const last = await adapters.lastReview.get(pr);
+    if (!last || last.headSha === pr.head.sha) return null;
+
+    const compared = await adapters.github.fetchChangedFilesSince(pr, last.headSha);
+    return compared && { last, changed: changedSince(files, compared) };
+  } catch (error) {
+    // The earlier head may be gone after a force-push; a full review still works
+    console.error('Failed to compare with the last review', error);
+    return null;
+  }
+}
+
+export interface AutoMergeDecision {
+  enabled: boolean;
+  willMerge: boolean;
+  reason: string;
+  aiScore: number;
+  sonarIssues: number;
+  junitScore: number;
+  config: AutoMergeConfig;
+}
+
+/**
+ * Decide whether a reviewed PR should be merged, based on the configurable AI & Sonar thresholds.
+ * Assumptions made:
+ * - AI overall score is 0-100 (higher is better).
+ * - Sonar metric used for the decision is `issuesSummary.total` (lower is better).
+ * - When Java files are present and `requireJUnitForJava` is set, the JUnit heuristic must pass too.
+ * - For consensus reviews with `consensus.requireAll`, every model's own score must pass and no model may have failed.
+ */
+export function decideAutoMerge(
+  review: AIReviewResult,
+  sonarResults: SonarQubeResults | null,
+  files: PRFile[],
+  aiConfig: AIConfig
+): AutoMergeDecision {
+  const aiScore = review.overallScore;
+  const sonarIssues = sonarResults?.issuesSummary?.total ?? Infinity;
+
+  const config: AutoMergeConfig = {
+    enabled: !!aiConfig.autoMergeEnabled,
+    mode: aiConfig.autoMergeMode || 'less',
+    aiThreshold: aiConfig.autoMergeThresholdAI ?? 70,
+    sonarThreshold: aiConfig.autoMergeThresholdSonar ?? 5,
+  };
+
+  // Heuristic: if the PR includes test files in typical Java test paths, give a high junitScore;
+  // otherwise 0. This is a lightweight approximation since we can't run tests here.
+  const hasJava = files.some(f => f.filename.endsWith('.java'));
+  const hasJUnitTestsInPR = files.some(f => JUNIT_TEST_PATTERNS.some(p => f.filename.includes(p)));
+  const junitScore = hasJava ? (hasJUnitTestsInPR ? 90 : 0) : 100;
+
+  let willMergeBase = shouldAutoMerge(aiScore, sonarIssues, config);
+  let reasonBase = decisionReason(aiScore, sonarIssues, config);
+
+  if (review.unscored) {
+    willMergeBase = false;
+    reasonBase += '; the review has no score because no code was reviewed';
+  }
+
+  if (aiConfig.consensus?.requireAll && review.consensus) {
+    const { models, failed } = review.consensus;
+    const allPass = failed.length === 0 && models.every(m => shouldAutoMerge(m.overallScore, sonarIssues, config));
+    willMergeBase = willMergeBase && allPass;
+    reasonBase += `; consensus requires all ${models.length + failed.length} models: scores=${models.map(m => m.overallScore).join('/')}, failed=${failed.length} => ${allPass}`;
+  }
+
+  const junitThreshold = aiConfig.autoMergeThresholdJUnit ?? 70;
+  const requireJUnit = !!aiConfig.requireJUnitForJava;
+
+  let willMerge = false;
+  let junitReason = '';
+  if (config.enabled) {
+    if (hasJava && requireJUnit) {
+      willMerge = willMergeBase && junitScore >= junitThreshold;
+      junitReason = `; Java detected, JUnit required: junitScore=${junitScore} >= ${junitThreshold} => ${junitScore >= junitThreshold}`;
+    } else {
+      willMerge = willMergeBase;
+      junitReason = `; hasJava=${hasJava}, requireJUnit=${requireJUnit}`;
+    }
+  }
+
+  return {
+    enabled: config.enabled,
+    willMerge,
+    reason: `${reasonBase}${junitReason}; cfgEnabled=${config.enabled}`,
+    aiScore,
+    sonarIssues,
+    junitScore,
+    config,
+  };
+}
+
+async function saveHistory(
+  adapters: ReviewPipelineAdapters,
+  prNumber: number,
+  decision: AutoMergeDecision,
+  outcome: AutoMergeHistoryRecord['decision'],
+  details: string
+): Promise<void> {
+  if (!adapters.history) return;
+  try {
+    await adapters.history.save(prNumber, {
+      timestamp: new Date().toISOString(),
+      aiScore: decision.aiScore,
+      sonarIssues: decision.sonarIssues,
+      mode: decision.config.mode,
+      aiThreshold: decision.config.aiThreshold,
+      sonarThreshold: decision.config.sonarThreshold,
+      decision: outcome,
+      details,
+    });
+  } catch (e) {
+    // History is diagnostic only and must not fail the run
+    console.error('Failed to save auto-merge history', e);
+  }
+}
+
+export interface ReviewMarkdownOptions {
+  /** Suggestions to list; defaults to all of them. */
+  suggestions?: AIReviewResult['suggestions'];
+  /** Number of suggestions posted as inline comments instead. */
+  inlineCount?: number;
+  /** Ids of suggestions whose proposed code didn't match the PR head. */
+  mismatchedCode?: string[];
+}
+
+export function formatReviewAsMarkdown(review: AIReviewResult, pr: PullRequest, options: ReviewMarkdownOptions = {}): string {
+  const inlineNote = options.inlineCount
+    ? `${options.inlineCount} suggestion${options.inlineCount === 1 ? ' is' : 's are'} posted as inline comments on the diff.\n\n`
+    : '';
+  const skipped = (review.skippedFiles || [])
+    .map(f => `- \`${f.filename}\` (${f.reason === 'binary' ? 'binary file' : 'diff too large'})`)
+    .join('\n');
+  const mismatched = new Set(options.mismatchedCode);
+  const suggestions = (options.suggestions ?? review.suggestions)
+    .filter(s => s.status !== 'rejected')
+    .map(s => `- **[${s.severity.toUpperCase()}]** ${s.rule ? `\`${s.rule}\` ` : ''}${s.message}${s.agreement ? ` _(${s.agreement.count}/${s.agreement.total} models)_` : ''}${mismatched.has(s.id) ? ' _(proposed code does not match the PR head)_' : ''}\n  - File: \`${s.file}\`${s.line ? ` (line ${s.line})` : ''}\n  - ${s.suggestion}`)
+    .join('\n\n');
+  const incremental = review.incremental;
+  const incrementalNote = incremental
+    ? `_Reviewed the ${incremental.files.length} file${incremental.files.length === 1 ? '' : 's'} changed since \`${incremental.since.slice(0, 7)}\`; ${incremental.carried} earlier suggestion${incremental.carried === 1 ? ' is' : 's are'} carried forward._\n\n`
+    : '';
+  const addressed = (incremental?.addressed || [])
+    .map(s => `- ~~**[${s.severity.toUpperCase()}]** ${s.message}~~\n  - File: \`${s.file}\`${s.line ? ` (line ${s.line})` : ''}`)
+    .join('\n');
+
+  return `## 🤖 AI Code Review for PR #${pr.number}
+
+${incrementalNote}### Overall Score: ${review.overallScore}/100
+
+### Category Scores
+| Category | Score |
+|----------|-------|
+| Code Quality | ${review.categories.codeQuality}% |
+| Security | ${review.categories.security}% |
+| Performance | ${review.categories.performance}% |
+| Maintainability | ${review.categories.maintainability}% |
+| Testability | ${review.categories.testability}% |
+${review.consensus ? `\n${formatConsensusAsMarkdown(review.consensus)}\n` : ''}
+### Summary
+${review.summary}
+
+### Suggestions
+${inlineNote}${suggestions || (inlineNote ? '' : 'No specific suggestions.')}
+${addressed ? `\n### Addressed Since Last Review\n${addressed}\n` : ''}${skipped ? `\n### Not Reviewed\n${skipped}\n` : ''}
+---
+*Generated by ${review.model} at ${new Date(review.timestamp).toLocaleString()}*`;
+}
+
+function formatConsensusAsMarkdown(consensus: ConsensusResult): string {
+  const rows = consensus.models
+    .map(m => `| ${m.provider}/${m.model} | ${m.overallScore} | ${m.categories.codeQuality} | ${m.categories.security} | ${m.categories.performance} | ${m.categories.maintainability} | ${m.categories.testability} |`)
+    .join('\n');
+  const failed = consensus.failed.map(f => `- ${f.provider}/${f.model} failed: ${f.error}`).join('\n');
+
+  return `### Model Consensus
+Confidence: **${consensus.overall.confidence}** (overall scores ${consensus.overall.min}-${consensus.overall.max})
+
+| Model | Overall | Quality | Security | Performance | Maintainability | Testability |
+|-------|---------|---------|----------|-------------|-----------------|-------------|
+${rows}
+${failed ? `\n${failed}\n` : ''}`;
+}
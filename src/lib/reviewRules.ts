@@ -0,0 +1,161 @@
+// Review rules a repository sets for itself, read from the PR's base branch so a PR can't change
+// the rules it is reviewed against. Matching rules go into the review prompt; suggestions citing
+// one are tagged with it.
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { AICodeSuggestion, PRFile, ReviewRule } from '../types/codeReview.ts';
+import type { RepositoryReader } from './reviewContext.ts';
+import { SEVERITIES, SUGGESTION_TYPES } from './reviewSchema.ts';
+
+/** Where rules are looked up, in order; the first file found is used. */
+export const RULES_FILES = ['.codegate/review-rules.yml', '.codegate/review-rules.yaml', '.codegate/review-rules.md'];
+
+export interface ReviewRules {
+  /** Path of the rules file. */
+  source: string;
+  rules: ReviewRule[];
+  /** Severity for every suggestion of a type, unless a cited rule sets one. */
+  severities: Partial<Record<AICodeSuggestion['type'], AICodeSuggestion['severity']>>;
+}
+
+// Declared rather than inferred: without strict null checks zod infers every property as optional
+interface RulesDocument {
+  severity: ReviewRules['severities'];
+  rules: (Omit<ReviewRule, 'paths'> & { paths?: string | string[] })[];
+}
+
+const rulesDocumentSchema = z.object({
+  severity: z.record(z.enum(SUGGESTION_TYPES), z.enum(SEVERITIES)).default({}),
+  rules: z.array(z.object({
+    id: z.string().regex(/^[\w.-]+$/, 'use only letters, digits, dots, dashes and underscores'),
+    paths: z.union([z.string(), z.array(z.string())]).optional(),
+    instruction: z.string().trim().min(1),
+    severity: z.enum(SEVERITIES).optional(),
+  }).strict()).default([]),
+}).strict();
+
+/** The first rules file on `ref`, or null when there is none. Throws when the file is invalid. */
+export async function loadReviewRules(reader: RepositoryReader, ref: string): Promise<ReviewRules | null> {
+  const texts = await Promise.all(RULES_FILES.map(path => reader.readFile(path, ref)));
+  const index = texts.findIndex(text => text !== null);
+  return index === -1 ? null : parseReviewRules(RULES_FILES[index], texts[index]);
+}
+
+/**
+ * Parse a rules file. YAML files hold `rules` (id, paths, instruction, severity) and `severity`
+ * (a severity per suggestion type). Markdown files have one `## id` section per rule, optionally
+ * starting with `paths:` and `severity:` lines, and may put `severity` in YAML front matter.
+ */
+export function parseReviewRules(source: string, text: string): ReviewRules {
+  let document: unknown;
+  try {
+    document = source.endsWith('.md') ? markdownRules(text) : parseYaml(text) ?? {};
+  } catch (error) {
+    throw new Error(`${source}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = rulesDocumentSchema.safeParse(document);
+  if (!result.success) {
+    throw new Error(`${source}: ${result.error.issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')}`);
+  }
+
+  const { rules, severity } = result.data as RulesDocument;
+  const duplicate = rules.find((rule, i) => rules.findIndex(r => r.id === rule.id) !== i);
+  if (duplicate) throw new Error(`${source}: rule ${duplicate.id} is defined twice`);
+
+  return {
+    source,
+    rules: rules.map(rule => ({
+      id: rule.id,
+      paths: rule.paths === undefined ? [] : [rule.paths].flat(),
+      instruction: rule.instruction,
+      severity: rule.severity,
+    })),
+    severities: severity,
+  };
+}
+
+/** Rules as a document: the front matter, with one rule per `## ` section. Text before the first section is for people. */
+function markdownRules(text: string): unknown {
+  const front = text.match(/^---\r?\n([\s\S]*?)\r?\n---[^\S\n]*(?:\r?\n|$)/);
+  const meta = (front ? parseYaml(front[1]) : null) ?? {};
+  const body = front ? text.slice(front[0].length) : text;
+
+  const rules = body.split(/^##[^\S\n]+/m).slice(1).map(section => {
+    const [heading, ...lines] = section.split(/\r?\n/);
+    const rule: Record<string, unknown> = { id: heading.trim().toLowerCase().replace(/[^\w.-]+/g, '-').replace(/^-|-$/g, '') };
+    while (lines.length > 0) {
+      const field = lines[0].match(/^(paths|severity):\s*(.*)$/);
+      if (!field && lines[0].trim()) break;
+      lines.shift();
+      if (field) rule[field[1]] = field[1] === 'paths' ? field[2].split(',').map(p => p.trim()).filter(Boolean) : field[2].trim();
+    }
+    return { ...rule, instruction: lines.join('\n').trim() };
+  });
+
+  return { ...meta, rules: [...(meta.rules ?? []), ...rules] };
+}
+
+/**
+ * Glob as a RegExp: `**` spans directories, `*` and `?` stay within one, `{a,b}` matches either.
+ * A glob without a slash matches the file name in any directory; one ending in a slash, everything below.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const trimmed = glob.trim().replace(/^\//, '').replace(/\/$/, '/**');
+  let pattern = '';
+  let braces = 0;
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (char === '*' && trimmed[i + 1] === '*') {
+      const slash = trimmed[i + 2] === '/';
+      pattern += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      pattern += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      pattern += ')';
+    } else if (char === ',' && braces > 0) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(trimmed.includes('/') ? `^${pattern}$` : `(?:^|/)${pattern}$`);
+}
+
+/** Rules covering at least one of `files`; rules without paths cover every file. */
+export function matchingRules(rules: ReviewRule[], files: PRFile[]): ReviewRule[] {
+  return rules.filter(rule => rule.paths.length === 0
+    || rule.paths.map(globToRegExp).some(glob => files.some(file => glob.test(file.filename))));
+}
+
+export function formatReviewRules(rules: ReviewRule[]): string {
+  return rules.map(rule => {
+    const scope = [rule.paths.length > 0 ? rule.paths.join(', ') : 'all files', rule.severity && `severity ${rule.severity}`].filter(Boolean).join('; ');
+    return `- **${rule.id}** (${scope}): ${rule.instruction.replace(/\n/g, '\n  ')}`;
+  }).join('\n');
+}
+
+/**
+ * Apply the rules' severities: a cited rule's severity wins, then the one set for the suggestion's
+ * type. Citations of rules that weren't applied are dropped.
+ */
+export function applyRuleSeverities(suggestions: AICodeSuggestion[], rules: ReviewRules, applied: ReviewRule[]): AICodeSuggestion[] {
+  return suggestions.map(suggestion => {
+    const rule = applied.find(r => r.id === suggestion.rule);
+    return {
+      ...suggestion,
+      rule: rule?.id,
+      severity: rule?.severity ?? rules.severities[suggestion.type] ?? suggestion.severity,
+    };
+  });
+}
@@ -0,0 +1,187 @@
+// Review history: every run is kept with the head it reviewed, the model, the prompt and the token
+// usage. A run is stored as a `review_runs` row, one `ai_suggestions` row per suggestion and a
+// `sonar_snapshots` row, so a PR's results survive reloads and can be compared across pushes.
+import {
+  AICodeSuggestion,
+  AIReviewResult,
+  BusinessLogicValidation,
+  ReviewCommand,
+  SonarQubeResults,
+  TokenUsage,
+} from '../types/codeReview.ts';
+import { suggestionFingerprint } from './inlineReview.ts';
+
+/** What a run produced, as saved by the pipeline and the dashboard. */
+export interface ReviewRunRecord {
+  headSha: string;
+  command: ReviewCommand['type'];
+  review: AIReviewResult;
+  sonarResults: SonarQubeResults | null;
+  businessLogicValidation: BusinessLogicValidation | null;
+}
+
+export interface ReviewRun extends ReviewRunRecord {
+  id: string;
+  createdAt: string;
+}
+
+/** Columns of an `ai_suggestions` row, without its run and workspace. */
+export interface AISuggestionRow {
+  position: number;
+  suggestion_id: string;
+  fingerprint: string;
+  type: string;
+  severity: string;
+  file: string;
+  line: number | null;
+  message: string;
+  suggestion: string;
+  code: unknown;
+  status: string;
+  rule: string | null;
+  agreement: unknown;
+}
+
+/** Columns of a `sonar_snapshots` row, without its run and workspace. */
+export interface SonarSnapshotRow {
+  head_sha: string;
+  quality_gate: string;
+  issues_total: number;
+  results: unknown;
+}
+
+/** Columns of a `review_runs` row, with the suggestions and snapshot selected alongside it. */
+export interface ReviewRunRow {
+  id: string;
+  head_sha: string;
+  command: string;
+  model: string;
+  prompt_hash: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  overall_score: number;
+  review: unknown;
+  business_logic: unknown;
+  created_at: string;
+  ai_suggestions?: AISuggestionRow[];
+  sonar_snapshots?: SonarSnapshotRow[];
+}
+
+/** The rows a run is saved as. The run's review is stored without its suggestions. */
+export function reviewRunRows(record: ReviewRunRecord): {
+  run: Omit<ReviewRunRow, 'id' | 'created_at' | 'ai_suggestions' | 'sonar_snapshots'>;
+  suggestions: AISuggestionRow[];
+  sonar: SonarSnapshotRow | null;
+} {
+  const { suggestions, ...review } = record.review;
+  const { sonarResults } = record;
+
+  return {
+    run: {
+      head_sha: record.headSha,
+      command: record.command,
+      model: review.model,
+      prompt_hash: review.promptHash ?? null,
+      prompt_tokens: review.usage?.promptTokens ?? null,
+      completion_tokens: review.usage?.completionTokens ?? null,
+      overall_score: review.overallScore,
+      review,
+      business_logic: record.businessLogicValidation,
+    },
+    suggestions: suggestions.map((s, position) => ({
+      position,
+      suggestion_id: s.id,
+      fingerprint: suggestionFingerprint(s),
+      type: s.type,
+      severity: s.severity,
+      file: s.file,
+      line: s.line ?? null,
+      message: s.message,
+      suggestion: s.suggestion,
+      code: s.code ?? null,
+      status: s.status,
+      rule: s.rule ?? null,
+      agreement: s.agreement ?? null,
+    })),
+    sonar: sonarResults && {
+      head_sha: sonarResults.scanMetadata.commitSha || record.headSha,
+      quality_gate: sonarResults.qualityGate.status,
+      issues_total: sonarResults.issuesSummary.total,
+      results: sonarResults,
+    },
+  };
+}
+
+function suggestionFromRow(row: AISuggestionRow): AICodeSuggestion {
+  return {
+    id: row.suggestion_id,
+    type: row.type as AICodeSuggestion['type'],
+    severity: row.severity as AICodeSuggestion['severity'],
+    file: row.file,
+    line: row.line ?? undefined,
+    message: row.message,
+    suggestion: row.suggestion,
+    code: (row.code as AICodeSuggestion['code']) || undefined,
+    status: row.status as AICodeSuggestion['status'],
+    rule: row.rule || undefined,
+    agreement: (row.agreement as AICodeSuggestion['agreement']) || undefined,
+  };
+}
+
+export function reviewRunFromRow(row: ReviewRunRow): ReviewRun {
+  const suggestions = [...(row.ai_suggestions ?? [])].sort((a, b) => a.position - b.position);
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    headSha: row.head_sha,
+    command: row.command as ReviewCommand['type'],
+    review: { ...(row.review as Omit<AIReviewResult, 'suggestions'>), suggestions: suggestions.map(suggestionFromRow) },
+    sonarResults: (row.sonar_snapshots?.[0]?.results as SonarQubeResults) ?? null,
+    businessLogicValidation: (row.business_logic as BusinessLogicValidation) || null,
+  };
+}
+
+/** One point of a PR's review timeline. */
+export interface ReviewTimelineEntry {
+  id: string;
+  headSha: string;
+  createdAt: string;
+  model: string;
+  promptHash?: string;
+  usage?: TokenUsage;
+  overallScore: number;
+  /** Change from the previous full review, or null for the first one. */
+  scoreChange: number | null;
+  /** Open suggestions by severity; rejected ones are left out. */
+  issues: Record<AICodeSuggestion['severity'], number>;
+  sonarIssues: number | null;
+  incremental: boolean;
+}
+
+/**
+ * Full reviews of a PR, newest first, with how each one's score moved from the one before.
+ * Summaries, guides and titles aren't scored and are left out. `runs` are newest first.
+ */
+export function reviewTimeline(runs: ReviewRun[]): ReviewTimelineEntry[] {
+  const reviews = runs.filter(run => run.command === 'review');
+  return reviews.map((run, i) => {
+    const previous = reviews[i + 1];
+    const issues = { low: 0, medium: 0, high: 0, critical: 0 };
+    for (const suggestion of run.review.suggestions) {
+      if (suggestion.status !== 'rejected') issues[suggestion.severity]++;
+    }
+    return {
+      id: run.id,
+      headSha: run.headSha,
+      createdAt: run.createdAt,
+      model: run.review.model,
+      promptHash: run.review.promptHash,
+      usage: run.review.usage,
+      overallScore: run.review.overallScore,
+      scoreChange: previous ? run.review.overallScore - previous.review.overallScore : null,
+      issues,
+      sonarIssues: run.sonarResults?.issuesSummary.total ?? null,
+      incremental: !!run.review.incremental,
+    };
+  });
+}
@@ -0,0 +1,185 @@
+// Schemas for the structured answers the AI gives. The JSON schemas are sent with the request so
+// providers can enforce them; the zod schemas check what comes back, since some providers only
+// guarantee valid JSON and any of them can stop mid-answer.
+import { z } from 'zod';
+import type { JsonSchema, ResponseSchema } from './aiProviders.ts';
+import type { AICodeSuggestion, AIReviewResult, BusinessLogicValidation } from '../types/codeReview.ts';
+
+export const SUGGESTION_TYPES = ['improvement', 'bug', 'security', 'performance', 'style'] as const;
+export const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+const RECOMMENDATIONS = ['APPROVE', 'REQUEST_CHANGES', 'COMMENT'] as const;
+
+/** A schema to send and the zod schema answers are checked against; `T` is the checked answer. */
+export interface StructuredAnswer<T> {
+  format: ResponseSchema;
+  schema: z.ZodTypeAny;
+}
+
+// Declared rather than inferred: without strict null checks zod infers every property as optional
+export interface ReviewAnswer {
+  summary: string;
+  overallScore: number;
+  categories: AIReviewResult['categories'];
+  suggestions: (Pick<AICodeSuggestion, 'type' | 'severity' | 'file' | 'message' | 'suggestion'> & {
+    line?: number | null;
+    code?: AICodeSuggestion['code'] | null;
+    rule?: string | null;
+  })[];
+  recommendation?: typeof RECOMMENDATIONS[number];
+}
+
+/** Answer to the commands that only produce text; the one field asked for is required. */
+export type TextAnswer = Partial<Record<'summary' | 'guide' | 'title', string>>;
+
+export type BusinessLogicAnswer = Omit<BusinessLogicValidation, 'ticketKey'>;
+
+const score = z.number().min(0).max(100);
+const scoreJson: JsonSchema = { type: 'number', minimum: 0, maximum: 100 };
+const stringListJson: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const reviewAnswerSchema = z.object({
+  summary: z.string(),
+  overallScore: score,
+  categories: z.object({
+    codeQuality: score,
+    security: score,
+    performance: score,
+    maintainability: score,
+    testability: score,
+  }),
+  suggestions: z.array(z.object({
+    type: z.enum(SUGGESTION_TYPES),
+    severity: z.enum(SEVERITIES),
+    file: z.string().min(1),
+    line: z.number().int().positive().nullish(),
+    message: z.string().min(1),
+    suggestion: z.string().default(''),
+    code: z.object({ before: z.string(), after: z.string() }).nullish(),
+    rule: z.string().nullish(),
+  })),
+  recommendation: z.enum(RECOMMENDATIONS).optional(),
+});
+
+export const REVIEW_ANSWER: StructuredAnswer<ReviewAnswer> = {
+  schema: reviewAnswerSchema,
+  format: {
+    name: 'submit_review',
+    description: 'Submit the code review of the pull request',
+    schema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string', description: 'Concise summary of the changes' },
+        overallScore: scoreJson,
+        categories: {
+          type: 'object',
+          properties: {
+            codeQuality: scoreJson,
+            security: scoreJson,
+            performance: scoreJson,
+            maintainability: scoreJson,
+            testability: scoreJson,
+          },
+          required: ['codeQuality', 'security', 'performance', 'maintainability', 'testability'],
+        },
+        suggestions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: [...SUGGESTION_TYPES] },
+              severity: { type: 'string', enum: [...SEVERITIES] },
+              file: { type: 'string' },
+              line: { type: 'integer', description: 'Line in the new version of the file' },
+              message: { type: 'string' },
+              suggestion: { type: 'string' },
+              code: {
+                type: 'object',
+                description: 'Only for concrete fixes: lines copied verbatim from the diff and their exact replacement',
+                properties: { before: { type: 'string' }, after: { type: 'string' } },
+                required: ['before', 'after'],
+              },
+              rule: { type: 'string', description: 'Id of the repository rule the suggestion enforces, if it enforces one' },
+            },
+            required: ['type', 'severity', 'file', 'message', 'suggestion'],
+          },
+        },
+        recommendation: { type: 'string', enum: [...RECOMMENDATIONS] },
+      },
+      required: ['summary', 'overallScore', 'categories', 'suggestions', 'recommendation'],
+    },
+  },
+};
+
+function textAnswer(field: keyof TextAnswer, description: string): StructuredAnswer<TextAnswer> {
+  return {
+    schema: z.object({ [field]: z.string().min(1) }),
+    format: {
+      name: `submit_${field}`,
+      description,
+      schema: { type: 'object', properties: { [field]: { type: 'string' } }, required: [field] },
+    },
+  };
+}
+
+export const TEXT_ANSWERS: Record<keyof TextAnswer, StructuredAnswer<TextAnswer>> = {
+  summary: textAnswer('summary', 'Submit a brief summary of the pull request'),
+  guide: textAnswer('guide', 'Submit a review guide for the pull request'),
+  title: textAnswer('title', 'Submit a better title for the pull request'),
+};
+
+const businessLogicAnswerSchema = z.object({
+  requirements: z.array(z.string()).default([]),
+  implementedRequirements: z.array(z.string()).default([]),
+  missingRequirements: z.array(z.string()).default([]),
+  partiallyImplemented: z.array(z.string()).default([]),
+  additionalChanges: z.array(z.string()).default([]),
+  score,
+  summary: z.string().min(1),
+});
+
+export const BUSINESS_LOGIC_ANSWER: StructuredAnswer<BusinessLogicAnswer> = {
+  schema: businessLogicAnswerSchema,
+  format: {
+    name: 'submit_validation',
+    description: 'Submit the validation of the pull request against the Jira ticket',
+    schema: {
+      type: 'object',
+      properties: {
+        requirements: stringListJson,
+        implementedRequirements: stringListJson,
+        missingRequirements: stringListJson,
+        partiallyImplemented: stringListJson,
+        additionalChanges: stringListJson,
+        score: scoreJson,
+        summary: { type: 'string' },
+      },
+      required: ['requirements', 'implementedRequirements', 'missingRequirements', 'partiallyImplemented', 'additionalChanges', 'score', 'summary'],
+    },
+  },
+};
+
+/** The JSON in a model's answer: the whole text, or the contents of a fenced block or outermost braces. */
+function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidates = [trimmed, fenced?.[1], trimmed.slice(trimmed.indexOf('{'), trimmed.lastIndexOf('}') + 1)];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new Error('the answer is not valid JSON');
+}
+
+/** Parse and validate an answer. Throws with what is wrong, in a form the model can act on. */
+export function parseAnswer<T>(text: string, answer: StructuredAnswer<T>): T {
+  const result = answer.schema.safeParse(extractJson(text));
+  if (result.success) return result.data as T;
+  throw new Error(result.error.issues
+    .slice(0, 10)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; '));
+}
@@ -0,0 +1,152 @@
+// Secrets live in the server-side vault, never in the JSON config rows. The browser only ever
+// sees their last four characters; edge functions and the review worker fill them back in.
+import type { AIConfig, AIProvider } from '../types/codeReview.ts';
+
+/** A request the browser hands to a proxy edge function, which adds the stored credentials. */
+export interface ProxiedRequest {
+  workspaceId: string | null;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export type SecretName =
+  | 'github_token'
+  | 'github_webhook_secret'
+  | 'github_app_private_key'
+  | 'ai_api_key'
+  | 'jira_api_token'
+  | 'sonar_token'
+  | `ai_api_key:${AIProvider}`;
+export type SecretConfigType = 'github' | 'ai' | 'jira' | 'sonar';
+
+interface SecretField {
+  name: SecretName;
+  /** Config field holding the secret. */
+  field: string;
+  /** Config field the browser gets the last four characters in instead. */
+  hint: string;
+}
+
+export const SECRET_FIELDS: Record<SecretConfigType, SecretField[]> = {
+  github: [
+    { name: 'github_token', field: 'token', hint: 'tokenLastFour' },
+    { name: 'github_webhook_secret', field: 'webhookSecret', hint: 'webhookSecretLastFour' },
+  ],
+  ai: [{ name: 'ai_api_key', field: 'apiKey', hint: 'apiKeyLastFour' }],
+  jira: [{ name: 'jira_api_token', field: 'apiToken', hint: 'apiTokenLastFour' }],
+  sonar: [{ name: 'sonar_token', field: 'token', hint: 'tokenLastFour' }],
+};
+
+export function isSecretConfigType(type: string): type is SecretConfigType {
+  return type in SECRET_FIELDS;
+}
+
+export function lastFour(secret: string): string {
+  return secret.slice(-4);
+}
+
+/** Whether a secret is available: entered just now, or stored in the vault. */
+export function isSecretConfigured(value: string | undefined, hint: string | undefined): boolean {
+  return !!value || !!hint;
+}
+
+/**
+ * Split a config into the JSON that is stored (secrets and hints blanked) and the newly entered
+ * secrets. A secret left blank isn't listed: the stored one is kept.
+ */
+export function splitSecret<T extends object>(type: SecretConfigType, config: T): { stored: T; secrets: [SecretName, string][] } {
+  const stored: Record<string, unknown> = { ...(config as Record<string, unknown>) };
+  const secrets: [SecretName, string][] = [];
+  for (const { name, field, hint } of SECRET_FIELDS[type]) {
+    const secret = stored[field];
+    if (typeof secret === 'string' && secret.trim()) secrets.push([name, secret.trim()]);
+    delete stored[hint];
+    stored[field] = '';
+  }
+  return { stored: stored as T, secrets };
+}
+
+/** The config as the browser keeps it after saving: each secret replaced by its hint. */
+export function maskSecret<T extends object>(type: SecretConfigType, config: T): T {
+  const { stored, secrets } = splitSecret(type, config);
+  const entered = Object.fromEntries(secrets);
+  const masked: Record<string, unknown> = { ...(stored as Record<string, unknown>) };
+  for (const { name, hint } of SECRET_FIELDS[type]) {
+    masked[hint] = entered[name] ? lastFour(entered[name]) : (config as Record<string, unknown>)[hint];
+  }
+  return masked as T;
+}
+
+/** Put the hints for stored secrets on a config loaded from its JSON row. */
+export function withSecretHint<T extends object>(type: SecretConfigType, config: T, hints: Partial<Record<SecretName, string>>): T {
+  const withHints: Record<string, unknown> = { ...(config as Record<string, unknown>) };
+  for (const { name, hint } of SECRET_FIELDS[type]) {
+    withHints[hint] = hints[name] || undefined;
+  }
+  return withHints as T;
+}
+
+/** Server-side: put the decrypted secrets back on a config. */
+export function withSecret<T extends object>(type: SecretConfigType, config: T, secrets: Partial<Record<SecretName, string | null>>): T {
+  const withSecrets: Record<string, unknown> = { ...(config as Record<string, unknown>) };
+  for (const { name, field } of SECRET_FIELDS[type]) {
+    withSecrets[field] = secrets[name] || '';
+  }
+  return withSecrets as T;
+}
+
+/** Vault name of the key for consensus reviewers on a provider other than the primary one. */
+export function reviewerSecretName(provider: AIProvider): SecretName {
+  return `ai_api_key:${provider}`;
+}
+
+/**
+ * Split the keys entered for consensus reviewers out of an AI config, like `splitSecret`.
+ * Reviewers on the primary provider share its key, so nothing is stored for them.
+ */
+export function splitReviewerKeys(config: AIConfig): { stored: AIConfig; secrets: [SecretName, string][] } {
+  if (!config.consensus) return { stored: config, secrets: [] };
+
+  const secrets = new Map<SecretName, string>();
+  const reviewers = config.consensus.reviewers.map(({ apiKey, apiKeyLastFour: _hint, ...reviewer }) => {
+    if (apiKey?.trim() && reviewer.provider !== config.provider) secrets.set(reviewerSecretName(reviewer.provider), apiKey.trim());
+    return reviewer;
+  });
+  return { stored: { ...config, consensus: { ...config.consensus, reviewers } }, secrets: [...secrets] };
+}
+
+/** Hint for each reviewer's key: the primary key's for the primary provider, else its provider's. */
+export function withReviewerKeyHints(config: AIConfig, hints: Partial<Record<SecretName, string>>): AIConfig {
+  if (!config.consensus) return config;
+  const reviewers = config.consensus.reviewers.map(reviewer => ({
+    ...reviewer,
+    apiKey: '',
+    apiKeyLastFour: (reviewer.provider === config.provider ? hints.ai_api_key : hints[reviewerSecretName(reviewer.provider)]) || undefined,
+  }));
+  return { ...config, consensus: { ...config.consensus, reviewers } };
+}
+
+/** The AI config as the browser keeps it after saving: every entered key replaced by its hint. */
+export function maskAIConfig(config: AIConfig): AIConfig {
+  const masked = maskSecret('ai', config);
+  if (!masked.consensus) return masked;
+
+  const hints: Partial<Record<SecretName, string>> = { ai_api_key: masked.apiKeyLastFour };
+  for (const reviewer of config.consensus.reviewers) {
+    const name = reviewerSecretName(reviewer.provider);
+    hints[name] = reviewer.apiKey?.trim() ? lastFour(reviewer.apiKey.trim()) : hints[name] || reviewer.apiKeyLastFour;
+  }
+  return withReviewerKeyHints(masked, hints);
+}
+
+/** Server-side: put the decrypted keys back on the consensus reviewers. */
+export function withReviewerKeys(config: AIConfig, secrets: Partial<Record<SecretName, string | null>>): AIConfig {
+  if (!config.consensus) return config;
+  const reviewers = config.consensus.reviewers.map(reviewer => ({
+    ...reviewer,
+    apiKey: (reviewer.provider === config.provider ? config.apiKey : secrets[reviewerSecretName(reviewer.provider)]) || '',
+  }));
+  return { ...config, consensus: { ...config.consensus, reviewers } };
+}
@@ -0,0 +1,284 @@
+import { z } from 'zod';
+import { GitHubConfig, MetricValue, SonarIssue, SonarQubeResults } from '@/types/codeReview';
+import { readZipEntries } from '@/lib/zip';
+
+/** Name used by the sonarqube-pr-scan workflow for its upload-artifact step. */
+export const SONAR_ARTIFACT_NAME = 'sonarqube-results';
+const SONAR_RESULTS_FILE = 'sonar-results.json';
+
+const metricSchema = z.object({
+  value: z.coerce.number(),
+  threshold: z.coerce.number(),
+  exceeded: z.boolean(),
+});
+
+const countSchema = z.object({
+  count: z.coerce.number(),
+  threshold: z.coerce.number().optional(),
+  exceeded: z.boolean().optional(),
+});
+
+const severitySchema = z.enum(['BLOCKER', 'CRITICAL', 'MAJOR', 'MINOR', 'INFO']);
+const issueTypeSchema = z.enum(['BUG', 'VULNERABILITY', 'CODE_SMELL', 'SECURITY_HOTSPOT']);
+
+/** Schema of the snake_case sonar-results.json written by .github/workflows/sonarqube-pr-scan.yml */
+export const sonarArtifactSchema = z.object({
+  scan_metadata: z.object({
+    project_key: z.string(),
+    pull_request: z.coerce.number(),
+    branch: z.string().optional(),
+    base_branch: z.string().optional(),
+    commit_sha: z.string().optional(),
+    scan_date: z.string(),
+    sonarqube_url: z.string().optional(),
+  }),
+  quality_gate: z.object({
+    status: z.string(),
+    passed: z.boolean(),
+  }),
+  metrics: z.object({
+    bugs: metricSchema,
+    vulnerabilities: metricSchema,
+    code_smells: metricSchema,
+    security_hotspots: metricSchema,
+    coverage: metricSchema,
+    duplications: metricSchema,
+  }),
+  issues_summary: z.object({
+    total: z.coerce.number(),
+    by_severity: z.object({
+      blocker: countSchema,
+      critical: countSchema,
+      major: countSchema,
+      minor: countSchema,
+      info: countSchema.optional(),
+    }),
+    by_type: z.object({
+      bug: z.coerce.number(),
+      vulnerability: z.coerce.number(),
+      code_smell: z.coerce.number(),
+      security_hotspot: z.coerce.number(),
+    }),
+  }),
+  threshold_check: z.object({
+    exceeded: z.boolean(),
+    violations: z.array(z.string()),
+  }),
+  issues_detailed: z.array(z.object({
+    key: z.string().optional(),
+    severity: severitySchema,
+    type: issueTypeSchema,
+    rule: z.string(),
+    message: z.string(),
+    component: z.string(),
+    line: z.number().nullish(),
+    status: z.string(),
+    effort: z.string().nullish(),
+  })),
+  links: z.object({
+    dashboard: z.string(),
+    issues: z.string(),
+    quality_gate: z.string().optional(),
+  }),
+});
+
+export type SonarArtifact = z.infer<typeof sonarArtifactSchema>;
+
+// Maps the violation keys emitted by the workflow to the metric they refer to
+const VIOLATION_LABELS: Record<string, string> = {
+  bugs: 'Bugs',
+  vulnerabilities: 'Vulnerabilities',
+  code_smells: 'Code Smells',
+  security_hotspots: 'Security Hotspots',
+  coverage: 'Coverage',
+  duplications: 'Duplicated Lines',
+  blocker_issues: 'Blocker Issues',
+  critical_issues: 'Critical Issues',
+  major_issues: 'Major Issues',
+};
+
+/**
+ * Validate a sonar-results.json document and convert it to SonarQubeResults.
+ * The thresholds evaluated in CI are kept as-is so the panel shows what CI decided.
+ */
+export function parseSonarArtifact(json: unknown): SonarQubeResults {
+  const result = sonarArtifactSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid sonar-results.json: ${issue.path.join('.') || 'root'} ${issue.message}`);
+  }
+  return artifactToResults(result.data);
+}
+
+export function artifactToResults(artifact: SonarArtifact): SonarQubeResults {
+  const { scan_metadata: meta, metrics, issues_summary: summary } = artifact;
+  const projectKey = meta.project_key;
+
+  const gateStatus = ['OK', 'ERROR', 'WARN'].includes(artifact.quality_gate.status)
+    ? artifact.quality_gate.status as 'OK' | 'ERROR' | 'WARN'
+    : (artifact.quality_gate.passed ? 'OK' : 'ERROR');
+
+  const count = (c?: z.infer<typeof countSchema>, fallbackThreshold = 0) => ({
+    count: c?.count ?? 0,
+    threshold: c?.threshold ?? fallbackThreshold,
+    exceeded: c?.exceeded ?? false,
+  });
+
+  const toMetric = (m: z.infer<typeof metricSchema>): MetricValue => ({
+    value: m.value,
+    threshold: m.threshold,
+    exceeded: m.exceeded,
+  });
+
+  const valueByViolation: Record<string, { value: number | string; threshold?: number | string } | undefined> = {
+    bugs: toMetric(metrics.bugs),
+    vulnerabilities: toMetric(metrics.vulnerabilities),
+    code_smells: toMetric(metrics.code_smells),
+    security_hotspots: toMetric(metrics.security_hotspots),
+    coverage: toMetric(metrics.coverage),
+    duplications: toMetric(metrics.duplications),
+    blocker_issues: { value: summary.by_severity.blocker.count, threshold: summary.by_severity.blocker.threshold },
+    critical_issues: { value: summary.by_severity.critical.count, threshold: summary.by_severity.critical.threshold },
+    major_issues: { value: summary.by_severity.major.count, threshold: summary.by_severity.major.threshold },
+  };
+
+  const violations = artifact.threshold_check.violations.filter(Boolean).map(key => {
+    const label = VIOLATION_LABELS[key] || key;
+    const metric = valueByViolation[key];
+    return metric ? `${label}: ${metric.value} (threshold: ${metric.threshold ?? '—'})` : label;
+  });
+
+  const issuesDetailed: SonarIssue[] = artifact.issues_detailed.map((issue, index) => ({
+    key: issue.key || `${issue.rule}-${index}`,
+    severity: issue.severity,
+    type: issue.type,
+    message: issue.message,
+    component: issue.component.startsWith(`${projectKey}:`) ? issue.component.slice(projectKey.length + 1) : issue.component,
+    line: issue.line ?? undefined,
+    rule: issue.rule,
+    effort: issue.effort ?? undefined,
+    status: issue.status,
+  }));
+
+  return {
+    scanMetadata: {
+      projectKey,
+      pullRequest: meta.pull_request,
+      timestamp: meta.scan_date,
+      scanDuration: 0,
+      commitSha: meta.commit_sha,
+      source: 'artifact',
+    },
+    qualityGate: {
+      status: gateStatus,
+      conditions: [],
+    },
+    metrics: {
+      bugs: toMetric(metrics.bugs),
+      vulnerabilities: toMetric(metrics.vulnerabilities),
+      codeSmells: toMetric(metrics.code_smells),
+      coverage: { ...toMetric(metrics.coverage), value: metrics.coverage.value.toFixed(1) },
+      duplicatedLinesDensity: { ...toMetric(metrics.duplications), value: metrics.duplications.value.toFixed(1) },
+      securityHotspots: toMetric(metrics.security_hotspots),
+      technicalDebt: { value: '—', threshold: 0, exceeded: false },
+    },
+    issuesSummary: {
+      bySeverity: {
+        blocker: count(summary.by_severity.blocker),
+        critical: count(summary.by_severity.critical),
+        major: count(summary.by_severity.major, 10),
+        minor: count(summary.by_severity.minor, 20),
+        info: count(summary.by_severity.info, 100),
+      },
+      byType: {
+        bug: { count: summary.by_type.bug, threshold: metrics.bugs.threshold, exceeded: metrics.bugs.exceeded },
+        vulnerability: { count: summary.by_type.vulnerability, threshold: metrics.vulnerabilities.threshold, exceeded: metrics.vulnerabilities.exceeded },
+        codeSmell: { count: summary.by_type.code_smell, threshold: metrics.code_smells.threshold, exceeded: metrics.code_smells.exceeded },
+        securityHotspot: { count: summary.by_type.security_hotspot, threshold: metrics.security_hotspots.threshold, exceeded: metrics.security_hotspots.exceeded },
+      },
+      total: summary.total,
+    },
+    issuesDetailed,
+    thresholdCheck: {
+      exceeded: artifact.threshold_check.exceeded,
+      violations,
+    },
+    links: {
+      dashboard: artifact.links.dashboard,
+      issues: artifact.links.issues,
+      securityHotspots: artifact.links.dashboard.replace('/dashboard?', '/security_hotspots?'),
+    },
+  };
+}
+
+/** Read sonar-results.json from either a raw JSON file or a zipped artifact. */
+export async function readSonarResultsFile(buffer: ArrayBuffer): Promise<SonarQubeResults> {
+  const head = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+  const isZip = head[0] === 0x50 && head[1] === 0x4b; // "PK"
+
+  let text: string;
+  if (isZip) {
+    const entry = readZipEntries(buffer).find(e => e.name.split('/').pop() === SONAR_RESULTS_FILE);
+    if (!entry) throw new Error(`${SONAR_RESULTS_FILE} not found in artifact`);
+    text = new TextDecoder().decode(await entry.read());
+  } else {
+    text = new TextDecoder().decode(buffer);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error(`${SONAR_RESULTS_FILE} is not valid JSON`);
+  }
+  return parseSonarArtifact(json);
+}
+
+interface GitHubArtifact {
+  id: number;
+  name: string;
+  expired: boolean;
+  created_at: string;
+  archive_download_url: string;
+  workflow_run?: { head_sha?: string };
+}
+
+/**
+ * Download the most recent sonarqube-results artifact built for a commit and convert it.
+ * Returns null when CI has not produced an artifact for that SHA (yet).
+ */
+export async function fetchSonarArtifact(
+  config: GitHubConfig,
+  headSha: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<SonarQubeResults | null> {
+  const headers = {
+    'Authorization': `Bearer ${config.token}`,
+    'Accept': 'application/vnd.github.v3+json',
+    'X-GitHub-Api-Version': '2022-11-28',
+  };
+
+  const listResponse = await fetchImpl(
+    `https://api.github.com/repos/${config.owner}/${config.repo}/actions/artifacts?name=${SONAR_ARTIFACT_NAME}&per_page=100`,
+    { headers }
+  );
+  if (!listResponse.ok) {
+    const errorData = await listResponse.json().catch(() => ({}));
+    throw new Error(errorData.message || `GitHub API error: ${listResponse.status}`);
+  }
+
+  const { artifacts = [] } = await listResponse.json() as { artifacts?: GitHubArtifact[] };
+  const latest = artifacts
+    .filter(a => a.name === SONAR_ARTIFACT_NAME && !a.expired && a.workflow_run?.head_sha === headSha)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+  if (!latest) return null;
+
+  // GitHub answers with a redirect to a short-lived storage URL; fetch follows it
+  const download = await fetchImpl(latest.archive_download_url, { headers });
+  if (!download.ok) {
+    throw new Error(`Failed to download artifact: ${download.status}`);
+  }
+
+  return readSonarResultsFile(await download.arrayBuffer());
+}
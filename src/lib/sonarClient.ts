@@ -0,0 +1,366 @@
+import {
+  SonarConfig,
+  SonarIssue,
+  SonarQubeResults,
+  QualityGateCondition,
+  ThresholdConfig,
+} from '../types/codeReview.ts';
+
+// Raw SonarQube Web API response shapes (only the fields we read)
+interface SonarMeasure {
+  metric: string;
+  value?: string;
+  period?: { value?: string };
+  periods?: { value?: string }[];
+}
+
+interface SonarFacet {
+  property: string;
+  values: { val: string; count: number }[];
+}
+
+interface SonarRawIssue {
+  key: string;
+  severity?: SonarIssue['severity'];
+  type?: SonarIssue['type'];
+  message: string;
+  component: string;
+  line?: number;
+  rule: string;
+  effort?: string;
+  debt?: string;
+  status: string;
+  resolution?: string;
+}
+
+interface SonarRawHotspot {
+  key: string;
+  component: string;
+  line?: number;
+  message: string;
+  status: string;
+  resolution?: string;
+  vulnerabilityProbability?: 'HIGH' | 'MEDIUM' | 'LOW';
+  ruleKey?: string;
+}
+
+interface SonarProjectStatus {
+  status: 'OK' | 'ERROR' | 'WARN' | 'NONE';
+  conditions?: {
+    status: 'OK' | 'ERROR' | 'WARN';
+    metricKey: string;
+    comparator: string;
+    errorThreshold?: string;
+    actualValue?: string;
+  }[];
+}
+
+/** Normalized measures for one analysis, independent of where they were read from. */
+export interface SonarMeasures {
+  bugs: number;
+  vulnerabilities: number;
+  codeSmells: number;
+  coverage: number;
+  duplicatedLinesDensity: number;
+  securityHotspots: number;
+  technicalDebtMinutes: number;
+}
+
+export type SeverityCounts = Record<'blocker' | 'critical' | 'major' | 'minor' | 'info', number>;
+
+const MEASURE_KEYS: Record<keyof SonarMeasures, [string, string]> = {
+  // [new code metric used for pull requests, overall metric fallback]
+  bugs: ['new_bugs', 'bugs'],
+  vulnerabilities: ['new_vulnerabilities', 'vulnerabilities'],
+  codeSmells: ['new_code_smells', 'code_smells'],
+  coverage: ['new_coverage', 'coverage'],
+  duplicatedLinesDensity: ['new_duplicated_lines_density', 'duplicated_lines_density'],
+  securityHotspots: ['new_security_hotspots', 'security_hotspots'],
+  technicalDebtMinutes: ['new_technical_debt', 'sqale_index'],
+};
+
+const HOTSPOT_SEVERITY: Record<string, SonarIssue['severity']> = {
+  HIGH: 'CRITICAL',
+  MEDIUM: 'MAJOR',
+  LOW: 'MINOR',
+};
+
+/**
+ * Fetch the analysis of a pull request from a SonarQube or SonarCloud server and
+ * map it into the dashboard's SonarQubeResults shape.
+ */
+export async function fetchSonarResults(
+  config: SonarConfig,
+  prNumber: number,
+  thresholds: ThresholdConfig,
+  fetchImpl: typeof fetch = fetch
+): Promise<SonarQubeResults> {
+  const sonarFetch = createSonarFetch(config, fetchImpl);
+  const projectKey = encodeURIComponent(config.projectKey);
+  const pr = encodeURIComponent(String(prNumber));
+  const metricKeys = Object.values(MEASURE_KEYS).flat().join(',');
+
+  const [gate, measures, issues, hotspots] = await Promise.all([
+    sonarFetch<{ projectStatus: SonarProjectStatus }>(
+      `/api/qualitygates/project_status?projectKey=${projectKey}&pullRequest=${pr}`
+    ),
+    sonarFetch<{ component: { measures: SonarMeasure[] } }>(
+      `/api/measures/component?component=${projectKey}&pullRequest=${pr}&metricKeys=${metricKeys}`
+    ),
+    sonarFetch<{ total: number; issues: SonarRawIssue[]; facets?: SonarFacet[] }>(
+      `/api/issues/search?componentKeys=${projectKey}&pullRequest=${pr}&resolved=false&facets=severities,types&ps=500`
+    ),
+    sonarFetch<{ paging?: { total: number }; hotspots: SonarRawHotspot[] }>(
+      `/api/hotspots/search?projectKey=${projectKey}&pullRequest=${pr}&status=TO_REVIEW&ps=500`
+    ),
+  ]);
+
+  const parsedMeasures = parseMeasures(measures.component?.measures || []);
+  const hotspotTotal = hotspots.paging?.total ?? hotspots.hotspots.length;
+  // Hotspots are reported by their own endpoint, so the measure may lag behind; trust the search.
+  parsedMeasures.securityHotspots = Math.max(parsedMeasures.securityHotspots, hotspotTotal);
+
+  const issuesDetailed = [
+    ...(issues.issues || []).map(issue => mapIssue(issue, config.projectKey)),
+    ...(hotspots.hotspots || []).map(hotspot => mapHotspot(hotspot, config.projectKey)),
+  ];
+
+  const severityCounts = countFacet(issues.facets, 'severities', issues.issues || [], i => i.severity);
+  const host = normalizeHostUrl(config.hostUrl);
+  const query = `id=${projectKey}&pullRequest=${pr}`;
+
+  return buildSonarResults({
+    projectKey: config.projectKey,
+    prNumber,
+    timestamp: new Date().toISOString(),
+    scanDuration: 0,
+    source: 'server',
+    measures: parsedMeasures,
+    severityCounts,
+    issuesDetailed,
+    qualityGate: mapQualityGate(gate.projectStatus),
+    links: {
+      dashboard: `${host}/dashboard?${query}`,
+      issues: `${host}/project/issues?${query}&resolved=false`,
+      securityHotspots: `${host}/security_hotspots?${query}`,
+    },
+  }, thresholds);
+}
+
+/** Check that the configured token is accepted by the server. */
+export async function testSonarConnection(config: SonarConfig, fetchImpl: typeof fetch = fetch): Promise<boolean> {
+  const result = await createSonarFetch(config, fetchImpl)<{ valid: boolean }>('/api/authentication/validate');
+  return result.valid === true;
+}
+
+export interface SonarResultsInput {
+  projectKey: string;
+  prNumber: number;
+  timestamp: string;
+  scanDuration: number;
+  source?: SonarQubeResults['scanMetadata']['source'];
+  measures: SonarMeasures;
+  severityCounts: SeverityCounts;
+  issuesDetailed: SonarIssue[];
+  /** Quality gate as reported by the server; derived from threshold violations when absent. */
+  qualityGate?: SonarQubeResults['qualityGate'];
+  links: SonarQubeResults['links'];
+}
+
+/** Apply the configured thresholds to raw Sonar measures and build the results shape. */
+export function buildSonarResults(input: SonarResultsInput, thresholds: ThresholdConfig): SonarQubeResults {
+  const { measures: m, severityCounts: sev } = input;
+
+  const violations: string[] = [];
+  if (m.bugs > thresholds.bugs) violations.push(`Bugs: ${m.bugs} (threshold: ${thresholds.bugs})`);
+  if (m.vulnerabilities > thresholds.vulnerabilities) violations.push(`Vulnerabilities: ${m.vulnerabilities} (threshold: ${thresholds.vulnerabilities})`);
+  if (m.codeSmells > thresholds.codeSmells) violations.push(`Code Smells: ${m.codeSmells} (threshold: ${thresholds.codeSmells})`);
+  if (m.coverage < thresholds.coverageMin) violations.push(`Coverage: ${m.coverage.toFixed(1)}% (minimum: ${thresholds.coverageMin}%)`);
+  if (m.duplicatedLinesDensity > thresholds.duplicatedLinesMax) violations.push(`Duplicated Lines: ${m.duplicatedLinesDensity.toFixed(1)}% (max: ${thresholds.duplicatedLinesMax}%)`);
+  if (m.securityHotspots > thresholds.securityHotspots) violations.push(`Security Hotspots: ${m.securityHotspots} (threshold: ${thresholds.securityHotspots})`);
+  if (sev.blocker > thresholds.blockerIssues) violations.push(`Blocker Issues: ${sev.blocker} (threshold: ${thresholds.blockerIssues})`);
+  if (sev.critical > thresholds.criticalIssues) violations.push(`Critical Issues: ${sev.critical} (threshold: ${thresholds.criticalIssues})`);
+
+  const qualityGate = input.qualityGate ?? {
+    status: violations.length > 0 ? 'ERROR' as const : 'OK' as const,
+    conditions: [
+      { metric: 'new_bugs', operator: 'GT', value: String(m.bugs), status: m.bugs > thresholds.bugs ? 'ERROR' as const : 'OK' as const, errorThreshold: String(thresholds.bugs) },
+      { metric: 'new_vulnerabilities', operator: 'GT', value: String(m.vulnerabilities), status: m.vulnerabilities > thresholds.vulnerabilities ? 'ERROR' as const : 'OK' as const, errorThreshold: String(thresholds.vulnerabilities) },
+      { metric: 'new_coverage', operator: 'LT', value: m.coverage.toFixed(1), status: m.coverage < thresholds.coverageMin ? 'ERROR' as const : 'OK' as const, errorThreshold: String(thresholds.coverageMin) },
+    ],
+  };
+
+  return {
+    scanMetadata: {
+      projectKey: input.projectKey,
+      pullRequest: input.prNumber,
+      timestamp: input.timestamp,
+      scanDuration: input.scanDuration,
+      source: input.source,
+    },
+    qualityGate,
+    metrics: {
+      bugs: { value: m.bugs, threshold: thresholds.bugs, exceeded: m.bugs > thresholds.bugs },
+      vulnerabilities: { value: m.vulnerabilities, threshold: thresholds.vulnerabilities, exceeded: m.vulnerabilities > thresholds.vulnerabilities },
+      codeSmells: { value: m.codeSmells, threshold: thresholds.codeSmells, exceeded: m.codeSmells > thresholds.codeSmells },
+      coverage: { value: m.coverage.toFixed(1), threshold: thresholds.coverageMin, exceeded: m.coverage < thresholds.coverageMin },
+      duplicatedLinesDensity: { value: m.duplicatedLinesDensity.toFixed(1), threshold: thresholds.duplicatedLinesMax, exceeded: m.duplicatedLinesDensity > thresholds.duplicatedLinesMax },
+      securityHotspots: { value: m.securityHotspots, threshold: thresholds.securityHotspots, exceeded: m.securityHotspots > thresholds.securityHotspots },
+      technicalDebt: { value: formatDebt(m.technicalDebtMinutes), threshold: 0, exceeded: false },
+    },
+    issuesSummary: {
+      bySeverity: {
+        blocker: { count: sev.blocker, threshold: thresholds.blockerIssues, exceeded: sev.blocker > thresholds.blockerIssues },
+        critical: { count: sev.critical, threshold: thresholds.criticalIssues, exceeded: sev.critical > thresholds.criticalIssues },
+        major: { count: sev.major, threshold: 10, exceeded: false },
+        minor: { count: sev.minor, threshold: 20, exceeded: false },
+        info: { count: sev.info, threshold: 100, exceeded: false },
+      },
+      byType: {
+        bug: { count: m.bugs, threshold: thresholds.bugs, exceeded: m.bugs > thresholds.bugs },
+        vulnerability: { count: m.vulnerabilities, threshold: thresholds.vulnerabilities, exceeded: m.vulnerabilities > thresholds.vulnerabilities },
+        codeSmell: { count: m.codeSmells, threshold: thresholds.codeSmells, exceeded: m.codeSmells > thresholds.codeSmells },
+        securityHotspot: { count: m.securityHotspots, threshold: thresholds.securityHotspots, exceeded: m.securityHotspots > thresholds.securityHotspots },
+      },
+      total: m.bugs + m.vulnerabilities + m.codeSmells + m.securityHotspots,
+    },
+    issuesDetailed: input.issuesDetailed,
+    thresholdCheck: {
+      exceeded: violations.length > 0,
+      violations,
+    },
+    links: input.links,
+  };
+}
+
+/** Format a debt in minutes the way the Sonar UI does, e.g. "2h 15min". */
+export function formatDebt(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${Math.round(minutes % 60)}min`;
+}
+
+/** Whether `url` is on the configured server, the only place the stored token may be sent. */
+export function isSonarServerUrl(url: URL, hostUrl: string): boolean {
+  if (!hostUrl.trim()) return false;
+  const host = new URL(normalizeHostUrl(hostUrl));
+  const path = host.pathname.replace(/\/+$/, '');
+  return url.origin === host.origin && url.pathname.startsWith(`${path}/api/`);
+}
+
+/** SonarQube takes a user token as the Basic auth login with an empty password. */
+export function sonarAuthorization(token: string): string {
+  return `Basic ${btoa(`${token}:`)}`;
+}
+
+function createSonarFetch(config: SonarConfig, fetchImpl: typeof fetch) {
+  const host = normalizeHostUrl(config.hostUrl);
+  const headers: Record<string, string> = { 'Accept': 'application/json' };
+  // Without a token the sonar-proxy adds the stored one
+  if (config.token) headers['Authorization'] = sonarAuthorization(config.token);
+
+  return async <T>(endpoint: string): Promise<T> => {
+    const response = await fetchImpl(`${host}${endpoint}`, { headers });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.errors?.[0]?.msg || errorData.message || `SonarQube API error: ${response.status}`);
+    }
+
+    return response.json();
+  };
+}
+
+function normalizeHostUrl(hostUrl: string): string {
+  return hostUrl.trim().replace(/\/+$/, '');
+}
+
+function parseMeasures(measures: SonarMeasure[]): SonarMeasures {
+  const byMetric = new Map<string, number>();
+  for (const measure of measures) {
+    const raw = measure.period?.value ?? measure.periods?.[0]?.value ?? measure.value;
+    const value = raw === undefined ? NaN : Number(raw);
+    if (!Number.isNaN(value)) byMetric.set(measure.metric, value);
+  }
+
+  const pick = ([newKey, overallKey]: [string, string], fallback: number) =>
+    byMetric.get(newKey) ?? byMetric.get(overallKey) ?? fallback;
+
+  return {
+    bugs: pick(MEASURE_KEYS.bugs, 0),
+    vulnerabilities: pick(MEASURE_KEYS.vulnerabilities, 0),
+    codeSmells: pick(MEASURE_KEYS.codeSmells, 0),
+    // Sonar omits coverage when no lines to cover changed; treat that as fully covered
+    coverage: pick(MEASURE_KEYS.coverage, 100),
+    duplicatedLinesDensity: pick(MEASURE_KEYS.duplicatedLinesDensity, 0),
+    securityHotspots: pick(MEASURE_KEYS.securityHotspots, 0),
+    technicalDebtMinutes: pick(MEASURE_KEYS.technicalDebtMinutes, 0),
+  };
+}
+
+function countFacet<T>(
+  facets: SonarFacet[] | undefined,
+  property: string,
+  items: T[],
+  getValue: (item: T) => string | undefined
+): SeverityCounts {
+  const counts: SeverityCounts = { blocker: 0, critical: 0, major: 0, minor: 0, info: 0 };
+  const facet = facets?.find(f => f.property === property);
+  const entries = facet
+    ? facet.values.map(v => [v.val, v.count] as const)
+    : items.map(item => [getValue(item) || '', 1] as const);
+
+  for (const [val, count] of entries) {
+    const key = val.toLowerCase() as keyof SeverityCounts;
+    if (key in counts) counts[key] += count;
+  }
+  return counts;
+}
+
+function stripProjectKey(component: string, projectKey: string): string {
+  return component.startsWith(`${projectKey}:`) ? component.slice(projectKey.length + 1) : component;
+}
+
+function mapIssue(issue: SonarRawIssue, projectKey: string): SonarIssue {
+  return {
+    key: issue.key,
+    severity: issue.severity || 'INFO',
+    type: issue.type || 'CODE_SMELL',
+    message: issue.message,
+    component: stripProjectKey(issue.component, projectKey),
+    line: issue.line,
+    rule: issue.rule,
+    effort: issue.effort,
+    debt: issue.debt,
+    status: issue.status,
+    resolution: issue.resolution,
+  };
+}
+
+function mapHotspot(hotspot: SonarRawHotspot, projectKey: string): SonarIssue {
+  return {
+    key: hotspot.key,
+    severity: HOTSPOT_SEVERITY[hotspot.vulnerabilityProbability || 'LOW'] || 'MINOR',
+    type: 'SECURITY_HOTSPOT',
+    message: hotspot.message,
+    component: stripProjectKey(hotspot.component, projectKey),
+    line: hotspot.line,
+    rule: hotspot.ruleKey || 'security-hotspot',
+    status: hotspot.status,
+    resolution: hotspot.resolution,
+  };
+}
+
+function mapQualityGate(status: SonarProjectStatus | undefined): SonarQubeResults['qualityGate'] | undefined {
+  // NONE means no gate is associated with the project; fall back to our own thresholds.
+  if (!status || status.status === 'NONE') return undefined;
+
+  const conditions: QualityGateCondition[] = (status.conditions || []).map(c => ({
+    metric: c.metricKey,
+    operator: c.comparator,
+    value: c.actualValue ?? '',
+    status: c.status,
+    errorThreshold: c.errorThreshold,
+  }));
+
+  return { status: status.status, conditions };
+}
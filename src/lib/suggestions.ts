@@ -0,0 +1,114 @@
+// Reviewer decisions on AI suggestions (accept / reject / apply) and applying suggested code to the PR branch.
+import { AICodeSuggestion, AIReviewResult, GitHubConfig, PullRequest } from '../types/codeReview.ts';
+import { commitFileContent, fetchFileContent } from './githubApi.ts';
+import { suggestionFingerprint } from './inlineReview.ts';
+import { parseRepositoryKey, repositoryKey } from './workspace.ts';
+
+export type SuggestionDecision = Exclude<AICodeSuggestion['status'], 'pending'>;
+
+export interface SuggestionStatusRecord {
+  headSha: string;
+  fingerprint: string;
+  suggestionId: string;
+  file: string;
+  message: string;
+  status: SuggestionDecision;
+  commitSha?: string | null;
+}
+
+/** Persistence for decisions, keyed by repository, PR and head SHA. */
+export interface SuggestionStatusStore {
+  list: (owner: string, repo: string, prNumber: number, headSha: string) => Promise<SuggestionStatusRecord[]>;
+  save: (owner: string, repo: string, prNumber: number, record: SuggestionStatusRecord) => Promise<unknown>;
+}
+
+export function toStatusRecord(
+  pr: PullRequest,
+  suggestion: AICodeSuggestion,
+  status: SuggestionDecision,
+  commitSha?: string
+): SuggestionStatusRecord {
+  return {
+    headSha: pr.head.sha,
+    fingerprint: suggestionFingerprint(suggestion),
+    suggestionId: suggestion.id,
+    file: suggestion.file,
+    message: suggestion.message,
+    status,
+    commitSha: commitSha ?? null,
+  };
+}
+
+/**
+ * Carry saved decisions over to a fresh review of the same head.
+ * Suggestions ids are positional, so records are matched on the suggestion fingerprint;
+ * rejected suggestions are dropped so they are neither shown nor posted again.
+ */
+export function applySavedStatuses(review: AIReviewResult, records: SuggestionStatusRecord[]): AIReviewResult {
+  if (records.length === 0) return review;
+
+  const byFingerprint = new Map(records.map(r => [r.fingerprint, r.status]));
+  const suggestions = review.suggestions
+    .map(s => {
+      const status = byFingerprint.get(suggestionFingerprint(s));
+      return status ? { ...s, status } : s;
+    })
+    .filter(s => s.status !== 'rejected');
+
+  return { ...review, suggestions };
+}
+
+/** Replace the lines `code.before` covers with `code.after`, refusing when the file no longer matches. */
+export function replaceSuggestedLines(content: string, suggestion: AICodeSuggestion): string {
+  if (!suggestion.code || !suggestion.line) {
+    throw new Error(`Suggestion #${suggestion.id} has no code change to apply`);
+  }
+
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const before = suggestion.code.before.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  const start = suggestion.line - 1;
+
+  const matches = before.every((line, i) => lines[start + i] !== undefined && lines[start + i].trimEnd() === line.trimEnd());
+  if (!matches) {
+    throw new Error(`${suggestion.file} changed since the review; line ${suggestion.line} no longer matches the suggested code`);
+  }
+
+  const after = suggestion.code.after.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  lines.splice(start, before.length, ...after);
+  return lines.join(eol);
+}
+
+/**
+ * Commit a suggestion's `code.after` to the PR branch through the contents API; returns the commit sha.
+ * The branch is looked up in the repository it lives in, so a fork PR's `main` is never mistaken
+ * for the base repository's.
+ */
+export async function applySuggestionToBranch(
+  config: GitHubConfig,
+  pr: PullRequest,
+  suggestion: AICodeSuggestion,
+  fetchImpl: typeof fetch = fetch
+): Promise<string> {
+  const target = headRepositoryConfig(config, pr);
+
+  // Read from the branch rather than the reviewed sha: the update must be based on the current blob
+  const file = await fetchFileContent(target, suggestion.file, pr.head.ref, fetchImpl);
+  const content = replaceSuggestedLines(file.content, suggestion);
+
+  return commitFileContent(target, suggestion.file, {
+    content,
+    sha: file.sha,
+    branch: pr.head.ref,
+    message: `Apply review suggestion #${suggestion.id}: ${suggestion.message.split('\n')[0].slice(0, 60)}`,
+  }, fetchImpl);
+}
+
+/** The config pointed at the repository holding the PR's head branch; throws when that isn't known. */
+function headRepositoryConfig(config: GitHubConfig, pr: PullRequest): GitHubConfig {
+  const head = pr.head.repository ? parseRepositoryKey(pr.head.repository) : null;
+  if (!head) {
+    throw new Error(`The head repository of PR #${pr.number} is unknown or was deleted; the suggestion can't be applied`);
+  }
+  return repositoryKey(head) === repositoryKey(config) ? config : { ...config, owner: head.owner, repo: head.repo };
+}
@@ -0,0 +1,66 @@
+// Workspace helpers: one set of GitHub credentials and defaults, many repositories with
+// their own overrides. Shared by the dashboard and the review worker.
+import { AIConfig, GitHubConfig, JiraConfig, PullRequest, ThresholdConfig, WorkspaceRepository } from '../types/codeReview.ts';
+
+export interface RepositorySettings {
+  ai: AIConfig;
+  thresholds: ThresholdConfig;
+  jira: JiraConfig;
+}
+
+/** Columns of a `workspace_repositories` row. */
+export interface WorkspaceRepositoryRow {
+  id: string;
+  owner: string;
+  repo: string;
+  thresholds: unknown;
+  ai_overrides: unknown;
+  jira_project_key: string | null;
+}
+
+export function repositoryFromRow(row: WorkspaceRepositoryRow): WorkspaceRepository {
+  return {
+    id: row.id,
+    owner: row.owner,
+    repo: row.repo,
+    thresholds: (row.thresholds as WorkspaceRepository['thresholds']) || undefined,
+    aiOverrides: (row.ai_overrides as WorkspaceRepository['aiOverrides']) || undefined,
+    jiraProjectKey: row.jira_project_key || undefined,
+  };
+}
+
+export function repositoryKey(repository: { owner: string; repo: string }): string {
+  return `${repository.owner}/${repository.repo}`;
+}
+
+/** `owner/repo` back into its parts; null for anything else, such as ALL_REPOSITORIES. */
+export function parseRepositoryKey(key: string): { owner: string; repo: string } | null {
+  const [owner, repo, ...rest] = key.split('/');
+  return owner && repo && rest.length === 0 ? { owner, repo } : null;
+}
+
+export function findRepository(repositories: WorkspaceRepository[], key: string | null | undefined): WorkspaceRepository | undefined {
+  if (!key) return undefined;
+  return repositories.find(r => repositoryKey(r).toLowerCase() === key.toLowerCase());
+}
+
+/** The workspace credentials pointed at one repository. */
+export function githubConfigFor(github: GitHubConfig, repository: { owner: string; repo: string }): GitHubConfig {
+  return { ...github, owner: repository.owner, repo: repository.repo };
+}
+
+/** Workspace defaults with the repository's overrides applied; unset overrides keep the default. */
+export function resolveRepositorySettings(defaults: RepositorySettings, repository?: WorkspaceRepository): RepositorySettings {
+  if (!repository) return defaults;
+
+  return {
+    ai: { ...defaults.ai, ...repository.aiOverrides },
+    thresholds: { ...defaults.thresholds, ...repository.thresholds },
+    jira: repository.jiraProjectKey ? { ...defaults.jira, projectKeyPattern: repository.jiraProjectKey } : defaults.jira,
+  };
+}
+
+/** Pull requests of several repositories as one queue, most recently updated first. */
+export function mergePullRequestQueues(queues: PullRequest[][]): PullRequest[] {
+  return queues.flat().sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+}
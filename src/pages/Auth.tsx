@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Code2, Loader2 } from 'lucide-react';
+
+interface AuthProps {
+  onSignIn: (email: string, password: string) => Promise<boolean>;
+  onSignUp: (email: string, password: string) => Promise<boolean>;
+}
+
+export default function Auth({ onSignIn, onSignUp }: AuthProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (action: AuthProps['onSignIn']) => {
+    setIsSubmitting(true);
+    try {
+      await action(email.trim(), password);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderForm = (mode: 'sign-in' | 'sign-up') => (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit(mode === 'sign-in' ? onSignIn : onSignUp);
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-email`}>Email</Label>
+        <Input
+          id={`${mode}-email`}
+          type="email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+          minLength={6}
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {mode === 'sign-in' ? 'Sign In' : 'Create Account'}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="glass-card w-full max-w-sm">
+        <CardHeader className="text-center">
+          <CardTitle className="flex items-center justify-center gap-2 text-xl">
+            <Code2 className="h-6 w-6 text-primary" />
+            <span className="text-gradient">CodeGate</span>
+          </CardTitle>
+          <CardDescription>
+            Sign in to reach your workspace's repositories and settings
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="sign-in">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="sign-in">Sign In</TabsTrigger>
+              <TabsTrigger value="sign-up">Sign Up</TabsTrigger>
+            </TabsList>
+            <TabsContent value="sign-in">{renderForm('sign-in')}</TabsContent>
+            <TabsContent value="sign-up">{renderForm('sign-up')}</TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,18 +1,26 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useGitHub } from '@/hooks/useGitHub';
 import { useCodeReview } from '@/hooks/useCodeReview';
 import { useAIReview } from '@/hooks/useAIReview';
 import { useJira } from '@/hooks/useJira';
-import { PullRequest, SonarQubeResults, AIReviewResult, ReviewCommand, JiraTicket, BusinessLogicValidation } from '@/types/codeReview';
+import { useReviewPipeline } from '@/hooks/useReviewPipeline';
+import { useSuggestionActions } from '@/hooks/useSuggestionActions';
+import { usePromptTemplates } from '@/hooks/usePromptTemplates';
+import { getReviewRuns, getSuggestionStatuses, saveReviewRun } from '@/hooks/useConfigDatabase';
+import { PullRequest, SonarQubeResults, AIReviewResult, AICodeSuggestion, ReviewCommand, JiraTicket, BusinessLogicValidation } from '@/types/codeReview';
 import { GitHubConfigPanel } from '@/components/dashboard/GitHubConfigPanel';
 import { AIConfigPanel } from '@/components/dashboard/AIConfigPanel';
 import { JiraConfigPanel } from '@/components/dashboard/JiraConfigPanel';
+import { SonarConfigPanel } from '@/components/dashboard/SonarConfigPanel';
 
 import { PRList } from '@/components/dashboard/PRList';
 import { PRDetailPanel } from '@/components/dashboard/PRDetailPanel';
 import { SonarResultsPanel } from '@/components/dashboard/SonarResultsPanel';
 import { AIReviewPanel } from '@/components/dashboard/AIReviewPanel';
 import { ThresholdConfigPanel } from '@/components/dashboard/ThresholdConfigPanel';
+import { RepositoriesPanel } from '@/components/dashboard/RepositoriesPanel';
+import { PromptTemplatesPanel } from '@/components/dashboard/PromptTemplatesPanel';
+import { RateLimitIndicator } from '@/components/dashboard/RateLimitIndicator';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
@@ -26,20 +34,44 @@ import {
   Code2,
   GitMerge,
   MessageSquare,
-  Ticket
+  Ticket,
+  LogOut
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { shouldAutoMerge, decisionReason, AutoMergeConfig } from '@/lib/autoMerge';
-import { saveHistory } from '@/lib/autoMergeHistory';
+import { formatReviewAsMarkdown } from '@/lib/reviewPipeline';
+import { extractTicketId } from '@/lib/jira';
+import { applySavedStatuses } from '@/lib/suggestions';
+import { findRepository, resolveRepositorySettings } from '@/lib/workspace';
+import type { ReviewRun } from '@/lib/reviewRuns';
+
+interface DashboardProps {
+  userEmail?: string;
+  onSignOut?: () => void;
+}
 
-export default function Dashboard() {
+export default function Dashboard({ userEmail, onSignOut }: DashboardProps) {
   const { 
     config, 
+    configFor,
+    savedConfig,
     setConfig, 
+    registerGitHubApp,
+    repositories,
+    activeRepository,
+    setActiveRepository,
+    saveRepository,
+    removeRepository,
     pullRequests, 
+    filters: prFilters,
+    setFilters: setPRFilters,
+    hasMore: hasMorePRs,
+    pagesLoaded: loadedPRPages,
     isLoading, 
+    isLoadingMore: isLoadingMorePRs,
     fetchPullRequests, 
+    loadMorePullRequests,
+    fetchPullRequest,
     fetchPRFiles,
     testConnection,
     postPRComment,
@@ -49,34 +81,74 @@ export default function Dashboard() {
   const { 
     thresholds, 
     setThresholds, 
-    analyzePR, 
-    mockSonarResults,
-    isAnalyzing,
-    analysisProgress 
+    sonarConfig,
+    setSonarConfig,
+    importSonarArtifact,
+    importSonarFile,
   } = useCodeReview();
 
   const {
     aiConfig,
     setAIConfig,
     generateReview,
-    validateBusinessLogic,
-    isGenerating: isGeneratingAI
+    isGenerating: isGeneratingAI,
+    streamingSummary
   } = useAIReview();
 
   const {
     jiraConfig,
     setJiraConfig,
-    extractTicketId,
     fetchTicket,
   } = useJira();
 
+  const {
+    versions: promptTemplateVersions,
+    templatesFor,
+    saveTemplate,
+    restoreVersion,
+  } = usePromptTemplates();
+
   const [selectedPR, setSelectedPR] = useState<PullRequest | null>(null);
+
+  // Workspace defaults with the PR's repository overrides applied
+  const settingsFor = useCallback((repository?: string) => resolveRepositorySettings(
+    { ai: aiConfig, thresholds, jira: jiraConfig },
+    findRepository(repositories, repository)
+  ), [aiConfig, thresholds, jiraConfig, repositories]);
+
+  const repoSettings = useMemo(() => settingsFor(selectedPR?.repository), [settingsFor, selectedPR?.repository]);
+  const prConfig = useMemo(() => configFor(selectedPR?.repository), [configFor, selectedPR?.repository]);
+  const prTemplates = useMemo(() => templatesFor(selectedPR?.repository), [templatesFor, selectedPR?.repository]);
+
+  const {
+    runPipeline,
+    isRunning: isAnalyzing,
+    progress: analysisProgress,
+  } = useReviewPipeline({
+    githubConfig: prConfig,
+    aiConfig: repoSettings.ai,
+    sonarConfig,
+    thresholds: repoSettings.thresholds,
+    jiraConfig: repoSettings.jira,
+    templates: prTemplates,
+  });
+
+  const {
+    setSuggestionStatus,
+    applySuggestion,
+    withSavedStatuses,
+    pendingSuggestionId,
+  } = useSuggestionActions(prConfig);
+
   const [sonarResults, setSonarResults] = useState<SonarQubeResults | null>(null);
   const [aiReview, setAIReview] = useState<AIReviewResult | null>(null);
   const [jiraTicket, setJiraTicket] = useState<JiraTicket | null>(null);
   const [detectedTicketId, setDetectedTicketId] = useState<string | null>(null);
   const [businessLogicValidation, setBusinessLogicValidation] = useState<BusinessLogicValidation | null>(null);
   const [junitScore, setJUnitScore] = useState<number | null>(null);
+  const [reviewRuns, setReviewRuns] = useState<ReviewRun[]>([]);
+  // Runs load in the background; only those of the PR still selected are shown
+  const selectedPRId = useRef<number | null>(null);
   const [isDark, setIsDark] = useState(() => {
     if (typeof window !== 'undefined') {
       return document.documentElement.classList.contains('dark');
@@ -98,19 +170,48 @@ export default function Dashboard() {
     }
   }, [config, fetchPullRequests]);
 
+  const loadReviewRuns = useCallback(async (pr: PullRequest) => {
+    const target = configFor(pr.repository);
+    const runs = target ? await getReviewRuns(target.owner, target.repo, pr.number) : [];
+    if (selectedPRId.current === pr.id) setReviewRuns(runs);
+    return runs;
+  }, [configFor]);
+
   const handleSelectPR = useCallback(async (pr: PullRequest) => {
+    selectedPRId.current = pr.id;
     setSelectedPR(pr);
     setSonarResults(null);
     setAIReview(null);
     setJiraTicket(null);
     setBusinessLogicValidation(null);
     setDetectedTicketId(null);
+    setReviewRuns([]);
+
+    // Listed PRs have no line counts; load the full details in the background
+    fetchPullRequest(pr.number, pr.repository).then(detailed => {
+      if (detailed) setSelectedPR(current => current?.id === detailed.id ? detailed : current);
+    });
+
+    // Show the results of the last run, with the decisions made since, until the PR is analyzed again
+    loadReviewRuns(pr).then(async runs => {
+      if (selectedPRId.current !== pr.id || runs.length === 0) return;
+      const latest = runs.find(run => run.command === 'review') ?? runs[0];
+      const target = configFor(pr.repository);
+      const review = target
+        ? applySavedStatuses(latest.review, await getSuggestionStatuses(target.owner, target.repo, pr.number, pr.head.sha))
+        : latest.review;
+      if (selectedPRId.current !== pr.id) return;
+      setAIReview(current => current ?? review);
+      setSonarResults(current => current ?? runs.find(run => run.sonarResults)?.sonarResults ?? null);
+      setBusinessLogicValidation(current => current ?? runs.find(run => run.businessLogicValidation)?.businessLogicValidation ?? null);
+    });
     
     // Auto-detect and fetch Jira ticket from PR title/branch/body if enabled
-    if (jiraConfig.enabled && jiraConfig.autoDetect) {
-      const fromTitle = extractTicketId(pr.title);
-      const fromBranch = extractTicketId(pr.head.ref);
-      const fromBody = pr.body ? extractTicketId(pr.body) : null;
+    const { jira } = settingsFor(pr.repository);
+    if (jira.enabled && jira.autoDetect) {
+      const fromTitle = extractTicketId(jira, pr.title);
+      const fromBranch = extractTicketId(jira, pr.head.ref);
+      const fromBody = pr.body ? extractTicketId(jira, pr.body) : null;
       const detected = fromTitle || fromBranch || fromBody;
       
       if (detected) {
@@ -126,164 +227,23 @@ export default function Dashboard() {
         }
       }
     }
-  }, [jiraConfig, extractTicketId, fetchTicket]);
-
-  const formatReviewAsMarkdown = (review: AIReviewResult, pr: PullRequest): string => {
-    const suggestions = review.suggestions
-      .map(s => `- **[${s.severity.toUpperCase()}]** ${s.message}\n  - File: \`${s.file}\`${s.line ? ` (line ${s.line})` : ''}\n  - ${s.suggestion}`)
-      .join('\n\n');
-
-    return `## 🤖 AI Code Review for PR #${pr.number}
-
-### Overall Score: ${review.overallScore}/100
-
-### Category Scores
-| Category | Score |
-|----------|-------|
-| Code Quality | ${review.categories.codeQuality}% |
-| Security | ${review.categories.security}% |
-| Performance | ${review.categories.performance}% |
-| Maintainability | ${review.categories.maintainability}% |
-| Testability | ${review.categories.testability}% |
-
-### Summary
-${review.summary}
-
-### Suggestions
-${suggestions || 'No specific suggestions.'}
-
----
-*Generated by ${review.model} at ${new Date(review.timestamp).toLocaleString()}*`;
-  };
+  }, [settingsFor, configFor, fetchTicket, fetchPullRequest, loadReviewRuns]);
 
   const handleRunAnalysis = useCallback(async () => {
     if (!selectedPR) return;
 
-    const files = await fetchPRFiles(selectedPR.number);
-    await analyzePR(selectedPR, files);
-    
-    // Generate SonarQube results
-    const results = mockSonarResults(selectedPR);
-    setSonarResults(results);
-    
-    // Generate AI review with actual code diff and Jira context if available
-    const review = await generateReview(selectedPR, files, { type: 'review', prNumber: selectedPR.number }, jiraTicket);
-    
-    // If Jira ticket is present, also run business logic validation
-    if (jiraTicket) {
-      const validation = await validateBusinessLogic(selectedPR, files, jiraTicket);
-      setBusinessLogicValidation(validation);
-    }
-    
-    if (review) {
-      setAIReview(review);
-
-      // Determine auto-merge behavior based on configurable AI & Sonar thresholds.
-      // Assumptions made:
-      // - AI overall score is 0-100 (higher is better).
-      // - Sonar metric used for the decision is `issuesSummary.total` (lower is better).
-      // - `aiConfig.autoMergeMode === 'less'` means auto-merge when BOTH values are less than thresholds.
-      //   `autoMergeMode === 'greater'` means auto-merge when BOTH values are greater than thresholds.
-      // These choices are configurable via AI settings (defaults set in types).
-
-      const aiScore = review.overallScore;
-      const sonarIssues = results?.issuesSummary?.total ?? Infinity;
-
-      const cfg: AutoMergeConfig = {
-        enabled: !!aiConfig.autoMergeEnabled,
-        mode: aiConfig.autoMergeMode || 'less',
-        aiThreshold: aiConfig.autoMergeThresholdAI ?? 70,
-        sonarThreshold: aiConfig.autoMergeThresholdSonar ?? 5,
-      };
-
-      // Detect if Java files are present in the PR and compute a simple JUnit score heuristic.
-  const hasJava = files.some(f => f.filename.endsWith('.java'));
-      // Heuristic: if the PR includes test files in typical Java test paths, give a high junitScore;
-      // otherwise 0. This is a lightweight approximation since we can't run tests here.
-      const junitTestPatterns = ['/src/test/java/', '/test/java/', '/src/main/java/'];
-      const hasJUnitTestsInPR = files.some(f => junitTestPatterns.some(p => f.filename.includes(p)));
-  const junitScore = hasJava ? (hasJUnitTestsInPR ? 90 : 0) : 100;
-  // store computed junit score for diagnostics
-  setJUnitScore(junitScore);
-
-      const willMergeBase = shouldAutoMerge(aiScore, sonarIssues, cfg);
-      const reasonBase = decisionReason(aiScore, sonarIssues, cfg);
-
-      // If Java files present and the feature is enabled, require junit score threshold as well
-      const junitThreshold = aiConfig.autoMergeThresholdJUnit ?? 70;
-      const requireJUnit = !!aiConfig.requireJUnitForJava;
-      
-      // Properly handle Java/JUnit requirement
-      let finalWillMerge = false;
-      let junitReason = '';
-      if (cfg.enabled) {
-        if (hasJava && requireJUnit) {
-          // Java files present and JUnit required: need both base decision AND junit score
-          finalWillMerge = willMergeBase && junitScore >= junitThreshold;
-          junitReason = `; Java detected, JUnit required: junitScore=${junitScore} >= ${junitThreshold} => ${junitScore >= junitThreshold}`;
-        } else {
-          // Either no Java files, or JUnit not required: just check base decision
-          finalWillMerge = willMergeBase;
-          junitReason = `; hasJava=${hasJava}, requireJUnit=${requireJUnit}`;
-        }
-      }
-
-      // Save decision to history (localStorage)
-      try {
-        saveHistory(selectedPR.number, {
-          timestamp: new Date().toISOString(),
-          aiScore,
-          sonarIssues,
-          mode: cfg.mode,
-          aiThreshold: cfg.aiThreshold,
-          sonarThreshold: cfg.sonarThreshold,
-          decision: finalWillMerge ? 'will_merge' : (cfg.enabled ? 'will_not_merge' : 'disabled'),
-          details: `${reasonBase}${junitReason}; cfgEnabled=${cfg.enabled}`,
-        });
-      } catch (e) {
-        console.error('Failed to save auto-merge history', e);
-      }
+    const result = await runPipeline(selectedPR, jiraTicket);
+    if (!result) return;
 
-      if (finalWillMerge) {
-        toast({
-          title: 'Auto-Merge Triggered',
-          description: 'Configured thresholds met. Attempting to merge...',
-        });
-        console.log(`[AUTO-MERGE] ✅ MERGING PR #${selectedPR.number}: cfg.enabled=${cfg.enabled}, finalWillMerge=${finalWillMerge}`);
-        console.log(`  → aiScore=${aiScore} (threshold ${cfg.aiThreshold}), sonarIssues=${sonarIssues} (threshold ${cfg.sonarThreshold}), mode=${cfg.mode}`);
-        console.log(`  → ${reasonBase}`);
-        const merged = await mergePR(selectedPR.number, selectedPR.title);
-        // update history with result
-        saveHistory(selectedPR.number, {
-          timestamp: new Date().toISOString(),
-          aiScore,
-          sonarIssues,
-          mode: cfg.mode,
-          aiThreshold: cfg.aiThreshold,
-          sonarThreshold: cfg.sonarThreshold,
-          decision: merged ? 'merged' : 'merge_failed',
-          details: merged ? 'Merged successfully' : 'Merge attempt failed',
-        });
-        if (merged) fetchPullRequests();
-      } else {
-        // If auto-merge is enabled but conditions not met, show a block toast.
-        if (aiConfig.autoMergeEnabled) {
-          console.log(`[AUTO-MERGE] ❌ NOT MERGING PR #${selectedPR.number}: cfg.enabled=${cfg.enabled}, finalWillMerge=${finalWillMerge}`);
-          console.log(`  → ${reasonBase}`);
-          console.log(`  → Decision: ${finalWillMerge ? 'SHOULD MERGE' : 'SHOULD NOT MERGE'}`);
-          toast({
-            title: 'Auto-Merge Not Triggered',
-            description: 'Configured thresholds not met — posting review comment instead.',
-          });
-        }
+    setSonarResults(result.sonarResults);
+    setJUnitScore(result.junitScore);
+    if (result.review) setAIReview(result.review);
+    if (result.businessLogicValidation) setBusinessLogicValidation(result.businessLogicValidation);
+    if (result.autoMerge?.merged) fetchPullRequests();
+    loadReviewRuns(selectedPR);
 
-        // Default behavior: post comment if configured
-        if (aiConfig.postToGitHub && config) {
-          const markdown = formatReviewAsMarkdown(review, selectedPR);
-          await postPRComment(selectedPR.number, markdown);
-        }
-      }
-    }
+    const results = result.sonarResults;
+    if (!results) return;
 
     if (results.thresholdCheck.exceeded) {
       toast({
@@ -297,31 +257,86 @@ ${suggestions || 'No specific suggestions.'}
         description: "All quality thresholds met",
       });
     }
-  }, [selectedPR, fetchPRFiles, analyzePR, mockSonarResults, generateReview, validateBusinessLogic, jiraTicket, aiConfig, config, postPRComment, mergePR, fetchPullRequests]);
+  }, [selectedPR, runPipeline, jiraTicket, fetchPullRequests, loadReviewRuns]);
+
+  const handleImportSonarArtifact = useCallback(async () => {
+    if (!selectedPR || !prConfig) return;
+
+    const results = await importSonarArtifact(selectedPR, prConfig);
+    if (results) {
+      setSonarResults(results);
+    }
+  }, [selectedPR, prConfig, importSonarArtifact]);
+
+  const handleDropSonarFile = useCallback(async (file: File) => {
+    const results = await importSonarFile(file);
+    if (results) {
+      setSonarResults(results);
+    }
+  }, [importSonarFile]);
 
   const handleGenerateAIReview = useCallback(async (command: ReviewCommand) => {
     if (!selectedPR) return;
     
-    const files = await fetchPRFiles(selectedPR.number);
-    const review = await generateReview(selectedPR, files, command, jiraTicket);
+    const files = await fetchPRFiles(selectedPR.number, selectedPR.repository);
+    const review = await generateReview(selectedPR, files, command, jiraTicket, repoSettings.ai, prConfig, prTemplates);
     
     if (review) {
-      setAIReview(prev => prev ? { ...prev, ...review } : review);
+      const withStatuses = command.type === 'review' ? await withSavedStatuses(selectedPR, review) : review;
+      setAIReview(prev => {
+        if (!prev) return withStatuses;
+        if (command.type === 'review') return { ...prev, ...withStatuses };
+        // Summary, guide and title answers are unscored; only their text replaces that of the review shown
+        const field = command.type as 'summary' | 'guide' | 'title';
+        return { ...prev, [field]: withStatuses[field] };
+      });
+
+      if (prConfig) {
+        await saveReviewRun(prConfig.owner, prConfig.repo, selectedPR.number, {
+          headSha: selectedPR.head.sha,
+          command: command.type,
+          review: withStatuses,
+          sonarResults,
+          businessLogicValidation,
+        });
+        loadReviewRuns(selectedPR);
+      }
     }
-  }, [selectedPR, fetchPRFiles, generateReview, jiraTicket]);
+  }, [selectedPR, fetchPRFiles, generateReview, jiraTicket, repoSettings, prConfig, prTemplates, withSavedStatuses, sonarResults, businessLogicValidation, loadReviewRuns]);
+
+  const replaceSuggestion = useCallback((updated: AICodeSuggestion) => {
+    setAIReview(prev => prev && {
+      ...prev,
+      suggestions: prev.suggestions.map(s => s.id === updated.id ? updated : s),
+    });
+  }, []);
+
+  const handleSuggestionStatus = useCallback(async (suggestion: AICodeSuggestion, status: 'accepted' | 'rejected') => {
+    if (!selectedPR) return;
+
+    const updated = await setSuggestionStatus(selectedPR, suggestion, status);
+    if (updated) replaceSuggestion(updated);
+  }, [selectedPR, setSuggestionStatus, replaceSuggestion]);
+
+  const handleApplySuggestion = useCallback(async (suggestion: AICodeSuggestion) => {
+    if (!selectedPR) return;
+
+    const updated = await applySuggestion(selectedPR, suggestion);
+    if (updated) replaceSuggestion(updated);
+  }, [selectedPR, applySuggestion, replaceSuggestion]);
 
 
   const handlePostToGitHub = useCallback(async () => {
     if (!selectedPR || !aiReview) return;
     
     const markdown = formatReviewAsMarkdown(aiReview, selectedPR);
-    await postPRComment(selectedPR.number, markdown);
+    await postPRComment(selectedPR.number, markdown, selectedPR.repository);
   }, [selectedPR, aiReview, postPRComment]);
 
   const handleMergePR = useCallback(async () => {
     if (!selectedPR) return;
     
-    const success = await mergePR(selectedPR.number, selectedPR.title);
+    const success = await mergePR(selectedPR.number, selectedPR.title, selectedPR.repository);
     if (success) {
       fetchPullRequests();
     }
@@ -343,6 +358,7 @@ ${suggestions || 'No specific suggestions.'}
           </div>
           
           <div className="flex items-center gap-2">
+            <RateLimitIndicator />
             {/* Quick actions for selected PR */}
             {selectedPR && aiReview && (
               <>
@@ -376,18 +392,18 @@ ${suggestions || 'No specific suggestions.'}
                       <div>AI Score: <span className="font-medium">{aiReview?.overallScore ?? '—'}</span></div>
                       <div>Sonar Issues: <span className="font-medium">{sonarResults?.issuesSummary?.total ?? '—'}</span></div>
                       <div>JUnit Score: <span className="font-medium">{junitScore ?? '—'}</span></div>
-                      <div>Mode: <span className="font-medium">{aiConfig.autoMergeMode ?? 'less'}</span></div>
-                      <div>AI Threshold: <span className="font-medium">{aiConfig.autoMergeThresholdAI ?? 70}</span></div>
-                      <div>Sonar Threshold: <span className="font-medium">{aiConfig.autoMergeThresholdSonar ?? 5}</span></div>
+                      <div>Mode: <span className="font-medium">{repoSettings.ai.autoMergeMode ?? 'less'}</span></div>
+                      <div>AI Threshold: <span className="font-medium">{repoSettings.ai.autoMergeThresholdAI ?? 70}</span></div>
+                      <div>Sonar Threshold: <span className="font-medium">{repoSettings.ai.autoMergeThresholdSonar ?? 5}</span></div>
                       <div className="pt-2">Decision: <span className="font-medium">
                         {(() => {
                           const aiScore = aiReview?.overallScore ?? 0;
                           const sonarIssues = sonarResults?.issuesSummary?.total ?? Infinity;
-                          const mode = aiConfig.autoMergeMode || 'less';
-                          const aiThreshold = aiConfig.autoMergeThresholdAI ?? 70;
-                          const sonarThreshold = aiConfig.autoMergeThresholdSonar ?? 5;
+                          const mode = repoSettings.ai.autoMergeMode || 'less';
+                          const aiThreshold = repoSettings.ai.autoMergeThresholdAI ?? 70;
+                          const sonarThreshold = repoSettings.ai.autoMergeThresholdSonar ?? 5;
 
-                          if (!aiConfig.autoMergeEnabled) return 'Auto-merge disabled';
+                          if (!repoSettings.ai.autoMergeEnabled) return 'Auto-merge disabled';
                           if (mode === 'less') {
                             return (aiScore < aiThreshold && sonarIssues < sonarThreshold) ? 'Will auto-merge' : 'Will NOT auto-merge';
                           }
@@ -406,6 +422,16 @@ ${suggestions || 'No specific suggestions.'}
             >
               {isDark ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
             </Button>
+            {onSignOut && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onSignOut}
+                title={userEmail ? `Sign out ${userEmail}` : 'Sign out'}
+              >
+                <LogOut className="h-5 w-5" />
+              </Button>
+            )}
           </div>
         </div>
       </header>
@@ -433,9 +459,10 @@ ${suggestions || 'No specific suggestions.'}
             {!config ? (
               <div className="max-w-2xl mx-auto">
                 <GitHubConfigPanel
-                  config={config}
+                  config={savedConfig}
                   onSave={setConfig}
                   onTest={testConnection}
+                  onRegisterApp={registerGitHubApp}
                   isLoading={isLoading}
                 />
               </div>
@@ -449,6 +476,15 @@ ${suggestions || 'No specific suggestions.'}
                     onSelectPR={handleSelectPR}
                     onRefresh={fetchPullRequests}
                     isLoading={isLoading}
+                    filters={prFilters}
+                    onFiltersChange={setPRFilters}
+                    hasMore={hasMorePRs}
+                    pagesLoaded={loadedPRPages}
+                    onLoadMore={loadMorePullRequests}
+                    isLoadingMore={isLoadingMorePRs}
+                    repositories={repositories}
+                    activeRepository={activeRepository}
+                    onRepositoryChange={setActiveRepository}
                   />
                 </div>
 
@@ -461,7 +497,8 @@ ${suggestions || 'No specific suggestions.'}
                     aiReview={aiReview}
                     onRunAnalysis={handleRunAnalysis}
                     isAnalyzing={isAnalyzing}
-                    config={config}
+                    config={prConfig}
+                    reviewRuns={reviewRuns}
                   />
 
                   {/* Analysis Results - Two Column Layout */}
@@ -471,13 +508,19 @@ ${suggestions || 'No specific suggestions.'}
                         results={sonarResults}
                         isAnalyzing={isAnalyzing}
                         progress={analysisProgress}
+                        onImportArtifact={handleImportSonarArtifact}
+                        onDropFile={handleDropSonarFile}
                       />
                       <AIReviewPanel
                         pr={selectedPR}
                         review={aiReview}
                         onGenerateReview={handleGenerateAIReview}
                         isGenerating={isGeneratingAI}
+                        streamingSummary={streamingSummary}
                         jiraTicket={jiraTicket}
+                        onSuggestionStatus={handleSuggestionStatus}
+                        onApplySuggestion={handleApplySuggestion}
+                        pendingSuggestionId={pendingSuggestionId}
                       />
                     </div>
                   )}
@@ -490,9 +533,10 @@ ${suggestions || 'No specific suggestions.'}
           <TabsContent value="settings" className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               <GitHubConfigPanel
-                config={config}
+                config={savedConfig}
                 onSave={setConfig}
                 onTest={testConnection}
+                onRegisterApp={registerGitHubApp}
                 isLoading={isLoading}
               />
               <AIConfigPanel
@@ -504,19 +548,37 @@ ${suggestions || 'No specific suggestions.'}
                 onSave={setJiraConfig}
               />
             </div>
-            <div className="max-w-2xl">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <ThresholdConfigPanel
                 thresholds={thresholds}
                 onSave={setThresholds}
                 aiConfig={aiConfig}
                 onAIConfigSave={setAIConfig}
               />
+              <SonarConfigPanel
+                config={sonarConfig}
+                onSave={setSonarConfig}
+              />
             </div>
+            <RepositoriesPanel
+              repositories={repositories}
+              onSave={saveRepository}
+              onRemove={removeRepository}
+            />
+            <PromptTemplatesPanel
+              versions={promptTemplateVersions}
+              repositories={repositories}
+              onSave={saveTemplate}
+              onRestore={restoreVersion}
+              previewPR={selectedPR}
+              fetchPreviewFiles={(pr) => fetchPRFiles(pr.number, pr.repository)}
+              jiraTicket={jiraTicket}
+            />
           </TabsContent>
 
           {/* Webhook Tab */}
           <TabsContent value="webhook" className="space-y-6">
-            <WebhookInfoPanel config={config} />
+            <WebhookInfoPanel config={savedConfig} />
           </TabsContent>
         </Tabs>
       </main>
@@ -524,10 +586,9 @@ ${suggestions || 'No specific suggestions.'}
   );
 }
 
-function WebhookInfoPanel({ config }: { config: { owner: string; repo: string; webhookSecret?: string } | null }) {
-  const webhookUrl = typeof window !== 'undefined' 
-    ? `${window.location.origin}/api/webhook/github` 
-    : '';
+function WebhookInfoPanel({ config }: { config: { owner: string; repo: string; webhookSecretLastFour?: string } | null }) {
+  // Deliveries are verified and queued by the github-webhook edge function
+  const webhookUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-webhook`;
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -570,7 +631,7 @@ function WebhookInfoPanel({ config }: { config: { owner: string; repo: string; w
             <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
               <li>Pull requests</li>
               <li>Pull request reviews</li>
-              <li>Pull request review comments</li>
+              <li>Pull request review comments (for @ai commands in review threads)</li>
               <li>Issue comments (for @ai commands)</li>
             </ul>
           </div>
@@ -578,9 +639,9 @@ function WebhookInfoPanel({ config }: { config: { owner: string; repo: string; w
           <div>
             <h3 className="text-sm font-medium text-muted-foreground mb-2">4. Secret</h3>
             <p className="text-sm text-muted-foreground mb-2">
-              {config?.webhookSecret 
+              {config?.webhookSecretLastFour
                 ? "Webhook secret is configured. Use the same secret in GitHub."
-                : "Configure a webhook secret in Settings for secure webhook verification."}
+                : "Configure a webhook secret in Settings. Deliveries without a valid signature are rejected."}
             </p>
           </div>
 
@@ -1,7 +1,25 @@
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import Auth from './Auth';
 import Dashboard from './Dashboard';
 
 const Index = () => {
-  return <Dashboard />;
+  const { user, isLoading, signIn, signUp, signOut } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Auth onSignIn={signIn} onSignUp={signUp} />;
+  }
+
+  // Keyed by user so every setting is reloaded from the new user's workspace
+  return <Dashboard key={user.id} userEmail={user.email} onSignOut={signOut} />;
 };
 
-export default Index;
\ No newline at end of file
+export default Index;
@@ -1,16 +1,45 @@
 export interface GitHubConfig {
+  /**
+   * Personal access token, or the current installation token when `authMode` is 'app'.
+   * Only set server-side and while entering a new token; the browser gets `tokenLastFour`.
+   */
   token: string;
+  tokenLastFour?: string;
   owner: string;
   repo: string;
+  /** Only set server-side and while entering a new secret; the browser gets `webhookSecretLastFour`. */
   webhookSecret?: string;
+  webhookSecretLastFour?: string;
+  authMode?: 'token' | 'app';
+  /** GitHub App ID and installation; the private key only lives server-side. */
+  appId?: string;
+  installationId?: string;
+}
+
+/**
+ * A repository watched by the workspace. The GitHub credentials are shared; thresholds,
+ * AI settings and the Jira project can be overridden per repository.
+ */
+export interface WorkspaceRepository {
+  id?: string;
+  owner: string;
+  repo: string;
+  thresholds?: Partial<ThresholdConfig>;
+  aiOverrides?: Partial<Omit<AIConfig, 'apiKey' | 'apiKeyLastFour'>>;
+  /** Jira project key(s) for ticket detection, e.g. `PAY` or `PAY|SHOP`. */
+  jiraProjectKey?: string;
 }
 
+/** Repository switcher value that shows the pull requests of every repository in one queue. */
+export const ALL_REPOSITORIES = 'all';
+
 export interface PullRequest {
   id: number;
   number: number;
   title: string;
   body: string | null;
   state: 'open' | 'closed' | 'merged';
+  isDraft?: boolean;
   author: string;
   authorAvatar: string;
   createdAt: string;
@@ -18,6 +47,8 @@ export interface PullRequest {
   head: {
     ref: string;
     sha: string;
+    /** `owner/repo` the head branch lives in: a fork for fork PRs, null when the fork was deleted. */
+    repository?: string | null;
   };
   base: {
     ref: string;
@@ -29,6 +60,38 @@ export interface PullRequest {
   reviewState?: ReviewState;
   sonarResults?: SonarQubeResults;
   aiReview?: AIReviewResult;
+  /** `owner/repo` the PR belongs to, set when it was listed through the workspace. */
+  repository?: string;
+  // Only available when the PR was loaded through the GraphQL API
+  reviewDecision?: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;
+  mergeable?: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+  checksState?: 'SUCCESS' | 'FAILURE' | 'ERROR' | 'PENDING' | 'EXPECTED' | null;
+  linkedIssues?: LinkedIssue[];
+}
+
+export interface LinkedIssue {
+  number: number;
+  title: string;
+  url: string;
+}
+
+export interface PRFilters {
+  state: 'open' | 'closed' | 'merged' | 'all';
+  author?: string;
+  base?: string;
+  label?: string;
+}
+
+export const DEFAULT_PR_FILTERS: PRFilters = {
+  state: 'all',
+};
+
+export interface PRFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
 }
 
 export type ReviewState = 'pending' | 'analyzing' | 'completed' | 'failed';
@@ -39,6 +102,10 @@ export interface SonarQubeResults {
     pullRequest: number;
     timestamp: string;
     scanDuration: number;
+    /** Head commit the analysis was run against, when known. */
+    commitSha?: string;
+    /** Where the results were read from: the Sonar Web API, the CI artifact, or a dropped file. */
+    source?: 'server' | 'artifact' | 'file';
   };
   qualityGate: {
     status: 'OK' | 'ERROR' | 'WARN';
@@ -131,6 +198,87 @@ export interface AIReviewResult {
   };
   timestamp: string;
   model: string;
+  /** Files left out of the review because they have no diff or don't fit the model's budget. */
+  skippedFiles?: SkippedFile[];
+  /** Per-model scores when several models reviewed the PR; the scores above are their mean. */
+  consensus?: ConsensusResult;
+  /** The repository's review rules that matched the reviewed files. */
+  rules?: AppliedRules;
+  /** Set when only the commits pushed since an earlier review were reviewed. */
+  incremental?: IncrementalReview;
+  /** Hash of the prompt template used, to tell apart runs with different wording. */
+  promptHash?: string;
+  usage?: TokenUsage;
+  /** Set when no code was scored (summaries, guides, titles): the scores above mean nothing and never auto-merge. */
+  unscored?: boolean;
+}
+
+/** Tokens sent and received, repair attempts included; estimated from the text like batch budgets. */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface IncrementalReview {
+  /** Head SHA of the earlier review. */
+  since: string;
+  /** Files changed since then, which were sent to the model. */
+  files: string[];
+  /** Number of earlier suggestions kept because their lines didn't change. */
+  carried: number;
+  /** Earlier suggestions whose lines changed, or whose file left the PR. */
+  addressed: AICodeSuggestion[];
+}
+
+/** A team rule from the repository's rules file, given to the model for the files it covers. */
+export interface ReviewRule {
+  id: string;
+  /** Globs of the files the rule covers; empty for every file. */
+  paths: string[];
+  instruction: string;
+  /** Severity of every suggestion citing this rule, whatever the model picked. */
+  severity?: AICodeSuggestion['severity'];
+}
+
+export interface AppliedRules {
+  /** Path of the rules file on the base branch. */
+  source: string;
+  rules: ReviewRule[];
+}
+
+export interface ConsensusModelScore {
+  provider: AIProvider;
+  model: string;
+  overallScore: number;
+  categories: AIReviewResult['categories'];
+}
+
+export interface ConsensusFailure {
+  provider: AIProvider;
+  model: string;
+  error: string;
+}
+
+/** How far the models' scores agree: `spread` is max - min, and confidence drops as it widens. */
+export interface ScoreSpread {
+  mean: number;
+  min: number;
+  max: number;
+  spread: number;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface ConsensusResult {
+  models: ConsensusModelScore[];
+  /** Models whose review failed; they count as not clearing the threshold. */
+  failed: ConsensusFailure[];
+  overall: ScoreSpread;
+  categories: Record<keyof AIReviewResult['categories'], ScoreSpread>;
+}
+
+export interface SkippedFile {
+  filename: string;
+  reason: 'binary' | 'too-large';
 }
 
 export interface AICodeSuggestion {
@@ -146,17 +294,46 @@ export interface AICodeSuggestion {
     after: string;
   };
   status: 'pending' | 'accepted' | 'rejected' | 'applied';
+  /** In consensus reviews, the models that raised this suggestion (or a similar one). */
+  agreement?: SuggestionAgreement;
+  /** Id of the repository review rule the suggestion enforces. */
+  rule?: string;
+}
+
+export interface SuggestionAgreement {
+  count: number;
+  total: number;
+  /** `provider/model` of each model that raised it. */
+  models: string[];
 }
 
 export interface ReviewCommand {
   type: 'review' | 'summary' | 'guide' | 'title' | 'dismiss' | 'resolve' | 'issue';
   prNumber: number;
   context?: string;
+  /** Suggestion id for dismiss, resolve and issue. */
+  targetId?: string;
 }
 
+export type WebhookEventType = 'pull_request' | 'pull_request_review' | 'pull_request_review_comment' | 'issue_comment';
+
 export interface WebhookEvent {
+  type: WebhookEventType;
   action: string;
+  /** X-GitHub-Delivery header, unique per delivery and reused on redelivery. */
+  deliveryId?: string;
+  prNumber: number;
   pullRequest?: PullRequest;
+  comment?: {
+    id: number;
+    body: string;
+    author: string;
+  };
+  review?: {
+    id: number;
+    state: string;
+    body: string | null;
+  };
   repository: {
     fullName: string;
   };
@@ -187,12 +364,28 @@ export const DEFAULT_THRESHOLDS: ThresholdConfig = {
   criticalIssues: 0,
 };
 
-export type AIProvider = 'openai' | 'anthropic' | 'google' | 'groq';
+/** Ids of the adapters in the provider registry (src/lib/aiProviders.ts). */
+export type AIProvider =
+  | 'openai'
+  | 'anthropic'
+  | 'google'
+  | 'groq'
+  | 'azure-openai'
+  | 'ollama'
+  | 'llamacpp'
+  | 'vllm';
 
 export interface AIConfig {
   provider: AIProvider;
+  /** Only set server-side and while entering a new key; the browser gets `apiKeyLastFour`. */
   apiKey: string;
+  apiKeyLastFour?: string;
+  /** For Azure OpenAI, the deployment name. */
   model: string;
+  /** API root for Azure OpenAI and self-hosted servers (Ollama, llama.cpp, vLLM). */
+  baseUrl?: string;
+  /** Context window (tokens) of the model; overrides the registry's value, e.g. for a self-hosted model. */
+  contextWindow?: number;
   autoMergeEnabled: boolean;
   postToGitHub: boolean;
   /**
@@ -208,6 +401,44 @@ export interface AIConfig {
   autoMergeThresholdJUnit?: number;
   /** When true, require JUnit threshold when Java files are present to auto-merge. */
   requireJUnitForJava?: boolean;
+  /**
+   * How reviews are posted: 'summary' upserts one PR comment, 'inline' submits a PR review
+   * with a comment on each suggestion's line and keeps the summary for the rest.
+   */
+  commentMode?: 'summary' | 'inline';
+  /** How much of the repository full reviews see besides the diff; defaults to 'diff'. */
+  contextDepth?: ContextDepth;
+  /** Review with more models and merge their answers. */
+  consensus?: ConsensusConfig;
+  /** Re-runs of a reviewed PR only review the commits pushed since; on unless set to false. */
+  incrementalReview?: boolean;
+}
+
+/**
+ * Context given to full reviews: only the diff, the head version of the changed files, those plus
+ * the imported code the changed lines use, or all of that plus callers of changed exports.
+ */
+export type ContextDepth = 'diff' | 'files' | 'imports' | 'repository';
+
+/** A model reviewing alongside the primary one in consensus mode. */
+export interface ConsensusReviewer {
+  provider: AIProvider;
+  model: string;
+  baseUrl?: string;
+  contextWindow?: number;
+  /**
+   * Only set server-side and while entering a new key; the browser gets `apiKeyLastFour`.
+   * Reviewers on the primary provider use the primary key.
+   */
+  apiKey?: string;
+  apiKeyLastFour?: string;
+}
+
+export interface ConsensusConfig {
+  enabled: boolean;
+  reviewers: ConsensusReviewer[];
+  /** Auto-merge only when every model's score clears the AI threshold on its own. */
+  requireAll: boolean;
 }
 
 export const DEFAULT_AI_CONFIG: AIConfig = {
@@ -223,19 +454,14 @@ export const DEFAULT_AI_CONFIG: AIConfig = {
   requireJUnitForJava: false,
 };
 
-export const AI_MODELS: Record<AIProvider, string[]> = {
-  openai: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'],
-  anthropic: ['claude-sonnet-4-20250514', 'claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307'],
-  google: ['gemini-1.5-pro', 'gemini-1.5-flash', 'gemini-pro'],
-  groq: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant', 'mixtral-8x7b-32768'],
-};
-
 // Jira Integration Types
 export interface JiraConfig {
   enabled: boolean;
   domain: string;
   email: string;
+  /** Only set server-side and while entering a new token; the browser gets `apiTokenLastFour`. */
   apiToken: string;
+  apiTokenLastFour?: string;
   autoDetect: boolean;
   projectKeyPattern?: string;
 }
@@ -281,4 +507,21 @@ export interface BusinessLogicValidation {
   additionalChanges: string[];
   score: number;
   summary: string;
-}
\ No newline at end of file
+}
+// SonarQube Integration Types
+export interface SonarConfig {
+  enabled: boolean;
+  /** Base URL of the SonarQube server, or https://sonarcloud.io for SonarCloud. */
+  hostUrl: string;
+  /** Only set server-side and while entering a new token; the browser gets `tokenLastFour`. */
+  token: string;
+  tokenLastFour?: string;
+  projectKey: string;
+}
+
+export const DEFAULT_SONAR_CONFIG: SonarConfig = {
+  enabled: false,
+  hostUrl: '',
+  token: '',
+  projectKey: '',
+};
@@ -0,0 +1,72 @@
+// Installation tokens for the configured GitHub App, shared by the github-proxy and review-worker
+// edge functions. The App's private key is kept in the vault; tokens are only cached in memory, so a
+// warm instance reuses them until shortly before they expire.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createInstallationToken, InstallationToken, needsRefresh } from '../../../src/lib/githubAppAuth.ts';
+import { getWorkspaceSecret } from './workspaceSecrets.ts';
+
+export interface AppInstallation {
+  appId: string;
+  privateKey: string;
+  token: InstallationToken | null;
+}
+
+export interface InstallationStore {
+  get: (installationId: string) => Promise<AppInstallation | null>;
+  saveToken: (installationId: string, token: InstallationToken) => Promise<void>;
+}
+
+/**
+ * Installations registered to `workspaceId`. The installation id comes from the workspace's config,
+ * which any member can edit, so another workspace's installation must never be found.
+ */
+// Keyed by workspace and installation; lives as long as the edge function instance
+const cachedTokens = new Map<string, InstallationToken>();
+
+export function installationStore(supabase: SupabaseClient, workspaceId: string): InstallationStore {
+  return {
+    get: async (installationId) => {
+      const { data, error } = await supabase
+        .from('github_app_installations')
+        .select('app_id')
+        .eq('workspace_id', workspaceId)
+        .eq('installation_id', installationId)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      if (!data) return null;
+
+      const privateKey = await getWorkspaceSecret(supabase, workspaceId, 'github_app_private_key');
+      if (!privateKey) throw new Error('The GitHub App private key is not configured');
+
+      return {
+        appId: data.app_id,
+        privateKey,
+        token: cachedTokens.get(`${workspaceId}:${installationId}`) ?? null,
+      };
+    },
+    saveToken: async (installationId, token) => {
+      cachedTokens.set(`${workspaceId}:${installationId}`, token);
+    },
+  };
+}
+
+/** Cached installation token, or a freshly minted one when it's missing or about to expire. */
+export async function getInstallationToken(
+  store: InstallationStore,
+  installationId: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<InstallationToken> {
+  const installation = await store.get(installationId);
+  if (!installation) {
+    throw new Error(`GitHub App installation ${installationId} is not registered to this workspace`);
+  }
+
+  if (!needsRefresh(installation.token)) {
+    return installation.token!;
+  }
+
+  const token = await createInstallationToken(installation.appId, installationId, installation.privateKey, fetchImpl);
+  await store.saveToken(installationId, token);
+  return token;
+}
@@ -0,0 +1,243 @@
+// GitHub webhook parsing and verification shared by the github-webhook edge function.
+// Kept free of Deno and network APIs so it can be exercised with recorded payloads.
+import type { ReviewCommand, WebhookEvent, WebhookEventType } from '../../../src/types/codeReview.ts';
+import { parseReviewCommand } from '../../../src/lib/reviewCommands.ts';
+import { GitHubPullRequestPayload, GitHubUser, mapPullRequest } from '../../../src/lib/pullRequests.ts';
+
+export interface ReviewQueueItem {
+  owner: string;
+  repo: string;
+  prNumber: number;
+  headSha: string | null;
+  eventType: WebhookEventType;
+  action: string;
+  deliveryId: string | null;
+  command: ReviewCommand['type'] | null;
+  context: string | null;
+  /** Comment that issued the command; replies go to its thread. */
+  commentId: number | null;
+  requestedBy: string;
+}
+
+/** A workspace watching the repository, with the secret of its webhook. */
+export interface WebhookSubscriber {
+  workspaceId: string;
+  secret: string;
+}
+
+export interface WebhookDeps {
+  /** Workspaces watching the repository that have a webhook secret; empty when none does. */
+  getWebhookSubscribers: (repoFullName: string) => Promise<WebhookSubscriber[]>;
+  /** Queue the review in the workspace whose secret signed the delivery. */
+  enqueueReview: (item: ReviewQueueItem, workspaceId: string) => Promise<void>;
+}
+
+// Pull request actions that change the code under review
+const REVIEWABLE_PR_ACTIONS = ['opened', 'reopened', 'synchronize', 'ready_for_review'];
+
+const jsonHeaders = { 'Content-Type': 'application/json' };
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: jsonHeaders });
+}
+
+export async function handleWebhookRequest(req: Request, deps: WebhookDeps): Promise<Response> {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const eventName = req.headers.get('x-github-event');
+  const deliveryId = req.headers.get('x-github-delivery');
+  const signature = req.headers.get('x-hub-signature-256');
+  const rawBody = await req.text();
+
+  let payload: GitHubPayload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return json({ error: 'Invalid JSON payload' }, 400);
+  }
+
+  const repoFullName = payload.repository?.full_name;
+  if (!eventName || !repoFullName) {
+    return json({ error: 'Missing event type or repository' }, 400);
+  }
+
+  const subscribers = await deps.getWebhookSubscribers(repoFullName);
+  if (subscribers.length === 0) {
+    return json({ error: `No webhook secret configured for ${repoFullName}` }, 401);
+  }
+
+  // Every watching workspace has a hook of its own; the delivery belongs to the one that signed it
+  let signer: WebhookSubscriber | undefined;
+  for (const subscriber of subscribers) {
+    if (await verifySignature(subscriber.secret, rawBody, signature)) {
+      signer = subscriber;
+      break;
+    }
+  }
+  if (!signer) {
+    return json({ error: 'Invalid signature' }, 401);
+  }
+
+  if (eventName === 'ping') {
+    return json({ ok: true });
+  }
+
+  const event = parseWebhookEvent(eventName, payload, deliveryId);
+  if (!event) {
+    return json({ queued: false, reason: `Ignored ${eventName} event` }, 202);
+  }
+
+  const item = toReviewQueueItem(event);
+  if (!item) {
+    return json({ queued: false, reason: `Ignored ${event.type}.${event.action}` }, 202);
+  }
+
+  await deps.enqueueReview(item, signer.workspaceId);
+  return json({ queued: true, prNumber: item.prNumber, command: item.command }, 202);
+}
+
+/** Verify an X-Hub-Signature-256 header ("sha256=<hex>") against the raw request body. */
+export async function verifySignature(secret: string, rawBody: string, header: string | null): Promise<boolean> {
+  if (!header || !header.startsWith('sha256=')) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(rawBody)));
+  const expected = Array.from(mac, b => b.toString(16).padStart(2, '0')).join('');
+
+  return timingSafeEqual(expected, header.slice('sha256='.length).toLowerCase());
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// Subset of the GitHub webhook payloads we read
+interface GitHubPayload {
+  action?: string;
+  number?: number;
+  pull_request?: GitHubPullRequestPayload;
+  review?: { id: number; state: string; body: string | null };
+  issue?: { number: number; pull_request?: unknown };
+  comment?: { id: number; body: string; user: GitHubUser };
+  repository?: { full_name: string };
+  sender?: GitHubUser;
+}
+
+/** Convert a raw webhook payload to a WebhookEvent; returns null for events we don't handle. */
+export function parseWebhookEvent(eventName: string, payload: GitHubPayload, deliveryId?: string | null): WebhookEvent | null {
+  const base = {
+    action: payload.action || '',
+    deliveryId: deliveryId || undefined,
+    repository: { fullName: payload.repository?.full_name || '' },
+    sender: { login: payload.sender?.login || '' },
+  };
+
+  switch (eventName) {
+    case 'pull_request':
+      if (!payload.pull_request) return null;
+      return {
+        ...base,
+        type: 'pull_request',
+        prNumber: payload.pull_request.number,
+        pullRequest: mapPullRequest(payload.pull_request),
+      };
+
+    case 'pull_request_review':
+      if (!payload.pull_request || !payload.review) return null;
+      return {
+        ...base,
+        type: 'pull_request_review',
+        prNumber: payload.pull_request.number,
+        pullRequest: mapPullRequest(payload.pull_request),
+        review: {
+          id: payload.review.id,
+          state: payload.review.state,
+          body: payload.review.body,
+        },
+      };
+
+    case 'pull_request_review_comment':
+      if (!payload.pull_request || !payload.comment || payload.comment.user.type === 'Bot') return null;
+      return {
+        ...base,
+        type: 'pull_request_review_comment',
+        prNumber: payload.pull_request.number,
+        pullRequest: mapPullRequest(payload.pull_request),
+        comment: {
+          id: payload.comment.id,
+          body: payload.comment.body,
+          author: payload.comment.user.login,
+        },
+      };
+
+    case 'issue_comment':
+      // Issue comments fire for plain issues too; only pull request conversations matter here
+      if (!payload.issue?.pull_request || !payload.comment || payload.comment.user.type === 'Bot') return null;
+      return {
+        ...base,
+        type: 'issue_comment',
+        prNumber: payload.issue.number,
+        comment: {
+          id: payload.comment.id,
+          body: payload.comment.body,
+          author: payload.comment.user.login,
+        },
+      };
+
+    default:
+      return null;
+  }
+}
+
+/** Decide whether an event should trigger a review run. */
+export function toReviewQueueItem(event: WebhookEvent): ReviewQueueItem | null {
+  const [owner, repo] = event.repository.fullName.split('/');
+  const base = {
+    owner,
+    repo,
+    prNumber: event.prNumber,
+    headSha: event.pullRequest?.head.sha ?? null,
+    eventType: event.type,
+    action: event.action,
+    deliveryId: event.deliveryId ?? null,
+    commentId: null,
+    requestedBy: event.sender.login,
+  };
+
+  if (event.type === 'pull_request') {
+    const pr = event.pullRequest;
+    if (!pr || pr.state !== 'open' || pr.isDraft || !REVIEWABLE_PR_ACTIONS.includes(event.action)) return null;
+    return { ...base, command: 'review', context: null };
+  }
+
+  if (event.type === 'issue_comment' || event.type === 'pull_request_review_comment') {
+    // Only new comments addressed to the bot are queued. Invalid commands are queued
+    // without a command so the worker can answer with the available commands.
+    if (event.action !== 'created' || !event.comment) return null;
+    const parsed = parseReviewCommand(event.comment.body, event.prNumber);
+    if (!parsed) return null;
+    return {
+      ...base,
+      command: parsed.ok ? parsed.command.type : null,
+      context: event.comment.body,
+      commentId: event.comment.id,
+      requestedBy: event.comment.author,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,55 @@
+// Relays a request the browser built (see src/lib/edgeProxy.ts) to the GitHub API with
+// stored credentials added, and the upstream response back unchanged.
+import type { ProxiedRequest } from '../../../src/lib/secrets.ts';
+
+export const proxyCorsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  // The GitHub client reads these for caching, paging and rate limits
+  'Access-Control-Expose-Headers': 'etag, link, retry-after, x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset, x-ratelimit-used, x-ratelimit-resource',
+};
+
+const FORWARDED_REQUEST_HEADERS = ['accept', 'content-type', 'if-none-match', 'x-github-api-version'];
+const RELAYED_RESPONSE_HEADERS = ['content-type', 'etag', 'link', 'retry-after', 'x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset', 'x-ratelimit-used', 'x-ratelimit-resource'];
+
+/** Error in the shape the GitHub helpers read (`message`). */
+export function proxyError(message: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ message }),
+    { status, headers: { ...proxyCorsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+/** Request headers safe to pass upstream; credentials are added by the caller. */
+export function forwardedHeaders(proxied: ProxiedRequest): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(proxied.headers || {})) {
+    if (FORWARDED_REQUEST_HEADERS.includes(name.toLowerCase())) headers[name] = value;
+  }
+  return headers;
+}
+
+/**
+ * A credential the browser sent itself, e.g. to test a key before saving it; null when it left the
+ * field blank and the stored secret should be used.
+ */
+export function suppliedCredential(value: string | null | undefined): string | null {
+  const credential = value?.replace(/^(Bearer|token)\b/i, '').trim();
+  return credential || null;
+}
+
+export async function relay(proxied: ProxiedRequest, url: URL, headers: Record<string, string>): Promise<Response> {
+  const upstream = await fetch(url, {
+    method: proxied.method,
+    headers,
+    body: proxied.body,
+  });
+
+  const responseHeaders = new Headers(proxyCorsHeaders);
+  for (const name of RELAYED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  }
+
+  return new Response(upstream.status === 304 ? null : upstream.body, { status: upstream.status, headers: responseHeaders });
+}
@@ -0,0 +1,22 @@
+// Edge functions run with the service role, which bypasses row-level security,
+// so requests on behalf of a browser user check workspace membership here.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/** Whether the signed-in caller of `req` belongs to the workspace. */
+export async function isWorkspaceMember(supabase: SupabaseClient, req: Request, workspaceId: string): Promise<boolean> {
+  const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!jwt) return false;
+
+  const { data: { user } } = await supabase.auth.getUser(jwt);
+  if (!user) return false;
+
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('id')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return !!data;
+}
@@ -0,0 +1,65 @@
+// Workspace settings with their secrets decrypted from the vault. Service role only:
+// get_workspace_secret is not executable by browser sessions.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isSecretConfigType, reviewerSecretName, SECRET_FIELDS, SecretName, withReviewerKeys, withSecret } from '../../../src/lib/secrets.ts';
+import type { AIConfig, GitHubConfig } from '../../../src/types/codeReview.ts';
+import { getInstallationToken, installationStore } from './githubAppToken.ts';
+
+export async function getWorkspaceSecret(supabase: SupabaseClient, workspaceId: string, name: SecretName): Promise<string | null> {
+  const { data, error } = await supabase.rpc('get_workspace_secret', { _workspace_id: workspaceId, _name: name });
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+async function getWorkspaceSecrets(supabase: SupabaseClient, workspaceId: string, names: SecretName[]): Promise<Partial<Record<SecretName, string | null>>> {
+  return Object.fromEntries(await Promise.all(names.map(async (name) => [name, await getWorkspaceSecret(supabase, workspaceId, name)] as const)));
+}
+
+/** Consensus reviewers' keys; reviewers on the primary provider get the primary key. */
+async function withWorkspaceReviewerKeys(supabase: SupabaseClient, workspaceId: string, config: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const ai = config as unknown as AIConfig;
+  const providers = [...new Set((ai.consensus?.reviewers || []).map(r => r.provider))].filter(p => p !== ai.provider);
+  const secrets = await Promise.all(providers.map(async (provider) => {
+    const name = reviewerSecretName(provider);
+    return [name, await getWorkspaceSecret(supabase, workspaceId, name)] as const;
+  }));
+  return { ...withReviewerKeys(ai, Object.fromEntries(secrets)) };
+}
+
+/**
+ * The workspace's config rows keyed by type, limited to `types` when given. Secrets are filled in,
+ * and in GitHub App mode `github.token` is a current installation token.
+ */
+export async function loadWorkspaceConfigs(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  types?: string[]
+): Promise<Record<string, Record<string, unknown>>> {
+  let query = supabase
+    .from('app_configurations')
+    .select('config_type, config_data')
+    .eq('workspace_id', workspaceId);
+  if (types) query = query.in('config_type', types);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+
+  const entries = await Promise.all((data || []).map(async (row) => {
+    const type: string = row.config_type;
+    let config = row.config_data as Record<string, unknown>;
+
+    if (isSecretConfigType(type)) {
+      config = withSecret(type, config, await getWorkspaceSecrets(supabase, workspaceId, SECRET_FIELDS[type].map(f => f.name)));
+      if (type === 'ai') config = await withWorkspaceReviewerKeys(supabase, workspaceId, config);
+    }
+    if (type === 'github' && (config as Partial<GitHubConfig>).authMode === 'app') {
+      const installationId = (config as Partial<GitHubConfig>).installationId;
+      if (!installationId) throw new Error('GitHub App installation is not configured');
+      config = { ...config, token: (await getInstallationToken(installationStore(supabase, workspaceId), installationId)).token };
+    }
+
+    return [type, config] as const;
+  }));
+
+  return Object.fromEntries(entries);
+}
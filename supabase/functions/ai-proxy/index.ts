@@ -0,0 +1,120 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AIConfig, AIProvider } from "../../../src/types/codeReview.ts";
+import {
+  AI_PROVIDERS,
+  AICompletionRequest,
+  AIProxyRequest,
+  createProviderCompleter,
+  formatServerSentEvent,
+  isAIProvider,
+  isPublicHttpsUrl,
+  resolveBaseUrl,
+} from "../../../src/lib/aiProviders.ts";
+import { isWorkspaceMember } from "../_shared/workspaceAuth.ts";
+import { loadWorkspaceConfigs } from "../_shared/workspaceSecrets.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+/**
+ * The stored key for `provider` and the base URL it may go to: the primary model's, else that of
+ * the consensus reviewer on the requested base URL, else of any reviewer on the provider.
+ */
+function storedCredentials(stored: Partial<AIConfig> | undefined, provider: AIProvider, baseUrl?: string): { apiKey: string; baseUrl?: string } | null {
+  if (stored?.provider === provider && stored.apiKey) {
+    return { apiKey: stored.apiKey, baseUrl: stored.baseUrl };
+  }
+  const reviewers = (stored?.consensus?.reviewers || []).filter(r => r.provider === provider && r.apiKey);
+  const reviewer = reviewers.find(r => resolveBaseUrl(provider, r.baseUrl) === resolveBaseUrl(provider, baseUrl)) ?? reviewers[0];
+  return reviewer ? { apiKey: reviewer.apiKey!, baseUrl: reviewer.baseUrl } : null;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body: AIProxyRequest = await req.json();
+    const { workspaceId, stream, provider, model, prompt, temperature, maxTokens, responseSchema } = body;
+    let { baseUrl } = body;
+
+    if (!isAIProvider(provider)) {
+      return jsonResponse({ error: `Unsupported provider: ${provider}` }, 400);
+    }
+    if (!model || !prompt) {
+      return jsonResponse({ error: 'Missing model or prompt' }, 400);
+    }
+
+    // Testing a key before it is saved runs on the caller's behalf too, so it needs membership
+    if (!workspaceId || !(await isWorkspaceMember(supabase, req, workspaceId))) {
+      return jsonResponse({ error: 'Not a member of this workspace' }, 403);
+    }
+
+    const adapter = AI_PROVIDERS[provider];
+
+    // A key in the request is being tested before it is saved; otherwise use the stored one.
+    // A stored key only ever goes to the provider and base URL it was saved with.
+    let apiKey = body.apiKey?.trim() || '';
+    if (!apiKey) {
+      const { ai } = await loadWorkspaceConfigs(supabase, workspaceId, ['ai']);
+      const credentials = storedCredentials(ai as Partial<AIConfig> | undefined, provider, baseUrl);
+      if (credentials) {
+        ({ apiKey, baseUrl } = credentials);
+      } else if (adapter.requiresApiKey) {
+        return jsonResponse({ error: 'AI API key is not configured' }, 400);
+      }
+    }
+
+    // Providers with their own API root ignore any base URL; the rest must name a public https server
+    if (adapter.baseUrl) {
+      baseUrl = undefined;
+    } else if (baseUrl && !isPublicHttpsUrl(baseUrl)) {
+      return jsonResponse({ error: 'The base URL must be https on a public host' }, 400);
+    }
+
+    const complete = createProviderCompleter(apiKey);
+    const completion: AICompletionRequest = { provider, model, prompt, baseUrl, temperature, maxTokens, responseSchema };
+
+    if (!stream) {
+      return jsonResponse({ text: await complete(completion) });
+    }
+
+    // Provider errors after this point arrive as an `error` event; the status is already 200
+    const encoder = new TextEncoder();
+    const events = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (data: unknown, event?: string) => controller.enqueue(encoder.encode(formatServerSentEvent(data, event)));
+        try {
+          const text = await complete(completion, (delta) => send({ delta }));
+          send({ text }, 'done');
+        } catch (error) {
+          console.error('AI proxy stream error:', error);
+          send({ message: error instanceof Error ? error.message : 'Unknown error' }, 'error');
+        } finally {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(events, {
+      headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+    });
+  } catch (error) {
+    console.error('AI proxy error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
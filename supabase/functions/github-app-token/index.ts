@@ -0,0 +1,93 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createInstallationToken } from "../../../src/lib/githubAppAuth.ts";
+import { isWorkspaceMember } from "../_shared/workspaceAuth.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+function json(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+/** Workspace an installation was registered for, or null when it isn't registered yet. */
+async function installationWorkspace(installationId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('github_app_installations')
+    .select('workspace_id')
+    .eq('installation_id', installationId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data?.workspace_id ?? null;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, appId, installationId, privateKey, workspaceId } = await req.json();
+
+    if (!installationId) {
+      return json({ error: 'Missing installation ID' }, 400);
+    }
+
+    if (!workspaceId || !(await isWorkspaceMember(supabase, req, String(workspaceId)))) {
+      return json({ error: 'Not a member of this workspace' }, 403);
+    }
+
+    // Installations belong to the workspace that registered them first
+    const owningWorkspace = await installationWorkspace(String(installationId));
+    if (owningWorkspace && owningWorkspace !== String(workspaceId)) {
+      return json({ error: 'Installation is registered to another workspace' }, 403);
+    }
+
+    switch (action) {
+      case 'register': {
+        if (!appId || !privateKey) {
+          return json({ error: 'Missing App ID or private key' }, 400);
+        }
+
+        // Mint a token first so a wrong key or installation is reported before anything is stored
+        const token = await createInstallationToken(String(appId), String(installationId), privateKey);
+        const { error: secretError } = await supabase.rpc('set_workspace_secret', {
+          _workspace_id: String(workspaceId),
+          _name: 'github_app_private_key',
+          _value: privateKey,
+        });
+        if (secretError) throw new Error(secretError.message);
+
+        const { error } = await supabase
+          .from('github_app_installations')
+          .upsert({
+            workspace_id: String(workspaceId),
+            app_id: String(appId),
+            installation_id: String(installationId),
+          }, { onConflict: 'installation_id' });
+
+        if (error) throw new Error(error.message);
+        // Installation tokens stay server-side; GitHub calls go through github-proxy
+        return json({ registered: true, expiresAt: token.expiresAt });
+      }
+
+      default:
+        return json({ error: 'Invalid action' }, 400);
+    }
+  } catch (error) {
+    console.error('GitHub App token error:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
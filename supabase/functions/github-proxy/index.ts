@@ -0,0 +1,47 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ProxiedRequest } from "../../../src/lib/secrets.ts";
+import { isWorkspaceMember } from "../_shared/workspaceAuth.ts";
+import { loadWorkspaceConfigs } from "../_shared/workspaceSecrets.ts";
+import { forwardedHeaders, proxyCorsHeaders, proxyError, relay, suppliedCredential } from "../_shared/proxyRelay.ts";
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: proxyCorsHeaders });
+  }
+
+  try {
+    const proxied: ProxiedRequest = await req.json();
+    const url = new URL(proxied.url);
+
+    // Never send the workspace token anywhere but the GitHub API
+    if (url.origin !== 'https://api.github.com') {
+      return proxyError('Only api.github.com can be proxied', 400);
+    }
+
+    const headers = forwardedHeaders(proxied);
+    let token = suppliedCredential(proxied.headers?.authorization ?? proxied.headers?.Authorization);
+
+    if (!token) {
+      if (!proxied.workspaceId || !(await isWorkspaceMember(supabase, req, proxied.workspaceId))) {
+        return proxyError('Not a member of this workspace', 403);
+      }
+
+      const { github } = await loadWorkspaceConfigs(supabase, proxied.workspaceId, ['github']);
+      token = (github?.token as string) || null;
+      if (!token) return proxyError('GitHub token is not configured', 400);
+    }
+
+    headers['Authorization'] = `Bearer ${token}`;
+    return await relay(proxied, url, headers);
+  } catch (error) {
+    console.error('GitHub proxy error:', error);
+    return proxyError(error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+});
@@ -0,0 +1,75 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { handleWebhookRequest, type WebhookSubscriber } from "../_shared/githubWebhook.ts";
+import { getWorkspaceSecret } from "../_shared/workspaceSecrets.ts";
+
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void };
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+/** A literal ILIKE pattern: GitHub names may contain `_`. */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+serve(async (req) => {
+  try {
+    return await handleWebhookRequest(req, {
+      getWebhookSubscribers: async (repoFullName) => {
+        // Only accept deliveries for repositories a workspace watches; GitHub names are case-insensitive
+        const [owner, repo] = repoFullName.split('/');
+        if (!owner || !repo) return [];
+
+        const { data: repositories, error: repositoriesError } = await supabase
+          .from('workspace_repositories')
+          .select('workspace_id')
+          .ilike('owner', escapeLike(owner))
+          .ilike('repo', escapeLike(repo));
+
+        if (repositoriesError) throw new Error(repositoriesError.message);
+
+        const workspaceIds = [...new Set((repositories || []).map(r => r.workspace_id))];
+        const subscribers = await Promise.all(workspaceIds.map(async (workspaceId) => ({
+          workspaceId,
+          secret: await getWorkspaceSecret(supabase, workspaceId, 'github_webhook_secret'),
+        })));
+        return subscribers.filter((s): s is WebhookSubscriber => !!s.secret);
+      },
+
+      enqueueReview: async (item, workspaceId) => {
+        const { error } = await supabase
+          .from('review_queue')
+          .upsert({
+            workspace_id: workspaceId,
+            owner: item.owner,
+            repo: item.repo,
+            pr_number: item.prNumber,
+            head_sha: item.headSha,
+            event_type: item.eventType,
+            action: item.action,
+            delivery_id: item.deliveryId,
+            command: item.command,
+            context: item.context,
+            comment_id: item.commentId,
+            requested_by: item.requestedBy,
+            status: 'queued',
+          }, { onConflict: 'delivery_id', ignoreDuplicates: true });
+
+        if (error) throw new Error(error.message);
+        console.log(`GitHub webhook: queued ${item.eventType}.${item.action} for ${item.owner}/${item.repo}#${item.prNumber}`);
+
+        // Work the queue in the background so GitHub gets its response within the delivery timeout
+        EdgeRuntime.waitUntil(supabase.functions.invoke('review-worker', { body: {} }));
+      },
+    });
+  } catch (error) {
+    console.error('GitHub webhook error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,10 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isWorkspaceMember } from "../_shared/workspaceAuth.ts";
+import { loadWorkspaceConfigs } from "../_shared/workspaceSecrets.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -12,7 +20,25 @@ serve(async (req) => {
   }
 
   try {
-    const { action, domain, email, apiToken, ticketId } = await req.json();
+    const body = await req.json();
+    const { action, ticketId, workspaceId } = body;
+    let { domain, email, apiToken } = body;
+
+    // Without a token in the request, use the workspace's stored Jira settings. The stored token
+    // is only ever sent to the stored domain.
+    if (!apiToken && workspaceId) {
+      if (!(await isWorkspaceMember(supabase, req, workspaceId))) {
+        return new Response(
+          JSON.stringify({ error: 'Not a member of this workspace' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { jira } = await loadWorkspaceConfigs(supabase, workspaceId, ['jira']);
+      domain = jira?.domain;
+      email = jira?.email;
+      apiToken = jira?.apiToken;
+    }
     
     if (!domain || !email || !apiToken) {
       return new Response(
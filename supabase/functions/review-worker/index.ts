@@ -0,0 +1,388 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { GitHubPullRequestPayload, mapPullRequest } from "../../../src/lib/pullRequests.ts";
+import {
+  AICodeSuggestion,
+  AIConfig,
+  AIReviewResult,
+  DEFAULT_AI_CONFIG,
+  DEFAULT_JIRA_CONFIG,
+  DEFAULT_THRESHOLDS,
+  GitHubConfig,
+  JiraConfig,
+  PullRequest,
+  ReviewCommand,
+  SonarConfig,
+  ThresholdConfig,
+} from "../../../src/types/codeReview.ts";
+import { runReviewPipeline, ReviewPipelineAdapters } from "../../../src/lib/reviewPipeline.ts";
+import { dispatchReviewCommand, parseReviewCommand, replyWithHelp, SuggestionStore } from "../../../src/lib/reviewCommands.ts";
+import {
+  createIssue,
+  fetchChangedFilesSince,
+  fetchPRFiles,
+  githubRequest,
+  hasWriteAccess,
+  mergePullRequest,
+  postIssueComment,
+  replyToReviewComment,
+  upsertReviewComment,
+} from "../../../src/lib/githubApi.ts";
+import { submitInlineReview, suggestionFingerprint } from "../../../src/lib/inlineReview.ts";
+import { SuggestionStatusRecord, toStatusRecord } from "../../../src/lib/suggestions.ts";
+import { ReviewRun, reviewRunFromRow, ReviewRunRow, reviewRunRows } from "../../../src/lib/reviewRuns.ts";
+import { generateAIReview, validateBusinessLogicWithAI } from "../../../src/lib/aiReview.ts";
+import { generateConfiguredReview } from "../../../src/lib/consensus.ts";
+import { githubRepositoryReader } from "../../../src/lib/reviewContext.ts";
+import { PromptTemplates, promptTemplateFromRow, resolvePromptTemplates } from "../../../src/lib/promptTemplates.ts";
+import { extractTicketId, fetchJiraTicket } from "../../../src/lib/jira.ts";
+import { fetchSonarResults } from "../../../src/lib/sonarClient.ts";
+import { loadWorkspaceConfigs } from "../_shared/workspaceSecrets.ts";
+import { githubConfigFor, repositoryFromRow, resolveRepositorySettings } from "../../../src/lib/workspace.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+// Upper bound of queued items handled per invocation
+const BATCH_SIZE = 5;
+
+interface QueueRow {
+  id: string;
+  workspace_id: string;
+  owner: string;
+  repo: string;
+  pr_number: number;
+  event_type: string;
+  command: ReviewCommand['type'] | null;
+  context: string | null;
+  comment_id: number | null;
+  requested_by: string | null;
+}
+
+interface WorkerConfig {
+  workspaceId: string;
+  github: GitHubConfig;
+  ai: AIConfig;
+  sonar: SonarConfig | null;
+  thresholds: ThresholdConfig;
+  jira: JiraConfig;
+  templates: PromptTemplates;
+}
+
+/** Settings of the workspace the row was queued for, with the repository's overrides applied. */
+async function loadConfig(row: QueueRow): Promise<WorkerConfig> {
+  const { data: repositories, error: repositoriesError } = await supabase
+    .from('workspace_repositories')
+    .select('*')
+    .eq('workspace_id', row.workspace_id);
+
+  if (repositoriesError) throw new Error(repositoriesError.message);
+
+  const repositoryRow = (repositories || []).find(r => `${r.owner}/${r.repo}`.toLowerCase() === `${row.owner}/${row.repo}`.toLowerCase());
+  if (!repositoryRow) throw new Error(`${row.owner}/${row.repo} is no longer part of the workspace`);
+
+  // Secrets come from the vault; in App mode comments and merges appear as the app
+  const byType = await loadWorkspaceConfigs(supabase, row.workspace_id);
+  if (!byType.github) throw new Error('GitHub is not configured');
+
+  const github = byType.github as unknown as GitHubConfig;
+
+  const repository = repositoryFromRow(repositoryRow);
+  const settings = resolveRepositorySettings({
+    ai: { ...DEFAULT_AI_CONFIG, ...(byType.ai || {}) },
+    thresholds: { ...DEFAULT_THRESHOLDS, ...(byType.thresholds || {}) },
+    jira: { ...DEFAULT_JIRA_CONFIG, ...(byType.jira || {}) },
+  }, repository);
+
+  const { data: templateRows, error: templatesError } = await supabase
+    .from('prompt_templates')
+    .select('*')
+    .eq('workspace_id', row.workspace_id);
+
+  if (templatesError) throw new Error(templatesError.message);
+
+  return {
+    ...settings,
+    workspaceId: row.workspace_id,
+    github: githubConfigFor(github, repository),
+    sonar: (byType.sonar as unknown as SonarConfig) || null,
+    templates: resolvePromptTemplates((templateRows || []).map(promptTemplateFromRow), repository),
+  };
+}
+
+function buildAdapters(config: WorkerConfig): ReviewPipelineAdapters {
+  const { workspaceId, github, ai, sonar, thresholds, jira, templates } = config;
+  return {
+    github: {
+      fetchPRFiles: (prNumber) => fetchPRFiles(github, prNumber),
+      postReviewComment: async (prNumber, body) => {
+        await upsertReviewComment(github, prNumber, body, {
+          get: async (owner, repo, pr) => {
+            const { data } = await supabase.from('pr_comment_ids').select('comment_id')
+              .eq('workspace_id', workspaceId).eq('owner', owner).eq('repo', repo).eq('pr_number', pr).maybeSingle();
+            return data?.comment_id || null;
+          },
+          save: (owner, repo, pr, commentId) => supabase.from('pr_comment_ids')
+            .upsert({ workspace_id: workspaceId, owner, repo, pr_number: pr, comment_id: commentId }, { onConflict: 'workspace_id,owner,repo,pr_number' }),
+        });
+      },
+      mergePR: (prNumber, title) => mergePullRequest(github, prNumber, title),
+      postInlineReview: (pr, review, files) => submitInlineReview(github, pr, review, files),
+      fetchChangedFilesSince: (pr, sha) => fetchChangedFilesSince(github, sha, pr.head.sha),
+    },
+    ai: {
+      generateReview: (pr, files, command, ticket) => generateConfiguredReview(ai, pr, files, command, ticket, undefined, {
+        repository: githubRepositoryReader(github),
+        templates,
+      }),
+      validateBusinessLogic: (pr, files, ticket) => validateBusinessLogicWithAI(ai, pr, files, ticket, undefined, templates),
+    },
+    // The CI artifact import needs the browser zip reader, so headless runs only use the Sonar server
+    sonar: sonar?.enabled && sonar.hostUrl && sonar.projectKey ? {
+      fetchResults: (pr) => fetchSonarResults(sonar, pr.number, thresholds),
+    } : undefined,
+    jira: jira.enabled && jira.autoDetect ? {
+      extractTicketId: (text) => extractTicketId(jira, text),
+      fetchTicket: (ticketId) => fetchJiraTicket(jira, ticketId, async (body) => {
+        const { data, error } = await supabase.functions.invoke('jira-proxy', { body });
+        if (error) throw new Error(error.message);
+        return data;
+      }),
+    } : undefined,
+    history: {
+      save: (prNumber, entry) => supabase.from('auto_merge_history').insert({
+        workspace_id: workspaceId,
+        pr_number: prNumber,
+        ai_score: entry.aiScore,
+        sonar_issues: entry.sonarIssues,
+        mode: entry.mode,
+        ai_threshold: entry.aiThreshold,
+        sonar_threshold: entry.sonarThreshold,
+        decision: entry.decision,
+        details: entry.details,
+      }),
+    },
+    suggestions: {
+      list: async (pr) => {
+        const { data, error } = await supabase.from('suggestion_statuses').select('*')
+          .eq('workspace_id', workspaceId).eq('owner', github.owner).eq('repo', github.repo)
+          .eq('pr_number', pr.number).eq('head_sha', pr.head.sha);
+        if (error) throw new Error(error.message);
+        return (data || []).map(row => ({
+          headSha: row.head_sha,
+          fingerprint: row.fingerprint,
+          suggestionId: row.suggestion_id,
+          file: row.file,
+          message: row.message,
+          status: row.status as SuggestionStatusRecord['status'],
+          commitSha: row.commit_sha,
+        }));
+      },
+    },
+    lastReview: {
+      get: (pr) => latestReviewRun(workspaceId, github.owner, github.repo, pr.number),
+    },
+    runs: {
+      save: async (pr, record) => {
+        const rows = reviewRunRows(record);
+        const { data: run, error } = await supabase.from('review_runs').insert({
+          ...rows.run,
+          workspace_id: workspaceId,
+          owner: github.owner,
+          repo: github.repo,
+          pr_number: pr.number,
+        }).select('id').single();
+        if (error) throw new Error(error.message);
+
+        const details = [
+          rows.suggestions.length > 0 && supabase.from('ai_suggestions')
+            .insert(rows.suggestions.map(row => ({ ...row, workspace_id: workspaceId, run_id: run.id }))),
+          rows.sonar && supabase.from('sonar_snapshots').insert({ ...rows.sonar, workspace_id: workspaceId, run_id: run.id }),
+        ].filter(Boolean);
+        for (const { error: detailError } of await Promise.all(details)) {
+          if (detailError) {
+            await supabase.from('review_runs').delete().eq('id', run.id);
+            throw new Error(detailError.message);
+          }
+        }
+      },
+    },
+  };
+}
+
+/** The latest full review of the PR, with its suggestions; incremental reviews and commands build on it. */
+async function latestReviewRun(workspaceId: string, owner: string, repo: string, prNumber: number): Promise<ReviewRun | null> {
+  const { data, error } = await supabase
+    .from('review_runs')
+    .select('*, ai_suggestions(*), sonar_snapshots(*)')
+    .eq('workspace_id', workspaceId)
+    .eq('owner', owner)
+    .eq('repo', repo)
+    .eq('pr_number', prNumber)
+    .eq('command', 'review')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? reviewRunFromRow(data as unknown as ReviewRunRow) : null;
+}
+
+/**
+ * Suggestions are read from, and their status written back to, the latest review run of the PR,
+ * whether the worker or the dashboard ran it. Decisions are also recorded against the PR head so
+ * re-reviews of the same code respect them.
+ */
+function suggestionStore(row: QueueRow, github: GitHubConfig): SuggestionStore {
+  const latestRun = () => latestReviewRun(row.workspace_id, row.owner, row.repo, row.pr_number);
+
+  return {
+    get: async (_prNumber, id) => {
+      const latest = await latestRun();
+      // Inline comments show the fingerprint, which stays the same across re-runs
+      return latest?.review.suggestions.find(s => s.id === id || suggestionFingerprint(s) === id) || null;
+    },
+    setStatus: async (_prNumber, id, status: AICodeSuggestion['status']) => {
+      const latest = await latestRun();
+      const suggestion = latest?.review.suggestions.find(s => s.id === id);
+      if (!suggestion) return;
+      const { error } = await supabase
+        .from('ai_suggestions')
+        .update({ status })
+        .eq('run_id', latest.id)
+        .eq('suggestion_id', id);
+      if (error) throw new Error(error.message);
+
+      if (status === 'pending') return;
+      const pr = await fetchPullRequest(github, row.pr_number);
+      const record = toStatusRecord(pr, suggestion, status);
+      const { error: statusError } = await supabase.from('suggestion_statuses').upsert({
+        workspace_id: row.workspace_id,
+        owner: row.owner,
+        repo: row.repo,
+        pr_number: row.pr_number,
+        head_sha: record.headSha,
+        fingerprint: record.fingerprint,
+        suggestion_id: record.suggestionId,
+        file: record.file,
+        message: record.message,
+        status: record.status,
+      }, { onConflict: 'workspace_id,owner,repo,pr_number,head_sha,fingerprint' });
+      if (statusError) throw new Error(statusError.message);
+    },
+  };
+}
+
+async function fetchPullRequest(github: GitHubConfig, prNumber: number): Promise<PullRequest> {
+  const pr = await githubRequest<GitHubPullRequestPayload>(github, `/repos/${github.owner}/${github.repo}/pulls/${prNumber}`);
+  return mapPullRequest(pr);
+}
+
+async function processItem(row: QueueRow, config: WorkerConfig): Promise<unknown> {
+  const { github } = config;
+  const adapters = buildAdapters(config);
+
+  // Pull request events: a plain review run with the configured auto-merge behaviour
+  if (!row.comment_id) {
+    const pr = await fetchPullRequest(github, row.pr_number);
+    const result = await runReviewPipeline(pr, { aiConfig: config.ai }, adapters);
+    if (result.status === 'failed') {
+      throw new Error(result.errors.map(e => `${e.stage}: ${e.message}`).join('; '));
+    }
+    return { review: result.review, sonarResults: result.sonarResults, autoMerge: result.autoMerge, errors: result.errors };
+  }
+
+  const body = row.context || '';
+  const author = row.requested_by || '';
+  const quote = body.split('\n').map(line => `> ${line}`).join('\n');
+  const reply = async (text: string) => {
+    if (row.event_type === 'pull_request_review_comment') {
+      await replyToReviewComment(github, row.pr_number, row.comment_id!, text);
+    } else {
+      await postIssueComment(github, row.pr_number, `${quote}\n\n${text}`);
+    }
+  };
+
+  const parsed = parseReviewCommand(body, row.pr_number);
+  if (!parsed) return null;
+  if (!parsed.ok) {
+    return replyWithHelp(parsed.error, { reply });
+  }
+
+  let review: AIReviewResult | null = null;
+  const outcome = await dispatchReviewCommand(parsed.command, author, {
+    fetchPullRequest: (prNumber) => fetchPullRequest(github, prNumber),
+    hasWriteAccess: (login) => hasWriteAccess(github, login),
+    reply,
+    runReview: async (pr, command, { allowAutoMerge }) => {
+      const result = await runReviewPipeline(pr, { aiConfig: config.ai, command, allowAutoMerge }, adapters);
+      review = result.review;
+      return result;
+    },
+    generate: async (pr, command) => generateAIReview(config.ai, pr, await fetchPRFiles(github, pr.number), command, null, undefined, {
+      templates: config.templates,
+    }),
+    createIssue: (title, issueBody) => createIssue(github, title, issueBody, ['ai-review']),
+    suggestions: suggestionStore(row, github),
+  });
+
+  return review ? { outcome, review } : { outcome };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { data: queued, error } = await supabase
+      .from('review_queue')
+      .select('*')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw new Error(error.message);
+
+    const processed: { id: string; status: string }[] = [];
+    for (const row of (queued || []) as QueueRow[]) {
+      // Claim the row; another invocation may have picked it up in the meantime
+      const { data: claimed } = await supabase
+        .from('review_queue')
+        .update({ status: 'running' })
+        .eq('id', row.id)
+        .eq('status', 'queued')
+        .select('id');
+      if (!claimed?.length) continue;
+
+      try {
+        const result = await processItem(row, await loadConfig(row));
+        await supabase.from('review_queue').update({ status: 'completed', result }).eq('id', row.id);
+        processed.push({ id: row.id, status: 'completed' });
+      } catch (itemError) {
+        const message = itemError instanceof Error ? itemError.message : 'Unknown error';
+        console.error(`Review worker: ${row.owner}/${row.repo}#${row.pr_number} failed:`, message);
+        await supabase.from('review_queue').update({ status: 'failed', error: message }).eq('id', row.id);
+        processed.push({ id: row.id, status: 'failed' });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ processed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Review worker error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
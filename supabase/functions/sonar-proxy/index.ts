@@ -0,0 +1,55 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ProxiedRequest } from "../../../src/lib/secrets.ts";
+import { isSonarServerUrl, sonarAuthorization } from "../../../src/lib/sonarClient.ts";
+import { isWorkspaceMember } from "../_shared/workspaceAuth.ts";
+import { loadWorkspaceConfigs } from "../_shared/workspaceSecrets.ts";
+import { forwardedHeaders, proxyCorsHeaders, proxyError, relay } from "../_shared/proxyRelay.ts";
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+/** A token the browser sent itself (Basic auth login), e.g. to test it before saving. */
+function suppliedToken(authorization: string | undefined): string | null {
+  const encoded = authorization?.match(/^Basic\s+(.+)$/i)?.[1];
+  if (!encoded) return null;
+  return atob(encoded).replace(/:$/, '').trim() || null;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: proxyCorsHeaders });
+  }
+
+  try {
+    const proxied: ProxiedRequest = await req.json();
+    const url = new URL(proxied.url);
+
+    // Self-hosted servers can be anywhere, so only members may relay through here at all
+    if (!proxied.workspaceId || !(await isWorkspaceMember(supabase, req, proxied.workspaceId))) {
+      return proxyError('Not a member of this workspace', 403);
+    }
+
+    const headers = forwardedHeaders(proxied);
+    let token = suppliedToken(proxied.headers?.authorization ?? proxied.headers?.Authorization);
+
+    if (!token) {
+      const { sonar } = await loadWorkspaceConfigs(supabase, proxied.workspaceId, ['sonar']);
+      // Never send the stored token anywhere but the stored server
+      if (!isSonarServerUrl(url, (sonar?.hostUrl as string) || '')) {
+        return proxyError('Only the configured SonarQube server can be proxied', 400);
+      }
+      token = (sonar?.token as string) || null;
+      if (!token) return proxyError('SonarQube token is not configured', 400);
+    }
+
+    headers['Authorization'] = sonarAuthorization(token);
+    return await relay(proxied, url, headers);
+  } catch (error) {
+    console.error('Sonar proxy error:', error);
+    return proxyError(error instanceof Error ? error.message : 'Unknown error', 500);
+  }
+});
@@ -0,0 +1,7 @@
+-- Allow storing SonarQube server configuration alongside the other integrations
+ALTER TABLE public.app_configurations
+DROP CONSTRAINT IF EXISTS app_configurations_config_type_check;
+
+ALTER TABLE public.app_configurations
+ADD CONSTRAINT app_configurations_config_type_check
+CHECK (config_type IN ('github', 'jira', 'ai', 'thresholds', 'sonar'));
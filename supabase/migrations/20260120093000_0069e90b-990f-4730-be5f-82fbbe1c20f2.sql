@@ -0,0 +1,33 @@
+-- Create table for review runs queued by the github-webhook edge function
+CREATE TABLE public.review_queue (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner TEXT NOT NULL,
+  repo TEXT NOT NULL,
+  pr_number INTEGER NOT NULL,
+  head_sha TEXT,
+  event_type TEXT NOT NULL CHECK (event_type IN ('pull_request', 'pull_request_review', 'issue_comment')),
+  action TEXT NOT NULL,
+  delivery_id TEXT UNIQUE,
+  command TEXT CHECK (command IN ('review', 'summary', 'guide', 'title', 'dismiss', 'resolve', 'issue')),
+  context TEXT,
+  requested_by TEXT,
+  status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'failed')) DEFAULT 'queued',
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_review_queue_status ON public.review_queue (status, created_at);
+
+ALTER TABLE public.review_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to review_queue" 
+ON public.review_queue 
+FOR ALL 
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_review_queue_updated_at
+BEFORE UPDATE ON public.review_queue
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,11 @@
+-- Track the comment an @ai command was posted in and the outcome of each run
+ALTER TABLE public.review_queue
+  ADD COLUMN comment_id BIGINT,
+  ADD COLUMN result JSONB;
+
+ALTER TABLE public.review_queue DROP CONSTRAINT review_queue_event_type_check;
+ALTER TABLE public.review_queue
+  ADD CONSTRAINT review_queue_event_type_check
+  CHECK (event_type IN ('pull_request', 'pull_request_review', 'pull_request_review_comment', 'issue_comment'));
+
+CREATE INDEX idx_review_queue_pr ON public.review_queue (owner, repo, pr_number, created_at DESC);
@@ -0,0 +1,30 @@
+-- Reviewer decisions on AI suggestions, per PR head so a new push starts from a clean slate
+CREATE TABLE public.suggestion_statuses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner TEXT NOT NULL,
+  repo TEXT NOT NULL,
+  pr_number INTEGER NOT NULL,
+  head_sha TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  suggestion_id TEXT NOT NULL,
+  file TEXT NOT NULL,
+  message TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('accepted', 'rejected', 'applied')),
+  commit_sha TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(owner, repo, pr_number, head_sha, fingerprint)
+);
+
+ALTER TABLE public.suggestion_statuses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to suggestion_statuses" 
+ON public.suggestion_statuses 
+FOR ALL 
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_suggestion_statuses_updated_at
+BEFORE UPDATE ON public.suggestion_statuses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
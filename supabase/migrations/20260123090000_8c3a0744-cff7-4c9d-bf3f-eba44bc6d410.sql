@@ -0,0 +1,19 @@
+-- GitHub App credentials and the cached installation token. Only edge functions (service role)
+-- read this table: RLS is enabled without policies, so the private key never reaches the browser.
+CREATE TABLE public.github_app_installations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  app_id TEXT NOT NULL,
+  installation_id TEXT NOT NULL UNIQUE,
+  private_key TEXT NOT NULL,
+  installation_token TEXT,
+  token_expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.github_app_installations ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_github_app_installations_updated_at
+BEFORE UPDATE ON public.github_app_installations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
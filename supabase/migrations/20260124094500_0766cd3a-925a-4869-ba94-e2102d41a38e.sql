@@ -0,0 +1,75 @@
+-- Workspaces: one set of GitHub/AI/Jira settings shared by many repositories
+CREATE TABLE public.workspaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to workspaces" 
+ON public.workspaces 
+FOR ALL 
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_workspaces_updated_at
+BEFORE UPDATE ON public.workspaces
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Existing settings move into a default workspace
+INSERT INTO public.workspaces (id, name)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Default workspace');
+
+-- Settings are now unique per workspace instead of globally
+ALTER TABLE public.app_configurations
+ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+UPDATE public.app_configurations
+SET workspace_id = '00000000-0000-0000-0000-000000000001';
+
+ALTER TABLE public.app_configurations
+ALTER COLUMN workspace_id SET NOT NULL;
+
+ALTER TABLE public.app_configurations
+DROP CONSTRAINT IF EXISTS app_configurations_config_type_key;
+
+ALTER TABLE public.app_configurations
+ADD CONSTRAINT app_configurations_workspace_config_type_key UNIQUE (workspace_id, config_type);
+
+-- Repositories watched by a workspace, with optional per-repository overrides
+CREATE TABLE public.workspace_repositories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  owner TEXT NOT NULL,
+  repo TEXT NOT NULL,
+  thresholds JSONB,
+  ai_overrides JSONB,
+  jira_project_key TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(workspace_id, owner, repo)
+);
+
+ALTER TABLE public.workspace_repositories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to workspace_repositories" 
+ON public.workspace_repositories 
+FOR ALL 
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_workspace_repositories_updated_at
+BEFORE UPDATE ON public.workspace_repositories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The repository configured so far becomes the workspace's first repository
+INSERT INTO public.workspace_repositories (workspace_id, owner, repo)
+SELECT workspace_id, config_data->>'owner', config_data->>'repo'
+FROM public.app_configurations
+WHERE config_type = 'github'
+  AND COALESCE(config_data->>'owner', '') <> ''
+  AND COALESCE(config_data->>'repo', '') <> '';
@@ -0,0 +1,228 @@
+-- Workspace membership: every table is scoped to a workspace, and only its members can reach it.
+-- Replaces the "Allow all access" policies, which exposed stored tokens to anyone with the anon key.
+ALTER TABLE public.workspaces
+ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE TABLE public.workspace_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(workspace_id, user_id)
+);
+
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+-- Security definer so policies on workspace_members itself don't recurse
+CREATE OR REPLACE FUNCTION public.is_workspace_member(_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = _workspace_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_workspace_owner(_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = _workspace_id AND user_id = auth.uid() AND role = 'owner'
+  );
+$$;
+
+-- Existing rows move into the default workspace
+ALTER TABLE public.auto_merge_history
+ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.pr_comment_ids
+ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.merge_conflict_resolutions
+ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.suggestion_statuses
+ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.review_queue
+ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.github_app_installations
+ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+UPDATE public.auto_merge_history SET workspace_id = '00000000-0000-0000-0000-000000000001';
+UPDATE public.pr_comment_ids SET workspace_id = '00000000-0000-0000-0000-000000000001';
+UPDATE public.merge_conflict_resolutions SET workspace_id = '00000000-0000-0000-0000-000000000001';
+UPDATE public.suggestion_statuses SET workspace_id = '00000000-0000-0000-0000-000000000001';
+UPDATE public.review_queue SET workspace_id = '00000000-0000-0000-0000-000000000001';
+UPDATE public.github_app_installations SET workspace_id = '00000000-0000-0000-0000-000000000001';
+
+ALTER TABLE public.auto_merge_history ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.pr_comment_ids ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.merge_conflict_resolutions ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.suggestion_statuses ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.review_queue ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.github_app_installations ALTER COLUMN workspace_id SET NOT NULL;
+
+-- Two workspaces can watch the same repository
+ALTER TABLE public.pr_comment_ids
+DROP CONSTRAINT IF EXISTS pr_comment_ids_owner_repo_pr_number_key;
+ALTER TABLE public.pr_comment_ids
+ADD CONSTRAINT pr_comment_ids_workspace_owner_repo_pr_number_key UNIQUE (workspace_id, owner, repo, pr_number);
+
+-- The generated name of this one is truncated, so look it up
+DO $$
+DECLARE
+  existing_constraint TEXT;
+BEGIN
+  SELECT conname INTO existing_constraint
+  FROM pg_constraint
+  WHERE conrelid = 'public.suggestion_statuses'::regclass AND contype = 'u';
+
+  IF existing_constraint IS NOT NULL THEN
+    EXECUTE format('ALTER TABLE public.suggestion_statuses DROP CONSTRAINT %I', existing_constraint);
+  END IF;
+END;
+$$;
+ALTER TABLE public.suggestion_statuses
+ADD CONSTRAINT suggestion_statuses_workspace_pr_fingerprint_key UNIQUE (workspace_id, owner, repo, pr_number, head_sha, fingerprint);
+
+-- Users who signed up before this migration join the default workspace; the oldest owns it
+INSERT INTO public.workspace_members (workspace_id, user_id, role)
+SELECT '00000000-0000-0000-0000-000000000001', id,
+  CASE WHEN row_number() OVER (ORDER BY created_at) = 1 THEN 'owner' ELSE 'member' END
+FROM auth.users;
+
+UPDATE public.workspaces
+SET owner_id = (
+  SELECT user_id FROM public.workspace_members
+  WHERE workspace_id = '00000000-0000-0000-0000-000000000001' AND role = 'owner'
+)
+WHERE id = '00000000-0000-0000-0000-000000000001';
+
+-- New users: the first one claims the default workspace and its migrated settings,
+-- everyone after gets a workspace of their own
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_workspace UUID;
+BEGIN
+  -- Serialize concurrent sign-ups racing for the default workspace
+  PERFORM 1 FROM public.workspaces WHERE id = '00000000-0000-0000-0000-000000000001' FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM public.workspaces WHERE id = '00000000-0000-0000-0000-000000000001')
+    AND NOT EXISTS (SELECT 1 FROM public.workspace_members WHERE workspace_id = '00000000-0000-0000-0000-000000000001') THEN
+    target_workspace := '00000000-0000-0000-0000-000000000001';
+    UPDATE public.workspaces SET owner_id = NEW.id WHERE id = target_workspace;
+  ELSE
+    INSERT INTO public.workspaces (name, owner_id)
+    VALUES (COALESCE(NEW.email, 'My') || '''s workspace', NEW.id)
+    RETURNING id INTO target_workspace;
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (target_workspace, NEW.id, 'owner');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user();
+
+-- Replace the open policies with membership checks
+DROP POLICY IF EXISTS "Allow all access to app_configurations" ON public.app_configurations;
+DROP POLICY IF EXISTS "Allow all access to auto_merge_history" ON public.auto_merge_history;
+DROP POLICY IF EXISTS "Allow all access to pr_comment_ids" ON public.pr_comment_ids;
+DROP POLICY IF EXISTS "Allow all access to merge_conflict_resolutions" ON public.merge_conflict_resolutions;
+DROP POLICY IF EXISTS "Allow all access to review_queue" ON public.review_queue;
+DROP POLICY IF EXISTS "Allow all access to suggestion_statuses" ON public.suggestion_statuses;
+DROP POLICY IF EXISTS "Allow all access to workspaces" ON public.workspaces;
+DROP POLICY IF EXISTS "Allow all access to workspace_repositories" ON public.workspace_repositories;
+
+CREATE POLICY "Members can view their workspaces"
+ON public.workspaces
+FOR SELECT
+TO authenticated
+USING (public.is_workspace_member(id));
+
+CREATE POLICY "Owners can update their workspaces"
+ON public.workspaces
+FOR UPDATE
+TO authenticated
+USING (public.is_workspace_owner(id))
+WITH CHECK (public.is_workspace_owner(id));
+
+CREATE POLICY "Members can view workspace members"
+ON public.workspace_members
+FOR SELECT
+TO authenticated
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can manage workspace members"
+ON public.workspace_members
+FOR ALL
+TO authenticated
+USING (public.is_workspace_owner(workspace_id))
+WITH CHECK (public.is_workspace_owner(workspace_id));
+
+CREATE POLICY "Members can access app_configurations"
+ON public.app_configurations
+FOR ALL
+TO authenticated
+USING (public.is_workspace_member(workspace_id))
+WITH CHECK (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can access auto_merge_history"
+ON public.auto_merge_history
+FOR ALL
+TO authenticated
+USING (public.is_workspace_member(workspace_id))
+WITH CHECK (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can access pr_comment_ids"
+ON public.pr_comment_ids
+FOR ALL
+TO authenticated
+USING (public.is_workspace_member(workspace_id))
+WITH CHECK (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can access merge_conflict_resolutions"
+ON public.merge_conflict_resolutions
+FOR ALL
+TO authenticated
+USING (public.is_workspace_member(workspace_id))
+WITH CHECK (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can access suggestion_statuses"
+ON public.suggestion_statuses
+FOR ALL
+TO authenticated
+USING (public.is_workspace_member(workspace_id))
+WITH CHECK (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can access workspace_repositories"
+ON public.workspace_repositories
+FOR ALL
+TO authenticated
+USING (public.is_workspace_member(workspace_id))
+WITH CHECK (public.is_workspace_member(workspace_id));
+
+-- The queue is written by the webhook and worker with the service role; members only read it
+CREATE POLICY "Members can view review_queue"
+ON public.review_queue
+FOR SELECT
+TO authenticated
+USING (public.is_workspace_member(workspace_id));
+
+-- github_app_installations keeps no policies: private keys and tokens stay server-side
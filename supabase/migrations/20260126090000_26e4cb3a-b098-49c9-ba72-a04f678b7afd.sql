@@ -0,0 +1,105 @@
+-- Secrets move out of the JSON config rows into Supabase Vault (encrypted at rest).
+-- The browser can see that a secret is set and its last four characters, never the value;
+-- only the service role (edge functions, review worker) can decrypt it.
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault;
+
+CREATE TABLE public.workspace_secrets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (name IN ('github_token', 'ai_api_key', 'jira_api_token')),
+  vault_secret_id UUID NOT NULL,
+  last_four TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(workspace_id, name)
+);
+
+ALTER TABLE public.workspace_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Members read which secrets are set; writes go through set_workspace_secret
+CREATE POLICY "Members can view workspace_secrets"
+ON public.workspace_secrets
+FOR SELECT
+TO authenticated
+USING (public.is_workspace_member(workspace_id));
+
+CREATE TRIGGER update_workspace_secrets_updated_at
+BEFORE UPDATE ON public.workspace_secrets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Store (or, with an empty value, remove) a workspace secret. Callable by workspace members.
+CREATE OR REPLACE FUNCTION public.set_workspace_secret(_workspace_id UUID, _name TEXT, _value TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing_secret UUID;
+BEGIN
+  -- auth.uid() is null for the service role, which may write any workspace
+  IF auth.uid() IS NOT NULL AND NOT public.is_workspace_member(_workspace_id) THEN
+    RAISE EXCEPTION 'Not a member of this workspace';
+  END IF;
+
+  SELECT vault_secret_id INTO existing_secret
+  FROM public.workspace_secrets
+  WHERE workspace_id = _workspace_id AND name = _name;
+
+  IF COALESCE(_value, '') = '' THEN
+    DELETE FROM public.workspace_secrets WHERE workspace_id = _workspace_id AND name = _name;
+    IF existing_secret IS NOT NULL THEN
+      DELETE FROM vault.secrets WHERE id = existing_secret;
+    END IF;
+    RETURN;
+  END IF;
+
+  IF existing_secret IS NULL THEN
+    existing_secret := vault.create_secret(_value, _workspace_id || ':' || _name);
+    INSERT INTO public.workspace_secrets (workspace_id, name, vault_secret_id, last_four)
+    VALUES (_workspace_id, _name, existing_secret, right(_value, 4));
+  ELSE
+    PERFORM vault.update_secret(existing_secret, _value);
+    UPDATE public.workspace_secrets
+    SET last_four = right(_value, 4)
+    WHERE workspace_id = _workspace_id AND name = _name;
+  END IF;
+END;
+$$;
+
+-- Decrypt a workspace secret. Service role only.
+CREATE OR REPLACE FUNCTION public.get_workspace_secret(_workspace_id UUID, _name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ds.decrypted_secret
+  FROM public.workspace_secrets ws
+  JOIN vault.decrypted_secrets ds ON ds.id = ws.vault_secret_id
+  WHERE ws.workspace_id = _workspace_id AND ws.name = _name;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_workspace_secret(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_workspace_secret(UUID, TEXT, TEXT) TO authenticated, service_role;
+REVOKE ALL ON FUNCTION public.get_workspace_secret(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_workspace_secret(UUID, TEXT) TO service_role;
+
+-- Move the secrets saved so far into the vault and strip them from the config rows
+SELECT public.set_workspace_secret(workspace_id, 'github_token', config_data->>'token')
+FROM public.app_configurations
+WHERE config_type = 'github' AND COALESCE(config_data->>'token', '') <> '';
+
+SELECT public.set_workspace_secret(workspace_id, 'ai_api_key', config_data->>'apiKey')
+FROM public.app_configurations
+WHERE config_type = 'ai' AND COALESCE(config_data->>'apiKey', '') <> '';
+
+SELECT public.set_workspace_secret(workspace_id, 'jira_api_token', config_data->>'apiToken')
+FROM public.app_configurations
+WHERE config_type = 'jira' AND COALESCE(config_data->>'apiToken', '') <> '';
+
+UPDATE public.app_configurations SET config_data = config_data - 'token' WHERE config_type = 'github';
+UPDATE public.app_configurations SET config_data = config_data - 'apiKey' WHERE config_type = 'ai';
+UPDATE public.app_configurations SET config_data = config_data - 'apiToken' WHERE config_type = 'jira';
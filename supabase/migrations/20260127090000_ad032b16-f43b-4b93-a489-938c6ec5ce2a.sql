@@ -0,0 +1,7 @@
+-- Consensus reviews can use models from other AI providers, each with its own key.
+-- They are stored as `ai_api_key:<provider>`; reviewers on the primary provider use `ai_api_key`.
+ALTER TABLE public.workspace_secrets DROP CONSTRAINT IF EXISTS workspace_secrets_name_check;
+
+ALTER TABLE public.workspace_secrets
+ADD CONSTRAINT workspace_secrets_name_check
+CHECK (name IN ('github_token', 'ai_api_key', 'jira_api_token') OR name ~ '^ai_api_key:[a-z0-9-]+$');
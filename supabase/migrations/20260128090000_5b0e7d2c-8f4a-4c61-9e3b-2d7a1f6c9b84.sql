@@ -0,0 +1,32 @@
+-- Prompt templates for AI reviews. Every save adds a version; a rollback saves an old body
+-- again, so the history is never rewritten. Owner and repo are empty for the workspace default.
+CREATE TABLE public.prompt_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('review', 'summary', 'guide', 'title', 'business-logic')),
+  owner TEXT NOT NULL DEFAULT '',
+  repo TEXT NOT NULL DEFAULT '',
+  version INTEGER NOT NULL CHECK (version > 0),
+  -- Empty falls back to the workspace default, then to the built-in template
+  body TEXT NOT NULL,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(workspace_id, kind, owner, repo, version)
+);
+
+CREATE INDEX idx_prompt_templates_workspace ON public.prompt_templates (workspace_id, kind);
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Members read and add versions; there are no update or delete policies
+CREATE POLICY "Members can view prompt_templates"
+ON public.prompt_templates
+FOR SELECT
+TO authenticated
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can add prompt_templates"
+ON public.prompt_templates
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_workspace_member(workspace_id));
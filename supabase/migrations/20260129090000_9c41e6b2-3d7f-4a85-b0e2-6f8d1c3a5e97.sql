@@ -0,0 +1,27 @@
+-- The last review of each PR and the head it was run against, so a re-run only reviews newer commits
+CREATE TABLE public.last_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  owner TEXT NOT NULL,
+  repo TEXT NOT NULL,
+  pr_number INTEGER NOT NULL,
+  head_sha TEXT NOT NULL,
+  review JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(workspace_id, owner, repo, pr_number)
+);
+
+ALTER TABLE public.last_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can access last_reviews"
+ON public.last_reviews
+FOR ALL
+TO authenticated
+USING (public.is_workspace_member(workspace_id))
+WITH CHECK (public.is_workspace_member(workspace_id));
+
+CREATE TRIGGER update_last_reviews_updated_at
+BEFORE UPDATE ON public.last_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,80 @@
+-- Every review run of a PR, kept so results survive reloads and can be compared across pushes.
+-- Runs are never updated: a new push or re-run adds a row.
+CREATE TABLE public.review_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  owner TEXT NOT NULL,
+  repo TEXT NOT NULL,
+  pr_number INTEGER NOT NULL,
+  head_sha TEXT NOT NULL,
+  command TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_hash TEXT,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  overall_score INTEGER NOT NULL,
+  -- The review result without its suggestions, which have their own rows
+  review JSONB NOT NULL,
+  business_logic JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_review_runs_pr ON public.review_runs (workspace_id, owner, repo, pr_number, created_at DESC);
+
+CREATE TABLE public.ai_suggestions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  run_id UUID NOT NULL REFERENCES public.review_runs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  suggestion_id TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  type TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  file TEXT NOT NULL,
+  line INTEGER,
+  message TEXT NOT NULL,
+  suggestion TEXT NOT NULL,
+  code JSONB,
+  status TEXT NOT NULL,
+  rule TEXT,
+  agreement JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_suggestions_run ON public.ai_suggestions (run_id, position);
+
+CREATE TABLE public.sonar_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  run_id UUID NOT NULL REFERENCES public.review_runs(id) ON DELETE CASCADE,
+  head_sha TEXT NOT NULL,
+  quality_gate TEXT NOT NULL,
+  issues_total INTEGER NOT NULL,
+  results JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.review_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_suggestions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sonar_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can access review_runs"
+ON public.review_runs
+FOR ALL
+TO authenticated
+USING (public.is_workspace_member(workspace_id))
+WITH CHECK (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can access ai_suggestions"
+ON public.ai_suggestions
+FOR ALL
+TO authenticated
+USING (public.is_workspace_member(workspace_id))
+WITH CHECK (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can access sonar_snapshots"
+ON public.sonar_snapshots
+FOR ALL
+TO authenticated
+USING (public.is_workspace_member(workspace_id))
+WITH CHECK (public.is_workspace_member(workspace_id));
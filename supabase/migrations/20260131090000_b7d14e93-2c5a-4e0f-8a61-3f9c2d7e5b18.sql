@@ -0,0 +1,20 @@
+-- The SonarQube token and the GitHub webhook secret join the other secrets in the vault.
+-- SonarQube calls from the browser go through the sonar-proxy edge function, and webhook
+-- deliveries are verified with the secret read from the vault.
+ALTER TABLE public.workspace_secrets DROP CONSTRAINT IF EXISTS workspace_secrets_name_check;
+
+ALTER TABLE public.workspace_secrets
+ADD CONSTRAINT workspace_secrets_name_check
+CHECK (name IN ('github_token', 'github_webhook_secret', 'ai_api_key', 'jira_api_token', 'sonar_token') OR name ~ '^ai_api_key:[a-z0-9-]+$');
+
+-- Move the secrets saved so far into the vault and strip them from the config rows
+SELECT public.set_workspace_secret(workspace_id, 'github_webhook_secret', config_data->>'webhookSecret')
+FROM public.app_configurations
+WHERE config_type = 'github' AND COALESCE(config_data->>'webhookSecret', '') <> '';
+
+SELECT public.set_workspace_secret(workspace_id, 'sonar_token', config_data->>'token')
+FROM public.app_configurations
+WHERE config_type = 'sonar' AND COALESCE(config_data->>'token', '') <> '';
+
+UPDATE public.app_configurations SET config_data = config_data - 'webhookSecret' WHERE config_type = 'github';
+UPDATE public.app_configurations SET config_data = config_data - 'token' WHERE config_type = 'sonar';
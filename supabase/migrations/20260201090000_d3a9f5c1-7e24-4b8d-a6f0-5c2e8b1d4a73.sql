@@ -0,0 +1,55 @@
+-- New users no longer claim the default workspace: it holds every migrated credential and the
+-- GitHub App installation, so with open sign-up the first stranger to register would own the
+-- deployment. Everyone gets a workspace of their own, and the default workspace stays without
+-- members until an operator assigns it with assign_default_workspace.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_workspace UUID;
+BEGIN
+  INSERT INTO public.workspaces (name, owner_id)
+  VALUES (COALESCE(NEW.email, 'My') || '''s workspace', NEW.id)
+  RETURNING id INTO target_workspace;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (target_workspace, NEW.id, 'owner');
+  RETURN NEW;
+END;
+$$;
+
+-- Makes an existing user the owner of the memberless default workspace. Run by an operator
+-- from the SQL editor, e.g. SELECT public.assign_default_workspace('admin@example.com');
+CREATE OR REPLACE FUNCTION public.assign_default_workspace(_email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_user UUID;
+BEGIN
+  SELECT id INTO target_user FROM auth.users WHERE lower(email) = lower(_email);
+  IF target_user IS NULL THEN
+    RAISE EXCEPTION 'No user with email %', _email;
+  END IF;
+
+  PERFORM 1 FROM public.workspaces WHERE id = '00000000-0000-0000-0000-000000000001' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The default workspace does not exist';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.workspace_members WHERE workspace_id = '00000000-0000-0000-0000-000000000001') THEN
+    RAISE EXCEPTION 'The default workspace already has members; its owner can add more';
+  END IF;
+
+  UPDATE public.workspaces SET owner_id = target_user WHERE id = '00000000-0000-0000-0000-000000000001';
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES ('00000000-0000-0000-0000-000000000001', target_user, 'owner');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.assign_default_workspace(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.assign_default_workspace(TEXT) TO service_role;
@@ -0,0 +1,3 @@
+-- Incremental re-reviews build on the latest run in review_runs, which the dashboard and the
+-- worker both save, so the separate copy of each PR's last review is no longer needed.
+DROP TABLE IF EXISTS public.last_reviews;
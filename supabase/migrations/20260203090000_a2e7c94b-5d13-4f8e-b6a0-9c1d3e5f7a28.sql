@@ -0,0 +1,16 @@
+-- The GitHub App private key joins the other credentials in the vault, and installation tokens
+-- are no longer stored at all: edge functions keep them in memory until shortly before expiry.
+ALTER TABLE public.workspace_secrets DROP CONSTRAINT IF EXISTS workspace_secrets_name_check;
+
+ALTER TABLE public.workspace_secrets
+ADD CONSTRAINT workspace_secrets_name_check
+CHECK (name IN ('github_token', 'github_webhook_secret', 'github_app_private_key', 'ai_api_key', 'jira_api_token', 'sonar_token') OR name ~ '^ai_api_key:[a-z0-9-]+$');
+
+SELECT public.set_workspace_secret(workspace_id, 'github_app_private_key', private_key)
+FROM public.github_app_installations
+WHERE COALESCE(private_key, '') <> '';
+
+ALTER TABLE public.github_app_installations
+DROP COLUMN private_key,
+DROP COLUMN installation_token,
+DROP COLUMN token_expires_at;
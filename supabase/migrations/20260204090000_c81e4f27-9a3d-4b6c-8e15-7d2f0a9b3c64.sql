@@ -0,0 +1,57 @@
+-- Edge functions and the review worker send the workspace's stored secrets to the servers named in
+-- its config rows: the AI provider and base URLs, the SonarQube host and the Jira domain. Members
+-- can edit those rows, so only the owner may point them somewhere else; otherwise any member could
+-- have a stored key sent to a server of their choosing.
+
+-- Where a config row sends stored secrets. Empty base URLs count as unset.
+CREATE OR REPLACE FUNCTION public.config_secret_destination(_config_type TEXT, _config JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _config_type
+    WHEN 'ai' THEN jsonb_build_object(
+      'provider', _config->>'provider',
+      'baseUrl', NULLIF(_config->>'baseUrl', ''),
+      'reviewers', (
+        SELECT COALESCE(jsonb_agg(DISTINCT jsonb_build_array(r->>'provider', NULLIF(r->>'baseUrl', ''))), '[]'::jsonb)
+        FROM jsonb_array_elements(COALESCE(_config->'consensus'->'reviewers', '[]'::jsonb)) r
+      )
+    )
+    WHEN 'sonar' THEN jsonb_build_object('hostUrl', NULLIF(_config->>'hostUrl', ''))
+    WHEN 'jira' THEN jsonb_build_object('domain', NULLIF(_config->>'domain', ''))
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_config_secret_destination()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous JSONB;
+BEGIN
+  -- auth.uid() is null for the service role
+  IF auth.uid() IS NULL OR public.is_workspace_owner(NEW.workspace_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Upserts fire the INSERT trigger even when they update, so compare with the stored row
+  SELECT config_data INTO previous
+  FROM public.app_configurations
+  WHERE workspace_id = NEW.workspace_id AND config_type = NEW.config_type;
+
+  IF public.config_secret_destination(NEW.config_type, NEW.config_data)
+     IS DISTINCT FROM public.config_secret_destination(NEW.config_type, previous) THEN
+    RAISE EXCEPTION 'Only the workspace owner can change the servers its stored credentials are sent to';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_app_configurations_secret_destination
+BEFORE INSERT OR UPDATE ON public.app_configurations
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_config_secret_destination();
@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { contextWindowFor, createProviderCompleter, formatServerSentEvent, isAIConfigured, isPublicHttpsUrl, readServerSentEvents } from '../src/lib/aiProviders';
+import { DEFAULT_AI_CONFIG } from '../src/types/codeReview';
+
+interface RecordedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+// Local stand-in for the provider APIs; each test sets how it answers
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let respond: (request: RecordedRequest, res: ServerResponse) => void;
+
+function sse(res: ServerResponse, events: string[]) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  // Split mid-event so the reader has to buffer partial chunks
+  const payload = events.join('');
+  res.write(payload.slice(0, 7));
+  res.end(payload.slice(7));
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const request = { url: req.url || '', headers: req.headers, body: raw ? JSON.parse(raw) : null };
+      requests.push(request);
+      respond(request, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+});
+
+// Hosted providers only call their own hosts; those requests are routed to the local stand-in
+const toLocal = ((url: string, init?: RequestInit) => fetch(url.replace(/^https:\/\/[^/]+/, baseUrl), init)) as typeof fetch;
+const completer = (apiKey = 'secret-key') => createProviderCompleter(apiKey, toLocal);
+
+describe('createProviderCompleter', () => {
+  it('sends chat completions requests and reads the full answer', async () => {
+    respond = (_req, res) => res.end(JSON.stringify({ choices: [{ message: { content: 'Looks good' } }] }));
+
+    const text = await completer()({ provider: 'openai', model: 'gpt-4o', prompt: 'Review', temperature: 0.2, maxTokens: 100 });
+
+    expect(text).toBe('Looks good');
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer secret-key');
+    expect(requests[0].body).toEqual({ model: 'gpt-4o', messages: [{ role: 'user', content: 'Review' }], temperature: 0.2, max_tokens: 100 });
+  });
+
+  it('streams OpenAI-compatible deltas until [DONE]', async () => {
+    respond = (_req, res) => sse(res, [
+      formatServerSentEvent({ choices: [{ delta: { role: 'assistant' } }] }),
+      formatServerSentEvent({ choices: [{ delta: { content: 'Hel' } }] }),
+      formatServerSentEvent({ choices: [{ delta: { content: 'lo' } }] }),
+      'data: [DONE]\n\n',
+    ]);
+
+    const deltas: string[] = [];
+    const text = await completer()({ provider: 'groq', model: 'llama', prompt: 'Hi' }, delta => deltas.push(delta));
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(text).toBe('Hello');
+  });
+
+  it('streams Anthropic content block deltas with the key in x-api-key', async () => {
+    respond = (_req, res) => sse(res, [
+      formatServerSentEvent({ type: 'message_start' }, 'message_start'),
+      formatServerSentEvent({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'Fine' } }, 'content_block_delta'),
+      formatServerSentEvent({ type: 'message_stop' }, 'message_stop'),
+    ]);
+
+    const text = await completer()({ provider: 'anthropic', model: 'claude', prompt: 'Hi' }, () => {});
+
+    expect(text).toBe('Fine');
+    expect(requests[0].url).toBe('/v1/messages');
+    expect(requests[0].headers['x-api-key']).toBe('secret-key');
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('streams Google responses from streamGenerateContent', async () => {
+    respond = (_req, res) => sse(res, [
+      formatServerSentEvent({ candidates: [{ content: { parts: [{ text: 'A' }] } }] }),
+      formatServerSentEvent({ candidates: [{ content: { parts: [{ text: 'B' }] } }] }),
+    ]);
+
+    const text = await completer()({ provider: 'google', model: 'gemini-1.5-pro', prompt: 'Hi' }, () => {});
+
+    expect(text).toBe('AB');
+    expect(requests[0].url).toBe('/v1beta/models/gemini-1.5-pro:streamGenerateContent?alt=sse&key=secret-key');
+  });
+
+  it('throws the provider error message', async () => {
+    respond = (_req, res) => {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Invalid API key' } }));
+    };
+
+    await expect(completer()({ provider: 'openai', model: 'gpt-4o', prompt: 'Hi' })).rejects.toThrow('Invalid API key');
+  });
+
+  it('throws an error event sent after the stream started', async () => {
+    respond = (_req, res) => sse(res, [
+      formatServerSentEvent({ type: 'content_block_delta', delta: { text: 'Par' } }),
+      formatServerSentEvent({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }, 'error'),
+    ]);
+
+    await expect(completer()({ provider: 'anthropic', model: 'claude', prompt: 'Hi' }, () => {})).rejects.toThrow('Overloaded');
+  });
+});
+
+describe('structured output', () => {
+  const responseSchema = { name: 'submit_title', description: 'Submit a title', schema: { type: 'object' as const, properties: { title: { type: 'string' as const } }, required: ['title'] } };
+
+  it('asks OpenAI-compatible servers for the schema and Groq for JSON mode', async () => {
+    respond = (_req, res) => res.end(JSON.stringify({ choices: [{ message: { content: '{"title":"feat: x"}' } }] }));
+
+    await completer()({ provider: 'openai', model: 'gpt-4o', prompt: 'Hi', responseSchema });
+    await completer()({ provider: 'groq', model: 'llama', prompt: 'Hi', responseSchema });
+
+    expect(requests[0].body.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'submit_title', description: 'Submit a title', schema: responseSchema.schema, strict: false },
+    });
+    expect(requests[1].body.response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('makes Anthropic call a tool and returns its input as JSON', async () => {
+    respond = (_req, res) => res.end(JSON.stringify({ content: [{ type: 'tool_use', name: 'submit_title', input: { title: 'feat: x' } }] }));
+
+    const text = await completer()({ provider: 'anthropic', model: 'claude', prompt: 'Hi', responseSchema });
+
+    expect(JSON.parse(text)).toEqual({ title: 'feat: x' });
+    expect(requests[0].body.tool_choice).toEqual({ type: 'tool', name: 'submit_title' });
+  });
+
+  it('streams Anthropic tool input', async () => {
+    respond = (_req, res) => sse(res, [
+      formatServerSentEvent({ type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{"title":' } }),
+      formatServerSentEvent({ type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '"feat: x"}' } }),
+    ]);
+
+    const text = await completer()({ provider: 'anthropic', model: 'claude', prompt: 'Hi', responseSchema }, () => {});
+
+    expect(text).toBe('{"title":"feat: x"}');
+  });
+
+  it('sends Gemini an upper-case response schema', async () => {
+    respond = (_req, res) => res.end(JSON.stringify({ candidates: [{ content: { parts: [{ text: '{"title":"feat: x"}' }] } }] }));
+
+    await completer()({ provider: 'google', model: 'gemini-1.5-pro', prompt: 'Hi', responseSchema });
+
+    expect(requests[0].body.generationConfig).toMatchObject({
+      responseMimeType: 'application/json',
+      responseSchema: { type: 'OBJECT', properties: { title: { type: 'STRING' } }, required: ['title'] },
+    });
+  });
+});
+
+describe('self-hosted and Azure adapters', () => {
+  it('calls an Ollama server without a key', async () => {
+    respond = (_req, res) => res.end(JSON.stringify({ choices: [{ message: { content: 'ok' } }] }));
+
+    const text = await completer('')({ provider: 'ollama', baseUrl: `${baseUrl}/v1/`, model: 'qwen2.5-coder', prompt: 'Hi' });
+
+    expect(text).toBe('ok');
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].body.model).toBe('qwen2.5-coder');
+  });
+
+  it('sends Azure requests to the deployment with an api-key header', async () => {
+    respond = (_req, res) => res.end(JSON.stringify({ choices: [{ message: { content: 'ok' } }] }));
+
+    await completer()({ provider: 'azure-openai', baseUrl: 'https://review.openai.azure.com', model: 'review-gpt4o', prompt: 'Hi' });
+
+    expect(requests[0].url).toBe('/openai/deployments/review-gpt4o/chat/completions?api-version=2024-10-21');
+    expect(requests[0].headers['api-key']).toBe('secret-key');
+  });
+
+  it('reports plain string errors from local servers', async () => {
+    respond = (_req, res) => {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'model "missing" not found' }));
+    };
+
+    await expect(completer('')({ provider: 'vllm', baseUrl, model: 'missing', prompt: 'Hi' })).rejects.toThrow('model "missing" not found');
+  });
+
+  it('needs a base URL where the adapter has none', async () => {
+    await expect(completer('')({ provider: 'llamacpp', model: 'default', prompt: 'Hi' })).rejects.toThrow('needs a base URL');
+  });
+
+  it('only sends hosted providers their own hosts over https', async () => {
+    await expect(completer()({ provider: 'openai', baseUrl: 'https://evil.example.com/v1', model: 'gpt-4o', prompt: 'Hi' }))
+      .rejects.toThrow('OpenAI requests may only go to api.openai.com over https');
+    await expect(completer()({ provider: 'azure-openai', baseUrl: 'http://review.openai.azure.com', model: 'gpt4o', prompt: 'Hi' })).rejects.toThrow('over https');
+    await expect(completer()({ provider: 'azure-openai', baseUrl: 'https://openai.azure.com.evil.example', model: 'gpt4o', prompt: 'Hi' })).rejects.toThrow('over https');
+    expect(requests).toEqual([]);
+  });
+});
+
+describe('isAIConfigured', () => {
+  it('requires a key for hosted providers and a base URL for self-hosted ones', () => {
+    expect(isAIConfigured({ ...DEFAULT_AI_CONFIG, apiKey: '' })).toBe(false);
+    expect(isAIConfigured({ ...DEFAULT_AI_CONFIG, apiKey: '', apiKeyLastFour: 'abcd' })).toBe(true);
+    expect(isAIConfigured({ ...DEFAULT_AI_CONFIG, provider: 'ollama', model: 'llama3.1' })).toBe(false);
+    expect(isAIConfigured({ ...DEFAULT_AI_CONFIG, provider: 'ollama', model: 'llama3.1', baseUrl: 'http://ollama:11434/v1' })).toBe(true);
+    expect(isAIConfigured({ ...DEFAULT_AI_CONFIG, provider: 'azure-openai', model: 'gpt4o', baseUrl: 'https://r.openai.azure.com' })).toBe(false);
+  });
+});
+
+describe('isPublicHttpsUrl', () => {
+  it('accepts https on public hosts only', () => {
+    expect(isPublicHttpsUrl('https://llm.example.com/v1')).toBe(true);
+    expect(isPublicHttpsUrl('https://203.0.113.7/v1')).toBe(true);
+    expect(isPublicHttpsUrl('http://llm.example.com/v1')).toBe(false);
+    expect(isPublicHttpsUrl('not a url')).toBe(false);
+    for (const host of ['localhost', 'ollama', 'gpu.local', 'db.internal', '127.0.0.1', '10.0.0.5', '172.20.1.1', '192.168.1.2', '169.254.169.254', '100.64.0.1', '0.0.0.0', '[::1]', '[::ffff:127.0.0.1]', '[fd00::1]', '[fe80::1]']) {
+      expect(isPublicHttpsUrl(`https://${host}/v1`), host).toBe(false);
+    }
+  });
+});
+
+describe('contextWindowFor', () => {
+  it('prefers the configured window, then the model, then the adapter default', () => {
+    expect(contextWindowFor({ provider: 'vllm', model: 'x', contextWindow: 32768 })).toBe(32768);
+    expect(contextWindowFor({ provider: 'openai', model: 'gpt-3.5-turbo' })).toBe(16385);
+    expect(contextWindowFor({ provider: 'ollama', model: 'llama3.1' })).toBe(8192);
+  });
+});
+
+describe('readServerSentEvents', () => {
+  it('joins multi-line data and keeps the event name', async () => {
+    const events: { event?: string; data: string }[] = [];
+    const body = new Response('event: done\ndata: {"a":\ndata: 1}\n\ndata: tail').body!;
+
+    await readServerSentEvents(body, event => events.push(event));
+
+    expect(events).toEqual([{ event: 'done', data: '{"a":\n1}' }, { event: undefined, data: 'tail' }]);
+  });
+});
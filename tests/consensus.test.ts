@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { clusterSuggestions, consensusModels, generateConsensusReview, mergeConsensus, scoreSpread, type ModelReview } from '../src/lib/consensus';
+import type { AICompleter } from '../src/lib/aiProviders';
+import { DEFAULT_AI_CONFIG, type AICodeSuggestion, type AIConfig, type AIReviewResult, type PullRequest } from '../src/types/codeReview';
+
+const scores = (score: number) => ({ codeQuality: score, security: score, performance: score, maintainability: score, testability: score });
+
+function suggestion(overrides: Partial<AICodeSuggestion>): AICodeSuggestion {
+  return { id: '1', type: 'bug', severity: 'medium', file: 'src/cart.ts', line: 10, message: '', suggestion: '', status: 'pending', ...overrides };
+}
+
+function modelReview(provider: AIConfig['provider'], model: string, score: number, suggestions: AICodeSuggestion[] = []): ModelReview {
+  const review: AIReviewResult = { summary: `${model} summary`, suggestions, overallScore: score, categories: scores(score), timestamp: '2026-01-18T09:05:00Z', model };
+  return { config: { provider, model }, review };
+}
+
+const config: AIConfig = {
+  ...DEFAULT_AI_CONFIG,
+  apiKey: 'k',
+  consensus: { enabled: true, requireAll: false, reviewers: [{ provider: 'anthropic', model: 'claude', apiKey: 'a' }, { provider: 'groq', model: 'llama', apiKey: 'g' }] },
+};
+
+describe('scoreSpread', () => {
+  it('rates confidence by how far the scores are apart', () => {
+    expect(scoreSpread([80, 86])).toEqual({ mean: 83, min: 80, max: 86, spread: 6, confidence: 'high' });
+    expect(scoreSpread([60, 80]).confidence).toBe('medium');
+    expect(scoreSpread([50, 90]).confidence).toBe('low');
+    expect(scoreSpread([90]).confidence).toBe('low');
+  });
+});
+
+describe('clusterSuggestions', () => {
+  it('groups similar findings on nearby lines and counts the models that agree', () => {
+    const clustered = clusterSuggestions([
+      modelReview('openai', 'gpt-4o', 80, [
+        suggestion({ line: 10, severity: 'medium', message: 'Missing null check on discount', suggestion: 'Check discount for null before applying it' }),
+        suggestion({ line: 40, type: 'style', severity: 'low', message: 'Rename variable x' }),
+      ]),
+      modelReview('anthropic', 'claude', 70, [
+        suggestion({ line: 12, severity: 'high', message: 'Discount may be null', suggestion: 'Add a null check before applying the discount' }),
+      ]),
+      modelReview('groq', 'llama', 75, [
+        suggestion({ line: 10, type: 'performance', message: 'Loop recomputes totals', suggestion: 'Cache the cart total' }),
+      ]),
+    ]);
+
+    expect(clustered.map(s => [s.id, s.message, s.severity, s.agreement?.count, s.agreement?.total])).toEqual([
+      ['1', 'Discount may be null', 'high', 2, 3],
+      ['2', 'Loop recomputes totals', 'medium', 1, 3],
+      ['3', 'Rename variable x', 'low', 1, 3],
+    ]);
+    expect(clustered[0].agreement?.models).toEqual(['openai/gpt-4o', 'anthropic/claude']);
+  });
+});
+
+describe('mergeConsensus', () => {
+  it('reports the mean scores with each model and the spread', () => {
+    const merged = mergeConsensus([modelReview('openai', 'gpt-4o', 90), modelReview('anthropic', 'claude', 70)]);
+
+    expect(merged.overallScore).toBe(80);
+    expect(merged.categories.security).toBe(80);
+    expect(merged.model).toBe('openai/gpt-4o, anthropic/claude');
+    expect(merged.consensus?.models.map(m => m.overallScore)).toEqual([90, 70]);
+    expect(merged.consensus?.categories.security).toMatchObject({ spread: 20, confidence: 'medium' });
+  });
+});
+
+describe('generateConsensusReview', () => {
+  const pr = { number: 1, title: 'Cart', author: 'octocat', head: { ref: 'f', sha: 's' }, base: { ref: 'main' }, body: '', additions: 1, deletions: 0, changedFiles: 1 } as PullRequest;
+  const files = [{ filename: 'src/cart.ts', status: 'modified', additions: 1, deletions: 0, patch: '@@ -1 +1 @@\n+x' }];
+
+  it('reviews with every model and lists the ones that failed', async () => {
+    const answer = (score: number): AICompleter => async () => JSON.stringify({ summary: 'ok', overallScore: score, categories: scores(score), suggestions: [], recommendation: 'COMMENT' });
+    const completers: Record<string, AICompleter> = {
+      openai: answer(90),
+      anthropic: answer(70),
+      groq: async () => { throw new Error('rate limited'); },
+    };
+
+    const review = await generateConsensusReview(config, pr, files, { type: 'review', prNumber: 1 }, null, model => completers[model.provider]);
+
+    expect(review.overallScore).toBe(80);
+    expect(review.consensus?.failed).toEqual([{ provider: 'groq', model: 'llama', error: 'rate limited' }]);
+  });
+
+  it('builds one config per model from the primary settings', () => {
+    expect(consensusModels(config).map(m => [m.provider, m.model, m.apiKey, m.postToGitHub])).toEqual([
+      ['openai', 'gpt-4o', 'k', true],
+      ['anthropic', 'claude', 'a', true],
+      ['groq', 'llama', 'g', true],
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { diffTokenBudget, mergeReviewResults, planReviewBatches } from '../src/lib/diffChunking';
+import { generateAIReview, partialSummary } from '../src/lib/aiReview';
+import { createProviderCompleter } from '../src/lib/aiProviders';
+import { DEFAULT_AI_CONFIG, type AICodeSuggestion, type AIReviewResult, type PRFile, type PullRequest } from '../src/types/codeReview';
+
+function file(filename: string, patchChars: number, lines = 10): PRFile {
+  return { filename, status: 'modified', additions: lines, deletions: 0, patch: patchChars ? `+${'x'.repeat(patchChars)}` : undefined };
+}
+
+function review(overallScore: number, suggestions: Partial<AICodeSuggestion>[] = []): AIReviewResult {
+  return {
+    summary: `score ${overallScore}`,
+    suggestions: suggestions.map((s, i) => ({ id: String(i + 1), type: 'bug', severity: 'low', file: 'a.ts', message: 'm', suggestion: '', status: 'pending', ...s })),
+    overallScore,
+    categories: { codeQuality: overallScore, security: overallScore, performance: overallScore, maintainability: overallScore, testability: overallScore },
+    timestamp: '2026-01-22T10:00:00Z',
+    model: 'gpt-4o',
+  };
+}
+
+describe('planReviewBatches', () => {
+  it('packs files under the budget and keeps PR order inside a batch', () => {
+    const files = [file('a.ts', 400), file('b.ts', 1600), file('c.ts', 800), file('d.ts', 1200)];
+
+    const { batches, skipped } = planReviewBatches(files, 600);
+
+    expect(skipped).toEqual([]);
+    expect(batches.map(b => b.map(f => f.filename))).toEqual([['a.ts', 'b.ts'], ['c.ts', 'd.ts']]);
+  });
+
+  it('reports binary files and diffs over the budget', () => {
+    const binary = { ...file('logo.png', 0), additions: 0 };
+    const truncated = file('package-lock.json', 0, 9000);
+
+    const { batches, skipped } = planReviewBatches([binary, truncated, file('huge.sql', 10000), file('a.ts', 100)], 1000);
+
+    expect(batches).toHaveLength(1);
+    expect(skipped).toEqual([
+      { filename: 'logo.png', reason: 'binary' },
+      { filename: 'package-lock.json', reason: 'too-large' },
+      { filename: 'huge.sql', reason: 'too-large' },
+    ]);
+  });
+});
+
+describe('diffTokenBudget', () => {
+  it('leaves room for the prompt and the answer in small context windows', () => {
+    expect(diffTokenBudget({ ...DEFAULT_AI_CONFIG, model: 'mixtral-8x7b-32768' }, 1000)).toBe(27768);
+    expect(diffTokenBudget({ ...DEFAULT_AI_CONFIG, model: 'gpt-4o' }, 1000)).toBe(29000);
+  });
+
+  it('throws when the prompt leaves no room for any diff', () => {
+    const selfHosted = { ...DEFAULT_AI_CONFIG, model: 'llama-3-8b', contextWindow: 8192 };
+
+    expect(() => diffTokenBudget(selfHosted, 4192)).toThrow('leaving no room for the diff in the 8192-token context window of llama-3-8b');
+    expect(diffTokenBudget(selfHosted, 4000)).toBe(192);
+  });
+});
+
+describe('mergeReviewResults', () => {
+  it('weights scores by lines changed and dedupes suggestions', () => {
+    const merged = mergeReviewResults([
+      { review: review(90, [{ message: 'Null check', line: 3 }]), files: [file('a.ts', 10, 30)] },
+      { review: review(50, [{ message: 'null  check', line: 3, severity: 'high' }, { message: 'Other', file: 'b.ts' }]), files: [file('b.ts', 10, 10)] },
+    ], [{ filename: 'logo.png', reason: 'binary' }]);
+
+    expect(merged.overallScore).toBe(80);
+    expect(merged.categories.security).toBe(80);
+    expect(merged.suggestions.map(s => [s.id, s.message, s.severity])).toEqual([['1', 'null  check', 'high'], ['2', 'Other', 'low']]);
+    expect(merged.skippedFiles).toEqual([{ filename: 'logo.png', reason: 'binary' }]);
+  });
+});
+
+describe('generateAIReview', () => {
+  const scores = (score: number) => ({ codeQuality: score, security: score, performance: score, maintainability: score, testability: score });
+
+  it('reviews batches separately and merges the answers', async () => {
+    const pr = { number: 1, title: 'Big change', author: 'octocat', head: { ref: 'f', sha: 's' }, base: { ref: 'main' }, body: '' } as PullRequest;
+    const prompts: string[] = [];
+    const fetchImpl = (async (_url: string, init: RequestInit) => {
+      const prompt = JSON.parse(init.body as string).messages[0].content as string;
+      prompts.push(prompt);
+      const score = prompt.includes('big-1.ts') ? 60 : 100;
+      return new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify({ summary: 'ok', overallScore: score, categories: scores(score), suggestions: [] }) } }] }));
+    }) as typeof fetch;
+
+    const files = [file('big-1.ts', 80000, 100), file('big-2.ts', 80000, 100)];
+    const result = await generateAIReview({ ...DEFAULT_AI_CONFIG, apiKey: 'k' }, pr, files, { type: 'review', prNumber: 1 }, null, createProviderCompleter('k', fetchImpl));
+
+    expect(prompts).toHaveLength(2);
+    expect(result.overallScore).toBe(80);
+    expect(result.categories.security).toBe(80);
+  });
+
+  it('refuses to score a review when every file was skipped, but still summarizes the description', async () => {
+    const pr = { number: 1, title: 'Regenerate lockfile', author: 'octocat', head: { ref: 'f', sha: 's' }, base: { ref: 'main' }, body: 'Bumps deps' } as PullRequest;
+    let calls = 0;
+    const fetchImpl = (async () => {
+      calls++;
+      return new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify({ summary: 'Bumps dependencies' }) } }] }));
+    }) as typeof fetch;
+    const config = { ...DEFAULT_AI_CONFIG, apiKey: 'k' };
+    const files = [file('package-lock.json', 0, 9000), file('huge.sql', 200000)];
+
+    await expect(generateAIReview(config, pr, files, { type: 'review', prNumber: 1 }, null, createProviderCompleter('k', fetchImpl)))
+      .rejects.toThrow('None of the 2 changed files could be reviewed');
+    expect(calls).toBe(0);
+
+    const summary = await generateAIReview(config, pr, files, { type: 'summary', prNumber: 1 }, null, createProviderCompleter('k', fetchImpl));
+    expect(summary.summary).toBe('Bumps dependencies');
+    expect(summary.unscored).toBe(true);
+  });
+});
+
+describe('partialSummary', () => {
+  it('reads the summary while it is still arriving', () => {
+    expect(partialSummary('```json\n{ "summary": "Adds retries')).toBe('Adds retries');
+    expect(partialSummary('{ "summary": "Done.", "overallScore": 90')).toBe('Done.');
+    expect(partialSummary('{ "overall')).toBeNull();
+  });
+
+  it('unescapes JSON and stops before an incomplete escape', () => {
+    expect(partialSummary('{"summary": "Line 1\\nSays \\"hi\\" \\u00e9')).toBe('Line 1\nSays "hi" \u00e9');
+    expect(partialSummary('{"summary": "Tab\\')).toBe('Tab');
+    expect(partialSummary('{"summary": "x\\u00')).toBe('x');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync, verify } from 'node:crypto';
+import { createAppJWT, needsRefresh } from '../src/lib/githubAppAuth';
+import { getInstallationToken, type AppInstallation, type InstallationStore } from '../supabase/functions/_shared/githubAppToken';
+
+// GitHub issues PKCS#1 keys, the format Web Crypto can't import directly
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+function decodeSegment(segment: string) {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString());
+}
+
+describe('createAppJWT', () => {
+  it('signs an RS256 JWT GitHub accepts from a PKCS#1 key', async () => {
+    const now = Date.parse('2026-01-23T09:00:00Z');
+
+    const jwt = await createAppJWT('123456', privateKey, now);
+    const [header, payload, signature] = jwt.split('.');
+
+    expect(decodeSegment(header)).toEqual({ alg: 'RS256', typ: 'JWT' });
+    expect(decodeSegment(payload)).toEqual({ iss: '123456', iat: now / 1000 - 60, exp: now / 1000 + 480 });
+    expect(verify('sha256', Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, 'base64url'))).toBe(true);
+  });
+});
+
+describe('getInstallationToken', () => {
+  const now = Date.now();
+  const expiringIn = (minutes: number) => ({ token: `ghs_${minutes}`, expiresAt: new Date(now + minutes * 60_000).toISOString() });
+
+  function store(installation: AppInstallation | null) {
+    const saved: string[] = [];
+    const value: InstallationStore = {
+      get: async () => installation,
+      saveToken: async (_id, token) => { saved.push(token.token); },
+    };
+    return { value, saved };
+  }
+
+  it('reuses the cached token while it has time left', async () => {
+    const { value, saved } = store({ appId: '1', privateKey, token: expiringIn(30) });
+    const fetchImpl = (async () => { throw new Error('should not mint'); }) as typeof fetch;
+
+    expect((await getInstallationToken(value, '42', fetchImpl)).token).toBe('ghs_30');
+    expect(saved).toEqual([]);
+  });
+
+  it('mints and stores a new token shortly before expiry', async () => {
+    const { value, saved } = store({ appId: '1', privateKey, token: expiringIn(2) });
+    const requests: { url: string; auth: string }[] = [];
+    const fetchImpl = (async (url: string, init: RequestInit) => {
+      requests.push({ url, auth: (init.headers as Record<string, string>).Authorization });
+      return new Response(JSON.stringify({ token: 'ghs_new', expires_at: '2026-01-23T10:00:00Z' }), { status: 201 });
+    }) as typeof fetch;
+
+    const token = await getInstallationToken(value, '42', fetchImpl);
+
+    expect(token).toEqual({ token: 'ghs_new', expiresAt: '2026-01-23T10:00:00Z' });
+    expect(requests[0].url).toBe('https://api.github.com/app/installations/42/access_tokens');
+    expect(requests[0].auth).toMatch(/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/);
+    expect(saved).toEqual(['ghs_new']);
+    expect(needsRefresh(token, Date.parse('2026-01-23T09:50:00Z'))).toBe(false);
+    expect(needsRefresh(token, Date.parse('2026-01-23T09:56:00Z'))).toBe(true);
+  });
+
+  it('refuses an installation the workspace did not register', async () => {
+    const { value } = store(null);
+    const fetchImpl = (async () => { throw new Error('should not mint'); }) as typeof fetch;
+
+    await expect(getInstallationToken(value, '42', fetchImpl)).rejects.toThrow('GitHub App installation 42 is not registered to this workspace');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createGitHubClient, createMemoryCache, scopeCache } from '../src/lib/githubClient';
+import { githubRequestPage } from '../src/lib/githubApi';
+import type { GitHubConfig } from '../src/types/codeReview';
+
+const config: GitHubConfig = { token: 't', owner: 'acme', repo: 'shop' };
+const quota = (remaining: number, resource = 'core') => ({
+  'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': String(remaining), 'x-ratelimit-reset': '1769080000', 'x-ratelimit-resource': resource,
+});
+
+describe('createGitHubClient', () => {
+  it('revalidates with the ETag and replays the cached page on 304', async () => {
+    const sent: Headers[] = [];
+    const fetchImpl = (async (_url: string, init: RequestInit) => {
+      const headers = new Headers(init.headers);
+      sent.push(headers);
+      if (headers.get('If-None-Match') === '"v1"') return new Response(null, { status: 304, headers: quota(4998) });
+      return new Response('[{"number":1}]', { headers: { ETag: '"v1"', Link: '<https://api.github.com/p2>; rel="next"', ...quota(4999) } });
+    }) as typeof fetch;
+    const client = createGitHubClient({ cache: createMemoryCache(), fetchImpl });
+
+    await githubRequestPage(config, '/repos/acme/shop/pulls', client.fetch);
+    const second = await githubRequestPage(config, '/repos/acme/shop/pulls', client.fetch);
+
+    expect(sent[0].get('If-None-Match')).toBeNull();
+    expect(sent[1].get('Authorization')).toBe('Bearer t');
+    expect(second).toEqual({ data: [{ number: 1 }], next: 'https://api.github.com/p2' });
+    expect(client.getRateLimits()).toEqual([{ resource: 'core', limit: 5000, remaining: 4998, resetAt: 1769080000000 }]);
+  });
+
+  it('backs off exponentially on secondary rate limits, honouring Retry-After', async () => {
+    const delays: number[] = [];
+    const responses = [
+      new Response('{"message":"You have exceeded a secondary rate limit"}', { status: 403 }),
+      new Response('{}', { status: 429 }),
+      new Response('{}', { status: 403, headers: { 'Retry-After': '7' } }),
+      new Response('{"ok":true}'),
+    ];
+    const fetchImpl = (async () => responses.shift()!) as typeof fetch;
+    const client = createGitHubClient({ fetchImpl, sleep: async (ms) => { delays.push(ms); } });
+
+    const response = await client.fetch('https://api.github.com/graphql', { method: 'POST', body: '{}' });
+
+    expect(await response.json()).toEqual({ ok: true });
+    expect(delays).toEqual([1000, 2000, 7000]);
+  });
+
+  it('returns an exhausted primary quota straight away', async () => {
+    let calls = 0;
+    const fetchImpl = (async () => {
+      calls++;
+      return new Response('{"message":"API rate limit exceeded"}', { status: 403, headers: quota(0) });
+    }) as typeof fetch;
+    const updates: number[] = [];
+    const client = createGitHubClient({ fetchImpl, sleep: async () => {} });
+    client.subscribe(limits => updates.push(limits[0].remaining));
+
+    const response = await client.fetch('https://api.github.com/repos/acme/shop');
+
+    expect(response.status).toBe(403);
+    expect(calls).toBe(1);
+    expect(updates).toEqual([0]);
+  });
+});
+
+describe('scopeCache', () => {
+  it('keeps each workspace\'s responses apart and caches nothing without one', async () => {
+    const entry = { etag: '"v1"', body: '[]', link: null, storedAt: 1 };
+    let scope: string | null = 'ws-a';
+    const cache = scopeCache(createMemoryCache(), async () => scope);
+
+    await cache.set('https://api.github.com/repos/acme/shop', entry);
+    expect(await cache.get('https://api.github.com/repos/acme/shop')).toEqual(entry);
+
+    scope = 'ws-b';
+    expect(await cache.get('https://api.github.com/repos/acme/shop')).toBeUndefined();
+    scope = null;
+    await cache.set('https://api.github.com/repos/acme/shop', entry);
+    expect(await cache.get('https://api.github.com/repos/acme/shop')).toBeUndefined();
+
+    scope = 'ws-a';
+    await cache.clear();
+    expect(await cache.get('https://api.github.com/repos/acme/shop')).toBeUndefined();
+  });
+});
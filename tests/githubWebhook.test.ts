@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { handleWebhookRequest, verifySignature, type ReviewQueueItem, type WebhookDeps, type WebhookSubscriber } from '../supabase/functions/_shared/githubWebhook';
+
+const SECRET = 'webhook-secret';
+
+function fixture(name: string): Record<string, unknown> {
+  return JSON.parse(readFileSync(join(__dirname, 'fixtures/webhooks', `${name}.json`), 'utf8'));
+}
+
+function sign(body: string, secret = SECRET): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function delivery(event: string, payload: unknown, signature?: string): Request {
+  const body = JSON.stringify(payload);
+  return new Request('https://example.supabase.co/functions/v1/github-webhook', {
+    method: 'POST',
+    headers: {
+      'x-github-event': event,
+      'x-github-delivery': '72d3162e-cc78-11e3-81ab-4c9367dc0958',
+      'x-hub-signature-256': signature ?? sign(body),
+    },
+    body,
+  });
+}
+
+function fakeDeps(secret: string | null = SECRET, others: WebhookSubscriber[] = []) {
+  const queued: ReviewQueueItem[] = [];
+  const workspaces: string[] = [];
+  const deps: WebhookDeps = {
+    getWebhookSubscribers: async (repo) => (repo === 'acme/shop' ? [...others, ...(secret ? [{ workspaceId: 'ws-1', secret }] : [])] : []),
+    enqueueReview: async (item, workspaceId) => { queued.push(item); workspaces.push(workspaceId); },
+  };
+  return { deps, queued, workspaces };
+}
+
+describe('verifySignature', () => {
+  it('accepts the HMAC GitHub sends and rejects anything else', async () => {
+    const body = '{"zen":"Keep it logically awesome."}';
+    expect(await verifySignature(SECRET, body, sign(body))).toBe(true);
+    expect(await verifySignature(SECRET, body, sign(body, 'other'))).toBe(false);
+    expect(await verifySignature(SECRET, body, null)).toBe(false);
+  });
+});
+
+describe('handleWebhookRequest', () => {
+  it('queues a review when a pull request is opened', async () => {
+    const { deps, queued } = fakeDeps();
+    const res = await handleWebhookRequest(delivery('pull_request', fixture('pull_request.opened')), deps);
+
+    expect(res.status).toBe(202);
+    expect(queued).toEqual([{
+      owner: 'acme',
+      repo: 'shop',
+      prNumber: 42,
+      headSha: '6dcb09b5b57875f334f61aebed695e2e4193db5e',
+      eventType: 'pull_request',
+      action: 'opened',
+      deliveryId: '72d3162e-cc78-11e3-81ab-4c9367dc0958',
+      command: 'review',
+      context: null,
+      commentId: null,
+      requestedBy: 'octocat',
+    }]);
+  });
+
+  it('ignores draft pull requests', async () => {
+    const { deps, queued } = fakeDeps();
+    const payload = fixture('pull_request.opened');
+    (payload.pull_request as Record<string, unknown>).draft = true;
+
+    const res = await handleWebhookRequest(delivery('pull_request', payload), deps);
+
+    expect(res.status).toBe(202);
+    expect(await res.json()).toMatchObject({ queued: false });
+    expect(queued).toHaveLength(0);
+  });
+
+  it('queues @ai comments on pull requests with the parsed command', async () => {
+    const { deps, queued } = fakeDeps();
+    await handleWebhookRequest(delivery('issue_comment', fixture('issue_comment.created')), deps);
+
+    expect(queued[0]).toMatchObject({
+      prNumber: 42,
+      command: 'summary',
+      context: '@ai summary please',
+      commentId: 1362934389,
+      requestedBy: 'hubot',
+      headSha: null,
+    });
+  });
+
+  it('queues unknown @ai commands without a command so the worker can reply with help', async () => {
+    const { deps, queued } = fakeDeps();
+    const payload = fixture('issue_comment.created');
+    (payload.comment as Record<string, unknown>).body = '@ai deploy';
+
+    await handleWebhookRequest(delivery('issue_comment', payload), deps);
+    expect(queued[0]).toMatchObject({ command: null, context: '@ai deploy' });
+  });
+
+  it('ignores comments posted by bots', async () => {
+    const { deps, queued } = fakeDeps();
+    const payload = fixture('issue_comment.created');
+    (payload.comment as { user: Record<string, unknown> }).user.type = 'Bot';
+
+    await handleWebhookRequest(delivery('issue_comment', payload), deps);
+    expect(queued).toHaveLength(0);
+  });
+
+  it('queues @ai commands from review comment threads', async () => {
+    const { deps, queued } = fakeDeps();
+    await handleWebhookRequest(delivery('pull_request_review_comment', fixture('pull_request_review_comment.created')), deps);
+
+    expect(queued[0]).toMatchObject({
+      eventType: 'pull_request_review_comment',
+      command: 'dismiss',
+      commentId: 2001,
+      headSha: '6dcb09b5b57875f334f61aebed695e2e4193db5e',
+    });
+  });
+
+  it('ignores comments on plain issues', async () => {
+    const { deps, queued } = fakeDeps();
+    const payload = fixture('issue_comment.created');
+    delete (payload.issue as Record<string, unknown>).pull_request;
+
+    await handleWebhookRequest(delivery('issue_comment', payload), deps);
+    expect(queued).toHaveLength(0);
+  });
+
+  it('accepts review events without queueing a run', async () => {
+    const { deps, queued } = fakeDeps();
+    const res = await handleWebhookRequest(delivery('pull_request_review', fixture('pull_request_review.submitted')), deps);
+
+    expect(res.status).toBe(202);
+    expect(queued).toHaveLength(0);
+  });
+
+  it('rejects deliveries with a bad signature', async () => {
+    const { deps, queued } = fakeDeps();
+    const res = await handleWebhookRequest(delivery('pull_request', fixture('pull_request.opened'), 'sha256=deadbeef'), deps);
+
+    expect(res.status).toBe(401);
+    expect(queued).toHaveLength(0);
+  });
+
+  it('queues the review in the workspace whose secret signed the delivery', async () => {
+    const { deps, workspaces } = fakeDeps(SECRET, [{ workspaceId: 'ws-other', secret: 'other-secret' }]);
+    const res = await handleWebhookRequest(delivery('pull_request', fixture('pull_request.opened')), deps);
+
+    expect(res.status).toBe(202);
+    expect(workspaces).toEqual(['ws-1']);
+  });
+
+  it('rejects deliveries for repositories without a secret', async () => {
+    const { deps } = fakeDeps(null);
+    const res = await handleWebhookRequest(delivery('pull_request', fixture('pull_request.opened')), deps);
+    expect(res.status).toBe(401);
+  });
+
+  it('answers ping events', async () => {
+    const { deps } = fakeDeps();
+    const res = await handleWebhookRequest(delivery('ping', { zen: 'Design for failure.', repository: { full_name: 'acme/shop' } }), deps);
+    expect(res.status).toBe(200);
+  });
+});
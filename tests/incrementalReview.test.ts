@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { carryForwardSuggestions, lineMapper, mergeIncrementalReview, type LastReview } from '../src/lib/incrementalReview';
+import { runReviewPipeline, type ReviewPipelineAdapters } from '../src/lib/reviewPipeline';
+import type { ReviewRunRecord } from '../src/lib/reviewRuns';
+import { DEFAULT_AI_CONFIG, type AICodeSuggestion, type AIReviewResult, type PRFile, type PullRequest } from '../src/types/codeReview';
+
+const pr = {
+  number: 42,
+  title: 'Add cart discounts',
+  author: 'octocat',
+  head: { ref: 'feature/discounts', sha: 'bbbbbbb222' },
+  base: { ref: 'main' },
+  body: '',
+} as PullRequest;
+
+function suggestion(id: string, file: string, line: number, message: string): AICodeSuggestion {
+  return { id, type: 'bug', severity: 'high', file, line, message, suggestion: 'Fix it', status: 'pending' };
+}
+
+function review(suggestions: AICodeSuggestion[], score: number, summary = 'Review'): AIReviewResult {
+  return {
+    summary,
+    suggestions,
+    overallScore: score,
+    categories: { codeQuality: score, security: score, performance: score, maintainability: score, testability: score },
+    timestamp: '2026-01-29T09:00:00Z',
+    model: 'gpt-4o',
+  };
+}
+
+// Line 3 is replaced, two lines are added after line 10
+const cartPatch = '@@ -2,3 +2,3 @@\n a\n-b\n+B\n c\n@@ -10,2 +10,4 @@\n j\n+k1\n+k2\n l';
+
+const prFiles: PRFile[] = [
+  { filename: 'src/cart.ts', status: 'modified', additions: 40, deletions: 10, patch: '@@ -1 +1 @@' },
+  { filename: 'src/price.ts', status: 'modified', additions: 20, deletions: 0, patch: '@@ -1 +1 @@' },
+];
+
+const changed: PRFile[] = [{ filename: 'src/cart.ts', status: 'modified', additions: 3, deletions: 1, patch: cartPatch }];
+
+describe('lineMapper', () => {
+  it('moves lines past added and removed ones and drops removed lines', () => {
+    const map = lineMapper(cartPatch);
+
+    expect(map(1)).toBe(1);
+    expect(map(3)).toBeNull();
+    expect(map(4)).toBe(4);
+    expect(map(10)).toBe(10);
+    expect(map(11)).toBe(13);
+    expect(map(50)).toBe(52);
+  });
+});
+
+describe('carryForwardSuggestions', () => {
+  it('keeps suggestions on untouched lines and marks changed lines and removed files as addressed', () => {
+    const { carried, addressed } = carryForwardSuggestions([
+      suggestion('1', 'src/cart.ts', 3, 'Off by one'),
+      suggestion('2', 'src/cart.ts', 11, 'Missing rounding'),
+      suggestion('3', 'src/price.ts', 5, 'Unused import'),
+      suggestion('4', 'src/legacy.ts', 1, 'Dead code'),
+      { ...suggestion('5', 'src/cart.ts', 12, 'Rejected'), status: 'rejected' },
+    ], prFiles, changed);
+
+    expect(carried.map(s => [s.id, s.line])).toEqual([['2', 13], ['3', 5]]);
+    expect(addressed.map(s => s.id)).toEqual(['1', '4']);
+  });
+});
+
+describe('mergeIncrementalReview', () => {
+  const last: LastReview = {
+    headSha: 'aaaaaaa111',
+    review: review([suggestion('1', 'src/cart.ts', 3, 'Off by one'), suggestion('2', 'src/price.ts', 5, 'Unused import')], 60, 'First review'),
+  };
+
+  it('weights scores by lines and does not count re-raised suggestions as addressed', () => {
+    const delta = review([suggestion('1', 'src/cart.ts', 3, 'Off by one')], 100, 'Fixed the cart');
+
+    const merged = mergeIncrementalReview(last, delta, prFiles, changed);
+
+    expect(merged.summary).toBe('Fixed the cart');
+    // 20 unchanged lines at 60, 4 changed lines at 100
+    expect(merged.overallScore).toBe(67);
+    expect(merged.suggestions.map(s => s.message)).toEqual(['Unused import', 'Off by one']);
+    expect(merged.incremental).toEqual({ since: 'aaaaaaa111', files: ['src/cart.ts'], carried: 1, addressed: [] });
+  });
+
+  it('keeps the ids of carried suggestions when nothing needed a new review', () => {
+    const merged = mergeIncrementalReview(last, null, prFiles, changed);
+
+    expect(merged.suggestions.map(s => [s.id, s.message])).toEqual([['2', 'Unused import']]);
+  });
+});
+
+describe('runReviewPipeline with an earlier review', () => {
+  function adapters(last: LastReview | null, compared: PRFile[] | null) {
+    const reviewed: string[][] = [];
+    const saved: ReviewRunRecord[] = [];
+    let comment = '';
+    const value: ReviewPipelineAdapters = {
+      github: {
+        fetchPRFiles: async () => prFiles,
+        postReviewComment: async (_n, body) => { comment = body; },
+        mergePR: async () => {},
+        fetchChangedFilesSince: async () => compared,
+      },
+      ai: {
+        generateReview: async (_pr, files) => {
+          reviewed.push(files.map(f => f.filename));
+          return review([], 90, 'Delta');
+        },
+        validateBusinessLogic: async () => { throw new Error('not used'); },
+      },
+      lastReview: { get: async () => last },
+      runs: { save: async (_pr, record) => { saved.push(record); } },
+    };
+    return { value, reviewed, saved, comment: () => comment };
+  }
+
+  const last: LastReview = { headSha: 'aaaaaaa111', review: review([suggestion('1', 'src/cart.ts', 3, 'Off by one')], 60) };
+  const aiConfig = { ...DEFAULT_AI_CONFIG, apiKey: 'k', postToGitHub: true };
+
+  it('reviews only the PR files changed since the last review and lists what was addressed', async () => {
+    const fromBase: PRFile = { filename: 'src/merged-from-main.ts', status: 'modified', additions: 1, deletions: 0, patch: '@@ -1 +1 @@' };
+    const run = adapters(last, [...changed, fromBase]);
+
+    const result = await runReviewPipeline(pr, { aiConfig }, run.value);
+
+    expect(run.reviewed).toEqual([['src/cart.ts']]);
+    expect(result.review.incremental.addressed.map(s => s.message)).toEqual(['Off by one']);
+    expect(run.comment()).toContain('_Reviewed the 1 file changed since `aaaaaaa`; 0 earlier suggestions are carried forward._');
+    expect(run.comment()).toContain('### Addressed Since Last Review\n- ~~**[HIGH]** Off by one~~');
+    expect(run.saved).toMatchObject([{ headSha: 'bbbbbbb222', command: 'review', review: result.review }]);
+  });
+
+  it('reviews the whole PR when the branch was rewritten or a full review is asked for', async () => {
+    const rewritten = adapters(last, null);
+    await runReviewPipeline(pr, { aiConfig }, rewritten.value);
+    expect(rewritten.reviewed).toEqual([['src/cart.ts', 'src/price.ts']]);
+
+    const full = adapters(last, changed);
+    const result = await runReviewPipeline(pr, { aiConfig, fullReview: true }, full.value);
+    expect(full.reviewed).toEqual([['src/cart.ts', 'src/price.ts']]);
+    expect(result.review.incremental).toBeUndefined();
+  });
+});
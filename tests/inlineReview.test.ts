@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { buildInlineComments, findDiffAnchor, formatSuggestionBlock, submitInlineReview, suggestionFingerprint } from '../src/lib/inlineReview';
+import type { AICodeSuggestion, AIReviewResult, GitHubConfig, PRFile, PullRequest } from '../src/types/codeReview';
+
+const config: GitHubConfig = { token: 't', owner: 'acme', repo: 'shop' };
+const pr = { number: 42, head: { ref: 'feature/discounts', sha: 'abc1234def' } } as PullRequest;
+
+const file: PRFile = {
+  filename: 'src/cart.ts',
+  status: 'modified',
+  additions: 2,
+  deletions: 1,
+  patch: [
+    '@@ -10,4 +10,5 @@ export function total(cart: Cart) {',
+    '   const sum = cart.items.reduce((a, i) => a + i.price, 0);',
+    '-  return sum - cart.discount;',
+    '+  const discounted = sum - cart.discount;',
+    '+  return discounted;',
+    '   }',
+    '\\ No newline at end of file',
+  ].join('\n'),
+};
+
+function suggestion(overrides: Partial<AICodeSuggestion>): AICodeSuggestion {
+  return { id: '1', type: 'bug', severity: 'high', file: 'src/cart.ts', line: 12, message: 'Discount can go negative', suggestion: 'Clamp at zero', status: 'pending', ...overrides };
+}
+
+function review(suggestions: AICodeSuggestion[]): AIReviewResult {
+  return { summary: '', suggestions, overallScore: 70, categories: {} as AIReviewResult['categories'], timestamp: '', model: 'gpt-4o' };
+}
+
+describe('findDiffAnchor', () => {
+  it('maps added and context lines to the new file and deleted lines to the old one', () => {
+    expect(findDiffAnchor(file, 10)).toEqual({ path: 'src/cart.ts', line: 10, side: 'RIGHT' });
+    expect(findDiffAnchor(file, 12)).toEqual({ path: 'src/cart.ts', line: 12, side: 'RIGHT' });
+    expect(findDiffAnchor(file, 13)).toEqual({ path: 'src/cart.ts', line: 13, side: 'RIGHT' });
+    expect(findDiffAnchor({ ...file, patch: '@@ -5,2 +5,1 @@\n ok\n-gone' }, 6)).toEqual({ path: 'src/cart.ts', line: 6, side: 'LEFT' });
+  });
+
+  it('returns null outside the patch or without one', () => {
+    expect(findDiffAnchor(file, 40)).toBeNull();
+    expect(findDiffAnchor({ ...file, patch: undefined }, 12)).toBeNull();
+    expect(findDiffAnchor(undefined, 12)).toBeNull();
+  });
+});
+
+describe('buildInlineComments', () => {
+  it('leaves suggestions without a diff anchor for the summary', () => {
+    const outside = suggestion({ id: '2', line: 80 });
+    const noLine = suggestion({ id: '3', line: undefined, file: 'README.md' });
+
+    const { comments, unanchored } = buildInlineComments(review([suggestion({}), outside, noLine]), [file]);
+
+    expect(comments.map(c => [c.path, c.line, c.side])).toEqual([['src/cart.ts', 12, 'RIGHT']]);
+    expect(unanchored).toEqual([outside, noLine]);
+  });
+
+  it('posts a suggested change over the lines that code.before covers', () => {
+    const fix = suggestion({
+      line: 11,
+      code: { before: '  const discounted = sum - cart.discount;\n  return discounted;', after: '  return Math.max(0, sum - cart.discount);' },
+    });
+
+    const { comments, mismatchedCode } = buildInlineComments(review([fix]), [file]);
+
+    expect(mismatchedCode).toEqual([]);
+    expect(comments[0]).toMatchObject({ path: 'src/cart.ts', startLine: 11, line: 12, side: 'RIGHT' });
+    expect(comments[0].body).toContain('```suggestion\n  return Math.max(0, sum - cart.discount);\n```');
+  });
+
+  it('flags suggestions whose code.before does not match the PR head', () => {
+    const stale = suggestion({ code: { before: '  return sum - cart.discount;', after: '  return Math.max(0, sum - cart.discount);' } });
+
+    const { comments, unanchored, mismatchedCode } = buildInlineComments(review([stale]), [file]);
+
+    expect(comments).toEqual([]);
+    expect(unanchored).toEqual([stale]);
+    expect(mismatchedCode).toEqual(['1']);
+  });
+});
+
+describe('formatSuggestionBlock', () => {
+  it('uses a longer fence when the replacement contains one', () => {
+    expect(formatSuggestionBlock('/**\n * ```ts\n * total(cart)\n * ```\n */\n')).toBe('````suggestion\n/**\n * ```ts\n * total(cart)\n * ```\n */\n````');
+  });
+});
+
+function fakeGitHub(existing: { id: number; body: string; in_reply_to_id?: number }[], threads?: { id: string; isResolved: boolean; commentId: number }[]) {
+  const calls: { method: string; url: string; body?: Record<string, unknown> }[] = [];
+  const fetchImpl = (async (url: string, init: RequestInit = {}) => {
+    const method = init.method || 'GET';
+    const body = init.body ? JSON.parse(init.body as string) : undefined;
+    calls.push({ method, url, body });
+    if (url.endsWith('/graphql')) {
+      if (!threads) {
+        return new Response(JSON.stringify({ errors: [{ message: 'Resource not accessible by integration' }] }), { status: 200 });
+      }
+      const nodes = threads.map(t => ({ id: t.id, isResolved: t.isResolved, comments: { nodes: [{ databaseId: t.commentId }] } }));
+      return new Response(JSON.stringify({ data: { repository: { pullRequest: { reviewThreads: { nodes } } } } }), { status: 200 });
+    }
+    return new Response(JSON.stringify(method === 'GET' ? existing : {}), { status: 200 });
+  }) as typeof fetch;
+  return { fetchImpl, calls };
+}
+
+describe('submitInlineReview', () => {
+  it('posts new comments as a review on the head commit', async () => {
+    const { fetchImpl, calls } = fakeGitHub([]);
+
+    const result = await submitInlineReview(config, pr, review([suggestion({})]), [file], fetchImpl);
+
+    expect(result).toMatchObject({ posted: 1, updated: 0, resolved: 0, unanchored: [] });
+    const post = calls.find(c => c.method === 'POST')!;
+    expect(post.url).toBe('https://api.github.com/repos/acme/shop/pulls/42/reviews');
+    expect(post.body).toMatchObject({ commit_id: 'abc1234def', event: 'COMMENT', comments: [{ path: 'src/cart.ts', line: 12, side: 'RIGHT' }] });
+    expect(post.body?.comments[0]).not.toHaveProperty('start_line');
+  });
+
+  it('updates the comments of an earlier run instead of duplicating them', async () => {
+    const current = suggestion({ id: '4', severity: 'critical' });
+    const { comments } = buildInlineComments(review([suggestion({ id: '1' })]), [file]);
+    const { fetchImpl, calls } = fakeGitHub([{ id: 501, body: comments[0].body }]);
+
+    const result = await submitInlineReview(config, pr, review([current]), [file], fetchImpl);
+
+    expect(result).toMatchObject({ posted: 0, updated: 1 });
+    expect(calls.filter(c => c.method !== 'GET')).toEqual([
+      { method: 'PATCH', url: 'https://api.github.com/repos/acme/shop/pulls/comments/501', body: { body: expect.stringContaining(`codegate-inline:${suggestionFingerprint(current)}`) } },
+    ]);
+  });
+
+  it('leaves comments alone when a re-run only renumbers the suggestions', async () => {
+    const { comments } = buildInlineComments(review([suggestion({ id: '1' })]), [file]);
+    const { fetchImpl, calls } = fakeGitHub([{ id: 501, body: comments[0].body }]);
+
+    const result = await submitInlineReview(config, pr, review([suggestion({ id: '2', line: 80 }), suggestion({ id: '3' })]), [file], fetchImpl);
+
+    expect(comments[0].body).toContain(`suggestion \`${suggestionFingerprint(suggestion({}))}\``);
+    expect(result).toMatchObject({ posted: 0, updated: 0, reopened: 0 });
+    expect(calls.filter(c => c.method !== 'GET')).toEqual([]);
+  });
+
+  it('reopens the thread of a resolved comment when its suggestion comes back', async () => {
+    const { comments } = buildInlineComments(review([suggestion({})]), [file]);
+    const { fetchImpl, calls } = fakeGitHub([
+      { id: 503, body: `✅ **Resolved** — no longer reported by the latest review.\n\n${comments[0].body}` },
+    ], [{ id: 'thread-503', isResolved: true, commentId: 503 }, { id: 'thread-600', isResolved: true, commentId: 600 }]);
+
+    const result = await submitInlineReview(config, pr, review([suggestion({})]), [file], fetchImpl);
+
+    expect(result).toMatchObject({ posted: 0, updated: 0, reopened: 1 });
+    expect(calls.find(c => c.method === 'PATCH')).toEqual({ method: 'PATCH', url: 'https://api.github.com/repos/acme/shop/pulls/comments/503', body: { body: comments[0].body } });
+    const mutations = calls.filter(c => String(c.body?.query).startsWith('mutation'));
+    expect(mutations.map(c => [c.body?.query, c.body?.variables])).toEqual([[expect.stringContaining('unresolveReviewThread'), { id: 'thread-503' }]]);
+  });
+
+  it('marks comments that are no longer reported as resolved when threads cannot be resolved', async () => {
+    const { comments } = buildInlineComments(review([suggestion({ message: 'Old finding' })]), [file]);
+    const { fetchImpl, calls } = fakeGitHub([{ id: 502, body: comments[0].body }]);
+
+    const result = await submitInlineReview(config, pr, review([]), [file], fetchImpl);
+
+    expect(result.resolved).toBe(1);
+    const patch = calls.find(c => c.method === 'PATCH')!;
+    expect(patch.url).toBe('https://api.github.com/repos/acme/shop/pulls/comments/502');
+    expect(patch.body?.body).toMatch(/^✅ \*\*Resolved\*\*/);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  promptVariables,
+  renderTemplate,
+  resolvePromptTemplates,
+  templateHash,
+  validateTemplate,
+  type PromptTemplateVersion,
+} from '../src/lib/promptTemplates';
+import { buildReviewPrompt, generateAIReview } from '../src/lib/aiReview';
+import { DEFAULT_AI_CONFIG, type JiraTicket, type PRFile, type PullRequest } from '../src/types/codeReview';
+
+const pr = {
+  number: 12,
+  title: 'Add checkout',
+  author: 'octocat',
+  head: { ref: 'feature/checkout', sha: 'head' },
+  base: { ref: 'main' },
+  body: '',
+  additions: 3,
+  deletions: 1,
+  changedFiles: 1,
+} as PullRequest;
+
+const files: PRFile[] = [{ filename: 'src/checkout.ts', status: 'modified', additions: 3, deletions: 1, patch: '@@ -1 +1,3 @@\n+a\n+b\n+c' }];
+
+const ticket = { key: 'SHOP-7', summary: 'Checkout', description: '', type: 'Story', priority: 'High', status: 'Open', acceptanceCriteria: '', attachments: [] } as JiraTicket;
+
+describe('renderTemplate', () => {
+  it('fills variables and keeps sections by whether their variable is set', () => {
+    const template = '{{pr.title}} by {{ pr.author }}{{#jira}} for {{jira.key}}{{/jira}}{{^jira}} without a ticket{{/jira}}.';
+
+    expect(renderTemplate(template, promptVariables(pr, files))).toBe('Add checkout by octocat without a ticket.');
+    expect(renderTemplate(template, promptVariables(pr, files, ticket))).toBe('Add checkout by octocat for SHOP-7.');
+  });
+
+  it('treats empty text and zero as unset', () => {
+    const vars = promptVariables(pr, files, ticket);
+
+    expect(renderTemplate('{{#jira.acceptanceCriteria}}AC{{/jira.acceptanceCriteria}}{{#jira.attachments}}images{{/jira.attachments}}', vars)).toBe('');
+    expect(vars['pr.description']).toBe('No description provided');
+  });
+
+  it('renders the built-in review template like the previous prompt', () => {
+    const prompt = buildReviewPrompt(pr, files, { type: 'review', prNumber: 12 }, ticket);
+
+    expect(prompt).toContain('## Pull Request #12: Add checkout');
+    expect(prompt).toContain('**Branch:** feature/checkout → main');
+    expect(prompt).toContain('IMPORTANT: This PR is linked to Jira ticket SHOP-7.');
+    expect(prompt).toContain('"ticketKey": "SHOP-7"');
+    expect(prompt).not.toContain('{{');
+  });
+});
+
+describe('validateTemplate', () => {
+  it('accepts the built-in templates', () => {
+    for (const template of Object.values(DEFAULT_PROMPT_TEMPLATES)) {
+      expect(validateTemplate(template)).toEqual([]);
+    }
+  });
+
+  it('reports unknown variables and unbalanced sections', () => {
+    expect(validateTemplate('{{pr.titel}} {{#jira}}x')).toEqual(['Unknown variable {{pr.titel}}', 'Section {{#jira}} is never closed']);
+    expect(validateTemplate('{{#jira}}{{#rules}}{{/jira}}{{/rules}}')).toContain("{{/jira}} closes a section that isn't open");
+    expect(validateTemplate('{{diff')).toEqual(['Unclosed {{']);
+  });
+});
+
+function version(kind: PromptTemplateVersion['kind'], owner: string, number: number, body: string): PromptTemplateVersion {
+  return { id: `${kind}-${owner}-${number}`, kind, owner, repo: owner ? 'shop' : '', version: number, body, createdAt: '2026-01-01T00:00:00Z' };
+}
+
+describe('resolvePromptTemplates', () => {
+  const versions = [
+    version('review', '', 1, 'workspace v1'),
+    version('review', '', 2, 'workspace v2'),
+    version('review', 'acme', 1, 'acme v1'),
+    version('summary', '', 1, 'summary v1'),
+    version('summary', 'acme', 1, 'acme summary'),
+    version('summary', 'acme', 2, ''),
+  ];
+
+  it('prefers the latest repository version, then the workspace default', () => {
+    expect(resolvePromptTemplates(versions, { owner: 'acme', repo: 'shop' })).toEqual({ review: 'acme v1', summary: 'summary v1' });
+    expect(resolvePromptTemplates(versions, { owner: 'other', repo: 'shop' })).toEqual({ review: 'workspace v2', summary: 'summary v1' });
+    expect(resolvePromptTemplates(versions)).toEqual({ review: 'workspace v2', summary: 'summary v1' });
+  });
+});
+
+describe('generateAIReview with templates', () => {
+  it('sends the custom template for the command', async () => {
+    const prompts: string[] = [];
+    const complete = async ({ prompt }: { prompt: string }) => {
+      prompts.push(prompt);
+      return JSON.stringify({ title: 'feat: add checkout' });
+    };
+
+    const title = 'Title for {{pr.title}} on {{pr.base}}. Respond with JSON: { "title": "..." }\n{{diff}}';
+    const review = await generateAIReview({ ...DEFAULT_AI_CONFIG, apiKey: 'k' }, pr, files, { type: 'title', prNumber: 12 }, null, complete, {
+      templates: { title },
+    });
+
+    expect(prompts[0]).toMatch(/^Title for Add checkout on main\./);
+    expect(prompts[0]).toContain('+c');
+    expect(review.title).toBe('feat: add checkout');
+    expect(review.promptHash).toBe(templateHash(title));
+    expect(review.promptHash).not.toBe(templateHash(DEFAULT_PROMPT_TEMPLATES.title));
+    expect(review.usage.promptTokens).toBeGreaterThan(0);
+    expect(review.usage.completionTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { fetchPRFiles, parseNextLink } from '../src/lib/githubApi';
+import { fetchPullRequestDetails, fetchPullRequestPage, fetchPullRequestPageRest, type GitHubPullRequestPayload, type GraphQLPullRequest } from '../src/lib/pullRequests';
+import type { GitHubConfig } from '../src/types/codeReview';
+
+const config: GitHubConfig = { token: 't', owner: 'acme', repo: 'shop' };
+
+function paged(pages: Record<string, { body: unknown; next?: string }>) {
+  const urls: string[] = [];
+  const fetchImpl = (async (url: string) => {
+    urls.push(url);
+    const page = pages[url];
+    if (!page) return new Response('{"message":"Not Found"}', { status: 404 });
+    const headers = page.next ? { Link: `<${page.next}>; rel="next", <https://api.github.com/last>; rel="last"` } : undefined;
+    return new Response(JSON.stringify(page.body), { headers });
+  }) as typeof fetch;
+  return { fetchImpl, urls };
+}
+
+function pull(number: number, overrides: Partial<GitHubPullRequestPayload> = {}): GitHubPullRequestPayload {
+  return {
+    id: number, number, title: `PR ${number}`, body: null, state: 'open', user: { login: 'octocat' },
+    created_at: '2026-01-20T10:00:00Z', updated_at: '2026-01-20T10:00:00Z',
+    head: { ref: `feature/${number}`, sha: `sha${number}` }, base: { ref: 'main' }, labels: [],
+    ...overrides,
+  };
+}
+
+describe('parseNextLink', () => {
+  it('finds the next page among the other relations', () => {
+    expect(parseNextLink('<https://api.github.com/x?page=1>; rel="prev", <https://api.github.com/x?page=3>; rel="next"')).toBe('https://api.github.com/x?page=3');
+    expect(parseNextLink('<https://api.github.com/x?page=1>; rel="first"')).toBeNull();
+    expect(parseNextLink(null)).toBeNull();
+  });
+});
+
+describe('fetchPRFiles', () => {
+  it('follows Link headers past the first page', async () => {
+    const file = (i: number) => ({ filename: `src/f${i}.ts`, status: 'modified', additions: 1, deletions: 0, patch: '+x' });
+    const base = 'https://api.github.com/repos/acme/shop/pulls/7/files';
+    const { fetchImpl, urls } = paged({
+      [`${base}?per_page=100`]: { body: Array.from({ length: 100 }, (_, i) => file(i)), next: `${base}?per_page=100&page=2` },
+      [`${base}?per_page=100&page=2`]: { body: Array.from({ length: 100 }, (_, i) => file(100 + i)), next: `${base}?per_page=100&page=3` },
+      [`${base}?per_page=100&page=3`]: { body: Array.from({ length: 20 }, (_, i) => file(200 + i)) },
+    });
+
+    const files = await fetchPRFiles(config, 7, fetchImpl);
+
+    expect(files).toHaveLength(220);
+    expect(files.at(-1)?.filename).toBe('src/f219.ts');
+    expect(urls).toHaveLength(3);
+  });
+});
+
+describe('fetchPullRequestPageRest', () => {
+  it('pushes state and base down to the API and filters author and label locally', async () => {
+    const first = 'https://api.github.com/repos/acme/shop/pulls?state=closed&sort=updated&direction=desc&per_page=50&base=release';
+    const { fetchImpl, urls } = paged({
+      [first]: {
+        body: [
+          pull(1, { state: 'closed', merged_at: '2026-01-20T11:00:00Z', labels: [{ name: 'Hotfix' }] }),
+          pull(2, { state: 'closed', labels: [{ name: 'hotfix' }] }),
+          pull(3, { state: 'closed', merged_at: '2026-01-20T11:00:00Z', user: { login: 'hubot' }, labels: [{ name: 'hotfix' }] }),
+        ],
+        next: 'https://api.github.com/repositories/1/pulls?page=2',
+      },
+    });
+
+    const page = await fetchPullRequestPageRest(config, { state: 'merged', base: 'release', author: 'OctoCat', label: 'hotfix' }, null, fetchImpl);
+
+    expect(urls).toEqual([first]);
+    expect(page.pullRequests.map(pr => pr.number)).toEqual([1]);
+    expect(page.next).toBe('https://api.github.com/repositories/1/pulls?page=2');
+  });
+});
+
+function node(number: number, overrides: Partial<GraphQLPullRequest> = {}): GraphQLPullRequest {
+  return {
+    databaseId: 1000 + number, number, title: `PR ${number}`, body: '', state: 'OPEN', isDraft: false,
+    createdAt: '2026-01-20T10:00:00Z', updatedAt: '2026-01-20T10:00:00Z', author: { login: 'octocat', avatarUrl: 'https://avatars/1' },
+    headRefName: `feature/${number}`, headRefOid: `sha${number}`, baseRefName: 'main',
+    additions: 12, deletions: 3, changedFiles: 2, labels: { nodes: [{ name: 'hotfix' }] },
+    reviewDecision: 'APPROVED', mergeable: 'CONFLICTING',
+    commits: { nodes: [{ commit: { statusCheckRollup: { state: 'FAILURE' } } }] },
+    closingIssuesReferences: { nodes: [{ number: 9, title: 'Checkout breaks', url: 'https://github.com/acme/shop/issues/9' }] },
+    ...overrides,
+  };
+}
+
+describe('fetchPullRequestPage', () => {
+  it('loads stats, checks and linked issues through one GraphQL query', async () => {
+    const requests: { url: string; variables: Record<string, unknown> }[] = [];
+    const fetchImpl = (async (url: string, init: RequestInit) => {
+      requests.push({ url, variables: JSON.parse(init.body as string).variables });
+      const pullRequests = { pageInfo: { hasNextPage: true, endCursor: 'Y3Vyc29yOjUw' }, nodes: [node(1), node(2, { author: { login: 'hubot', avatarUrl: '' } })] };
+      return new Response(JSON.stringify({ data: { repository: { pullRequests } } }));
+    }) as typeof fetch;
+
+    const page = await fetchPullRequestPage(config, { state: 'open', author: 'octocat', label: 'hotfix' }, null, fetchImpl);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('https://api.github.com/graphql');
+    expect(requests[0].variables).toMatchObject({ owner: 'acme', repo: 'shop', states: ['OPEN'], labels: ['hotfix'], after: null });
+    expect(page.next).toBe('Y3Vyc29yOjUw');
+    expect(page.pullRequests).toEqual([expect.objectContaining({
+      id: 1001, number: 1, additions: 12, changedFiles: 2, labels: ['hotfix'],
+      reviewDecision: 'APPROVED', mergeable: 'CONFLICTING', checksState: 'FAILURE',
+      linkedIssues: [{ number: 9, title: 'Checkout breaks', url: 'https://github.com/acme/shop/issues/9' }],
+    })]);
+  });
+
+  it('falls back to REST when the GraphQL query fails', async () => {
+    const rest = 'https://api.github.com/repos/acme/shop/pulls?state=all&sort=updated&direction=desc&per_page=50';
+    const { fetchImpl, urls } = paged({ [rest]: { body: [pull(1)] } });
+
+    const page = await fetchPullRequestPage(config, { state: 'all' }, null, fetchImpl);
+
+    expect(urls).toEqual(['https://api.github.com/graphql', rest]);
+    expect(page.pullRequests.map(pr => pr.number)).toEqual([1]);
+  });
+
+  it('continues from the cursor of the previous page', async () => {
+    const cursor = 'https://api.github.com/repositories/1/pulls?page=2';
+    const { fetchImpl } = paged({ [cursor]: { body: [pull(51)] } });
+
+    const page = await fetchPullRequestPage(config, { state: 'all' }, cursor, fetchImpl);
+
+    expect(page).toMatchObject({ pullRequests: [{ number: 51, changedFiles: 0 }], next: null });
+  });
+});
+
+describe('fetchPullRequestDetails', () => {
+  it('maps a PR without checks or a known author', async () => {
+    const pullRequest = node(5, { author: null, commits: { nodes: [{ commit: { statusCheckRollup: null } }] }, state: 'MERGED' });
+    const fetchImpl = (async () => new Response(JSON.stringify({ data: { repository: { pullRequest } } }))) as typeof fetch;
+
+    expect(await fetchPullRequestDetails(config, 5, fetchImpl)).toMatchObject({ author: 'ghost', state: 'merged', checksState: null });
+  });
+});
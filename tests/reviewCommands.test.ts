@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { dispatchReviewCommand, parseReviewCommand, type ReviewCommandDeps } from '../src/lib/reviewCommands';
+import type { AICodeSuggestion, AIReviewResult, PullRequest } from '../src/types/codeReview';
+import type { ReviewPipelineResult } from '../src/lib/reviewPipeline';
+
+describe('parseReviewCommand', () => {
+  it.each([
+    ['@ai review', { type: 'review', prNumber: 7 }],
+    ['Thanks! @AI Summary', { type: 'summary', prNumber: 7 }],
+    ['@ai title', { type: 'title', prNumber: 7 }],
+    ['@ai dismiss 3 false positive', { type: 'dismiss', prNumber: 7, targetId: '3', context: 'false positive' }],
+    ['@ai resolve #2', { type: 'resolve', prNumber: 7, targetId: '2' }],
+    ['looks good\n@ai issue 4', { type: 'issue', prNumber: 7, targetId: '4' }],
+  ])('parses %j', (body, command) => {
+    expect(parseReviewCommand(body, 7)).toEqual({ ok: true, command });
+  });
+
+  it('ignores comments that do not mention the bot', () => {
+    expect(parseReviewCommand('LGTM, cc @aisha', 7)).toBeNull();
+    expect(parseReviewCommand('> @ai review\n\nDone', 7)).toBeNull();
+  });
+
+  it('reports unknown commands and missing ids', () => {
+    expect(parseReviewCommand('@ai deploy', 7)).toEqual({ ok: false, error: 'Unknown command `deploy`.' });
+    expect(parseReviewCommand('@ai dismiss', 7)).toMatchObject({ ok: false });
+  });
+});
+
+const pr = { number: 7, title: 'Add cart discounts' } as PullRequest;
+
+const suggestion: AICodeSuggestion = {
+  id: '3',
+  type: 'bug',
+  severity: 'high',
+  file: 'src/cart.ts',
+  line: 12,
+  message: 'Discount can go negative',
+  suggestion: 'Clamp the total at zero',
+  status: 'pending',
+};
+
+const review = { summary: 'Adds discounts', title: 'feat: add cart discounts', overallScore: 80, suggestions: [suggestion] } as AIReviewResult;
+
+function fakeDeps(collaborator: boolean) {
+  const replies: string[] = [];
+  const statuses: string[] = [];
+  const reviewOptions: { allowAutoMerge: boolean }[] = [];
+  const deps: ReviewCommandDeps = {
+    fetchPullRequest: async () => pr,
+    hasWriteAccess: async () => collaborator,
+    reply: async (body) => { replies.push(body); },
+    runReview: async (_pr, _command, options) => {
+      reviewOptions.push(options);
+      return { status: 'completed', review, errors: [], autoMerge: { enabled: true, willMerge: false, merged: null, reason: '' }, commentPosted: true } as ReviewPipelineResult;
+    },
+    generate: async () => review,
+    createIssue: async () => ({ number: 99, html_url: 'https://github.com/acme/shop/issues/99' }),
+    suggestions: {
+      get: async (_n, id) => (id === suggestion.id ? suggestion : null),
+      setStatus: async (_n, id, status) => { statuses.push(`${id}:${status}`); },
+    },
+  };
+  return { deps, replies, statuses, reviewOptions };
+}
+
+describe('dispatchReviewCommand', () => {
+  it('replies with the generated title', async () => {
+    const { deps, replies } = fakeDeps(false);
+    await dispatchReviewCommand({ type: 'title', prNumber: 7 }, 'octocat', deps);
+    expect(replies).toEqual(['Suggested title: **feat: add cart discounts**']);
+  });
+
+  it('only lets collaborators trigger auto-merge from a review', async () => {
+    const outsider = fakeDeps(false);
+    await dispatchReviewCommand({ type: 'review', prNumber: 7 }, 'drive-by', outsider.deps);
+    expect(outsider.reviewOptions).toEqual([{ allowAutoMerge: false }]);
+
+    const member = fakeDeps(true);
+    await dispatchReviewCommand({ type: 'review', prNumber: 7 }, 'octocat', member.deps);
+    expect(member.reviewOptions).toEqual([{ allowAutoMerge: true }]);
+  });
+
+  it('denies dismissals from non-collaborators', async () => {
+    const { deps, replies, statuses } = fakeDeps(false);
+    const outcome = await dispatchReviewCommand({ type: 'dismiss', prNumber: 7, targetId: '3' }, 'drive-by', deps);
+
+    expect(outcome.status).toBe('denied');
+    expect(statuses).toEqual([]);
+    expect(replies[0]).toMatch(/only repository collaborators/);
+  });
+
+  it('denies resolving suggestions and opening issues to non-collaborators', async () => {
+    const { deps, replies, statuses } = fakeDeps(false);
+    let opened = 0;
+    deps.createIssue = async () => { opened++; return { number: 99, html_url: 'https://github.com/acme/shop/issues/99' }; };
+
+    const resolved = await dispatchReviewCommand({ type: 'resolve', prNumber: 7, targetId: '3' }, 'drive-by', deps);
+    const issue = await dispatchReviewCommand({ type: 'issue', prNumber: 7, targetId: '3' }, 'drive-by', deps);
+
+    expect([resolved.status, issue.status]).toEqual(['denied', 'denied']);
+    expect(statuses).toEqual([]);
+    expect(opened).toBe(0);
+    expect(replies[1]).toBe('@drive-by only repository collaborators with write access can open issues from suggestions.');
+  });
+
+  it('dismisses and resolves suggestions', async () => {
+    const { deps, statuses } = fakeDeps(true);
+    await dispatchReviewCommand({ type: 'dismiss', prNumber: 7, targetId: '3' }, 'octocat', deps);
+    await dispatchReviewCommand({ type: 'resolve', prNumber: 7, targetId: '3' }, 'octocat', deps);
+    expect(statuses).toEqual(['3:rejected', '3:accepted']);
+  });
+
+  it('opens an issue for a suggestion and links it in the reply', async () => {
+    const { deps, replies } = fakeDeps(true);
+    await dispatchReviewCommand({ type: 'issue', prNumber: 7, targetId: '3' }, 'octocat', deps);
+    expect(replies[0]).toBe('Opened #99 for suggestion #3: https://github.com/acme/shop/issues/99');
+  });
+
+  it('replies with the error when the suggestion does not exist', async () => {
+    const { deps, replies } = fakeDeps(true);
+    const outcome = await dispatchReviewCommand({ type: 'resolve', prNumber: 7, targetId: '42' }, 'octocat', deps);
+
+    expect(outcome.status).toBe('failed');
+    expect(replies[0]).toBe('❌ `@ai resolve` failed: suggestion #42 was not found in the latest review');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { buildReviewContext, hunkRanges, parseImports, type RepositoryReader } from '../src/lib/reviewContext';
+import { generateAIReview } from '../src/lib/aiReview';
+import { DEFAULT_AI_CONFIG, type PRFile, type PullRequest } from '../src/types/codeReview';
+
+const pr = { number: 7, title: 'Rename getUser', author: 'octocat', head: { ref: 'f', sha: 'head' }, base: { ref: 'main' }, body: '' } as PullRequest;
+
+function reader(files: Record<string, string>, search: Record<string, string[]> = {}): RepositoryReader & { reads: string[] } {
+  const reads: string[] = [];
+  return {
+    reads,
+    readFile: async (path, ref) => {
+      reads.push(`${ref}:${path}`);
+      return files[path] ?? null;
+    },
+    searchCode: async (symbol) => search[symbol] ?? [],
+  };
+}
+
+const service = [
+  "import { User, formatName } from '@/lib/users';",
+  "import { log } from './log';",
+  "import { z } from 'zod';",
+  '',
+  'export function fetchUser(id: string): User {',
+  '  return formatName(load(id));',
+  '}',
+].join('\n');
+
+const servicePatch = '@@ -5,3 +5,3 @@\n-export function getUser(id: string): User {\n+export function fetchUser(id: string): User {\n   return formatName(load(id));\n }';
+
+const changed: PRFile = { filename: 'src/services/user.ts', status: 'modified', additions: 1, deletions: 1, patch: servicePatch };
+
+describe('buildReviewContext', () => {
+  it('adds nothing at the diff depth', async () => {
+    const repo = reader({ 'src/services/user.ts': service });
+
+    expect(await buildReviewContext(pr, [changed], 'diff', repo, 10000)).toEqual({ snippets: [], omitted: [] });
+    expect(repo.reads).toEqual([]);
+  });
+
+  it('includes the numbered head version of changed files, or windows around hunks when too large', async () => {
+    const full = await buildReviewContext(pr, [changed], 'files', reader({ 'src/services/user.ts': service }), 10000);
+
+    expect(full.snippets).toHaveLength(1);
+    expect(full.snippets[0]).toMatchObject({ path: 'src/services/user.ts', reason: 'changed-file' });
+    expect(full.snippets[0].content.split('\n')[4]).toBe('5: export function fetchUser(id: string): User {');
+
+    const long = Array.from({ length: 400 }, (_, i) => `const line${i + 1} = ${i + 1};`).join('\n');
+    const hunk: PRFile = { ...changed, filename: 'src/long.ts', patch: '@@ -200,1 +200,1 @@\n-x\n+const line200 = 200;' };
+    const windowed = await buildReviewContext(pr, [hunk], 'files', reader({ 'src/long.ts': long }), 1000);
+    const lines = windowed.snippets[0].content.split('\n');
+
+    expect(lines[0]).toBe('180: const line180 = 180;');
+    expect(lines[lines.length - 1]).toBe('220: const line220 = 220;');
+  });
+
+  it('pulls in imported modules used by changed lines, with only the used definitions of large ones', async () => {
+    const padding = Array.from({ length: 300 }, (_, i) => `export const unrelated${i} = ${i};`).join('\n');
+    const users = [
+      'export interface User {',
+      '  first: string;',
+      '  last: string;',
+      '}',
+      padding,
+      'export function formatName(user: User): string {',
+      '  return `${user.first} ${user.last}`;',
+      '}',
+    ].join('\n');
+
+    const context = await buildReviewContext(pr, [changed], 'imports', reader({ 'src/services/user.ts': service, 'src/lib/users.ts': users, 'src/services/log.ts': 'x' }), 10000);
+    const imported = context.snippets.find(s => s.reason === 'import');
+
+    // log isn't used by the changed lines and zod is a package
+    expect(context.snippets.map(s => s.path)).toEqual(['src/services/user.ts', 'src/lib/users.ts']);
+    expect(imported.content).toBe('1: export interface User {\n2:   first: string;\n3:   last: string;\n4: }');
+  });
+
+  it('finds callers of changed and removed exports outside the PR', async () => {
+    const caller = Array.from({ length: 30 }, (_, i) => i === 14 ? 'const user = getUser(id);' : `// ${i + 1}`).join('\n');
+    const repo = reader(
+      { 'src/services/user.ts': service, 'src/pages/Profile.tsx': caller },
+      { getUser: ['src/services/user.ts', 'src/pages/Profile.tsx'], fetchUser: ['src/services/user.ts'] }
+    );
+
+    const context = await buildReviewContext(pr, [changed], 'repository', repo, 10000);
+    const callers = context.snippets.filter(s => s.reason === 'caller');
+
+    expect(callers).toHaveLength(1);
+    expect(callers[0]).toMatchObject({ path: 'src/pages/Profile.tsx', symbol: 'getUser' });
+    expect(callers[0].content.split('\n')).toHaveLength(11);
+    expect(callers[0].content).toContain('15: const user = getUser(id);');
+  });
+
+  it('lists files that do not fit the budget', async () => {
+    const context = await buildReviewContext(pr, [changed], 'files', reader({ 'src/services/user.ts': service }), 10);
+
+    expect(context.snippets).toEqual([]);
+    expect(context.omitted).toEqual(['src/services/user.ts']);
+  });
+});
+
+describe('parseImports', () => {
+  it('resolves relative, alias and Java imports and skips packages', () => {
+    expect(parseImports('src/a/b.ts', "import type { X as Y } from '../c';\nexport { z } from './d.ts';\nimport React from 'react';")).toEqual([
+      { candidates: expect.arrayContaining(['src/c.ts', 'src/c/index.ts']), names: ['Y'] },
+      { candidates: ['src/a/d.ts'], names: ['z'] },
+    ]);
+
+    const java = 'package com.acme.orders;\n\nimport com.acme.billing.Invoice;\nimport static com.acme.util.Money.round;';
+    expect(parseImports('app/src/main/java/com/acme/orders/Order.java', java)).toEqual([
+      { candidates: ['app/src/main/java/com/acme/billing/Invoice.java'], names: ['Invoice'] },
+      { candidates: ['app/src/main/java/com/acme/util/Money.java'], names: ['round'] },
+    ]);
+  });
+});
+
+describe('hunkRanges', () => {
+  it('reads the new-file range of each hunk', () => {
+    expect(hunkRanges('@@ -1,2 +1,3 @@\n a\n@@ -10 +11 @@ fn()\n b')).toEqual([[1, 3], [11, 11]]);
+  });
+});
+
+describe('generateAIReview with repository context', () => {
+  it('adds the context and the call-site check to full review prompts only', async () => {
+    const prompts: string[] = [];
+    const answer = { summary: 'ok', overallScore: 90, categories: { codeQuality: 90, security: 90, performance: 90, maintainability: 90, testability: 90 }, suggestions: [] };
+    const complete = async ({ prompt }: { prompt: string }) => {
+      prompts.push(prompt);
+      return JSON.stringify(prompt.includes('"title"') ? { title: 'refactor: rename getUser' } : answer);
+    };
+    const config = { ...DEFAULT_AI_CONFIG, apiKey: 'k', contextDepth: 'files' as const };
+    const repo = reader({ 'src/services/user.ts': service });
+
+    await generateAIReview(config, pr, [changed], { type: 'review', prNumber: 7 }, null, complete, { repository: repo });
+    await generateAIReview(config, pr, [changed], { type: 'title', prNumber: 7 }, null, complete, { repository: repo });
+
+    expect(prompts[0]).toContain('### Repository Context');
+    expect(prompts[0]).toContain('#### src/services/user.ts (changed file, head version)');
+    expect(prompts[0]).toContain('broken call site');
+    expect(prompts[1]).not.toContain('### Repository Context');
+  });
+});
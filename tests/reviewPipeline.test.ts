@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { runReviewPipeline, decideAutoMerge, type PipelineProgressEvent, type ReviewPipelineAdapters } from '../src/lib/reviewPipeline';
+import { toStatusRecord } from '../src/lib/suggestions';
+import { DEFAULT_AI_CONFIG, type AIReviewResult, type PullRequest, type SonarQubeResults } from '../src/types/codeReview';
+
+const pr: PullRequest = {
+  id: 1,
+  number: 42,
+  title: 'SHOP-7 Add cart discounts',
+  body: null,
+  state: 'open',
+  author: 'octocat',
+  authorAvatar: '',
+  createdAt: '2026-01-18T09:00:00Z',
+  updatedAt: '2026-01-18T09:00:00Z',
+  head: { ref: 'feature/discounts', sha: 'abc1234def' },
+  base: { ref: 'main' },
+  additions: 10,
+  deletions: 2,
+  changedFiles: 1,
+  labels: [],
+};
+
+const review: AIReviewResult = {
+  summary: 'Looks fine',
+  suggestions: [],
+  overallScore: 60,
+  categories: { codeQuality: 60, security: 60, performance: 60, maintainability: 60, testability: 60 },
+  timestamp: '2026-01-18T09:05:00Z',
+  model: 'gpt-4o',
+};
+
+const sonar = { issuesSummary: { total: 2 }, thresholdCheck: { exceeded: false, violations: [] } } as unknown as SonarQubeResults;
+
+function fakeAdapters(overrides: Partial<ReviewPipelineAdapters> = {}) {
+  const calls: string[] = [];
+  const adapters: ReviewPipelineAdapters = {
+    github: {
+      fetchPRFiles: async () => [{ filename: 'src/cart.ts', status: 'modified', additions: 10, deletions: 2, patch: '@@ -1 +1 @@' }],
+      postReviewComment: async (n, body) => { calls.push(`comment:${n}:${body.split('\n')[0]}`); },
+      mergePR: async (n) => { calls.push(`merge:${n}`); },
+    },
+    ai: {
+      generateReview: async () => review,
+      validateBusinessLogic: async (_pr, _files, ticket) => ({
+        ticketKey: ticket.key, requirements: [], implementedRequirements: [], missingRequirements: [],
+        partiallyImplemented: [], additionalChanges: [], score: 90, summary: 'ok',
+      }),
+    },
+    sonar: { fetchResults: async () => sonar },
+    ...overrides,
+  };
+  return { adapters, calls };
+}
+
+describe('runReviewPipeline', () => {
+  it('posts the review comment when auto-merge is disabled', async () => {
+    const { adapters, calls } = fakeAdapters();
+    const events: PipelineProgressEvent[] = [];
+
+    const result = await runReviewPipeline(pr, { aiConfig: { ...DEFAULT_AI_CONFIG, apiKey: 'k', postToGitHub: true }, onProgress: e => events.push(e) }, adapters);
+
+    expect(result.status).toBe('completed');
+    expect(result.errors).toEqual([]);
+    expect(result.commentPosted).toBe(true);
+    expect(calls).toEqual(['comment:42:## 🤖 AI Code Review for PR #42']);
+    expect(events.at(-1)).toMatchObject({ stage: 'comment', status: 'completed', progress: 100 });
+  });
+
+  it('posts inline comments and keeps only unanchored suggestions in the summary', async () => {
+    const { adapters, calls } = fakeAdapters();
+    const unanchored = { id: '2', type: 'style', severity: 'low', file: 'README.md', message: 'Document discounts', suggestion: 'Add a section', status: 'pending' } as const;
+    adapters.ai.generateReview = async () => ({ ...review, suggestions: [{ ...unanchored, id: '1', file: 'src/cart.ts', line: 1 }, unanchored] });
+    let summary = '';
+    adapters.github.postReviewComment = async (_n, body) => { summary = body; };
+    adapters.github.postInlineReview = async () => { calls.push('inline'); return { posted: 1, updated: 0, resolved: 0, unanchored: [unanchored], mismatchedCode: [] }; };
+
+    const result = await runReviewPipeline(pr, { aiConfig: { ...DEFAULT_AI_CONFIG, postToGitHub: true, commentMode: 'inline' } }, adapters);
+
+    expect(result.commentPosted).toBe(true);
+    expect(calls).toEqual(['inline']);
+    expect(summary).toContain('1 suggestion is posted as inline comments on the diff.');
+    expect(summary).toContain('File: `README.md`');
+    expect(summary).not.toContain('File: `src/cart.ts`');
+  });
+
+  it('leaves suggestions rejected on the same head out of the review and comment', async () => {
+    const { adapters } = fakeAdapters();
+    const rejected = { id: '1', type: 'style', severity: 'low', file: 'src/cart.ts', message: 'Rename total', suggestion: 'Use sum', status: 'pending' } as const;
+    adapters.ai.generateReview = async () => ({ ...review, suggestions: [rejected] });
+    adapters.suggestions = { list: async (target) => [toStatusRecord(target, rejected, 'rejected')] };
+    let summary = '';
+    adapters.github.postReviewComment = async (_n, body) => { summary = body; };
+
+    const result = await runReviewPipeline(pr, { aiConfig: { ...DEFAULT_AI_CONFIG, postToGitHub: true } }, adapters);
+
+    expect(result.review?.suggestions).toEqual([]);
+    expect(summary).not.toContain('Rename total');
+  });
+
+  it('merges instead of commenting when thresholds are met', async () => {
+    const { adapters, calls } = fakeAdapters();
+    const history: string[] = [];
+    adapters.history = { save: async (_n, entry) => { history.push(entry.decision); } };
+
+    const result = await runReviewPipeline(pr, {
+      aiConfig: { ...DEFAULT_AI_CONFIG, apiKey: 'k', postToGitHub: true, autoMergeEnabled: true, autoMergeMode: 'less', autoMergeThresholdAI: 70, autoMergeThresholdSonar: 5 },
+    }, adapters);
+
+    expect(result.autoMerge).toMatchObject({ willMerge: true, merged: true });
+    expect(calls).toEqual(['merge:42']);
+    expect(history).toEqual(['will_merge', 'merged']);
+  });
+
+  it('comments instead of merging when the requester may not merge', async () => {
+    const { adapters, calls } = fakeAdapters();
+
+    const result = await runReviewPipeline(pr, {
+      aiConfig: { ...DEFAULT_AI_CONFIG, postToGitHub: true, autoMergeEnabled: true, autoMergeMode: 'less', autoMergeThresholdAI: 70, autoMergeThresholdSonar: 5 },
+      allowAutoMerge: false,
+    }, adapters);
+
+    expect(result.autoMerge).toMatchObject({ willMerge: true, merged: null });
+    expect(calls).toEqual(['comment:42:## 🤖 AI Code Review for PR #42']);
+  });
+
+  it('keeps going when Sonar fails and reports the stage error', async () => {
+    const { adapters } = fakeAdapters({ sonar: { fetchResults: async () => { throw new Error('Sonar down'); } } });
+
+    const result = await runReviewPipeline(pr, { aiConfig: { ...DEFAULT_AI_CONFIG, postToGitHub: false } }, adapters);
+
+    expect(result.status).toBe('completed');
+    expect(result.review).toBe(review);
+    expect(result.errors).toEqual([{ stage: 'sonar', message: 'Sonar down' }]);
+  });
+
+  it('stops after a failed AI review without commenting', async () => {
+    const { adapters, calls } = fakeAdapters();
+    adapters.ai.generateReview = async () => { throw new Error('API error: 401'); };
+
+    const result = await runReviewPipeline(pr, { aiConfig: { ...DEFAULT_AI_CONFIG, postToGitHub: true } }, adapters);
+
+    expect(result.status).toBe('failed');
+    expect(result.errors).toEqual([{ stage: 'review', message: 'API error: 401' }]);
+    expect(calls).toEqual([]);
+  });
+
+  it('detects the Jira ticket and validates business logic against it', async () => {
+    const { adapters } = fakeAdapters({
+      jira: {
+        extractTicketId: text => text.match(/SHOP-\d+/)?.[0] ?? null,
+        fetchTicket: async key => ({ key, summary: 'Discounts', description: '', status: 'Open', type: 'Story', priority: 'High', labels: [], attachments: [], url: '' }),
+      },
+    });
+
+    const result = await runReviewPipeline(pr, { aiConfig: { ...DEFAULT_AI_CONFIG, postToGitHub: false } }, adapters);
+
+    expect(result.jiraTicket?.key).toBe('SHOP-7');
+    expect(result.businessLogicValidation?.ticketKey).toBe('SHOP-7');
+  });
+});
+
+describe('decideAutoMerge', () => {
+  it('requires JUnit tests for Java changes when configured', () => {
+    const files = [{ filename: 'src/main/Cart.java', status: 'modified', additions: 1, deletions: 0 }];
+    const aiConfig = { ...DEFAULT_AI_CONFIG, autoMergeEnabled: true, requireJUnitForJava: true };
+
+    const decision = decideAutoMerge(review, sonar, files, aiConfig);
+
+    expect(decision.junitScore).toBe(0);
+    expect(decision.willMerge).toBe(false);
+  });
+
+  it('can require every consensus model to clear the threshold', () => {
+    const files = [{ filename: 'src/cart.ts', status: 'modified', additions: 1, deletions: 0 }];
+    const consensusReview: AIReviewResult = {
+      ...review,
+      overallScore: 80,
+      consensus: {
+        models: [
+          { provider: 'openai', model: 'gpt-4o', overallScore: 95, categories: review.categories },
+          { provider: 'anthropic', model: 'claude', overallScore: 65, categories: review.categories },
+        ],
+        failed: [],
+        overall: { mean: 80, min: 65, max: 95, spread: 30, confidence: 'low' },
+        categories: {} as NonNullable<AIReviewResult['consensus']>['categories'],
+      },
+    };
+    const aiConfig = { ...DEFAULT_AI_CONFIG, autoMergeEnabled: true, autoMergeMode: 'greater' as const, autoMergeThresholdAI: 70, autoMergeThresholdSonar: 0 };
+
+    expect(decideAutoMerge(consensusReview, sonar, files, aiConfig).willMerge).toBe(true);
+
+    const strict = decideAutoMerge(consensusReview, sonar, files, { ...aiConfig, consensus: { enabled: true, reviewers: [], requireAll: true } });
+    expect(strict.willMerge).toBe(false);
+    expect(strict.reason).toContain('scores=95/65');
+  });
+
+  it('never merges a review that scored no code', () => {
+    const files = [{ filename: 'src/cart.ts', status: 'modified', additions: 1, deletions: 0 }];
+    const summary: AIReviewResult = { ...review, overallScore: 0, unscored: true };
+    const aiConfig = { ...DEFAULT_AI_CONFIG, autoMergeEnabled: true, autoMergeMode: 'less' as const, autoMergeThresholdAI: 70, autoMergeThresholdSonar: 5 };
+
+    expect(decideAutoMerge({ ...summary, unscored: undefined }, sonar, files, aiConfig).willMerge).toBe(true);
+
+    const decision = decideAutoMerge(summary, sonar, files, aiConfig);
+    expect(decision.willMerge).toBe(false);
+    expect(decision.reason).toContain('no code was reviewed');
+  });
+});
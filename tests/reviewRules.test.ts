@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, loadReviewRules, matchingRules, parseReviewRules } from '../src/lib/reviewRules';
+import { generateAIReview } from '../src/lib/aiReview';
+import type { RepositoryReader } from '../src/lib/reviewContext';
+import { DEFAULT_AI_CONFIG, type PRFile, type PullRequest } from '../src/types/codeReview';
+
+const yamlRules = `
+severity:
+  style: low
+rules:
+  - id: no-default-exports
+    paths: ["src/**/*.ts", "src/**/*.tsx"]
+    instruction: Use named exports only.
+  - id: repositories
+    paths: src/services/
+    severity: high
+    instruction: |
+      All database access goes through the repositories in src/db.
+`;
+
+function changed(filename: string): PRFile {
+  return { filename, status: 'modified', additions: 1, deletions: 0, patch: '@@ -1 +1 @@\n+x' };
+}
+
+describe('parseReviewRules', () => {
+  it('reads YAML rules and type severities', () => {
+    const rules = parseReviewRules('.codegate/review-rules.yml', yamlRules);
+
+    expect(rules.severities).toEqual({ style: 'low' });
+    expect(rules.rules).toEqual([
+      { id: 'no-default-exports', paths: ['src/**/*.ts', 'src/**/*.tsx'], instruction: 'Use named exports only.', severity: undefined },
+      { id: 'repositories', paths: ['src/services/'], instruction: 'All database access goes through the repositories in src/db.', severity: 'high' },
+    ]);
+  });
+
+  it('reads one rule per Markdown section with optional front matter', () => {
+    const markdown = [
+      '---',
+      'severity:',
+      '  performance: high',
+      '---',
+      '# Review rules',
+      'Read by the AI reviewer.',
+      '',
+      '## No default exports',
+      'paths: src/**/*.ts, src/**/*.tsx',
+      'severity: medium',
+      '',
+      'Use named exports only.',
+      '### Why',
+      'Renames stay greppable.',
+      '',
+      '## Logging',
+      'Use the logger, never console.log.',
+    ].join('\n');
+
+    const rules = parseReviewRules('.codegate/review-rules.md', markdown);
+
+    expect(rules.severities).toEqual({ performance: 'high' });
+    expect(rules.rules).toEqual([
+      { id: 'no-default-exports', paths: ['src/**/*.ts', 'src/**/*.tsx'], instruction: 'Use named exports only.\n### Why\nRenames stay greppable.', severity: 'medium' },
+      { id: 'logging', paths: [], instruction: 'Use the logger, never console.log.', severity: undefined },
+    ]);
+  });
+
+  it('names the file and the problem when rules are invalid', () => {
+    expect(() => parseReviewRules('.codegate/review-rules.yml', 'rules:\n  - id: a\n    severity: urgent\n    instruction: x'))
+      .toThrow(/^\.codegate\/review-rules\.yml: rules\.0\.severity: /);
+    expect(() => parseReviewRules('.codegate/review-rules.yml', 'rules:\n  - id: a\n    instruction: x\n  - id: a\n    instruction: y'))
+      .toThrow('rule a is defined twice');
+    expect(() => parseReviewRules('.codegate/review-rules.yml', 'rules: [')).toThrow('.codegate/review-rules.yml: ');
+  });
+});
+
+describe('globToRegExp', () => {
+  it('matches directories, names and alternatives', () => {
+    expect(globToRegExp('src/**/*.ts').test('src/lib/a.ts')).toBe(true);
+    expect(globToRegExp('src/**/*.ts').test('src/a.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/lib/a.ts')).toBe(false);
+    expect(globToRegExp('*.java').test('app/src/Main.java')).toBe(true);
+    expect(globToRegExp('src/services/').test('src/services/user/db.ts')).toBe(true);
+    expect(globToRegExp('src/{hooks,lib}/*.ts').test('src/lib/a.ts')).toBe(true);
+    expect(globToRegExp('src/{hooks,lib}/*.ts').test('src/pages/a.ts')).toBe(false);
+  });
+});
+
+describe('matchingRules', () => {
+  it('keeps rules covering a touched file and rules without paths', () => {
+    const rules = [
+      { id: 'all', paths: [], instruction: 'x' },
+      { id: 'java', paths: ['*.java'], instruction: 'x' },
+      { id: 'ts', paths: ['src/**/*.ts'], instruction: 'x' },
+    ];
+
+    expect(matchingRules(rules, [changed('src/lib/a.ts')]).map(r => r.id)).toEqual(['all', 'ts']);
+  });
+});
+
+const pr = { number: 3, title: 'Add user service', author: 'octocat', head: { ref: 'f', sha: 'head' }, base: { ref: 'main' }, body: '' } as PullRequest;
+
+function reader(files: Record<string, string>): RepositoryReader {
+  return { readFile: async (path, ref) => ref === 'main' ? files[path] ?? null : null };
+}
+
+describe('loadReviewRules', () => {
+  it('reads the first rules file on the base branch', async () => {
+    const rules = await loadReviewRules(reader({ '.codegate/review-rules.md': '## Logging\nUse the logger.', '.codegate/review-rules.yaml': yamlRules }), 'main');
+
+    expect(rules.source).toBe('.codegate/review-rules.yaml');
+    expect(await loadReviewRules(reader({}), 'main')).toBeNull();
+  });
+});
+
+describe('generateAIReview with review rules', () => {
+  it('sends matching rules, tags cited suggestions and applies severity overrides', async () => {
+    const prompts: string[] = [];
+    const suggestion = (rule: string | undefined, type: string) => ({ type, severity: 'medium', file: 'src/services/user.ts', line: 1, message: `${type} ${rule}`, suggestion: '', rule });
+    const complete = async ({ prompt }: { prompt: string }) => {
+      prompts.push(prompt);
+      return JSON.stringify({
+        summary: 'ok',
+        overallScore: 80,
+        categories: { codeQuality: 80, security: 80, performance: 80, maintainability: 80, testability: 80 },
+        suggestions: [suggestion('repositories', 'bug'), suggestion('made-up', 'style'), suggestion(undefined, 'performance')],
+      });
+    };
+
+    const review = await generateAIReview({ ...DEFAULT_AI_CONFIG, apiKey: 'k' }, pr, [changed('src/services/user.ts')], { type: 'review', prNumber: 3 }, null, complete, { repository: reader({ '.codegate/review-rules.yml': yamlRules }) });
+
+    expect(prompts[0]).toContain('### Repository Rules');
+    expect(prompts[0]).toContain('- **repositories** (src/services/; severity high): All database access');
+    expect(review.rules.rules.map(r => r.id)).toEqual(['no-default-exports', 'repositories']);
+    expect(review.suggestions.map(s => [s.rule, s.severity])).toEqual([['repositories', 'high'], [undefined, 'low'], [undefined, 'medium']]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { reviewRunFromRow, reviewRunRows, reviewTimeline, type ReviewRun, type ReviewRunRecord } from '../src/lib/reviewRuns';
+import { runReviewPipeline, type ReviewPipelineAdapters } from '../src/lib/reviewPipeline';
+import { DEFAULT_AI_CONFIG, type AICodeSuggestion, type AIReviewResult, type PullRequest, type SonarQubeResults } from '../src/types/codeReview';
+
+const pr = {
+  number: 42,
+  title: 'Add cart discounts',
+  author: 'octocat',
+  head: { ref: 'feature/discounts', sha: 'bbbbbbb222' },
+  base: { ref: 'main' },
+  body: '',
+} as PullRequest;
+
+function suggestion(id: string, severity: AICodeSuggestion['severity'], status: AICodeSuggestion['status'] = 'pending'): AICodeSuggestion {
+  return { id, type: 'bug', severity, file: 'src/cart.ts', line: Number(id), message: `Issue ${id}`, suggestion: 'Fix it', status };
+}
+
+function review(score: number, suggestions: AICodeSuggestion[] = []): AIReviewResult {
+  return {
+    summary: 'Review',
+    suggestions,
+    overallScore: score,
+    categories: { codeQuality: score, security: score, performance: score, maintainability: score, testability: score },
+    timestamp: '2026-01-30T09:00:00Z',
+    model: 'gpt-4o',
+    promptHash: '0a1b2c3d',
+    usage: { promptTokens: 1200, completionTokens: 300 },
+  };
+}
+
+const sonar = {
+  scanMetadata: { projectKey: 'shop', pullRequest: 42, timestamp: '2026-01-30T09:00:00Z', scanDuration: 10 },
+  qualityGate: { status: 'ERROR', conditions: [] },
+  issuesSummary: { total: 4 },
+} as unknown as SonarQubeResults;
+
+function run(id: string, headSha: string, score: number, overrides: Partial<ReviewRun> = {}): ReviewRun {
+  return {
+    id,
+    headSha,
+    createdAt: '2026-01-30T09:00:00Z',
+    command: 'review',
+    review: review(score),
+    sonarResults: null,
+    businessLogicValidation: null,
+    ...overrides,
+  };
+}
+
+describe('reviewRunRows', () => {
+  it('splits a run into rows and reads it back', () => {
+    const record: ReviewRunRecord = {
+      headSha: 'bbbbbbb222',
+      command: 'review',
+      review: review(72, [suggestion('2', 'high'), { ...suggestion('1', 'low'), code: { before: 'a', after: 'b' } }]),
+      sonarResults: sonar,
+      businessLogicValidation: null,
+    };
+
+    const rows = reviewRunRows(record);
+
+    expect(rows.run).toMatchObject({ head_sha: 'bbbbbbb222', model: 'gpt-4o', prompt_hash: '0a1b2c3d', prompt_tokens: 1200, completion_tokens: 300, overall_score: 72 });
+    expect(rows.run.review).not.toHaveProperty('suggestions');
+    expect(rows.suggestions.map(s => [s.position, s.suggestion_id, s.fingerprint.length])).toEqual([[0, '2', 8], [1, '1', 8]]);
+    expect(rows.sonar).toMatchObject({ head_sha: 'bbbbbbb222', quality_gate: 'ERROR', issues_total: 4 });
+
+    const restored = reviewRunFromRow({
+      ...rows.run,
+      id: 'run-1',
+      created_at: '2026-01-30T09:01:00Z',
+      ai_suggestions: [...rows.suggestions].reverse(),
+      sonar_snapshots: [rows.sonar],
+    });
+
+    expect(restored).toEqual({ ...record, id: 'run-1', createdAt: '2026-01-30T09:01:00Z' });
+  });
+});
+
+describe('reviewTimeline', () => {
+  it('follows scores and open issues across full reviews, newest first', () => {
+    const runs = [
+      run('3', 'ccc', 80, { review: review(80, [suggestion('1', 'critical', 'rejected'), suggestion('2', 'medium')]), sonarResults: sonar }),
+      run('title', 'ccc', 0, { command: 'title' }),
+      run('2', 'bbb', 65, { review: review(65, [suggestion('1', 'critical'), suggestion('2', 'high')]) }),
+      run('1', 'aaa', 65),
+    ];
+
+    const timeline = reviewTimeline(runs);
+
+    expect(timeline.map(e => [e.id, e.overallScore, e.scoreChange])).toEqual([['3', 80, 15], ['2', 65, 0], ['1', 65, null]]);
+    expect(timeline[0].issues).toEqual({ low: 0, medium: 1, high: 0, critical: 0 });
+    expect(timeline[1].issues).toEqual({ low: 0, medium: 0, high: 1, critical: 1 });
+    expect(timeline.map(e => e.sonarIssues)).toEqual([4, null, null]);
+  });
+});
+
+describe('runReviewPipeline with review history', () => {
+  it('saves the run with its results after business logic validation', async () => {
+    const saved: ReviewRunRecord[] = [];
+    const adapters: ReviewPipelineAdapters = {
+      github: {
+        fetchPRFiles: async () => [{ filename: 'src/cart.ts', status: 'modified', additions: 3, deletions: 1, patch: '@@ -1 +1 @@' }],
+        postReviewComment: async () => {},
+        mergePR: async () => {},
+      },
+      ai: {
+        generateReview: async () => review(70),
+        validateBusinessLogic: async () => { throw new Error('not used'); },
+      },
+      sonar: { fetchResults: async () => sonar },
+      runs: { save: async (_pr, record) => { saved.push(record); } },
+    };
+
+    const result = await runReviewPipeline(pr, { aiConfig: { ...DEFAULT_AI_CONFIG, apiKey: 'k' } }, adapters);
+
+    expect(result.status).toBe('completed');
+    expect(saved).toEqual([{ headSha: 'bbbbbbb222', command: 'review', review: result.review, sonarResults: sonar, businessLogicValidation: null }]);
+  });
+});
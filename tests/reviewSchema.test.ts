@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseAnswer, REVIEW_ANSWER, TEXT_ANSWERS } from '../src/lib/reviewSchema';
+import { requestAnswer } from '../src/lib/aiReview';
+import type { AICompleter, AICompletionRequest } from '../src/lib/aiProviders';
+import { DEFAULT_AI_CONFIG } from '../src/types/codeReview';
+
+const review = {
+  summary: 'Adds retries',
+  overallScore: 82,
+  categories: { codeQuality: 80, security: 90, performance: 75, maintainability: 85, testability: 70 },
+  suggestions: [{ type: 'bug', severity: 'high', file: 'src/a.ts', line: null, message: 'Off by one', suggestion: '' }],
+  recommendation: 'COMMENT',
+};
+
+describe('parseAnswer', () => {
+  it('accepts a valid review, fenced or bare', () => {
+    expect(parseAnswer(`Here you go:\n\`\`\`json\n${JSON.stringify(review)}\n\`\`\``, REVIEW_ANSWER).suggestions[0].line).toBeNull();
+    expect(parseAnswer(JSON.stringify(review), REVIEW_ANSWER).overallScore).toBe(82);
+  });
+
+  it('lists missing scores instead of filling them in', () => {
+    const { categories, ...rest } = review;
+    const answer = JSON.stringify({ ...rest, overallScore: 140, categories: { security: 90 } });
+
+    expect(() => parseAnswer(answer, REVIEW_ANSWER)).toThrow('overallScore: Number must be less than or equal to 100');
+    expect(() => parseAnswer(answer, REVIEW_ANSWER)).toThrow('categories.codeQuality: Required');
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseAnswer('The PR looks fine to me.', TEXT_ANSWERS.summary)).toThrow('the answer is not valid JSON');
+  });
+});
+
+describe('requestAnswer', () => {
+  const config = { ...DEFAULT_AI_CONFIG, apiKey: 'k' };
+  const scripted = (answers: string[], requests: AICompletionRequest[]): AICompleter => async (request) => {
+    requests.push(request);
+    return answers[requests.length - 1];
+  };
+
+  it('sends the schema and repairs an invalid answer once', async () => {
+    const requests: AICompletionRequest[] = [];
+    const complete = scripted(['{"title": ""}', '{"title": "fix: handle empty lists"}'], requests);
+
+    const answer = await requestAnswer(config, 'Suggest a title', TEXT_ANSWERS.title, complete);
+
+    expect(answer).toEqual({ title: 'fix: handle empty lists' });
+    expect(requests[0].responseSchema?.name).toBe('submit_title');
+    expect(requests[1].prompt).toContain('title: String must contain at least 1 character(s)');
+    expect(requests[1].prompt).toContain('{"title": ""}');
+  });
+
+  it('fails when the repaired answer is still invalid', async () => {
+    const requests: AICompletionRequest[] = [];
+    const complete = scripted(['{"summary": "ok"}', '{"summary": "ok", "overallScore": 70}'], requests);
+
+    await expect(requestAnswer(config, 'Review', REVIEW_ANSWER, complete)).rejects.toThrow('did not match the expected format');
+    expect(requests).toHaveLength(2);
+  });
+});
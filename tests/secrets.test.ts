@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { isSecretConfigured, maskAIConfig, maskSecret, splitReviewerKeys, splitSecret, withReviewerKeyHints, withReviewerKeys, withSecret, withSecretHint } from '../src/lib/secrets';
+import { DEFAULT_AI_CONFIG, type AIConfig, type GitHubConfig } from '../src/types/codeReview';
+
+const github: GitHubConfig = { token: ' ghp_abcd1234 ', owner: 'acme', repo: 'payments' };
+
+describe('splitSecret', () => {
+  it('blanks the secrets and hints in the stored JSON and returns the trimmed secrets', () => {
+    const { stored, secrets } = splitSecret('github', { ...github, tokenLastFour: '9999', webhookSecret: 'whsec_5678', webhookSecretLastFour: '0000' });
+
+    expect(stored).toEqual({ token: '', webhookSecret: '', owner: 'acme', repo: 'payments' });
+    expect(secrets).toEqual([['github_token', 'ghp_abcd1234'], ['github_webhook_secret', 'whsec_5678']]);
+  });
+
+  it('returns no secret for a blank field so the stored one is kept', () => {
+    expect(splitSecret('ai', { ...DEFAULT_AI_CONFIG, apiKey: '  ' }).secrets).toEqual([]);
+    expect(splitSecret('sonar', { enabled: true, hostUrl: 'https://sonarcloud.io', token: '', projectKey: 'shop' })).toEqual({
+      stored: { enabled: true, hostUrl: 'https://sonarcloud.io', token: '', projectKey: 'shop' },
+      secrets: [],
+    });
+  });
+});
+
+describe('maskSecret', () => {
+  it('replaces a newly entered secret with its last four characters', () => {
+    expect(maskSecret('github', github)).toEqual({ token: '', tokenLastFour: '1234', webhookSecret: '', owner: 'acme', repo: 'payments' });
+  });
+
+  it('keeps the previous hint when the field was left blank', () => {
+    const config: AIConfig = { ...DEFAULT_AI_CONFIG, apiKey: '', apiKeyLastFour: 'wxyz' };
+    expect(maskSecret('ai', config).apiKeyLastFour).toBe('wxyz');
+  });
+});
+
+describe('hints and server-side secrets', () => {
+  it('adds the hint stored for the workspace', () => {
+    const config = withSecretHint('jira', { apiToken: '' }, { jira_api_token: 'tk42' });
+    expect(config).toEqual({ apiToken: '', apiTokenLastFour: 'tk42' });
+    expect(isSecretConfigured(config.apiToken, config.apiTokenLastFour)).toBe(true);
+  });
+
+  it('treats a config without secret or hint as not configured', () => {
+    const config = withSecretHint('ai', DEFAULT_AI_CONFIG, {});
+    expect(isSecretConfigured(config.apiKey, config.apiKeyLastFour)).toBe(false);
+  });
+
+  it('puts the decrypted secret back on the config', () => {
+    const config = withSecret('github', { ...github, token: '' }, { github_token: 'ghs_install', github_webhook_secret: 'whsec_5678' });
+    expect(config).toMatchObject({ token: 'ghs_install', webhookSecret: 'whsec_5678' });
+    expect(withSecret('github', github, {}).token).toBe('');
+    expect(withSecret('sonar', { token: '' }, { sonar_token: 'squ_1234' }).token).toBe('squ_1234');
+  });
+});
+
+describe('consensus reviewer keys', () => {
+  const config: AIConfig = {
+    ...DEFAULT_AI_CONFIG,
+    apiKey: '',
+    apiKeyLastFour: 'prim',
+    consensus: {
+      enabled: true,
+      requireAll: false,
+      reviewers: [
+        { provider: 'anthropic', model: 'claude-3-haiku-20240307', apiKey: ' sk-ant-9876 ' },
+        { provider: 'openai', model: 'gpt-4o-mini', apiKey: 'ignored' },
+      ],
+    },
+  };
+
+  it('stores keys per provider, except for the primary provider', () => {
+    const { stored, secrets } = splitReviewerKeys(config);
+
+    expect(secrets).toEqual([['ai_api_key:anthropic', 'sk-ant-9876']]);
+    expect(stored.consensus?.reviewers).toEqual([
+      { provider: 'anthropic', model: 'claude-3-haiku-20240307' },
+      { provider: 'openai', model: 'gpt-4o-mini' },
+    ]);
+  });
+
+  it('gives reviewers on the primary provider the primary hint and key', () => {
+    const hinted = withReviewerKeyHints(splitReviewerKeys(config).stored, { ai_api_key: 'prim', 'ai_api_key:anthropic': '9876' });
+    expect(hinted.consensus?.reviewers.map(r => r.apiKeyLastFour)).toEqual(['9876', 'prim']);
+
+    const server = withReviewerKeys({ ...config, apiKey: 'sk-primary' }, { 'ai_api_key:anthropic': 'sk-ant' });
+    expect(server.consensus?.reviewers.map(r => r.apiKey)).toEqual(['sk-ant', 'sk-primary']);
+  });
+
+  it('masks entered reviewer keys after saving', () => {
+    expect(maskAIConfig(config).consensus?.reviewers.map(r => [r.apiKey, r.apiKeyLastFour])).toEqual([['', '9876'], ['', 'prim']]);
+  });
+});
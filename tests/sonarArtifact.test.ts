@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { fetchSonarArtifact, parseSonarArtifact, readSonarResultsFile } from '../src/lib/sonarArtifact';
+
+const artifact = {
+  scan_metadata: {
+    project_key: 'acme_shop',
+    pull_request: '42',
+    branch: 'feature/cart',
+    base_branch: 'main',
+    commit_sha: 'abc1234def',
+    scan_date: '2026-01-18T10:00:00Z',
+    sonarqube_url: 'https://sonar.acme.dev',
+  },
+  quality_gate: { status: 'ERROR', passed: false },
+  metrics: {
+    bugs: { value: 1, threshold: 0, exceeded: true },
+    vulnerabilities: { value: 0, threshold: 0, exceeded: false },
+    code_smells: { value: 3, threshold: 10, exceeded: false },
+    security_hotspots: { value: 0, threshold: 0, exceeded: false },
+    coverage: { value: 84.25, threshold: 80, unit: 'percent', exceeded: false },
+    duplications: { value: 0.5, threshold: 3, unit: 'percent', exceeded: false },
+    reliability_rating: 3,
+    security_rating: 1,
+    maintainability_rating: 1,
+  },
+  issues_summary: {
+    total: 4,
+    by_severity: {
+      blocker: { count: 0, threshold: 0, exceeded: false },
+      critical: { count: 1, threshold: 0, exceeded: true },
+      major: { count: 2, threshold: 5, exceeded: false },
+      minor: { count: 1 },
+    },
+    by_type: { bug: 1, vulnerability: 0, code_smell: 3, security_hotspot: 0 },
+  },
+  threshold_check: { exceeded: true, violations: ['bugs', 'critical_issues'] },
+  issues_detailed: [
+    { severity: 'CRITICAL', type: 'BUG', rule: 'java:S2259', message: 'NPE', component: 'acme_shop:src/Cart.java', line: 10, status: 'OPEN', effort: '5min', creationDate: '2026-01-18' },
+  ],
+  links: {
+    dashboard: 'https://sonar.acme.dev/dashboard?id=acme_shop&pullRequest=42',
+    issues: 'https://sonar.acme.dev/project/issues?id=acme_shop&pullRequest=42',
+    quality_gate: 'https://sonar.acme.dev/project/quality_gate?id=acme_shop',
+  },
+};
+
+// Builds a single-entry ZIP archive the way upload-artifact lays it out
+function buildZip(name: string, content: string, deflate: boolean): ArrayBuffer {
+  const nameBytes = Buffer.from(name);
+  const raw = Buffer.from(content);
+  const data = deflate ? deflateRawSync(raw) : raw;
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(deflate ? 8 : 0, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(raw.length, 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(deflate ? 8 : 0, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(raw.length, 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+  central.writeUInt32LE(0, 42);
+
+  const centralOffset = local.length + nameBytes.length + data.length;
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 8);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.length + nameBytes.length, 12);
+  eocd.writeUInt32LE(centralOffset, 16);
+
+  const zip = Buffer.concat([local, nameBytes, data, central, nameBytes, eocd]);
+  return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.length);
+}
+
+describe('parseSonarArtifact', () => {
+  it('converts the workflow JSON to SonarQubeResults', () => {
+    const results = parseSonarArtifact(artifact);
+
+    expect(results.scanMetadata).toMatchObject({ projectKey: 'acme_shop', pullRequest: 42, commitSha: 'abc1234def', source: 'artifact' });
+    expect(results.qualityGate.status).toBe('ERROR');
+    expect(results.metrics.coverage.value).toBe('84.3');
+    expect(results.metrics.codeSmells).toEqual({ value: 3, threshold: 10, exceeded: false });
+    expect(results.issuesSummary.bySeverity.info.count).toBe(0);
+    expect(results.issuesSummary.total).toBe(4);
+    expect(results.thresholdCheck.violations).toEqual(['Bugs: 1 (threshold: 0)', 'Critical Issues: 1 (threshold: 0)']);
+    expect(results.issuesDetailed[0]).toMatchObject({ component: 'src/Cart.java', line: 10, key: 'java:S2259-0' });
+    expect(results.links.securityHotspots).toBe('https://sonar.acme.dev/security_hotspots?id=acme_shop&pullRequest=42');
+  });
+
+  it('rejects documents missing required sections', () => {
+    const { metrics: _metrics, ...broken } = artifact;
+    expect(() => parseSonarArtifact(broken)).toThrow(/metrics/);
+  });
+});
+
+describe('readSonarResultsFile', () => {
+  it.each([false, true])('reads sonar-results.json from a zip (deflate=%s)', async (deflate) => {
+    const zip = buildZip('sonar-results.json', JSON.stringify(artifact), deflate);
+    const results = await readSonarResultsFile(zip);
+    expect(results.scanMetadata.pullRequest).toBe(42);
+  });
+
+  it('reads a plain JSON file', async () => {
+    const buffer = new TextEncoder().encode(JSON.stringify(artifact)).buffer;
+    const results = await readSonarResultsFile(buffer);
+    expect(results.qualityGate.status).toBe('ERROR');
+  });
+});
+
+describe('fetchSonarArtifact', () => {
+  const config = { token: 'ghp_test', owner: 'acme', repo: 'shop' };
+
+  it('downloads the newest unexpired artifact for the head SHA', async () => {
+    const zip = buildZip('sonar-results.json', JSON.stringify(artifact), true);
+    const calls: string[] = [];
+    const fetchImpl = (async (url: string) => {
+      calls.push(url);
+      if (url.includes('/actions/artifacts?')) {
+        return new Response(JSON.stringify({
+          artifacts: [
+            { id: 1, name: 'sonarqube-results', expired: false, created_at: '2026-01-17T00:00:00Z', archive_download_url: 'https://dl/1', workflow_run: { head_sha: 'abc1234def' } },
+            { id: 2, name: 'sonarqube-results', expired: false, created_at: '2026-01-18T00:00:00Z', archive_download_url: 'https://dl/2', workflow_run: { head_sha: 'abc1234def' } },
+            { id: 3, name: 'sonarqube-results', expired: true, created_at: '2026-01-19T00:00:00Z', archive_download_url: 'https://dl/3', workflow_run: { head_sha: 'abc1234def' } },
+            { id: 4, name: 'sonarqube-results', expired: false, created_at: '2026-01-19T00:00:00Z', archive_download_url: 'https://dl/4', workflow_run: { head_sha: 'other' } },
+          ],
+        }));
+      }
+      return new Response(zip);
+    }) as typeof fetch;
+
+    const results = await fetchSonarArtifact(config, 'abc1234def', fetchImpl);
+
+    expect(results?.scanMetadata.pullRequest).toBe(42);
+    expect(calls[1]).toBe('https://dl/2');
+  });
+
+  it('returns null when CI has not produced an artifact for the SHA', async () => {
+    const fetchImpl = (async () => new Response(JSON.stringify({ artifacts: [] }))) as typeof fetch;
+    expect(await fetchSonarArtifact(config, 'abc1234def', fetchImpl)).toBeNull();
+  });
+});
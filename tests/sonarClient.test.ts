@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { fetchSonarResults, isSonarServerUrl, testSonarConnection } from '../src/lib/sonarClient';
+import { DEFAULT_THRESHOLDS, SonarConfig } from '../src/types/codeReview';
+
+const routes: Record<string, unknown> = {
+  '/api/qualitygates/project_status': {
+    projectStatus: {
+      status: 'ERROR',
+      conditions: [
+        { status: 'ERROR', metricKey: 'new_coverage', comparator: 'LT', errorThreshold: '80', actualValue: '62.5' },
+      ],
+    },
+  },
+  '/api/measures/component': {
+    component: {
+      measures: [
+        { metric: 'new_bugs', period: { value: '2' } },
+        { metric: 'new_vulnerabilities', period: { value: '0' } },
+        { metric: 'new_code_smells', period: { value: '4' } },
+        { metric: 'new_coverage', period: { value: '62.5' } },
+        { metric: 'new_duplicated_lines_density', period: { value: '1.2' } },
+        { metric: 'new_technical_debt', period: { value: '135' } },
+      ],
+    },
+  },
+  '/api/issues/search': {
+    total: 2,
+    issues: [
+      { key: 'AX1', severity: 'MAJOR', type: 'BUG', message: 'Null dereference', component: 'demo:src/app.ts', line: 12, rule: 'typescript:S2259', status: 'OPEN' },
+      { key: 'AX2', severity: 'BLOCKER', type: 'BUG', message: 'Infinite loop', component: 'demo:src/loop.ts', line: 3, rule: 'typescript:S2189', status: 'OPEN' },
+    ],
+    facets: [{ property: 'severities', values: [{ val: 'MAJOR', count: 1 }, { val: 'BLOCKER', count: 1 }] }],
+  },
+  '/api/hotspots/search': {
+    paging: { total: 1 },
+    hotspots: [
+      { key: 'HS1', component: 'demo:src/crypto.ts', line: 7, message: 'Weak hash', status: 'TO_REVIEW', vulnerabilityProbability: 'HIGH', ruleKey: 'typescript:S4790' },
+    ],
+  },
+  '/api/authentication/validate': { valid: true },
+};
+
+let server: Server;
+let config: SonarConfig;
+const requests: IncomingMessage[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(req);
+    const path = (req.url || '').split('?')[0];
+    const body = routes[path];
+    res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body ?? { errors: [{ msg: `Unknown url: ${path}` }] }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  config = { enabled: true, hostUrl: `http://127.0.0.1:${port}/`, token: 'squ_test', projectKey: 'demo' };
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('fetchSonarResults', () => {
+  it('maps the Web API responses for a pull request', async () => {
+    const results = await fetchSonarResults(config, 42, DEFAULT_THRESHOLDS);
+
+    expect(results.qualityGate.status).toBe('ERROR');
+    expect(results.qualityGate.conditions[0]).toMatchObject({ metric: 'new_coverage', value: '62.5', errorThreshold: '80' });
+    expect(results.metrics.bugs).toEqual({ value: 2, threshold: 0, exceeded: true });
+    expect(results.metrics.coverage.value).toBe('62.5');
+    expect(results.metrics.securityHotspots.value).toBe(1);
+    expect(results.metrics.technicalDebt.value).toBe('2h 15min');
+    expect(results.issuesSummary.bySeverity.blocker.count).toBe(1);
+    expect(results.issuesSummary.total).toBe(2 + 0 + 4 + 1);
+    expect(results.issuesDetailed.map(i => i.component)).toEqual(['src/app.ts', 'src/loop.ts', 'src/crypto.ts']);
+    expect(results.issuesDetailed[2]).toMatchObject({ type: 'SECURITY_HOTSPOT', severity: 'CRITICAL' });
+    expect(results.thresholdCheck.exceeded).toBe(true);
+    expect(results.links.dashboard).toContain('/dashboard?id=demo&pullRequest=42');
+  });
+
+  it('sends the token as basic auth and scopes every query to the PR', async () => {
+    requests.length = 0;
+    await fetchSonarResults(config, 42, DEFAULT_THRESHOLDS);
+
+    expect(requests).toHaveLength(4);
+    for (const req of requests) {
+      expect(req.headers.authorization).toBe(`Basic ${btoa('squ_test:')}`);
+      expect(req.url).toContain('pullRequest=42');
+    }
+  });
+
+  it('leaves the credentials to the proxy when the token stays server-side', async () => {
+    requests.length = 0;
+    await testSonarConnection({ ...config, token: '', tokenLastFour: 'test' });
+
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('surfaces Sonar error messages', async () => {
+    await expect(fetchSonarResults({ ...config, hostUrl: `${config.hostUrl}missing` }, 1, DEFAULT_THRESHOLDS))
+      .rejects.toThrow(/Unknown url/);
+  });
+});
+
+describe('testSonarConnection', () => {
+  it('returns true when the token is valid', async () => {
+    expect(await testSonarConnection(config)).toBe(true);
+  });
+});
+
+describe('isSonarServerUrl', () => {
+  it('only matches API calls on the configured server', () => {
+    expect(isSonarServerUrl(new URL('https://sonar.acme.dev/sonar/api/issues/search?ps=1'), 'https://sonar.acme.dev/sonar/')).toBe(true);
+    expect(isSonarServerUrl(new URL('https://sonar.acme.dev/other/api/issues/search'), 'https://sonar.acme.dev/sonar')).toBe(false);
+    expect(isSonarServerUrl(new URL('https://sonar.acme.dev.evil.io/api/issues/search'), 'https://sonar.acme.dev')).toBe(false);
+    expect(isSonarServerUrl(new URL('https://sonarcloud.io/api/issues/search'), '')).toBe(false);
+  });
+});
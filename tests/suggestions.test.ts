@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { applySavedStatuses, applySuggestionToBranch, replaceSuggestedLines, toStatusRecord } from '../src/lib/suggestions';
+import type { AICodeSuggestion, AIReviewResult, GitHubConfig, PullRequest } from '../src/types/codeReview';
+
+const config: GitHubConfig = { token: 't', owner: 'acme', repo: 'shop' };
+const pr = { number: 42, head: { ref: 'feature/discounts', sha: 'abc1234def', repository: 'acme/shop' } } as PullRequest;
+
+const source = [
+  'export function total(cart: Cart) {',
+  '  const sum = cart.items.reduce((a, i) => a + i.price, 0);',
+  '  return sum - cart.discount;',
+  '}',
+  '',
+].join('\n');
+
+const fix: AICodeSuggestion = {
+  id: '1',
+  type: 'bug',
+  severity: 'high',
+  file: 'src/cart.ts',
+  line: 3,
+  message: 'Discount can go negative',
+  suggestion: 'Clamp at zero',
+  code: { before: '  return sum - cart.discount;', after: '  return Math.max(0, sum - cart.discount);' },
+  status: 'pending',
+};
+
+describe('replaceSuggestedLines', () => {
+  it('replaces the lines code.before covers', () => {
+    expect(replaceSuggestedLines(source, fix)).toBe(source.replace('return sum - cart.discount', 'return Math.max(0, sum - cart.discount)'));
+  });
+
+  it('keeps CRLF line endings', () => {
+    const crlf = source.replace(/\n/g, '\r\n');
+    expect(replaceSuggestedLines(crlf, fix).split('\r\n')[2]).toBe('  return Math.max(0, sum - cart.discount);');
+  });
+
+  it('refuses when the file changed since the review', () => {
+    expect(() => replaceSuggestedLines(source, { ...fix, line: 2 })).toThrow(/no longer matches/);
+  });
+});
+
+describe('applySavedStatuses', () => {
+  it('drops rejected suggestions and carries other decisions over by fingerprint', () => {
+    const other = { ...fix, id: '2', message: 'Name the magic number' };
+    const review = { suggestions: [{ ...fix, id: '7' }, other] } as AIReviewResult;
+    const records = [toStatusRecord(pr, fix, 'rejected'), toStatusRecord(pr, other, 'accepted')];
+
+    expect(applySavedStatuses(review, records).suggestions).toEqual([{ ...other, status: 'accepted' }]);
+  });
+});
+
+describe('applySuggestionToBranch', () => {
+  it('commits the change to the PR branch on top of the current blob', async () => {
+    const calls: { method: string; url: string; body?: Record<string, string> }[] = [];
+    const fetchImpl = (async (url: string, init: RequestInit = {}) => {
+      const method = init.method || 'GET';
+      calls.push({ method, url, body: init.body ? JSON.parse(init.body as string) : undefined });
+      return method === 'GET'
+        ? new Response(JSON.stringify({ content: Buffer.from(source).toString('base64'), encoding: 'base64', sha: 'blob1' }))
+        : new Response(JSON.stringify({ commit: { sha: 'c0ffee1234' } }));
+    }) as typeof fetch;
+
+    const commitSha = await applySuggestionToBranch(config, pr, fix, fetchImpl);
+
+    expect(commitSha).toBe('c0ffee1234');
+    expect(calls[0].url).toBe('https://api.github.com/repos/acme/shop/contents/src/cart.ts?ref=feature%2Fdiscounts');
+    expect(calls[1]).toMatchObject({ method: 'PUT', body: { sha: 'blob1', branch: 'feature/discounts' } });
+    expect(Buffer.from(calls[1].body!.content, 'base64').toString()).toContain('Math.max(0, sum - cart.discount)');
+  });
+
+  it('commits to the fork a fork PR comes from, even when its branch name exists in the base repository', async () => {
+    const urls: string[] = [];
+    const fetchImpl = (async (url: string, init: RequestInit = {}) => {
+      urls.push(`${init.method || 'GET'} ${url}`);
+      return init.method
+        ? new Response(JSON.stringify({ commit: { sha: 'c0ffee1234' } }))
+        : new Response(JSON.stringify({ content: Buffer.from(source).toString('base64'), encoding: 'base64', sha: 'blob1' }));
+    }) as typeof fetch;
+    const forkPR = { ...pr, head: { ref: 'main', sha: 'abc1234def', repository: 'contributor/shop' } };
+
+    await applySuggestionToBranch(config, forkPR, fix, fetchImpl);
+
+    expect(urls).toEqual([
+      'GET https://api.github.com/repos/contributor/shop/contents/src/cart.ts?ref=main',
+      'PUT https://api.github.com/repos/contributor/shop/contents/src/cart.ts',
+    ]);
+  });
+
+  it('refuses when the head repository is unknown', async () => {
+    const fetchImpl = (async () => { throw new Error('no request expected'); }) as typeof fetch;
+    const deletedFork = { ...pr, head: { ref: 'main', sha: 'abc1234def', repository: null } };
+
+    await expect(applySuggestionToBranch(config, deletedFork, fix, fetchImpl)).rejects.toThrow(/head repository of PR #42 is unknown/);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { findRepository, githubConfigFor, mergePullRequestQueues, parseRepositoryKey, resolveRepositorySettings } from '../src/lib/workspace';
+import { DEFAULT_AI_CONFIG, DEFAULT_JIRA_CONFIG, DEFAULT_THRESHOLDS, type PullRequest, type WorkspaceRepository } from '../src/types/codeReview';
+
+const defaults = { ai: DEFAULT_AI_CONFIG, thresholds: DEFAULT_THRESHOLDS, jira: DEFAULT_JIRA_CONFIG };
+
+describe('resolveRepositorySettings', () => {
+  it('applies only the overrides the repository sets', () => {
+    const repository: WorkspaceRepository = {
+      owner: 'acme',
+      repo: 'payments',
+      thresholds: { bugs: 3 },
+      aiOverrides: { model: 'gpt-4o-mini', autoMergeEnabled: true },
+      jiraProjectKey: 'PAY',
+    };
+
+    const settings = resolveRepositorySettings(defaults, repository);
+
+    expect(settings.thresholds).toEqual({ ...DEFAULT_THRESHOLDS, bugs: 3 });
+    expect(settings.ai).toEqual({ ...DEFAULT_AI_CONFIG, model: 'gpt-4o-mini', autoMergeEnabled: true });
+    expect(settings.jira.projectKeyPattern).toBe('PAY');
+  });
+
+  it('keeps the workspace defaults for an unknown repository', () => {
+    expect(resolveRepositorySettings(defaults, undefined)).toBe(defaults);
+  });
+});
+
+describe('repository lookup', () => {
+  const repositories: WorkspaceRepository[] = [{ owner: 'Acme', repo: 'Shop' }, { owner: 'acme', repo: 'payments' }];
+
+  it('matches owner/repo case-insensitively', () => {
+    expect(findRepository(repositories, 'acme/shop')).toBe(repositories[0]);
+    expect(findRepository(repositories, 'acme/unknown')).toBeUndefined();
+  });
+
+  it('points the workspace credentials at one repository', () => {
+    const config = githubConfigFor({ token: 't', owner: 'acme', repo: 'shop', authMode: 'token' }, repositories[1]);
+    expect(config).toEqual({ token: 't', owner: 'acme', repo: 'payments', authMode: 'token' });
+  });
+
+  it('splits keys but not the all-repositories marker', () => {
+    expect(parseRepositoryKey('acme/shop')).toEqual({ owner: 'acme', repo: 'shop' });
+    expect(parseRepositoryKey('all')).toBeNull();
+  });
+});
+
+describe('mergePullRequestQueues', () => {
+  const pr = (repository: string, number: number, updatedAt: string) => ({ id: number, number, repository, updatedAt }) as PullRequest;
+
+  it('interleaves repositories by last update', () => {
+    const merged = mergePullRequestQueues([
+      [pr('acme/shop', 1, '2026-01-20T12:00:00Z'), pr('acme/shop', 2, '2026-01-18T12:00:00Z')],
+      [pr('acme/payments', 3, '2026-01-19T12:00:00Z')],
+    ]);
+
+    expect(merged.map(p => p.number)).toEqual([1, 3, 2]);
+  });
+});